@@ -73,7 +73,10 @@ export const autoEnhanceAnalysis = catchAsync(async (req, res, next) => {
     // Get all visible layers sorted by order (bottom to top)
     const layers = await Layer.find({ 
         project: projectId, 
-        visible: true 
+        visible: true,
+        type: { $nin: ['adjustment', 'text', 'group'] },
+        mergedInto: null,
+        deletedAt: null
     }).sort({ order: 1 });
 
     if (layers.length === 0) {
@@ -236,7 +239,10 @@ export const applyEnhancements = catchAsync(async (req, res, next) => {
     // Get all visible layers sorted by order
     const layers = await Layer.find({ 
         project: projectId, 
-        visible: true 
+        visible: true,
+        type: { $nin: ['adjustment', 'text', 'group'] },
+        mergedInto: null,
+        deletedAt: null
     }).sort({ order: 1 });
 
     if (layers.length === 0) {
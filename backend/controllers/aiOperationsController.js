@@ -11,6 +11,7 @@ import { promisify } from 'util';
 import { fileURLToPath } from 'url';
 import https from 'https';
 import { pipeline } from 'stream/promises';
+import sharp from 'sharp';
 
 const execAsync = promisify(exec);
 
@@ -369,6 +370,19 @@ export const separateLayers = catchAsync(async (req, res, next) => {
 
     const result = await separateLayersInternal(imageUrl, projectId);
 
+    // Save both separated images to database so later AI operations can find them
+    await Promise.all([result.foreground, result.background].map(separated =>
+        Image.create({
+            user: req.user._id,
+            publicId: separated.publicId,
+            imageUrl: separated.imageUrl,
+            format: separated.format,
+            width: separated.width,
+            height: separated.height,
+            size: separated.size,
+        })
+    ));
+
     res.status(200).json({
         success: true,
         message: 'Layers separated successfully',
@@ -379,17 +393,100 @@ export const separateLayers = catchAsync(async (req, res, next) => {
 
 
 
+// Ranges of the directional relight parameters
+const RELIGHT_LIMITS = {
+    temperature: [2000, 10000], // Kelvin
+    intensity: [0.1, 2],
+    hardness: [0, 1]
+};
+const RELIGHT_PREVIEW_EDGE = 512; // Longest edge of a relight preview, in pixels
+
+// Check the light of a directional relight: where it is (0-1 of the image
+// width and height), its colour temperature, intensity and hardness
+function parseRelightParams(light) {
+    const inRange = (value, [min, max]) => typeof value === 'number' && value >= min && value <= max;
+
+    if (!inRange(light?.x, [0, 1]) || !inRange(light?.y, [0, 1])) {
+        throw new AppError('Light position must be between 0 and 1', 400);
+    }
+    for (const [name, range] of Object.entries(RELIGHT_LIMITS)) {
+        if (!inRange(light[name], range)) {
+            throw new AppError(`Light ${name} must be between ${range[0]} and ${range[1]}`, 400);
+        }
+    }
+
+    const { x, y, temperature, intensity, hardness } = light;
+    return { x, y, temperature, intensity, hardness };
+}
+
+// Colour of light at a colour temperature (Tanner Helland's approximation)
+function kelvinToRgb(kelvin) {
+    const t = kelvin / 100;
+    const clamp = value => Math.round(Math.max(0, Math.min(255, value)));
+
+    const r = t <= 66 ? 255 : 329.698727446 * Math.pow(t - 60, -0.1332047592);
+    const g = t <= 66
+        ? 99.4708025861 * Math.log(t) - 161.1195681661
+        : 288.1221695283 * Math.pow(t - 60, -0.0755148492);
+    const b = t >= 66 ? 255 : t <= 19 ? 0 : 138.5177312231 * Math.log(t - 10) - 305.0447927307;
+
+    return { r: clamp(r), g: clamp(g), b: clamp(b) };
+}
+
+// Light an image from a point: brighter and tinted near the light, darker
+// away from it. Hard light falls off quickly into deep shadow; soft light
+// spreads wide with gentle shadows.
+async function applyDirectionalLight(inputPath, outputPath, light) {
+    const { width, height } = await sharp(inputPath).metadata();
+    const { r, g, b } = kelvinToRgb(light.temperature);
+    const color = `rgb(${r},${g},${b})`;
+
+    const reach = 100 - light.hardness * 50; // Gradient radius, % of the image
+    const peak = Math.min(1, 0.35 + light.intensity * 0.3);
+    const shadow = Math.min(0.9, 0.15 + light.hardness * 0.5);
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+        <defs>
+            <radialGradient id="light" cx="${light.x * 100}%" cy="${light.y * 100}%" r="${reach}%">
+                <stop offset="0%" stop-color="${color}" stop-opacity="${peak}"/>
+                <stop offset="${Math.round(light.hardness * 60)}%" stop-color="${color}" stop-opacity="${peak * 0.6}"/>
+                <stop offset="100%" stop-color="black" stop-opacity="${shadow}"/>
+            </radialGradient>
+        </defs>
+        <rect width="100%" height="100%" fill="url(#light)"/>
+    </svg>`;
+
+    await sharp(inputPath)
+        .composite([{ input: Buffer.from(svg), blend: 'soft-light' }])
+        .toFile(outputPath);
+}
+
 // @desc    Relight image using AI model
 // @route   POST /api/ai/relight
 // @access  Private
+// With `light` the relit image is also lit from a direction (see
+// applyDirectionalLight) and the model brightness follows its intensity.
+// With `preview: true` a small version is processed and returned as a data
+// URI, without saving anything.
 export const relightImage = catchAsync(async (req, res, next) => {
-    const { publicId, brightness = 0.5 } = req.body;
+    const { publicId, preview = false } = req.body;
+    let { brightness = 0.5 } = req.body;
 
     // Validation
     if (!publicId) {
         return next(new AppError('Please provide image public ID', 400));
     }
 
+    let light = null;
+    if (req.body.light !== undefined) {
+        try {
+            light = parseRelightParams(req.body.light);
+        } catch (err) {
+            return next(err);
+        }
+        brightness = Math.max(0.1, Math.min(3.0, Math.round(light.intensity * 1.5 * 100) / 100));
+    }
+
     if (brightness < 0.1 || brightness > 3.0) {
         return next(new AppError('Brightness must be between 0.1 and 3.0', 400));
     }
@@ -416,18 +513,31 @@ export const relightImage = catchAsync(async (req, res, next) => {
     }
 
     // Prepare paths with unique identifiers to avoid conflicts
-    const inputFilename = path.basename(inputPath);
     const uniqueId = Date.now() + '_' + Math.random().toString(36).slice(2, 11);
+    const tempPaths = [inputPath];
+
+    // A preview processes a small copy
+    let modelInputPath = inputPath;
+    if (preview) {
+        modelInputPath = path.join(path.dirname(inputPath), `${path.parse(inputPath).name}_preview_${uniqueId}${path.extname(inputPath)}`);
+        tempPaths.push(modelInputPath);
+        await sharp(inputPath)
+            .resize(RELIGHT_PREVIEW_EDGE, RELIGHT_PREVIEW_EDGE, { fit: 'inside', withoutEnlargement: true })
+            .toFile(modelInputPath);
+    }
+
+    const inputFilename = path.basename(modelInputPath);
     const outputFilename = `${path.parse(inputPath).name}_relight_${uniqueId}.${image.format}`;
-    const outputPath = path.join(path.dirname(inputPath), outputFilename);
+    const modelOutputPath = path.join(path.dirname(inputPath), outputFilename);
+    tempPaths.push(modelOutputPath);
 
     // Docker configuration - use persistent container
     const containerName = AI_CONTAINERS.LOWLIGHT.name;
     const dockerImage = AI_CONTAINERS.LOWLIGHT.image;
 
-    log.info('Starting AI relight processing with Docker...');
-    log.info('Input image:', inputPath);
-    log.info('Output will be saved to:', outputPath);
+    log.info(`Starting AI relight ${preview ? 'preview ' : ''}processing with Docker...`);
+    log.info('Input image:', modelInputPath);
+    log.info('Output will be saved to:', modelOutputPath);
 
     const startTime = Date.now();
 
@@ -436,7 +546,7 @@ export const relightImage = catchAsync(async (req, res, next) => {
 
     // Copy input image to container
     log.info('Copying image to Docker container...');
-    await execAsync(`docker cp "${inputPath}" ${containerName}:/app/${inputFilename}`);
+    await execAsync(`docker cp "${modelInputPath}" ${containerName}:/app/${inputFilename}`);
     log.info('Image copied to container');
 
     // Run AI model inside container
@@ -446,9 +556,6 @@ export const relightImage = catchAsync(async (req, res, next) => {
         maxBuffer: 50 * 1024 * 1024 // 50MB buffer
     });
 
-    const processingTime = ((Date.now() - startTime) / 1000).toFixed(2);
-    log.timing(`[Relight] Processing completed in ${processingTime} seconds`);
-
     if (stdout) {
         log.info('AI output:', stdout.trim());
     }
@@ -458,7 +565,7 @@ export const relightImage = catchAsync(async (req, res, next) => {
 
     // Copy result back from container
     log.info('Copying result from Docker container...');
-    await execAsync(`docker cp ${containerName}:/app/${outputFilename} "${outputPath}"`);
+    await execAsync(`docker cp ${containerName}:/app/${outputFilename} "${modelOutputPath}"`);
     log.info('Result copied from container');
 
     // Clean up files inside container to avoid accumulation
@@ -468,9 +575,46 @@ export const relightImage = catchAsync(async (req, res, next) => {
     log.info('Container files cleaned up');
 
     // Check if output file was created
-    await fs.access(outputPath);
+    await fs.access(modelOutputPath);
     log.info('Output file created successfully');
 
+    let outputPath = modelOutputPath;
+    if (light) {
+        outputPath = path.join(path.dirname(inputPath), `${path.parse(inputPath).name}_lit_${uniqueId}.${image.format}`);
+        tempPaths.push(outputPath);
+        await applyDirectionalLight(modelOutputPath, outputPath, light);
+    }
+
+    const processingTime = ((Date.now() - startTime) / 1000).toFixed(2);
+    log.timing(`[Relight] Processing completed in ${processingTime} seconds`);
+
+    // Clean up local files after response is sent (non-blocking)
+    res.on('finish', async () => {
+        for (const tempPath of tempPaths) {
+            if (tempPath === inputPath && !downloadedFile) continue;
+            await fs.unlink(tempPath).catch(err => {
+                log.warn('Failed to delete temp file:', err.message);
+            });
+            log.info('Cleaned up temp file:', tempPath);
+        }
+    });
+
+    if (preview) {
+        const { data, info } = await sharp(outputPath).jpeg({ quality: 80 }).toBuffer({ resolveWithObject: true });
+        return res.status(200).json({
+            success: true,
+            message: 'Relight preview ready',
+            data: {
+                preview: true,
+                previewImage: `data:image/jpeg;base64,${data.toString('base64')}`,
+                brightness,
+                light,
+                width: info.width,
+                height: info.height
+            }
+        });
+    }
+
     // Upload relit image to Cloudinary
     log.info('Uploading processed image to Cloudinary...');
     const uploadResult = await cloudinary.uploader.upload(outputPath, {
@@ -491,7 +635,6 @@ export const relightImage = catchAsync(async (req, res, next) => {
         localPath: null // Don't store local path for processed images
     });
 
-    // Send response first
     res.status(200).json({
         success: true,
         message: 'Image relit successfully',
@@ -502,6 +645,7 @@ export const relightImage = catchAsync(async (req, res, next) => {
             relitImageUrl: relitImage.imageUrl,
             publicId: relitImage.publicId,
             brightness: brightness,
+            light,
             format: relitImage.format,
             width: relitImage.width,
             height: relitImage.height,
@@ -509,35 +653,185 @@ export const relightImage = catchAsync(async (req, res, next) => {
             createdAt: relitImage.createdAt
         }
     });
+});
 
-    // Clean up local files after response is sent (non-blocking)
-    res.on('finish', async () => {
-        // Delete AI output image
-        if (outputPath) {
-            await fs.unlink(outputPath).catch(err => {
-                log.warn('Failed to delete output image:', err.message);
-            });
-            log.info('Cleaned up output image:', outputPath);
-        }
 
-        // Delete downloaded input file (if it was downloaded from Cloudinary)
-        if (downloadedFile && inputPath) {
-            await fs.unlink(inputPath).catch(err => {
-                log.warn('Failed to delete downloaded input file:', err.message);
-            });
-            log.info('Cleaned up downloaded input file:', inputPath);
+
+
+const FACE_RESTORE_PREVIEW_EDGE = 768; // Longest edge of a face restore preview, in pixels
+const FACE_DETECT_THRESHOLD = 0.9; // Lowest detection score kept
+
+// Detect faces with the RetinaFace model that ships with CodeFormer; prints
+// [x1, y1, x2, y2, score] for each face as JSON on the last line
+const FACE_DETECT_SCRIPT = `import sys, json, cv2, torch
+from facelib.detection import init_detection_model
+device = torch.device('cuda' if torch.cuda.is_available() else 'cpu')
+net = init_detection_model('retinaface_resnet50', half=False, device=device)
+img = cv2.imread(sys.argv[1])
+with torch.no_grad():
+    faces = net.detect_faces(img, float(sys.argv[2]))
+print(json.dumps([[float(v) for v in face[:5]] for face in faces]))
+`;
+
+// Find the faces in an image, as boxes in image pixels from left to right
+async function detectFaces(localPath) {
+    const containerName = AI_CONTAINERS.FACE_RESTORE.name;
+    const dockerImage = AI_CONTAINERS.FACE_RESTORE.image;
+
+    const uniqueId = Date.now() + '_' + Math.random().toString(36).slice(2, 11);
+    const inputFilename = `detect_${uniqueId}${path.extname(localPath)}`;
+    const scriptFilename = `detect_faces_${uniqueId}.py`;
+    const scriptPath = path.join(tempImageDir, scriptFilename);
+
+    await ensureContainerRunning(containerName, dockerImage);
+    await fs.writeFile(scriptPath, FACE_DETECT_SCRIPT);
+
+    try {
+        // Outside /cf/input, where the restore folders live
+        await execAsync(`docker cp "${localPath}" ${containerName}:/cf/${inputFilename}`);
+        await execAsync(`docker cp "${scriptPath}" ${containerName}:/cf/${scriptFilename}`);
+
+        const detectCommand = `docker exec ${containerName} bash -c "cd /cf/CodeFormer && python /cf/${scriptFilename} /cf/${inputFilename} ${FACE_DETECT_THRESHOLD}"`;
+        const { stdout } = await execAsync(detectCommand, { maxBuffer: 50 * 1024 * 1024 });
+
+        const lines = stdout.trim().split('\n');
+        const detections = JSON.parse(lines[lines.length - 1]);
+        return detections
+            .map(([x1, y1, x2, y2, score]) => ({
+                x: Math.max(0, Math.round(x1)),
+                y: Math.max(0, Math.round(y1)),
+                width: Math.round(x2 - Math.max(0, x1)),
+                height: Math.round(y2 - Math.max(0, y1)),
+                score: Math.round(score * 1000) / 1000
+            }))
+            .sort((a, b) => a.x - b.x);
+    } finally {
+        await fs.unlink(scriptPath).catch(() => {});
+        await execAsync(`docker exec ${containerName} rm -f /cf/${inputFilename} /cf/${scriptFilename}`).catch(() => {});
+    }
+}
+
+// Check the face boxes to restore and fit them into the image
+function parseFaceBoxes(faces, width, height) {
+    if (faces === undefined || faces === null) return null;
+
+    if (!Array.isArray(faces) || faces.length === 0) {
+        throw new AppError('Faces must be a non-empty array of face boxes', 400);
+    }
+
+    return faces.map(face => {
+        const values = [face?.x, face?.y, face?.width, face?.height];
+        if (!values.every(value => typeof value === 'number' && Number.isFinite(value)) || face.width <= 0 || face.height <= 0) {
+            throw new AppError('Each face needs a numeric x, y, width and height', 400);
         }
+
+        const x = Math.max(0, Math.min(width - 1, Math.round(face.x)));
+        const y = Math.max(0, Math.min(height - 1, Math.round(face.y)));
+        return {
+            x,
+            y,
+            width: Math.max(1, Math.min(width - x, Math.round(face.width))),
+            height: Math.max(1, Math.min(height - y, Math.round(face.height)))
+        };
     });
-});
+}
 
+// Blend the restored image into the original: only over the chosen faces
+// (an ellipse a little larger than each box, with a soft edge) or over the
+// whole image, at the given strength
+async function blendRestoredFaces(originalPath, restoredPath, outputPath, faces, strength) {
+    const { width, height } = await sharp(originalPath).metadata();
+    const level = Math.round(strength * 255);
+    const fill = `rgb(${level},${level},${level})`;
+
+    const shapes = faces
+        ? faces.map(face => `<ellipse cx="${face.x + face.width / 2}" cy="${face.y + face.height / 2}" rx="${face.width * 0.7}" ry="${face.height * 0.75}" fill="${fill}"/>`).join('')
+        : `<rect width="100%" height="100%" fill="${fill}"/>`;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+        <rect width="100%" height="100%" fill="black"/>
+        ${shapes}
+    </svg>`;
+
+    let mask = sharp(Buffer.from(svg));
+    if (faces) {
+        const smallest = Math.min(...faces.map(face => Math.min(face.width, face.height)));
+        mask = mask.blur(Math.max(0.5, smallest * 0.08));
+    }
+    const maskBuffer = await mask.greyscale().extractChannel(0).raw().toBuffer();
 
+    // CodeFormer may upscale, so match the original size first
+    const restored = await sharp(restoredPath)
+        .resize(width, height, { fit: 'fill' })
+        .removeAlpha()
+        .joinChannel(maskBuffer, { raw: { width, height, channels: 1 } })
+        .png()
+        .toBuffer();
 
+    await sharp(originalPath)
+        .composite([{ input: restored }])
+        .toFile(outputPath);
+}
+
+// @desc    Detect faces for face restoration
+// @route   POST /api/ai/face-detect
+// @access  Private
+export const faceDetect = catchAsync(async (req, res, next) => {
+    const { publicId } = req.body;
+
+    if (!publicId) {
+        return next(new AppError('Please provide image public ID', 400));
+    }
+
+    const image = await Image.findOne({ publicId });
+
+    if (!image) {
+        return next(new AppError('Image not found', 404));
+    }
+
+    if (!image.imageUrl) {
+        return next(new AppError('Image URL not found. Please re-upload the image.', 404));
+    }
+
+    let inputPath;
+    try {
+        inputPath = await downloadImageFromCloudinary(image.imageUrl, image._id.toString());
+    } catch (downloadErr) {
+        return next(new AppError(`Failed to download image from Cloudinary: ${downloadErr.message}`, 500));
+    }
+
+    const startTime = Date.now();
+
+    try {
+        const { width, height } = await sharp(inputPath).metadata();
+        const faces = await detectFaces(inputPath);
+
+        const processingTime = ((Date.now() - startTime) / 1000).toFixed(2);
+        log.timing(`[FaceDetect] Found ${faces.length} face(s) in ${processingTime} seconds`);
+
+        res.status(200).json({
+            success: true,
+            message: faces.length > 0 ? `Found ${faces.length} face(s)` : 'No faces found',
+            data: {
+                faces,
+                width,
+                height
+            }
+        });
+    } finally {
+        await cleanupTempFile(inputPath);
+    }
+});
 
 // @desc    Face restoration using CodeFormer
 // @route   POST /api/ai/face-restore
 // @access  Private
+// `faces` (boxes in image pixels) restores only those faces, and
+// `strength` (0-1) blends the result with the original. With
+// `preview: true` a small version is processed and returned as a data URI,
+// without saving anything.
 export const faceRestore = catchAsync(async (req, res, next) => {
-    const { publicId, fidelity = 0.7 } = req.body;
+    const { publicId, strength = 1, preview = false } = req.body;
+    let { fidelity = 0.7 } = req.body;
 
     // Validation
     if (!publicId) {
@@ -548,6 +842,13 @@ export const faceRestore = catchAsync(async (req, res, next) => {
         return next(new AppError('Fidelity must be between 0 and 1', 400));
     }
 
+    if (typeof strength !== 'number' || strength < 0 || strength > 1) {
+        return next(new AppError('Strength must be between 0 and 1', 400));
+    }
+
+    // Match the slider steps
+    fidelity = Math.round(fidelity * 100) / 100;
+
     // Find image in database
     const image = await Image.findOne({ publicId });
 
@@ -570,40 +871,75 @@ export const faceRestore = catchAsync(async (req, res, next) => {
         return next(new AppError(`Failed to download image from Cloudinary: ${downloadErr.message}`, 500));
     }
 
+    let imageWidth;
+    let imageHeight;
+    let faces;
+    try {
+        ({ width: imageWidth, height: imageHeight } = await sharp(inputPath).metadata());
+        faces = parseFaceBoxes(req.body.faces, imageWidth, imageHeight);
+    } catch (err) {
+        await cleanupTempFile(inputPath);
+        return next(err);
+    }
+
     // Prepare paths with unique identifiers to avoid conflicts
-    const inputFilename = path.basename(inputPath);
     const uniqueId = Date.now() + '_' + Math.random().toString(36).slice(2, 11);
-    const outputFilename = `${path.parse(inputPath).name}_restored_${uniqueId}.${image.format}`;
-    const outputPath = path.join(path.dirname(inputPath), outputFilename);
+    const tempPaths = [inputPath];
+
+    // A preview processes a small copy, with the face boxes scaled to match
+    let modelInputPath = inputPath;
+    let modelFaces = faces;
+    if (preview) {
+        modelInputPath = path.join(path.dirname(inputPath), `${path.parse(inputPath).name}_preview_${uniqueId}${path.extname(inputPath)}`);
+        tempPaths.push(modelInputPath);
+        const info = await sharp(inputPath)
+            .resize(FACE_RESTORE_PREVIEW_EDGE, FACE_RESTORE_PREVIEW_EDGE, { fit: 'inside', withoutEnlargement: true })
+            .toFile(modelInputPath);
+        const ratio = info.width / imageWidth;
+        modelFaces = faces && faces.map(face => ({
+            x: face.x * ratio,
+            y: face.y * ratio,
+            width: face.width * ratio,
+            height: face.height * ratio
+        }));
+    }
+
+    const inputFilename = path.basename(modelInputPath);
+    const restoredFilename = `${path.parse(inputPath).name}_restored_${uniqueId}.png`;
+    const restoredPath = path.join(path.dirname(inputPath), restoredFilename);
+    tempPaths.push(restoredPath);
 
     // Docker configuration - use persistent container
     const containerName = AI_CONTAINERS.FACE_RESTORE.name;
     const dockerImage = AI_CONTAINERS.FACE_RESTORE.image;
 
-    log.info('Starting AI face restoration with Docker...');
-    log.info('Input image:', inputPath);
-    log.info('Output will be saved to:', outputPath);
+    log.info(`Starting AI face restoration ${preview ? 'preview ' : ''}with Docker...`);
+    log.info('Input image:', modelInputPath);
+    log.info('Output will be saved to:', restoredPath);
 
     const startTime = Date.now();
 
     // Ensure container is running
     await ensureContainerRunning(containerName, dockerImage);
 
+    // Each request gets its own folders, since CodeFormer restores every image
+    // in its input folder and previews can run alongside a full restore
+    const containerInputDir = `/cf/input/${uniqueId}`;
+    const containerOutputDir = `/cf/output/${uniqueId}`;
+
     // Copy input image to container
     log.info('Copying image to Docker container...');
-    await execAsync(`docker cp "${inputPath}" ${containerName}:/cf/input/${inputFilename}`);
+    await execAsync(`docker exec ${containerName} mkdir -p ${containerInputDir}`);
+    await execAsync(`docker cp "${modelInputPath}" ${containerName}:${containerInputDir}/${inputFilename}`);
     log.info('Image copied to container');
 
     // Run CodeFormer inside container (without face_upsample and has_aligned to avoid bugs)
     log.info('Running CodeFormer face restoration (this may take 30-60 seconds)...');
-    const processCommand = `docker exec ${containerName} bash -c "cd /cf/CodeFormer && python inference_codeformer.py --w ${fidelity} --test_path /cf/input"`;
+    const processCommand = `docker exec ${containerName} bash -c "cd /cf/CodeFormer && python inference_codeformer.py --w ${fidelity} --test_path ${containerInputDir} --output_path ${containerOutputDir}"`;
     const { stdout, stderr } = await execAsync(processCommand, {
         maxBuffer: 50 * 1024 * 1024 // 50MB buffer
     });
 
-    const processingTime = ((Date.now() - startTime) / 1000).toFixed(2);
-    log.timing(`[FaceRestore] Processing completed in ${processingTime} seconds`);
-
     if (stdout) {
         log.info('AI output:', stdout.trim());
     }
@@ -613,22 +949,61 @@ export const faceRestore = catchAsync(async (req, res, next) => {
 
     // Copy result back from container
     log.info('Copying result from Docker container...');
-    // CodeFormer saves to /cf/output/input_{w}/final_results/ and converts to PNG
+    // CodeFormer saves to {output_path}/final_results/ and converts to PNG
     const outputFilenameBase = path.parse(inputFilename).name;
-    const containerOutputPath = `/cf/output/input_${fidelity}/final_results/${outputFilenameBase}.png`;
-    await execAsync(`docker cp ${containerName}:${containerOutputPath} "${outputPath}"`);
+    const containerOutputPath = `${containerOutputDir}/final_results/${outputFilenameBase}.png`;
+    await execAsync(`docker cp ${containerName}:${containerOutputPath} "${restoredPath}"`);
     log.info('Result copied from container');
 
     // Clean up files inside container to avoid accumulation
-    await execAsync(`docker exec ${containerName} rm -rf /cf/input/${inputFilename} /cf/output/input_${fidelity}`).catch(err => {
+    await execAsync(`docker exec ${containerName} rm -rf ${containerInputDir} ${containerOutputDir}`).catch(err => {
         log.warn('Failed to cleanup container files:', err.message);
     });
     log.info('Container files cleaned up');
 
     // Check if output file was created
-    await fs.access(outputPath);
+    await fs.access(restoredPath);
     log.info('Output file created successfully');
 
+    // Only blend when part of the image or part of the effect was asked for
+    let outputPath = restoredPath;
+    if (modelFaces || strength < 1) {
+        outputPath = path.join(path.dirname(inputPath), `${path.parse(inputPath).name}_blended_${uniqueId}.png`);
+        tempPaths.push(outputPath);
+        await blendRestoredFaces(modelInputPath, restoredPath, outputPath, modelFaces, strength);
+    }
+
+    const processingTime = ((Date.now() - startTime) / 1000).toFixed(2);
+    log.timing(`[FaceRestore] Processing completed in ${processingTime} seconds`);
+
+    // Clean up local files after response is sent (non-blocking)
+    res.on('finish', async () => {
+        for (const tempPath of tempPaths) {
+            if (tempPath === inputPath && !downloadedFile) continue;
+            await fs.unlink(tempPath).catch(err => {
+                log.warn('Failed to delete temp file:', err.message);
+            });
+            log.info('Cleaned up temp file:', tempPath);
+        }
+    });
+
+    if (preview) {
+        const { data, info } = await sharp(outputPath).jpeg({ quality: 85 }).toBuffer({ resolveWithObject: true });
+        return res.status(200).json({
+            success: true,
+            message: 'Face restore preview ready',
+            data: {
+                preview: true,
+                previewImage: `data:image/jpeg;base64,${data.toString('base64')}`,
+                fidelity,
+                strength,
+                faces,
+                width: info.width,
+                height: info.height
+            }
+        });
+    }
+
     // Upload restored image to Cloudinary
     log.info('Uploading processed image to Cloudinary...');
     const uploadResult = await cloudinary.uploader.upload(outputPath, {
@@ -649,7 +1024,6 @@ export const faceRestore = catchAsync(async (req, res, next) => {
         localPath: null
     });
 
-    // Send response first
     res.status(200).json({
         success: true,
         message: 'Face restored successfully',
@@ -660,6 +1034,8 @@ export const faceRestore = catchAsync(async (req, res, next) => {
             restoredImageUrl: restoredImage.imageUrl,
             publicId: restoredImage.publicId,
             fidelity: fidelity,
+            strength,
+            faces,
             format: restoredImage.format,
             width: restoredImage.width,
             height: restoredImage.height,
@@ -667,25 +1043,6 @@ export const faceRestore = catchAsync(async (req, res, next) => {
             createdAt: restoredImage.createdAt
         }
     });
-
-    // Clean up local files after response is sent (non-blocking)
-    res.on('finish', async () => {
-        // Delete AI output image
-        if (outputPath) {
-            await fs.unlink(outputPath).catch(err => {
-                log.warn('Failed to delete output image:', err.message);
-            });
-            log.info('Cleaned up output image:', outputPath);
-        }
-
-        // Delete downloaded input file (if it was downloaded from Cloudinary)
-        if (downloadedFile && inputPath) {
-            await fs.unlink(inputPath).catch(err => {
-                log.warn('Failed to delete downloaded input file:', err.message);
-            });
-            log.info('Cleaned up downloaded input file:', inputPath);
-        }
-    });
 });
 
 
@@ -1132,37 +1489,144 @@ export const removeBackground = catchAsync(async (req, res, next) => {
 
 
 
+// Run SAM on one point of an image and dilate the mask a little, so the
+// inpainting covers the object's edges. The mask is written to outputPath.
+async function generateObjectMask(localPath, x, y, outputPath) {
+    const samContainerName = AI_CONTAINERS.OBJECT_REMOVAL_SAM.name;
+    const samDockerImage = AI_CONTAINERS.OBJECT_REMOVAL_SAM.image;
+
+    const inputFilename = path.basename(localPath);
+    const uniqueId = Date.now() + '_' + Math.random().toString(36).slice(2, 11);
+    const maskFilename = `mask_${uniqueId}.png`;
+    const dilatedMaskFilename = `dilated_mask_${uniqueId}.png`;
+
+    await ensureContainerRunning(samContainerName, samDockerImage);
+    await execAsync(`docker cp "${localPath}" ${samContainerName}:/app/${inputFilename}`);
+
+    const samCommand = `docker exec ${samContainerName} python sam_inference.py --image /app/${inputFilename} --point ${x},${y} --output /app/${maskFilename} --checkpoint sam_vit_b_01ec64.pth`;
+    await execAsync(samCommand, { maxBuffer: 50 * 1024 * 1024 });
+
+    const dilateCommand = `docker exec ${samContainerName} python dialate.py --mask /app/${maskFilename} --kernel 7 --iter 2 --out /app/${dilatedMaskFilename}`;
+    await execAsync(dilateCommand, { maxBuffer: 50 * 1024 * 1024 });
+
+    await execAsync(`docker cp ${samContainerName}:/app/${dilatedMaskFilename} "${outputPath}"`);
+    await execAsync(`docker exec ${samContainerName} rm -f /app/${inputFilename} /app/${maskFilename} /app/${dilatedMaskFilename}`).catch(() => {});
+}
+
+// Read a mask as one byte per pixel, 255 where it is set and 0 elsewhere
+async function readMask(maskPath, width, height) {
+    return sharp(maskPath)
+        .flatten({ background: '#000000' })
+        .resize(width, height, { fit: 'fill' })
+        .greyscale()
+        .threshold(128)
+        .extractChannel(0)
+        .raw()
+        .toBuffer();
+}
+
+// Parse a JSON field of a multipart request (JSON bodies arrive parsed)
+function parseJsonField(value) {
+    if (value === undefined || value === null || value === '') return undefined;
+    return typeof value === 'string' ? JSON.parse(value) : value;
+}
+
+// Check the selection sent instead of a single tap. Points are SAM prompts,
+// positive on the object and negative on what should stay; the box is
+// around the object; the mask is painted with the brush or lasso.
+function parseObjectSelection(body, hasMask) {
+    let points;
+    let box;
+    try {
+        points = parseJsonField(body.points) ?? [];
+        box = parseJsonField(body.box) ?? null;
+    } catch (err) {
+        throw new AppError('Selection points and box must be valid JSON', 400);
+    }
+
+    const isCoordinate = value => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+    if (!Array.isArray(points) || points.some(point => !isCoordinate(point?.x) || !isCoordinate(point?.y))) {
+        throw new AppError('Selection points must have non-negative x and y coordinates', 400);
+    }
+    if (box && (!isCoordinate(box.x) || !isCoordinate(box.y) || !(box.width > 0) || !(box.height > 0))) {
+        throw new AppError('Selection box must have a position and a positive size', 400);
+    }
+    if (!hasMask && !box && !points.some(point => point.positive !== false)) {
+        throw new AppError('Select the object with the brush, lasso, a box or at least one positive point', 400);
+    }
+
+    return {
+        points: points.map(point => ({ x: Math.round(point.x), y: Math.round(point.y), positive: point.positive !== false })),
+        box: box && {
+            x: Math.round(box.x),
+            y: Math.round(box.y),
+            width: Math.round(box.width),
+            height: Math.round(box.height)
+        }
+    };
+}
+
 // @desc    Remove object from image using SAM + LaMa
 // @route   POST /api/ai/object-removal
 // @access  Private
+// Either tap the object ({ publicId, x, y }) or send a selection as
+// multipart form data: an optional `mask` image (white marks what to
+// remove) plus `points` and `box` as JSON, in image pixels.
 export const objectRemoval = catchAsync(async (req, res, next) => {
-    const { publicId, x, y } = req.body;
+    const { publicId } = req.body;
+    const maskFile = req.file;
+
+    // The uploaded selection mask is only needed while processing
+    const discardMaskFile = async () => {
+        if (maskFile) {
+            await cloudinary.uploader.destroy(maskFile.filename).catch(() => {});
+        }
+    };
+
+    const isSelection = !!maskFile || req.body.points !== undefined || req.body.box !== undefined;
+    let selection = null;
+    let x;
+    let y;
 
     if (!publicId) {
+        await discardMaskFile();
         return next(new AppError('Please provide image public ID', 400));
     }
 
-    if (x === undefined || y === undefined) {
-        return next(new AppError('Please provide x and y coordinates of the object', 400));
-    }
+    if (isSelection) {
+        try {
+            selection = parseObjectSelection(req.body, !!maskFile);
+        } catch (err) {
+            await discardMaskFile();
+            return next(err);
+        }
+    } else {
+        ({ x, y } = req.body);
 
-    if (typeof x !== 'number' || typeof y !== 'number') {
-        return next(new AppError('Coordinates must be numbers', 400));
-    }
+        if (x === undefined || y === undefined) {
+            return next(new AppError('Please provide x and y coordinates of the object', 400));
+        }
+
+        if (typeof x !== 'number' || typeof y !== 'number') {
+            return next(new AppError('Coordinates must be numbers', 400));
+        }
 
-    if (x < 0 || y < 0) {
-        return next(new AppError('Coordinates must be positive numbers', 400));
+        if (x < 0 || y < 0) {
+            return next(new AppError('Coordinates must be positive numbers', 400));
+        }
     }
 
     const image = await Image.findOne({ publicId, user: req.user._id });
     if (!image) {
+        await discardMaskFile();
         return next(new AppError('Image not found or does not belong to you', 404));
     }
 
     let localPath = null;
-    let maskPath = null;
     let dilatedMaskPath = null;
     let outputPath = null;
+    const selectionPaths = [];
 
     try {
         // Download image from Cloudinary
@@ -1170,34 +1634,72 @@ export const objectRemoval = catchAsync(async (req, res, next) => {
 
         const inputFilename = path.basename(localPath);
         const uniqueId = Date.now() + '_' + Math.random().toString(36).slice(2, 11);
-        const maskFilename = `mask_${uniqueId}.png`;
-        maskPath = path.join(path.dirname(localPath), maskFilename);
         const dilatedMaskFilename = `dilated_mask_${uniqueId}.png`;
         dilatedMaskPath = path.join(path.dirname(localPath), dilatedMaskFilename);
         const outputFilename = `object_removed_${uniqueId}.png`;
         outputPath = path.join(path.dirname(localPath), outputFilename);
 
-        const samContainerName = AI_CONTAINERS.OBJECT_REMOVAL_SAM.name;
-        const samDockerImage = AI_CONTAINERS.OBJECT_REMOVAL_SAM.image;
         const lamaContainerName = AI_CONTAINERS.OBJECT_REMOVAL_LAMA.name;
         const lamaDockerImage = AI_CONTAINERS.OBJECT_REMOVAL_LAMA.image;
 
-        log.info(`Starting object removal at (${x}, ${y})...`);
         const startTime = Date.now();
 
-        // STEP 1: Generate mask with SAM
-        log.info('Step 1: Generating mask with SAM...');
-        await ensureContainerRunning(samContainerName, samDockerImage);
-        await execAsync(`docker cp "${localPath}" ${samContainerName}:/app/${inputFilename}`);
-        
-        const samCommand = `docker exec ${samContainerName} python sam_inference.py --image /app/${inputFilename} --point ${x},${y} --output /app/${maskFilename} --checkpoint sam_vit_b_01ec64.pth`;
-        await execAsync(samCommand, { maxBuffer: 50 * 1024 * 1024 });
-        
-        const dilateCommand = `docker exec ${samContainerName} python dialate.py --mask /app/${maskFilename} --kernel 7 --iter 2 --out /app/${dilatedMaskFilename}`;
-        await execAsync(dilateCommand, { maxBuffer: 50 * 1024 * 1024 });
-        
-        await execAsync(`docker cp ${samContainerName}:/app/${dilatedMaskFilename} "${dilatedMaskPath}"`);
-        await execAsync(`docker exec ${samContainerName} rm -f /app/${inputFilename} /app/${maskFilename} /app/${dilatedMaskFilename}`).catch(() => {});
+        // STEP 1: Build the mask of what to remove
+        if (selection) {
+            log.info(`Starting object removal with ${selection.points.length} points${selection.box ? ', a box' : ''}${maskFile ? ' and a painted mask' : ''}...`);
+
+            const { width, height } = await sharp(localPath).metadata();
+            const combined = Buffer.alloc(width * height);
+            const addMask = (mask, keep = () => true) => {
+                for (let i = 0; i < mask.length; i++) {
+                    if (mask[i] && keep(i % width, Math.floor(i / width))) combined[i] = 255;
+                }
+            };
+
+            // Masks SAM finds around a point of the image
+            const segmentAt = async (px, py) => {
+                const samMaskPath = path.join(path.dirname(localPath), `selection_${uniqueId}_${selectionPaths.length}.png`);
+                selectionPaths.push(samMaskPath);
+                await generateObjectMask(localPath, Math.min(px, width - 1), Math.min(py, height - 1), samMaskPath);
+                return readMask(samMaskPath, width, height);
+            };
+
+            if (maskFile) {
+                const paintedMaskPath = await downloadImageFromCloudinary(maskFile.path, `selection_${uniqueId}`);
+                selectionPaths.push(paintedMaskPath);
+                addMask(await readMask(paintedMaskPath, width, height));
+            }
+
+            log.info('Step 1: Generating selection masks with SAM...');
+            for (const point of selection.points.filter(point => point.positive)) {
+                addMask(await segmentAt(point.x, point.y));
+            }
+
+            // The object at the middle of the box, cut off at the box edges
+            const { box } = selection;
+            if (box) {
+                const boxMask = await segmentAt(box.x + box.width / 2, box.y + box.height / 2);
+                addMask(boxMask, (px, py) => px >= box.x && px < box.x + box.width && py >= box.y && py < box.y + box.height);
+            }
+
+            // Negative points keep whatever they are on
+            for (const point of selection.points.filter(point => !point.positive)) {
+                const keepMask = await segmentAt(point.x, point.y);
+                for (let i = 0; i < keepMask.length; i++) {
+                    if (keepMask[i]) combined[i] = 0;
+                }
+            }
+
+            if (!combined.some(value => value > 0)) {
+                return next(new AppError('The selection does not cover anything to remove', 400));
+            }
+
+            await sharp(combined, { raw: { width, height, channels: 1 } }).png().toFile(dilatedMaskPath);
+        } else {
+            log.info(`Starting object removal at (${x}, ${y})...`);
+            log.info('Step 1: Generating mask with SAM...');
+            await generateObjectMask(localPath, x, y, dilatedMaskPath);
+        }
 
         const samTime = ((Date.now() - startTime) / 1000).toFixed(2);
         log.timing(`[SAM] Completed in ${samTime}s`);
@@ -1262,7 +1764,9 @@ export const objectRemoval = catchAsync(async (req, res, next) => {
                     format: processedImage.format,
                     size: processedImage.size
                 },
-                coordinates: { x, y },
+                ...(selection
+                    ? { selection: { points: selection.points, box: selection.box, painted: !!maskFile } }
+                    : { coordinates: { x, y } }),
                 processingTime: {
                     sam: `${samTime}s`,
                     lama: `${lamaTime}s`,
@@ -1272,9 +1776,12 @@ export const objectRemoval = catchAsync(async (req, res, next) => {
         });
     } finally {
         await cleanupTempFile(localPath);
-        await cleanupTempFile(maskPath);
         await cleanupTempFile(dilatedMaskPath);
         await cleanupTempFile(outputPath);
+        for (const selectionPath of selectionPaths) {
+            await cleanupTempFile(selectionPath);
+        }
+        await discardMaskFile();
     }
 });
 
@@ -112,8 +112,14 @@ export const uploadImage = catchAsync(async (req, res, next) => {
     // ==========================================
     console.log('🎨 Layer-Based layerProject - Creating layers...');
 
-    // Check if this is the first image in the project
-    const existingLayersCount = await Layer.countDocuments({ project: projectId });
+    // Check if this is the first image in the project (adjustment and text layers have no image,
+    // deleted and merged-away layers no longer count)
+    const existingLayersCount = await Layer.countDocuments({
+        project: projectId,
+        type: { $nin: ['adjustment', 'text', 'group'] },
+        deletedAt: null,
+        mergedInto: null
+    });
     const isFirstImage = existingLayersCount === 0;
 
     let layers = [];
@@ -449,11 +455,10 @@ export const uploadMultipleImages = catchAsync(async (req, res, next) => {
                 size: img.size,
                 createdAt: img.createdAt
             })),
+            // Full layers, so the client can show them without refetching the project
             layers: layers.map(layer => ({
                 id: layer._id,
-                name: layer.name,
-                type: layer.type,
-                order: layer.order
+                ...layer.toObject()
             }))
         }
     });
@@ -533,16 +538,23 @@ export const getImageDetails = catchAsync(async (req, res, next) => {
 
 
 
-// @desc    Crop image and replace original
+// @desc    Crop, straighten, rotate and flip an image into a new image
 // @route   PATCH /api/v1/adobe-ps/images/crop
 // @access  Private
+// The original is kept so the crop can be recorded (and reverted) as a
+// timeline operation. Transformations are applied in this order: flip,
+// rotate clockwise by angle (the canvas grows to fit when the angle is not
+// a multiple of 90), then crop. Crop coordinates are in pixels of the
+// flipped and rotated image.
 export const cropImage = catchAsync(async (req, res, next) => {
-    const { publicId, x, y, width, height } = req.body;
+    const { publicId, x, y, width, height, angle = 0, flipX = false, flipY = false } = req.body;
 
     /*  x - Starting X coordinate (left edge)
         y - Starting Y coordinate (top edge)
         width - How wide the crop should be
-        height - How tall the crop should be 
+        height - How tall the crop should be
+        angle - Clockwise rotation in whole degrees (90° turns plus straightening)
+        flipX / flipY - Mirror horizontally / vertically
     */
 
 
@@ -560,6 +572,10 @@ export const cropImage = catchAsync(async (req, res, next) => {
         return next(new AppError('Invalid crop coordinates', 400));
     }
 
+    if (typeof angle !== 'number' || !Number.isFinite(angle)) {
+        return next(new AppError('Angle must be a number of degrees', 400));
+    }
+
     // Find original image in database
     const image = await Image.findOne({ publicId });
 
@@ -567,49 +583,73 @@ export const cropImage = catchAsync(async (req, res, next) => {
         return next(new AppError('Image not found', 404));
     }
 
-    const oldPublicId = image.publicId;
-
-    // Upload cropped version to Cloudinary as a new image
-    const cropResult = await cloudinary.uploader.explicit(publicId, {
-        type: 'upload',
-        eager: [{
-            crop: 'crop',
-            x: Math.round(x),
-            y: Math.round(y),
-            width: Math.round(width),
-            height: Math.round(height)
-        }],
-        eager_async: false
-    });
+    if (image.user.toString() !== req.user._id.toString()) {
+        return next(new AppError('Not authorized to edit this image', 403));
+    }
+
+    const transformation = [];
+    if (flipX) transformation.push({ angle: 'hflip' });
+    if (flipY) transformation.push({ angle: 'vflip' });
 
-    const croppedImageData = cropResult.eager[0];
-    const newPublicId = cropResult.public_id;
+    // Cloudinary rotates by whole degrees
+    const rotation = ((Math.round(angle) % 360) + 360) % 360;
+    if (rotation !== 0) transformation.push({ angle: rotation });
 
-    // Delete old image from Cloudinary
-    await cloudinary.uploader.destroy(oldPublicId);
+    transformation.push({
+        crop: 'crop',
+        x: Math.round(x),
+        y: Math.round(y),
+        width: Math.round(width),
+        height: Math.round(height)
+    });
 
-    // Update image record in database with cropped version
-    image.publicId = newPublicId;
-    image.imageUrl = croppedImageData.secure_url;
-    image.width = croppedImageData.width;
-    image.height = croppedImageData.height;
-    image.size = croppedImageData.bytes;
-    image.format = cropResult.format;
+    // Upload the transformed version to Cloudinary as a new image
+    const uploadResult = await cloudinary.uploader.upload(
+        cloudinary.url(image.publicId, { secure: true, transformation }),
+        {
+            folder: 'adobe-ps-uploads',
+            resource_type: 'image',
+            public_id: `cropped_${image.publicId.split('/').pop()}_${Date.now()}`
+        }
+    );
 
-    await image.save();
+    const croppedImage = await Image.create({
+        user: req.user._id,
+        publicId: uploadResult.public_id,
+        imageUrl: uploadResult.secure_url,
+        format: uploadResult.format,
+        width: uploadResult.width,
+        height: uploadResult.height,
+        size: uploadResult.bytes,
+    });
 
     res.status(200).json({
         success: true,
-        message: 'Image cropped and updated successfully',
+        message: 'Image cropped successfully',
         data: {
-            id: image._id,
-            publicId: image.publicId,
-            imageUrl: image.imageUrl,
-            width: image.width,
-            height: image.height,
-            size: image.size,
-            format: image.format,
-            updatedAt: image.updatedAt
+            inputImage: {
+                publicId: image.publicId,
+                imageUrl: image.imageUrl,
+                width: image.width,
+                height: image.height
+            },
+            outputImage: {
+                publicId: croppedImage.publicId,
+                imageUrl: croppedImage.imageUrl,
+                width: croppedImage.width,
+                height: croppedImage.height,
+                format: croppedImage.format,
+                size: croppedImage.size
+            },
+            crop: {
+                x: Math.round(x),
+                y: Math.round(y),
+                width: Math.round(width),
+                height: Math.round(height),
+                angle: rotation,
+                flipX: !!flipX,
+                flipY: !!flipY
+            }
         }
     });
 });
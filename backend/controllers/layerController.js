@@ -5,6 +5,93 @@ import catchAsync from '../utils/catchAsync.js';
 import AppError from '../utils/AppError.js';
 
 
+// Every layer nested in a group, at any depth
+const findGroupDescendants = async (groupId) => {
+    const descendants = [];
+    let parentIds = [groupId];
+
+    while (parentIds.length > 0) {
+        const children = await Layer.find({ parent: { $in: parentIds } });
+        descendants.push(...children);
+        parentIds = children.filter(child => child.type === 'group').map(child => child._id);
+    }
+
+    return descendants;
+};
+
+// Properties each lock protects; locking all protects everything but these
+const POSITION_FIELDS = ['position', 'transformations'];
+const PIXEL_FIELDS = ['adjustments', 'text', 'dimensions', 'maskUrl', 'maskPublicId'];
+const ALWAYS_EDITABLE_FIELDS = ['visible', 'locked', 'locks'];
+
+// Locks in effect for a layer: its own and those of the groups around it
+const getEffectiveLocks = async (layer) => {
+    const lockers = [layer];
+    let parentId = layer.parent;
+    while (parentId && lockers.length <= 100) {
+        const group = await Layer.findById(parentId).select('locked locks parent');
+        if (!group) break;
+        lockers.push(group);
+        parentId = group.parent;
+    }
+
+    const all = lockers.some(locker => locker.locked);
+    return {
+        all,
+        position: all || lockers.some(locker => locker.locks?.position),
+        pixels: all || lockers.some(locker => locker.locks?.pixels)
+    };
+};
+
+// Error for a change the layer's locks don't allow, or null
+const getLockError = (layer, locks, fields) => {
+    if (locks.all && fields.some(field => !ALWAYS_EDITABLE_FIELDS.includes(field))) {
+        return new AppError(`"${layer.name}" is locked`, 423);
+    }
+    if (locks.position && fields.some(field => POSITION_FIELDS.includes(field))) {
+        return new AppError(`"${layer.name}" has its position locked`, 423);
+    }
+    if (locks.pixels && fields.some(field => PIXEL_FIELDS.includes(field))) {
+        return new AppError(`"${layer.name}" has its pixels locked`, 423);
+    }
+    return null;
+};
+
+// Delete layers' images from Cloudinary, carrying on past failures
+const destroyLayerImages = async (layers) => {
+    for (const doomed of layers) {
+        try {
+            if (doomed.publicId) {
+                await cloudinary.uploader.destroy(doomed.publicId);
+            }
+            if (doomed.maskPublicId) {
+                await cloudinary.uploader.destroy(doomed.maskPublicId);
+            }
+        } catch (error) {
+            console.warn('Failed to delete layer images from Cloudinary:', error.message);
+        }
+    }
+};
+
+// Deleted layers are kept for as long as undo can reach them. Every deletion
+// is at least one undo step, so only the latest maxHistorySteps deletions
+// are kept; older ones go for good, with their group's contents and the
+// layers they were merged from.
+const purgeDeletedLayers = async (project) => {
+    const deleted = await Layer.find({ project: project._id, deletedAt: { $ne: null } }).sort({ deletedAt: -1 });
+    const deletedIds = new Set(deleted.map(layer => layer._id.toString()));
+    const deletions = deleted.filter(layer => !layer.parent || !deletedIds.has(layer.parent.toString()));
+
+    for (const layer of deletions.slice(project.maxHistorySteps)) {
+        const descendants = layer.type === 'group' ? await findGroupDescendants(layer._id) : [];
+        const removedIds = [layer._id, ...descendants.map(descendant => descendant._id)];
+        const mergedSources = await Layer.find({ mergedInto: { $in: removedIds }, _id: { $nin: removedIds } });
+
+        await destroyLayerImages([layer, ...descendants, ...mergedSources]);
+        await Layer.deleteMany({ _id: { $in: [...removedIds, ...mergedSources.map(source => source._id)] } });
+    }
+};
+
 // @desc    Create a new layer
 // @route   POST /api/layers
 // @access  Private
@@ -24,11 +111,26 @@ export const createLayer = catchAsync(async (req, res, next) => {
         blendMode,
         position,
         transformations,
+        adjustments,
+        text,
+        parent,
         metadata
     } = req.body; 
 
     // Validation
-    if (!projectId || !type || !imageUrl || !publicId || !dimensions) {
+    if (type === 'adjustment') {
+        if (!projectId || !adjustments || !dimensions) {
+            return next(new AppError('Please provide projectId, adjustments, and dimensions', 400));
+        }
+    } else if (type === 'text') {
+        if (!projectId || !text?.content || !dimensions) {
+            return next(new AppError('Please provide projectId, text content, and dimensions', 400));
+        }
+    } else if (type === 'group') {
+        if (!projectId || !dimensions) {
+            return next(new AppError('Please provide projectId and dimensions', 400));
+        }
+    } else if (!projectId || !type || !imageUrl || !publicId || !dimensions) {
         return next(new AppError('Please provide projectId, type, imageUrl, publicId, and dimensions', 400));
     }
 
@@ -42,6 +144,13 @@ export const createLayer = catchAsync(async (req, res, next) => {
         return next(new AppError('Not authorized to add layers to this project', 403));
     }
 
+    if (parent) {
+        const parentGroup = await Layer.findOne({ _id: parent, project: projectId, type: 'group', mergedInto: null, deletedAt: null });
+        if (!parentGroup) {
+            return next(new AppError('Parent group not found in this project', 400));
+        }
+    }
+
     // Get the highest order number for new layer positioning
     const highestOrderLayer = await Layer.findOne({ project: projectId })
         .sort({ order: -1 })
@@ -54,8 +163,8 @@ export const createLayer = catchAsync(async (req, res, next) => {
         project: projectId,
         name: name || 'Layer',
         type,
-        imageUrl,
-        publicId,
+        imageUrl: imageUrl || null,
+        publicId: publicId || null,
         maskUrl: maskUrl || null,
         maskPublicId: maskPublicId || null,
         order: newOrder,
@@ -71,6 +180,9 @@ export const createLayer = catchAsync(async (req, res, next) => {
             flipX: false,
             flipY: false
         },
+        adjustments: type === 'adjustment' ? adjustments : undefined,
+        text: type === 'text' ? text : undefined,
+        parent: parent || null,
         metadata: metadata || {}
     });
 
@@ -130,7 +242,7 @@ export const getProjectLayers = catchAsync(async (req, res, next) => {
 export const getLayer = catchAsync(async (req, res, next) => {
     const { layerId } = req.params;
 
-    const layer = await Layer.findById(layerId).populate('project');
+    const layer = await Layer.findOne({ _id: layerId, deletedAt: null, mergedInto: null }).populate('project');
 
     if (!layer) {
         return next(new AppError('Layer not found', 404));
@@ -156,7 +268,7 @@ export const updateLayer = catchAsync(async (req, res, next) => {
     const { layerId } = req.params;
     const updates = req.body;
 
-    const layer = await Layer.findById(layerId).populate('project');
+    const layer = await Layer.findOne({ _id: layerId, deletedAt: null, mergedInto: null }).populate('project');
 
     if (!layer) {
         return next(new AppError('Layer not found', 404));
@@ -167,10 +279,37 @@ export const updateLayer = catchAsync(async (req, res, next) => {
     }
 
     // Update allowed fields
-    const allowedUpdates = ['name', 'visible', 'locked', 'opacity', 'blendMode', 'position', 'transformations', 'order'];
+    const allowedUpdates = ['name', 'visible', 'locked', 'locks', 'opacity', 'blendMode', 'position', 'transformations', 'order'];
+    if (layer.type === 'adjustment') {
+        allowedUpdates.push('adjustments');
+    }
+    if (layer.type === 'text') {
+        allowedUpdates.push('text', 'dimensions');
+    }
+
+    // Undo and redo restore masks by URL, so the URL and its public ID change together
+    if ('maskUrl' in updates || 'maskPublicId' in updates) {
+        const { maskUrl, maskPublicId } = updates;
+        const cleared = maskUrl === null && maskPublicId === null;
+        const valid = typeof maskUrl === 'string' && typeof maskPublicId === 'string' && maskUrl.includes(maskPublicId);
+        if (!cleared && !valid) {
+            return next(new AppError('maskUrl and maskPublicId must be updated together', 400));
+        }
+        allowedUpdates.push('maskUrl', 'maskPublicId');
+    }
+
+    const lockError = getLockError(
+        layer,
+        await getEffectiveLocks(layer),
+        Object.keys(updates).filter(key => allowedUpdates.includes(key))
+    );
+    if (lockError) {
+        return next(lockError);
+    }
+
     Object.keys(updates).forEach(key => {
         if (allowedUpdates.includes(key)) {
-            if (typeof updates[key] === 'object' && !Array.isArray(updates[key])) {
+            if (updates[key] && typeof updates[key] === 'object' && !Array.isArray(updates[key])) {
                 layer[key] = { ...layer[key], ...updates[key] };
             } else {
                 layer[key] = updates[key];
@@ -200,17 +339,117 @@ export const updateLayer = catchAsync(async (req, res, next) => {
 });
 
 
-// @desc    Reorder layers
+// @desc    Replace a layer's mask (grayscale image: white shows the layer, black hides it)
+// @route   PUT /api/layers/:layerId/mask
+// @access  Private
+export const updateLayerMask = catchAsync(async (req, res, next) => {
+    const { layerId } = req.params;
+
+    if (!req.file) {
+        return next(new AppError('Please upload a mask image', 400));
+    }
+
+    const layer = await Layer.findOne({ _id: layerId, deletedAt: null, mergedInto: null }).populate('project');
+
+    if (!layer || layer.project.user.toString() !== req.user._id.toString()) {
+        // The mask was already uploaded by the middleware
+        await cloudinary.uploader.destroy(req.file.filename).catch(() => {});
+        return layer
+            ? next(new AppError('Not authorized to update this layer', 403))
+            : next(new AppError('Layer not found', 404));
+    }
+
+    const lockError = getLockError(layer, await getEffectiveLocks(layer), PIXEL_FIELDS);
+    if (lockError) {
+        await cloudinary.uploader.destroy(req.file.filename).catch(() => {});
+        return next(lockError);
+    }
+
+    // The previous mask stays in Cloudinary so undo can put it back
+    layer.maskUrl = req.file.path;
+    layer.maskPublicId = req.file.filename;
+    await layer.save();
+
+    await layerProject.findByIdAndUpdate(layer.project._id, {
+        $push: {
+            history: {
+                action: 'layer_updated',
+                layerId: layer._id,
+                description: `Updated mask of layer: ${layer.name}`,
+                timestamp: Date.now()
+            }
+        }
+    });
+
+    res.status(200).json({
+        success: true,
+        message: 'Layer mask updated successfully',
+        data: { layer }
+    });
+});
+
+
+// @desc    Remove a layer's mask
+// @route   DELETE /api/layers/:layerId/mask
+// @access  Private
+export const removeLayerMask = catchAsync(async (req, res, next) => {
+    const { layerId } = req.params;
+
+    const layer = await Layer.findOne({ _id: layerId, deletedAt: null, mergedInto: null }).populate('project');
+
+    if (!layer) {
+        return next(new AppError('Layer not found', 404));
+    }
+
+    if (layer.project.user.toString() !== req.user._id.toString()) {
+        return next(new AppError('Not authorized to update this layer', 403));
+    }
+
+    const maskLockError = getLockError(layer, await getEffectiveLocks(layer), PIXEL_FIELDS);
+    if (maskLockError) {
+        return next(maskLockError);
+    }
+
+    // The mask stays in Cloudinary so undo can put it back
+    layer.maskUrl = null;
+    layer.maskPublicId = null;
+    await layer.save();
+
+    await layerProject.findByIdAndUpdate(layer.project._id, {
+        $push: {
+            history: {
+                action: 'layer_updated',
+                layerId: layer._id,
+                description: `Removed mask of layer: ${layer.name}`,
+                timestamp: Date.now()
+            }
+        }
+    });
+
+    res.status(200).json({
+        success: true,
+        message: 'Layer mask removed successfully',
+        data: { layer }
+    });
+});
+
+
+// @desc    Reorder layers, optionally moving them in or out of groups
+//          (parents maps layer IDs to their new group ID, or null for the top level)
 // @route   PATCH /api/layers/project/:projectId/reorder
 // @access  Private
 export const reorderLayers = catchAsync(async (req, res, next) => {
     const { projectId } = req.params;
-    const { layerIds } = req.body;
+    const { layerIds, parents } = req.body;
 
     if (!Array.isArray(layerIds) || layerIds.length === 0) {
         return next(new AppError('layerIds must be a non-empty array', 400));
     }
 
+    if (parents !== undefined && (typeof parents !== 'object' || parents === null || Array.isArray(parents))) {
+        return next(new AppError('parents must map layer IDs to group IDs', 400));
+    }
+
     const project = await layerProject.findById(projectId);
     if (!project) {
         return next(new AppError('layerProject not found', 404));
@@ -222,14 +461,79 @@ export const reorderLayers = catchAsync(async (req, res, next) => {
     }
 
     // Verify all layerIds belong to this project
-    const layers = await Layer.find({ _id: { $in: layerIds }, project: projectId });
+    const layers = await Layer.find({ _id: { $in: layerIds }, project: projectId, deletedAt: null });
     if (layers.length !== layerIds.length) {
         return next(new AppError('Some layers do not belong to this project', 400));
     }
 
-    // Update order field for each layer document
+    // Fully locked layers keep their place: other layers may move around
+    // them, but they stay in the same order relative to each other
+    const lockedLayers = [];
+    for (const layer of layers) {
+        if ((await getEffectiveLocks(layer)).all) {
+            lockedLayers.push(layer);
+        }
+    }
+    const lockedBefore = [...lockedLayers].sort((a, b) => a.order - b.order);
+    const lockedAfter = [...lockedLayers].sort((a, b) =>
+        layerIds.indexOf(a._id.toString()) - layerIds.indexOf(b._id.toString()));
+    const movedLockedLayer = lockedAfter.find((layer, index) => layer !== lockedBefore[index]);
+    if (movedLockedLayer) {
+        return next(new AppError(`"${movedLockedLayer.name}" is locked`, 423));
+    }
+
+    // Layers can only move into groups of this project, and a group can
+    // never end up inside itself
+    if (parents) {
+        const projectLayers = await Layer.find({ project: projectId, mergedInto: null, deletedAt: null }).select('type parent');
+        const parentOf = new Map(projectLayers.map(layer => [layer._id.toString(), layer.parent ? layer.parent.toString() : null]));
+        const groupIds = new Set(projectLayers.filter(layer => layer.type === 'group').map(layer => layer._id.toString()));
+
+        for (const [layerId, parentId] of Object.entries(parents)) {
+            if (!parentOf.has(layerId)) {
+                return next(new AppError('Some layers do not belong to this project', 400));
+            }
+            if (parentId !== null && !groupIds.has(parentId)) {
+                return next(new AppError('Layers can only be moved into groups of this project', 400));
+            }
+            parentOf.set(layerId, parentId);
+        }
+
+        // Locked layers stay in their group, and locked groups keep their contents
+        const movingLayers = layers.filter(layer => Object.hasOwn(parents, layer._id.toString()) &&
+            (layer.parent ? layer.parent.toString() : null) !== parents[layer._id.toString()]);
+        for (const layer of movingLayers) {
+            if ((await getEffectiveLocks(layer)).all) {
+                return next(new AppError(`"${layer.name}" is locked`, 423));
+            }
+
+            const newParentId = parents[layer._id.toString()];
+            const newParent = newParentId ? await Layer.findById(newParentId) : null;
+            if (newParent && (await getEffectiveLocks(newParent)).all) {
+                return next(new AppError(`"${newParent.name}" is locked`, 423));
+            }
+        }
+
+        for (const layerId of Object.keys(parents)) {
+            const visited = new Set([layerId]);
+            let current = parentOf.get(layerId);
+            while (current) {
+                if (visited.has(current)) {
+                    return next(new AppError('A group cannot be moved into itself', 400));
+                }
+                visited.add(current);
+                current = parentOf.get(current) ?? null;
+            }
+        }
+    }
+
+    // Update order (and group) field for each layer document
     const updatePromises = layerIds.map((layerId, index) => 
-        Layer.findByIdAndUpdate(layerId, { order: index }, { new: true })
+        Layer.findByIdAndUpdate(
+            layerId,
+            parents && Object.hasOwn(parents, layerId) ? { order: index, parent: parents[layerId] } : { order: index },
+            { new: true }
+        )
     );
 
     await Promise.all(updatePromises);
@@ -239,7 +543,7 @@ export const reorderLayers = catchAsync(async (req, res, next) => {
     await project.save();
 
     // Get updated layers to return
-    const updatedLayers = await Layer.find({ project: projectId }).sort({ order: 1 });
+    const updatedLayers = await Layer.find({ project: projectId, mergedInto: null, deletedAt: null }).sort({ order: 1 });
 
     // Add to project history
     await project.addHistory({
@@ -255,7 +559,147 @@ export const reorderLayers = catchAsync(async (req, res, next) => {
 });
 
 
-// @desc    Delete layer
+// @desc    Replace layers with the layer they were merged into
+//          (the merged image is uploaded first, through /images/upload)
+// @route   PATCH /api/layers/project/:projectId/merge
+// @access  Private
+export const mergeLayers = catchAsync(async (req, res, next) => {
+    const { projectId } = req.params;
+    const { mergedLayerId, layerIds, name } = req.body;
+
+    if (!mergedLayerId) {
+        return next(new AppError('Please provide mergedLayerId', 400));
+    }
+
+    if (!Array.isArray(layerIds) || layerIds.length === 0) {
+        return next(new AppError('layerIds must be a non-empty array', 400));
+    }
+
+    if (layerIds.includes(mergedLayerId)) {
+        return next(new AppError('A layer cannot be merged into itself', 400));
+    }
+
+    const project = await layerProject.findById(projectId);
+    if (!project) {
+        return next(new AppError('layerProject not found', 404));
+    }
+
+    if (project.user.toString() !== req.user._id.toString()) {
+        return next(new AppError('Not authorized', 403));
+    }
+
+    const mergedLayer = await Layer.findOne({ _id: mergedLayerId, project: projectId });
+    if (!mergedLayer) {
+        return next(new AppError('Merged layer not found in this project', 404));
+    }
+
+    const sources = await Layer.find({ _id: { $in: layerIds }, project: projectId, mergedInto: null, deletedAt: null });
+    if (sources.length !== layerIds.length) {
+        return next(new AppError('Some layers do not belong to this project', 400));
+    }
+
+    // Merging replaces the sources' pixels
+    for (const source of sources) {
+        const lockError = getLockError(source, await getEffectiveLocks(source), PIXEL_FIELDS);
+        if (lockError) {
+            return next(lockError);
+        }
+    }
+
+    await Layer.updateMany({ _id: { $in: layerIds } }, { mergedInto: mergedLayer._id });
+
+    // The merged layer takes the place of the lowest source, in its group
+    // unless that group was merged too
+    const lowestSource = sources.reduce((lowest, layer) => (layer.order < lowest.order ? layer : lowest));
+    mergedLayer.order = lowestSource.order;
+    mergedLayer.parent = lowestSource.parent && !layerIds.includes(lowestSource.parent.toString())
+        ? lowestSource.parent
+        : null;
+    if (name) {
+        mergedLayer.name = name;
+    }
+    await mergedLayer.save();
+
+    project.layers = project.layers.filter(id => !layerIds.includes(id.toString()));
+    if (!project.layers.some(id => id.toString() === mergedLayer._id.toString())) {
+        project.layers.push(mergedLayer._id);
+    }
+
+    await project.addHistory({
+        action: 'layers_merged',
+        layerId: mergedLayer._id,
+        description: `Merged ${sources.length} layers into: ${mergedLayer.name}`,
+        snapshot: { layerIds }
+    });
+
+    res.status(200).json({
+        success: true,
+        message: 'Layers merged successfully',
+        data: { layer: mergedLayer }
+    });
+});
+
+
+// @desc    Undo a merge: bring the source layers back and delete the merged layer
+// @route   POST /api/layers/:layerId/unmerge
+// @access  Private
+export const unmergeLayer = catchAsync(async (req, res, next) => {
+    const { layerId } = req.params;
+
+    const layer = await Layer.findById(layerId).populate('project');
+
+    if (!layer) {
+        return next(new AppError('Layer not found', 404));
+    }
+
+    if (layer.project.user.toString() !== req.user._id.toString()) {
+        return next(new AppError('Not authorized to update this layer', 403));
+    }
+
+    const sources = await Layer.find({ mergedInto: layer._id }).sort({ order: 1 });
+    if (sources.length === 0) {
+        return next(new AppError('This layer was not created by a merge', 400));
+    }
+
+    if ((await getEffectiveLocks(layer)).all) {
+        return next(new AppError(`"${layer.name}" is locked`, 423));
+    }
+
+    await Layer.updateMany({ mergedInto: layer._id }, { mergedInto: null });
+    sources.forEach(source => { source.mergedInto = null; });
+
+    const project = await layerProject.findById(layer.project._id);
+    project.layers = project.layers.filter(id => id.toString() !== layer._id.toString());
+    project.layers.push(...sources.map(source => source._id));
+
+    try {
+        if (layer.publicId) {
+            await cloudinary.uploader.destroy(layer.publicId);
+        }
+        if (layer.maskPublicId) {
+            await cloudinary.uploader.destroy(layer.maskPublicId);
+        }
+    } catch (error) {
+        console.warn('Failed to delete merged layer images from Cloudinary:', error.message);
+    }
+
+    await layer.deleteOne();
+
+    await project.addHistory({
+        action: 'layers_unmerged',
+        layerId: layer._id,
+        description: `Undid merge of: ${layer.name}`
+    });
+
+    res.status(200).json({
+        success: true,
+        message: 'Merge undone successfully',
+        data: { layers: sources }
+    });
+});
+
+
+// @desc    Delete layer (it is kept, and can be restored, while undo can still reach it)
 // @route   DELETE /api/layers/:layerId
 // @access  Private
 export const deleteLayer = catchAsync(async (req, res, next) => {
@@ -267,7 +711,7 @@ export const deleteLayer = catchAsync(async (req, res, next) => {
 
     const layer = await Layer.findById(layerId).populate('project');
 
-    if (!layer) {
+    if (!layer || layer.deletedAt) {
         return next(new AppError('Layer not found', 404));
     }
 
@@ -275,34 +719,36 @@ export const deleteLayer = catchAsync(async (req, res, next) => {
         return next(new AppError('Not authorized to delete this layer', 403));
     }
 
-    // Delete from Cloudinary
-    try {
-        await cloudinary.uploader.destroy(layer.publicId);
-        if (layer.maskPublicId) {
-            await cloudinary.uploader.destroy(layer.maskPublicId);
-        }
-    } catch (error) {
-        console.warn('Failed to delete layer images from Cloudinary:', error.message);
+    // A group takes the layers in it with it. Layers deleted from it before
+    // keep their own deletion time, so restoring the group leaves them out.
+    const descendants = layer.type === 'group' ? await findGroupDescendants(layer._id) : [];
+    const removedIds = [layer._id, ...descendants.map(descendant => descendant._id)];
+
+    // Nothing locked may go, including layers inside the group
+    const lockedLayer = (await getEffectiveLocks(layer)).all
+        ? layer
+        : descendants.find(descendant => descendant.locked && !descendant.deletedAt);
+    if (lockedLayer) {
+        return next(new AppError(`"${lockedLayer.name}" is locked`, 423));
     }
 
+    await Layer.updateMany({ _id: { $in: removedIds }, deletedAt: null }, { deletedAt: new Date() });
+
     // Remove from project's layers array
     await layerProject.findByIdAndUpdate(layer.project._id, {
-        $pull: { layers: layer._id }
+        $pull: { layers: { $in: removedIds } }
     });
 
-    // Add to project history before deletion
-    await layerProject.findByIdAndUpdate(layer.project._id, {
-        $push: {
-            history: {
-                action: 'layer_deleted',
-                layerId: layer._id,
-                description: `Deleted layer: ${layer.name}`,
-                timestamp: Date.now()
-            }
-        }
+    const project = await layerProject.findById(layer.project._id);
+    await project.addHistory({
+        action: 'layer_deleted',
+        layerId: layer._id,
+        description: descendants.length > 0
+            ? `Deleted group: ${layer.name} (${descendants.length} layers)`
+            : `Deleted layer: ${layer.name}`
     });
 
-    await layer.deleteOne();
+    await purgeDeletedLayers(project);
 
     res.status(200).json({
         success: true,
@@ -311,13 +757,72 @@ export const deleteLayer = catchAsync(async (req, res, next) => {
 });
 
 
+// @desc    Restore a deleted layer, with the layers deleted along with it
+// @route   POST /api/layers/:layerId/restore
+// @access  Private
+export const restoreLayer = catchAsync(async (req, res, next) => {
+    const { layerId } = req.params;
+
+    const layer = await Layer.findById(layerId).populate('project');
+
+    if (!layer) {
+        return next(new AppError('Layer not found', 404));
+    }
+
+    if (layer.project.user.toString() !== req.user._id.toString()) {
+        return next(new AppError('Not authorized to restore this layer', 403));
+    }
+
+    if (!layer.deletedAt) {
+        return next(new AppError('This layer has not been deleted', 400));
+    }
+
+    const deletedAt = layer.deletedAt.getTime();
+    const descendants = layer.type === 'group'
+        ? (await findGroupDescendants(layer._id)).filter(descendant => descendant.deletedAt?.getTime() === deletedAt)
+        : [];
+
+    // Back into its group if that is still there, otherwise to the top level
+    if (layer.parent) {
+        const parentGroup = await Layer.findOne({ _id: layer.parent, type: 'group', mergedInto: null, deletedAt: null });
+        if (!parentGroup) {
+            layer.parent = null;
+        }
+    }
+
+    layer.deletedAt = null;
+    await layer.save();
+
+    if (descendants.length > 0) {
+        await Layer.updateMany({ _id: { $in: descendants.map(descendant => descendant._id) } }, { deletedAt: null });
+        descendants.forEach(descendant => { descendant.deletedAt = null; });
+    }
+
+    const project = await layerProject.findById(layer.project._id);
+    const restored = [layer, ...descendants];
+    project.layers.push(...restored.map(restoredLayer => restoredLayer._id));
+
+    await project.addHistory({
+        action: 'layer_restored',
+        layerId: layer._id,
+        description: `Restored layer: ${layer.name}`
+    });
+
+    res.status(200).json({
+        success: true,
+        message: 'Layer restored successfully',
+        data: { layers: restored.sort((a, b) => a.order - b.order) }
+    });
+});
+
+
 // @desc    Duplicate layer
 // @route   POST /api/layers/:layerId/duplicate
 // @access  Private
 export const duplicateLayer = catchAsync(async (req, res, next) => {
     const { layerId } = req.params;
 
-    const originalLayer = await Layer.findById(layerId).populate('project');
+    const originalLayer = await Layer.findOne({ _id: layerId, deletedAt: null, mergedInto: null }).populate('project');
 
     if (!originalLayer) {
         return next(new AppError('Layer not found', 404));
@@ -332,6 +837,8 @@ export const duplicateLayer = catchAsync(async (req, res, next) => {
     delete duplicateData._id;
     delete duplicateData.createdAt;
     delete duplicateData.updatedAt;
+    delete duplicateData.deletedAt;
+    delete duplicateData.mergedInto;
     
     duplicateData.name = `${originalLayer.name} Copy`;
     duplicateData.order = originalLayer.order + 1;
@@ -109,6 +109,7 @@ export const getProjectDetails = catchAsync(async (req, res, next) => {
             totalLayers: project.layers.length,
             thumbnail: project.thumbnail,
             history: project.history.slice(-10),
+            maxHistorySteps: project.maxHistorySteps,
             createdAt: project.createdAt,
             updatedAt: project.updatedAt
         }
@@ -310,6 +310,11 @@ export const processPrompt = catchAsync(async (req, res, next) => {
         // Create custom response handler to capture output and add to history
         const originalJson = res.json.bind(res);
         res.json = async function(data) {
+            // Tell the client which feature Gemini picked
+            if (data?.success) {
+                data.feature = parsedIntent.feature;
+            }
+
             // Add to history if sequential and operation succeeded
             if (projectType === 'ai-sequential' && data?.success && data?.data) {
                 // Map features to operation types
@@ -45,7 +45,7 @@ const aiProjectSchema = new mongoose.Schema({
     operations: [{
         operationType: {
             type: String,
-            enum: ['relight', 'enhance', 'face-restore', 'style-transfer', 'remove-background', 'object-removal'],
+            enum: ['relight', 'enhance', 'face-restore', 'style-transfer', 'remove-background', 'object-removal', 'crop'],
             required: true
         },
         prompt: mongoose.Schema.Types.Mixed, // Parameters/settings used for the operation
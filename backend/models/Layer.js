@@ -13,16 +13,19 @@ const layerSchema = new mongoose.Schema({
     },
     type: {
         type: String,
-        enum: ['background', 'foreground', 'object', 'text', 'adjustment', 'custom'],
+        enum: ['background', 'foreground', 'object', 'text', 'adjustment', 'group', 'custom'],
         required: true
     },
+    // Adjustment, text and group layers have no image of their own
     imageUrl: {
         type: String,
-        required: true
+        required: function () { return !['adjustment', 'text', 'group'].includes(this.type); },
+        default: null
     },
     publicId: {
         type: String,
-        required: true
+        required: function () { return !['adjustment', 'text', 'group'].includes(this.type); },
+        default: null
     },
     maskUrl: {
         type: String,
@@ -32,6 +35,13 @@ const layerSchema = new mongoose.Schema({
         type: String,
         default: null
     },
+    // Group the layer is nested in (null at the top level). Groups are
+    // layers of type 'group' and can be nested in other groups.
+    parent: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Layer',
+        default: null
+    },
     order: {
         type: Number,
         required: true,
@@ -41,10 +51,17 @@ const layerSchema = new mongoose.Schema({
         type: Boolean,
         default: true
     },
+    // Locks everything but visibility and the locks themselves
     locked: {
         type: Boolean,
         default: false
     },
+    // Partial locks: position (moving, scaling, rotating) and pixels
+    // (image, mask, text, adjustments). A group's locks cover its contents.
+    locks: {
+        position: { type: Boolean, default: false },
+        pixels: { type: Boolean, default: false }
+    },
     opacity: {
         type: Number,
         min: 0,
@@ -71,6 +88,48 @@ const layerSchema = new mongoose.Schema({
         flipX: { type: Boolean, default: false },
         flipY: { type: Boolean, default: false }
     },
+    // Colour adjustments applied to the layers below (adjustment layers only)
+    adjustments: {
+        brightness: { type: Number, min: -100, max: 100, default: 0 },
+        contrast: { type: Number, min: -100, max: 100, default: 0 },
+        saturation: { type: Number, min: -100, max: 100, default: 0 },
+        hue: { type: Number, min: -180, max: 180, default: 0 },
+        temperature: { type: Number, min: -100, max: 100, default: 0 },
+        tint: { type: Number, min: -100, max: 100, default: 0 }
+    },
+    // Text and its styling (text layers only). Sizes are in canvas pixels.
+    text: {
+        content: { type: String, default: '' },
+        fontFamily: { type: String, default: 'grift' },
+        fontSize: { type: Number, min: 1, max: 2000, default: 96 },
+        color: { type: String, default: '#000000' },
+        align: { type: String, enum: ['left', 'center', 'right'], default: 'center' },
+        lineHeight: { type: Number, min: 0.5, max: 5, default: 1.2 },
+        letterSpacing: { type: Number, default: 0 },
+        stroke: {
+            color: { type: String, default: '#ffffff' },
+            width: { type: Number, min: 0, default: 0 }
+        },
+        shadow: {
+            color: { type: String, default: 'rgba(0, 0, 0, 0.5)' },
+            blur: { type: Number, min: 0, default: 0 },
+            offsetX: { type: Number, default: 0 },
+            offsetY: { type: Number, default: 0 }
+        }
+    },
+    // Set on the source layers of a merge; they leave the project's layers
+    // array but are kept so the merge can be undone
+    mergedInto: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Layer',
+        default: null
+    },
+    // Set when the layer is deleted; it leaves the project's layers array
+    // but is kept so the deletion can be undone (see restoreLayer)
+    deletedAt: {
+        type: Date,
+        default: null
+    },
     metadata: {
         format: String,
         size: Number,
@@ -3,6 +3,7 @@ import {
     relightImage, 
     enhanceImage,
     faceRestore,
+    faceDetect,
     styleTransfer,
     removeBackground,
     objectRemoval,
@@ -10,6 +11,7 @@ import {
     replaceBackground
 } from '../controllers/aiOperationsController.js';
 import { protect } from '../middleware/auth.js';
+import upload from '../middleware/upload.js';
 
 const router = express.Router();
 
@@ -22,9 +24,10 @@ router.post('/separate-layers', separateLayers);
 router.post('/relight', relightImage);
 router.post('/enhance', enhanceImage);
 router.post('/face-restore', faceRestore);
+router.post('/face-detect', faceDetect);
 router.post('/style-transfer', styleTransfer);
 router.post('/remove-background', removeBackground);
-router.post('/object-removal', objectRemoval);
+router.post('/object-removal', upload.single('mask'), objectRemoval); // Optional selection mask
 router.post('/replace-background', replaceBackground);
 
 export default router;
@@ -11,7 +11,7 @@ router.use(protect);
 // Image routes
 router.post('/upload', upload.single('image'), uploadImage);
 router.post('/upload-multiple', upload.array('images', 2), uploadMultipleImages); // Max 2 images
-router.patch('/crop', cropImage); // Crop image and replace original
+router.patch('/crop', cropImage); // Crop, straighten, rotate or flip into a new image
 router.delete('/:publicId', deleteImage);
 router.get('/:publicId', getImageDetails);
 
@@ -6,8 +6,14 @@ import {
     updateLayer,
     reorderLayers,
     deleteLayer,
-    duplicateLayer
+    restoreLayer,
+    duplicateLayer,
+    updateLayerMask,
+    removeLayerMask,
+    mergeLayers,
+    unmergeLayer
 } from '../controllers/layerController.js';
+import upload from '../middleware/upload.js';
 import { protect } from '../middleware/auth.js';
 
 const router = express.Router();
@@ -24,6 +30,11 @@ router.delete('/:layerId', deleteLayer);
 
 // Layer-specific operations
 router.patch('/project/:projectId/reorder', reorderLayers);
+router.patch('/project/:projectId/merge', mergeLayers);
 router.post('/:layerId/duplicate', duplicateLayer);
+router.post('/:layerId/unmerge', unmergeLayer);
+router.post('/:layerId/restore', restoreLayer);
+router.put('/:layerId/mask', upload.single('mask'), updateLayerMask);
+router.delete('/:layerId/mask', removeLayerMask);
 
 export default router;
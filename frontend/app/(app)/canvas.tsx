@@ -16,19 +16,17 @@ import { router } from 'expo-router';
 import Navbar from '../../components/Navbar';
 import { useTheme } from '../../context/ThemeContext';
 import ApiService from '../../services/api';
+import { isSessionExpiredError } from '../../services/apiErrors';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import CustomAlert from '../../components/CustomAlert';
 import { useAlert } from '../../hooks/useAlert';
+import { CANVAS_PRESETS } from '../../constants/sizePresets';
 
 const UNITS_OPTIONS = ['px', 'in', 'cm', 'mm', 'points'];
 const BACKGROUND_OPTIONS = ['white', 'black', 'transparent'];
 
 // Preset dimensions (in pixels)
-const PRESET_DIMENSIONS = {
-  instagram: { width: 1080, height: 1080, name: 'Instagram' },
-  facebook: { width: 1200, height: 630, name: 'Facebook' },
-  youtube: { width: 1280, height: 720, name: 'YouTube' },
-};
+const PRESET_DIMENSIONS = CANVAS_PRESETS;
 
 // Unit conversion to pixels (approximate)
 const convertToPixels = (value: number, unit: string): number => {
@@ -198,7 +196,7 @@ export default function Canvas() {
         );
       }
 
-      if (!projectResult.response.ok || !projectResult.data.success) {
+      if (!projectResult.response.ok || !projectResult.data.success || !projectResult.data.data) {
         throw new Error(projectResult.data.message || 'Failed to create project');
       }
 
@@ -219,9 +217,7 @@ export default function Canvas() {
       console.error('Error creating project:', error);
       
       // Handle authentication errors - redirect to login
-      if (error.name === 'AuthenticationError' || 
-          error.message?.toLowerCase().includes('invalid signature') ||
-          error.message?.toLowerCase().includes('session has expired')) {
+      if (isSessionExpiredError(error)) {
         showAlert(
           'error',
           'Session Expired',
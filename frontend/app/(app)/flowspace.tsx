@@ -29,7 +29,17 @@ import {
   Sparkles,
   Palette,
   Upload,
-  Camera
+  Camera,
+  SquareDashed,
+  Type,
+  Folder,
+  FolderOpen,
+  ChevronDown,
+  ChevronRight,
+  Lock,
+  Undo2,
+  Redo2,
+  History
 } from 'lucide-react-native';
 import Sidebar from '../../components/Sidebar';
 import Navbar from '../../components/Navbar';
@@ -37,29 +47,93 @@ import Navbar from '../../components/Navbar';
 import { useTheme } from '../../context/ThemeContext';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import ApiService from '../../services/api';
+import { assertApiSuccess, normalizeProcessedImage } from '../../services/apiResults';
+import { BlendMode, ImageRef, LayerLocks, LayerParents, LayerRecord, LayerText, LayerType, LayerUpdate } from '../../services/apiTypes';
+import { isLayerLockedError } from '../../services/apiErrors';
+import LayerEditQueue, {
+  LayerEditConflict,
+  LayerEditQueueState,
+  applyLayerUpdate,
+  getLayerUpdateBase,
+} from '../../services/layerEditQueue';
+import LayerHistory, {
+  LayerHistoryEntry,
+  LayerHistoryState,
+  NewLayerHistoryEntry,
+  getLayerEditLabel,
+} from '../../services/layerHistory';
 import * as ImagePicker from 'expo-image-picker';
+import * as Sharing from 'expo-sharing';
 import { useAlert } from '../../hooks/useAlert';
 import CustomAlert from '../../components/CustomAlert';
 import Loader from '../../components/Loader';
+import ExportSheet from '../../components/ExportSheet';
+import ImageImportSheet, { ImportItem } from '../../components/ImageImportSheet';
+import LayerHistoryPanel from '../../components/LayerHistoryPanel';
+import LayerCanvas from '../../components/LayerCanvas';
+import LayerTransformOverlay, { LayerPlacement } from '../../components/LayerTransformOverlay';
+import MaskEditor from '../../components/MaskEditor';
+import TextLayerEditor from '../../components/TextLayerEditor';
 import { getRandomFunFact } from '../../utils/funFacts';
+import { ExportOptions, renderCompositeToFile } from '../../utils/exportRenderer';
+import { defaultLayerText, layoutText, loadTextFonts } from '../../utils/textLayers';
+import { getDrawableLayers } from '../../utils/compositor';
+import { ImportLayout, getImportPlacements } from '../../utils/importLayout';
+import { loadSkImage } from '../../utils/bitmap';
+import { alphaToMaskImage, getMaskSize, renderMaskToFile } from '../../utils/layerMask';
+import {
+  applyStackOrder,
+  flattenLayerTree,
+  getChildLayers,
+  getGroupDescendants,
+  getParentGroup,
+  getStackOrder,
+  getVisibleLayers,
+  groupLayerInStack,
+  insertLayerInStack,
+  moveLayerInStack,
+  ungroupInStack,
+} from '../../utils/layerGroups';
+import {
+  LAYER_LOCKS,
+  LayerLock,
+  findRegroupLock,
+  getBlockingLock,
+  getLayerLockMessage,
+  getLayerLockState,
+} from '../../utils/layerLocks';
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
 const SCREEN_HEIGHT = Dimensions.get('window').height;
 const CANVAS_HEIGHT = SCREEN_HEIGHT * 0.5;
+const LAYER_INDENT = 16; // Per nesting level in the layers list
+const MAX_IMPORT_IMAGES = 20; // Per gallery pick
+const IMPORT_CONCURRENCY = 3; // Parallel uploads while importing
+
+// Blend modes supported by the Layer model and the compositor
+const BLEND_MODES: { value: BlendMode; label: string }[] = [
+  { value: 'normal', label: 'Normal' },
+  { value: 'multiply', label: 'Multiply' },
+  { value: 'screen', label: 'Screen' },
+  { value: 'overlay', label: 'Overlay' },
+  { value: 'soft-light', label: 'Soft Light' },
+  { value: 'hard-light', label: 'Hard Light' },
+];
 
 // Layer interface matching backend Layer model
 interface Layer {
   _id?: string; // MongoDB ID
   id: string;
   name: string;
-  type: string; // 'foreground', 'background', 'object', 'custom', 'adjustment', etc.
+  type: string; // 'foreground', 'background', 'object', 'custom', 'adjustment', 'group', etc.
   imageUrl: string;
   publicId: string;
   maskUrl?: string | null;
   maskPublicId?: string | null;
   order: number;
   visible: boolean;
-  locked: boolean;
+  locked: boolean; // Lock all
+  locks?: LayerLocks;
   opacity: number;
   blendMode: string; // 'normal', 'multiply', 'screen', 'overlay', etc.
   position: { x: number; y: number };
@@ -81,11 +155,26 @@ interface Layer {
     temperature: number; // -100 to 100 (warmth/coolness)
     tint: number; // -100 to 100 (green/magenta)
   };
+  // Text layer properties
+  text?: LayerText;
+  // Group layers contain the layers whose parent they are
+  parent?: string | null;
+  isGroupLayer?: boolean;
   metadata?: any;
   createdAt?: string;
   updatedAt?: string;
 }
 
+// Map a backend layer to the screen's Layer shape
+const toLayer = (record: LayerRecord): Layer => ({
+  ...record,
+  id: record._id,
+  imageUrl: record.imageUrl || '',
+  publicId: record.publicId || '',
+  isAdjustmentLayer: record.type === 'adjustment',
+  isGroupLayer: record.type === 'group',
+});
+
 export default function Flowspace() {
   // ============================================================
   // STATE MANAGEMENT
@@ -105,7 +194,10 @@ export default function Flowspace() {
   
   // Layer state
   const [layers, setLayers] = useState<Layer[]>([]);
+  // Latest layers for callbacks that outlive a render (alert buttons)
+  const layersRef = useRef<Layer[]>([]);
   const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const [collapsedGroupIds, setCollapsedGroupIds] = useState<string[]>([]);
   
   // UI state
   const [layersModalVisible, setLayersModalVisible] = useState(false);
@@ -122,8 +214,41 @@ export default function Flowspace() {
   const [enhancementAnalysis, setEnhancementAnalysis] = useState<any>(null);
   const [applyingEnhancements, setApplyingEnhancements] = useState(false);
   
+  // Export state
+  const [exportSheetVisible, setExportSheetVisible] = useState(false);
+  const [exportHasAlpha, setExportHasAlpha] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
   // Background harmonization state
   const [harmonizingBackground, setHarmonizingBackground] = useState(false);
+
+  // Last merge, until it is undone (see mergeLayers)
+  const [undoableMerge, setUndoableMerge] = useState<{ layerId: string; name: string } | null>(null);
+
+  // Text editor state (layerId null while creating a text layer)
+  const [textEditor, setTextEditor] = useState<{ layerId: string | null; text: LayerText } | null>(null);
+  const [savingText, setSavingText] = useState(false);
+
+  // On-canvas transform state (placement shown while a gesture is in progress)
+  const [transformPreview, setTransformPreview] = useState<{ layerId: string; placement: LayerPlacement } | null>(null);
+
+  // Multi-image import state (uploaded layers by import item, until placed)
+  const [importItems, setImportItems] = useState<ImportItem[]>([]);
+  const [importLayout, setImportLayout] = useState<ImportLayout>('fit');
+  const [importStarted, setImportStarted] = useState(false);
+  const importedLayers = useRef(new Map<string, Layer>());
+
+  // Mask editor state (layer whose mask is being edited)
+  const [maskEditorLayerId, setMaskEditorLayerId] = useState<string | null>(null);
+
+  // Layer edit sync state (see services/layerEditQueue)
+  const [layerEditSync, setLayerEditSync] = useState<LayerEditQueueState>(LayerEditQueue.getState());
+  const handledConflictIds = useRef(new Set<string>());
+
+  // Undo/redo
+  const [layerHistory, setLayerHistory] = useState<LayerHistoryState>(LayerHistory.getState());
+  const [historyPanelVisible, setHistoryPanelVisible] = useState(false);
+  const [historyBusy, setHistoryBusy] = useState(false);
   
   // Adjustment layer temporary state (before creation)
   const [tempAdjustments, setTempAdjustments] = useState({
@@ -139,6 +264,10 @@ export default function Flowspace() {
   const inputBottomOffset = useRef(new Animated.Value(0)).current;
   const layersSidebarTranslateX = useRef(new Animated.Value(SCREEN_WIDTH * 0.65)).current;
 
+  useEffect(() => {
+    layersRef.current = layers;
+  }, [layers]);
+
   // ============================================================
   // KEYBOARD EVENT LISTENERS
   // ============================================================
@@ -214,6 +343,43 @@ export default function Flowspace() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // ============================================================
+  // LAYER EDIT SYNC
+  // ============================================================
+  useEffect(() => {
+    const unsubscribe = LayerEditQueue.subscribe(setLayerEditSync);
+    return () => {
+      unsubscribe();
+      LayerEditQueue.close();
+    };
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = LayerHistory.subscribe(setLayerHistory);
+    return () => {
+      unsubscribe();
+      LayerHistory.close();
+    };
+  }, []);
+
+  useEffect(() => {
+    layerEditSync.conflicts.forEach(conflict => {
+      if (!handledConflictIds.current.has(conflict.edit.id)) {
+        handledConflictIds.current.add(conflict.edit.id);
+        handleLayerEditConflict(conflict);
+      }
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [layerEditSync.conflicts]);
+
+  // Add the imported layers as soon as every image is uploaded
+  useEffect(() => {
+    if (importStarted && importItems.length > 0 && importItems.every(item => item.status === 'done')) {
+      finishImport();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [importStarted, importItems]);
+
   // ============================================================
   // PROJECT MANAGEMENT FUNCTIONS
   // ============================================================
@@ -230,7 +396,7 @@ export default function Flowspace() {
         canvasBackgroundColor
       );
       
-      if (!result.response.ok || !result.data.success) {
+      if (!result.response.ok || !result.data.success || !result.data.data) {
         throw new Error(result.data.message || 'Failed to create project');
       }
       
@@ -240,6 +406,8 @@ export default function Flowspace() {
       
       await AsyncStorage.setItem('current_project_id', newProjectId);
       await AsyncStorage.setItem('project_type', 'layer-based');
+      await LayerEditQueue.open(newProjectId);
+      await LayerHistory.open(newProjectId);
       
       setProjectCreated(true);
       showAlert('success', 'Project Created', 'Your layer-based project has been created successfully!');
@@ -259,7 +427,7 @@ export default function Flowspace() {
       
       const result = await ApiService.getProjectDetails(loadProjectId);
       
-      if (!result.response.ok || !result.data.success) {
+      if (!result.response.ok || !result.data.success || !result.data.data) {
         throw new Error('Failed to load project');
       }
       
@@ -269,22 +437,25 @@ export default function Flowspace() {
       setCanvasWidth(projectData.canvas.width);
       setCanvasHeight(projectData.canvas.height);
       
-      // Map layers with proper ID field (only backend layers)
-      const mappedLayers = projectData.layers.map((layer: any) => ({
-        ...layer,
-        id: layer._id || layer.id,
-      }));
+      // Move adjustment layers left over from older versions to the backend
+      const backendLayers = await migrateLocalAdjustmentLayers(projectData.projectId, projectData.layers);
       
-      // Load client-side adjustment layers from AsyncStorage
-      const adjustmentLayers = await loadAdjustmentLayers(loadProjectId);
+      // Layer edits that have not reached the backend yet
+      const queuedEdits = await LayerEditQueue.open(projectData.projectId);
+      await LayerHistory.open(projectData.projectId, projectData.maxHistorySteps);
       
-      // Combine backend layers with client-side adjustment layers
-      const allLayers = [...mappedLayers, ...adjustmentLayers];
+      // Map layers with proper ID field and re-apply the queued edits on top
+      const mappedLayers = backendLayers.map(layer => queuedEdits
+        .filter(edit => edit.layerId === layer._id)
+        .reduce(
+          (current, edit) => applyLayerUpdate(current, edit.changes),
+          toLayer(layer)
+        ));
       
-      setLayers(allLayers);
+      setLayers(mappedLayers);
       setProjectCreated(true);
       
-      console.log('[loadExistingProject] Loaded', mappedLayers.length, 'backend layers and', adjustmentLayers.length, 'adjustment layers');
+      console.log('[loadExistingProject] Loaded', mappedLayers.length, 'layers');
       
     } catch (error) {
       console.error('Error loading project:', error);
@@ -319,7 +490,7 @@ export default function Flowspace() {
         }
       });
       
-      if (!uploadResult.response.ok || !uploadResult.data.success) {
+      if (!uploadResult.response.ok || !uploadResult.data.success || !uploadResult.data.data) {
         throw new Error(uploadResult.data.message || 'Failed to upload image');
       }
 
@@ -354,9 +525,12 @@ export default function Flowspace() {
         }));
         
         setLayers(mappedLayers);
+        await LayerHistory.record({ label: 'Add Image', added: mappedLayers.map(l => l.id) });
         showAlert('success', 'Layers Created', `Image separated into ${mappedLayers.length} layers!`);
-      } else if (responseData.layer) {
+      } else if (responseData.layer && responseData.image) {
         // Subsequent image - single layer
+        const uploadedLayer = responseData.layer;
+        const uploadedImage = responseData.image;
         // If there's only 1 layer (layer 1, order 0), add new image as layer 2 (order 1)
         // Otherwise, use the order from backend
         setLayers(prev => {
@@ -372,16 +546,16 @@ export default function Flowspace() {
             : (maxOrder + 1);
           
           const newLayer: Layer = {
-            id: responseData.layer.id || responseData.layer._id,
-            _id: responseData.layer._id || responseData.layer.id,
-            name: responseData.layer.name,
-            type: responseData.layer.type,
-            imageUrl: responseData.layer.imageUrl || responseData.image.imageUrl,
-            publicId: responseData.layer.publicId || responseData.image.publicId,
+            id: uploadedLayer.id,
+            _id: uploadedLayer.id,
+            name: uploadedLayer.name,
+            type: uploadedLayer.type,
+            imageUrl: uploadedLayer.imageUrl || uploadedImage.imageUrl,
+            publicId: uploadedImage.publicId,
             order: newOrder,
-            visible: responseData.layer.visible !== undefined ? responseData.layer.visible : true,
+            visible: uploadedLayer.visible !== undefined ? uploadedLayer.visible : true,
             locked: false,
-            opacity: responseData.layer.opacity || 100,
+            opacity: uploadedLayer.opacity || 100,
             blendMode: 'normal',
             position: { x: 0, y: 0 },
             dimensions: { width: 0, height: 0 },
@@ -396,6 +570,7 @@ export default function Flowspace() {
           
           return [...prev, newLayer];
         });
+        await LayerHistory.record({ label: `Add Image: ${uploadedLayer.name}`, added: [uploadedLayer.id] });
         showAlert('success', 'Layer Added', 'Image added as new layer!');
       }
       
@@ -420,12 +595,17 @@ export default function Flowspace() {
     const result = await ImagePicker.launchImageLibraryAsync({
       mediaTypes: ["images"],
       allowsEditing: false,
+      allowsMultipleSelection: true,
+      selectionLimit: MAX_IMPORT_IMAGES,
       quality: 1,
     });
 
-    if (!result.canceled) {
-      const uri = result.assets[0].uri;
-      await handleImageSelected(uri, 'gallery');
+    if (result.canceled) return;
+
+    if (result.assets.length === 1) {
+      await handleImageSelected(result.assets[0].uri, 'gallery');
+    } else {
+      openImport(result.assets);
     }
   };
 
@@ -463,6 +643,144 @@ export default function Flowspace() {
     await openCamera();
   };
 
+  // ============================================================
+  // MULTI-IMAGE IMPORT FUNCTIONS
+  // ============================================================
+  const openImport = (assets: ImagePicker.ImagePickerAsset[]) => {
+    if (!projectCreated || !projectId) {
+      showAlert('warning', 'No Project', 'Please create a project first.');
+      return;
+    }
+
+    importedLayers.current.clear();
+    setImportStarted(false);
+    setImportItems(assets.map((asset, index) => ({
+      id: `${index}_${asset.uri}`,
+      uri: asset.uri,
+      name: asset.fileName || asset.uri.split('/').pop() || `Image ${index + 1}`,
+      width: asset.width,
+      height: asset.height,
+      status: 'pending',
+    })));
+  };
+
+  const closeImport = () => {
+    importedLayers.current.clear();
+    setImportStarted(false);
+    setImportItems([]);
+  };
+
+  const updateImportItem = (itemId: string, changes: Partial<ImportItem>) => {
+    setImportItems(prev => prev.map(item => (item.id === itemId ? { ...item, ...changes } : item)));
+  };
+
+  // Every image is sent on its own, so each has its own progress and can be
+  // retried without uploading the others again
+  const uploadImportItem = async (item: ImportItem) => {
+    if (!projectId) return;
+
+    updateImportItem(item.id, { status: 'uploading', message: undefined });
+    try {
+      const result = await ApiService.uploadMultipleImages([item.uri], projectId, (attempt, maxAttempts, message) => {
+        updateImportItem(item.id, { message });
+      });
+      assertApiSuccess(result, 'Upload failed');
+
+      const record = result.data.data?.layers[0];
+      if (!record) {
+        throw new Error('Upload failed');
+      }
+
+      importedLayers.current.set(item.id, toLayer(record));
+      updateImportItem(item.id, { status: 'done', message: undefined });
+    } catch (error: any) {
+      console.error('[uploadImportItem] Error:', error);
+      updateImportItem(item.id, { status: 'failed', message: error.message || 'Upload failed' });
+    }
+  };
+
+  const startImport = async () => {
+    setImportStarted(true);
+
+    // A few uploads at a time
+    const queue = [...importItems];
+    const uploadNext = async (): Promise<void> => {
+      const item = queue.shift();
+      if (!item) return;
+      await uploadImportItem(item);
+      return uploadNext();
+    };
+
+    await Promise.all(Array.from({ length: Math.min(IMPORT_CONCURRENCY, queue.length) }, uploadNext));
+  };
+
+  // Stack the uploaded images on top, in the order they were picked, and
+  // arrange them with the chosen layout. Failed images are left out.
+  const finishImport = async () => {
+    const uploaded = importItems.flatMap(item => {
+      const layer = importedLayers.current.get(item.id);
+      return layer ? [{ item, layer }] : [];
+    });
+    closeImport();
+
+    if (uploaded.length === 0 || !projectId) return;
+
+    const sizes = uploaded.map(({ item, layer }) =>
+      layer.dimensions?.width && layer.dimensions?.height
+        ? layer.dimensions
+        : { width: item.width, height: item.height }
+    );
+    const placements = getImportPlacements(sizes, canvasWidth, canvasHeight, importLayout);
+    const maxOrder = layers.reduce((max, l) => Math.max(max, l.order), -1);
+
+    const placedLayers = uploaded.map(({ layer }, index) => ({
+      ...layer,
+      order: maxOrder + 1 + index,
+      dimensions: sizes[index],
+      position: placements[index].position,
+      transformations: {
+        ...layer.transformations,
+        scaleX: placements[index].scale,
+        scaleY: placements[index].scale,
+      },
+    }));
+
+    setLayers(prev => [...prev, ...placedLayers]);
+    setSelectedLayerId(placedLayers[placedLayers.length - 1].id);
+
+    try {
+      // Parallel uploads can hand out the same order, so restack them all
+      const { layerIds, parents } = getStackOrder([...layers, ...placedLayers]);
+      const reorderResult = await ApiService.reorderLayers(projectId, layerIds, parents);
+      assertApiSuccess(reorderResult, 'Failed to order the imported layers');
+      await recordStackChange(
+        `Import ${placedLayers.length} ${placedLayers.length === 1 ? 'Image' : 'Images'}`,
+        layers,
+        [...layers, ...placedLayers],
+        { added: placedLayers.map(l => l.id) }
+      );
+
+      await Promise.all(placedLayers.map((layer, index) => {
+        if (importLayout === 'fit') return Promise.resolve();
+
+        const changes: LayerUpdate = { position: layer.position, transformations: layer.transformations };
+        return LayerEditQueue.enqueue(layer.id, changes, getLayerUpdateBase(uploaded[index].layer, changes));
+      }));
+
+      const failedCount = importItems.length - uploaded.length;
+      showAlert(
+        'success',
+        'Images Imported',
+        failedCount > 0
+          ? `${uploaded.length} images added as layers, ${failedCount} skipped`
+          : `${uploaded.length} images added as layers`
+      );
+    } catch (error: any) {
+      console.error('[finishImport] Error:', error);
+      showAlert('error', 'Error', error.message || 'Failed to arrange the imported layers');
+    }
+  };
+
   // ============================================================
   // AUTO-ENHANCEMENT FUNCTIONS
   // ============================================================
@@ -484,7 +802,7 @@ export default function Flowspace() {
       console.log('[handleAutoEnhance] Analyzing project:', projectId);
       const result = await ApiService.autoEnhanceAnalysis(projectId);
       
-      if (!result.response.ok || !result.data.success) {
+      if (!result.response.ok || !result.data.success || !result.data.data) {
         throw new Error(result.data.message || 'Analysis failed');
       }
 
@@ -534,7 +852,7 @@ export default function Flowspace() {
       console.log('[handleApplyEnhancements] Applying enhancements:', enhancementOrder);
       const result = await ApiService.applyEnhancements(projectId, enhancementOrder);
       
-      if (!result.response.ok || !result.data.success) {
+      if (!result.response.ok || !result.data.success || !result.data.data) {
         throw new Error(result.data.message || 'Failed to apply enhancements');
       }
 
@@ -643,54 +961,46 @@ export default function Flowspace() {
         backgroundLayer.imageUrl
       );
       
-      if (!result.response.ok || !result.data.success) {
-        throw new Error(result.data.message || 'Background harmonization failed');
-      }
+      assertApiSuccess(result, 'Background harmonization failed');
 
-      const harmonizedData = result.data.data;
-      console.log('[handleBackgroundHarmonization] Harmonization complete:', harmonizedData);
-      
-      // The backend returns outputImage with imageUrl and publicId
-      const outputImage = harmonizedData.outputImage;
-      
-      if (!outputImage || !outputImage.imageUrl) {
-        throw new Error('Invalid response: missing harmonized image URL');
-      }
+      const outputImage = normalizeProcessedImage('replace-background', result);
+      console.log('[handleBackgroundHarmonization] Harmonization complete:', outputImage);
 
-      // Add the harmonized layer directly to state
-      // The image is already uploaded to Cloudinary by the backend
-      const newLayer: Layer = {
-        id: `harmonized_${Date.now()}`,
-        _id: `harmonized_${Date.now()}`,
-        name: 'Harmonized Background',
+      // The image is already uploaded to Cloudinary by the backend; the layer
+      // is created on the server so it can be edited, reordered and undone
+      const maxOrder = Math.max(...layers.map(l => l.order));
+      const createResult = await ApiService.createLayer({
+        projectId,
         type: 'custom',
+        name: 'Harmonized Background',
         imageUrl: outputImage.imageUrl,
-        publicId: outputImage.publicId || '',
-        order: layers.length,
-        visible: true,
-        locked: false,
-        opacity: 100,
-        blendMode: 'normal',
-        position: { x: 0, y: 0 },
+        publicId: outputImage.publicId,
+        order: maxOrder + 1,
         dimensions: {
           width: outputImage.width || canvasWidth,
           height: outputImage.height || canvasHeight
         },
-        transformations: {
-          rotation: 0,
-          scaleX: 1,
-          scaleY: 1,
-          flipX: false,
-          flipY: false
-        }
-      };
-      
+      });
+
+      assertApiSuccess(createResult, 'Failed to create harmonized layer');
+      if (!createResult.data.data) {
+        throw new Error('Failed to create harmonized layer');
+      }
+
+      const newLayer = toLayer(createResult.data.data.layer);
+
       setLayers(prev => [...prev, newLayer]);
+      await recordStackChange(
+        `Add: ${newLayer.name}`,
+        layers,
+        [...layers, newLayer],
+        { added: [newLayer.id] }
+      );
       
       showAlert(
         'success',
         'Background Harmonized',
-        `Background harmonization completed successfully in ${harmonizedData.processingTime?.harmonization || 'N/A'}!`
+        `Background harmonization completed successfully in ${result.data.data?.processingTime?.harmonization || 'N/A'}!`
       );
       
     } catch (error: any) {
@@ -705,9 +1015,63 @@ export default function Flowspace() {
   // ============================================================
   // LAYER MANAGEMENT FUNCTIONS
   // ============================================================
+  // Apply a layer edit right away and queue it for the backend.
+  // The queue retries while offline and reports conflicts (see layerEditQueue).
+  // The edit becomes an undo step unless the caller records it as part of a bigger one.
+  const queueLayerEdit = async (layerId: string, changes: LayerUpdate, recordHistory: boolean = true) => {
+    const layer = layers.find(l => l.id === layerId);
+    if (!layer) {
+      console.warn('[queueLayerEdit] Layer not found with id:', layerId);
+      return;
+    }
+
+    const lock = getBlockingLock(getLayerLockState(layers, layer), changes);
+    if (lock) {
+      showLayerLocked(layer.name, lock);
+      return;
+    }
+
+    const base = getLayerUpdateBase(layer, changes);
+    setLayers(prev => prev.map(l => 
+      l.id === layerId ? applyLayerUpdate(l, changes) : l
+    ));
+
+    try {
+      await LayerEditQueue.enqueue(layerId, changes, base);
+      if (recordHistory) {
+        await LayerHistory.record({
+          label: getLayerEditLabel(changes, layer.name),
+          edits: [{ layerId, before: base, after: changes }],
+        });
+      }
+    } catch (error: any) {
+      console.error('[queueLayerEdit] Failed to queue edit:', error);
+      setLayers(prev => prev.map(l => 
+        l.id === layerId ? applyLayerUpdate(l, base) : l
+      ));
+      showAlert('error', 'Error', error.message || 'Failed to update layer');
+    }
+  };
+
+  const showLayerLocked = (layerName: string, lock: LayerLock) => {
+    showAlert('warning', 'Layer Locked', getLayerLockMessage(layerName, lock));
+  };
+
+  // Check layers against a lock before changing them, telling the user which one is locked.
+  // Returns whether all of them can be changed.
+  const checkLayerLocks = (targets: Layer[], lock: LayerLock, stack: Layer[] = layers): boolean => {
+    for (const target of targets) {
+      const state = getLayerLockState(stack, target);
+      if (state[lock]) {
+        showLayerLocked(target.name, state.all ? 'all' : lock);
+        return false;
+      }
+    }
+    return true;
+  };
+
   const toggleLayerVisibility = async (layerId: string) => {
     console.log('[toggleLayerVisibility] Function called with layerId:', layerId);
-    console.log('[toggleLayerVisibility] Current layers state:', layers);
     
     const layer = layers.find(l => l.id === layerId);
     if (!layer) {
@@ -715,109 +1079,23 @@ export default function Flowspace() {
       return;
     }
     
-    console.log('[toggleLayerVisibility] Found layer:', layer);
-    console.log('[toggleLayerVisibility] Current visibility:', layer.visible);
     console.log('[toggleLayerVisibility] Will toggle to:', !layer.visible);
-    
-    try {
-      if (layer.isAdjustmentLayer) {
-        // Client-side only update for adjustment layers
-        console.log('[toggleLayerVisibility] Updating client-side adjustment layer');
-        setLayers(prev => {
-          const updated = prev.map(l => 
-            l.id === layerId ? { ...l, visible: !l.visible } : l
-          );
-          console.log('[toggleLayerVisibility] Updated layers state:', updated);
-          return updated;
-        });
-        
-        // Save to AsyncStorage
-        if (projectId) {
-          const updatedLayers = layers.map(l => 
-            l.id === layerId ? { ...l, visible: !l.visible } : l
-          );
-          await saveAdjustmentLayers(projectId, updatedLayers.filter(l => l.isAdjustmentLayer));
-        }
-        
-        console.log('[toggleLayerVisibility] Adjustment layer visibility toggled successfully');
-      } else {
-        // Backend layer update via API
-        console.log('[toggleLayerVisibility] Calling ApiService.updateLayer...');
-        const result = await ApiService.updateLayer(layerId, { visible: !layer.visible });
-        console.log('[toggleLayerVisibility] API response:', result);
-        
-        if (result.response.ok && result.data.success) {
-          console.log('[toggleLayerVisibility] API call successful, updating state');
-          setLayers(prev => {
-            const updated = prev.map(l => 
-              l.id === layerId ? { ...l, visible: !l.visible } : l
-            );
-            console.log('[toggleLayerVisibility] Updated layers state:', updated);
-            return updated;
-          });
-          console.log('[toggleLayerVisibility] Layer visibility toggled successfully');
-        } else {
-          console.error('[toggleLayerVisibility] API call failed:', result);
-          showAlert('error', 'Error', 'Failed to update layer visibility');
-        }
-      }
-    } catch (error) {
-      console.error('[toggleLayerVisibility] Error caught:', error);
-      showAlert('error', 'Error', 'Failed to update layer visibility');
-    }
+    await queueLayerEdit(layerId, { visible: !layer.visible });
   };
 
   const updateLayerOpacity = async (layerId: string, opacity: number) => {
     console.log('[updateLayerOpacity] Function called with layerId:', layerId, 'opacity:', opacity);
-    try {
-      console.log('[updateLayerOpacity] Calling ApiService.updateLayer...');
-      const result = await ApiService.updateLayer(layerId, { opacity });
-      console.log('[updateLayerOpacity] API response:', result);
-      
-      if (result.response.ok && result.data.success) {
-        console.log('[updateLayerOpacity] API call successful, updating state');
-        setLayers(prev => {
-          const updated = prev.map(l => 
-            l.id === layerId ? { ...l, opacity } : l
-          );
-          console.log('[updateLayerOpacity] Updated layers:', updated);
-          return updated;
-        });
-      } else {
-        console.error('[updateLayerOpacity] API call failed:', result);
-      }
-    } catch (error) {
-      console.error('[updateLayerOpacity] Error caught:', error);
-    }
+    await queueLayerEdit(layerId, { opacity });
+  };
+
+  const updateLayerBlendMode = async (layerId: string, blendMode: BlendMode) => {
+    console.log('[updateLayerBlendMode] Function called with layerId:', layerId, 'blendMode:', blendMode);
+    await queueLayerEdit(layerId, { blendMode });
   };
 
   const updateLayerPosition = async (layerId: string, x: number, y: number) => {
     console.log('[updateLayerPosition] Function called with layerId:', layerId, 'position:', { x, y });
-    try {
-      console.log('[updateLayerPosition] Calling ApiService.updateLayer...');
-      const result = await ApiService.updateLayer(layerId, {
-        position: { x, y }
-      });
-      console.log('[updateLayerPosition] API response:', result);
-      
-      if (result.response.ok && result.data.success) {
-        console.log('[updateLayerPosition] API call successful, updating state');
-        setLayers(prev => {
-          const updated = prev.map(l => 
-            l.id === layerId ? { ...l, position: { x, y } } : l
-          );
-          console.log('[updateLayerPosition] Updated layers:', updated);
-          return updated;
-        });
-        showAlert('success', 'Updated', 'Layer position updated');
-      } else {
-        console.error('[updateLayerPosition] API call failed:', result);
-        showAlert('error', 'Error', 'Failed to update layer position');
-      }
-    } catch (error) {
-      console.error('[updateLayerPosition] Error caught:', error);
-      showAlert('error', 'Error', 'Failed to update layer position');
-    }
+    await queueLayerEdit(layerId, { position: { x, y } });
   };
 
   const updateLayerTransform = async (
@@ -836,191 +1114,129 @@ export default function Flowspace() {
       flipX,
       flipY
     });
-    
-    try {
-      console.log('[updateLayerTransform] Calling ApiService.updateLayer...');
-      const result = await ApiService.updateLayer(layerId, {
-        transformations: {
-          rotation,
-          scaleX,
-          scaleY,
-          flipX,
-          flipY
-        }
-      });
-      console.log('[updateLayerTransform] API response:', result);
-      
-      if (result.response.ok && result.data.success) {
-        console.log('[updateLayerTransform] API call successful, updating state');
-        setLayers(prev => {
-          const updated = prev.map(l => 
-            l.id === layerId ? {
-              ...l,
-              transformations: { rotation, scaleX, scaleY, flipX, flipY }
-            } : l
-          );
-          console.log('[updateLayerTransform] Updated layers:', updated);
-          return updated;
-        });
-        showAlert('success', 'Updated', 'Layer transformation updated');
-      } else {
-        console.error('[updateLayerTransform] API call failed:', result);
-        showAlert('error', 'Error', 'Failed to update layer transformation');
-      }
-    } catch (error) {
-      console.error('[updateLayerTransform] Error caught:', error);
-      showAlert('error', 'Error', 'Failed to update layer transformation');
-    }
+    await queueLayerEdit(layerId, {
+      transformations: { rotation, scaleX, scaleY, flipX, flipY }
+    });
   };
 
-  const moveLayerUp = async (layerId: string) => {
-    console.log('[moveLayerUp] Function called with layerId:', layerId);
-    console.log('[moveLayerUp] Current layers:', layers);
-    
-    // Find the layer that needs to move up (increase order)
-    const layerIndex = layers.findIndex(l => l.id === layerId);
-    if (layerIndex === -1) {
-      console.warn('[moveLayerUp] Layer not found');
+  // Save an on-canvas move, scale or rotate as one edit when the gesture ends
+  const commitLayerPlacement = async (layerId: string, placement: LayerPlacement) => {
+    // queueLayerEdit applies the edit synchronously, so the preview can go now
+    const edit = queueLayerEdit(layerId, placement);
+    setTransformPreview(null);
+    await edit;
+  };
+
+  // Ask the user how to settle an edit the backend could not take as-is
+  const handleLayerEditConflict = (conflict: LayerEditConflict) => {
+    const { edit, reason, message, serverLayer } = conflict;
+
+    if (reason === 'deleted') {
+      setLayers(prev => prev.filter(l => l.id !== edit.layerId));
+      LayerEditQueue.resolveConflict(edit.id, 'use-server');
+      showAlert('warning', 'Layer Removed', `${message} Your changes to it were discarded.`);
       return;
     }
-    
-    const layer = layers[layerIndex];
-    console.log('[moveLayerUp] Current layer order:', layer.order);
-    
-    // Sort layers by order to find adjacent layer
-    const sortedLayers = [...layers].sort((a, b) => a.order - b.order);
-    const currentIndex = sortedLayers.findIndex(l => l.id === layerId);
-    
-    console.log('[moveLayerUp] Current position in stack:', currentIndex, 'of', sortedLayers.length);
-    
-    // Check if already at top
-    if (currentIndex >= sortedLayers.length - 1) {
-      console.warn('[moveLayerUp] Cannot move up - already at top');
+
+    if (reason === 'rejected') {
+      setLayers(prev => prev.map(l => 
+        l.id === edit.layerId ? applyLayerUpdate(l, edit.base) : l
+      ));
+      LayerEditQueue.resolveConflict(edit.id, 'use-server');
+      showAlert('error', 'Edit Not Saved', message);
       return;
     }
-    
-    // Swap order values with the layer above
-    const layerAbove = sortedLayers[currentIndex + 1];
-    console.log('[moveLayerUp] Swapping order with layer above:', layerAbove.name);
-    
-    // Create new layers array with swapped orders
-    const updatedLayers = layers.map(l => {
-      if (l.id === layer.id) {
-        return { ...l, order: layerAbove.order };
-      } else if (l.id === layerAbove.id) {
-        return { ...l, order: layer.order };
-      }
-      return l;
-    });
-    
-    console.log('[moveLayerUp] Updated layers:', updatedLayers.map(l => `${l.name}(${l.order})`));
-    
-    // Update state immediately for smooth UI
-    setLayers(updatedLayers);
-    
-    // Save adjustment layers to AsyncStorage if this was an adjustment layer
-    if (layer.isAdjustmentLayer || layerAbove.isAdjustmentLayer) {
-      if (projectId) {
-        await saveAdjustmentLayers(projectId, updatedLayers.filter(l => l.isAdjustmentLayer));
-      }
-    }
-    
-    // Send to backend (will filter out adjustment layers automatically)
-    const sortedIds = [...updatedLayers].sort((a, b) => a.order - b.order).map(l => l.id);
-    console.log('[moveLayerUp] New layer order:', sortedIds);
-    await reorderLayers(sortedIds);
+
+    Alert.alert(
+      "Edit Conflict",
+      `${message} Keep your version or use the one on the server?`,
+      [
+        {
+          text: "Use Server",
+          onPress: () => {
+            if (serverLayer) {
+              setLayers(prev => prev.map(l => 
+                l.id === edit.layerId
+                  ? applyLayerUpdate(l, getLayerUpdateBase(serverLayer, edit.changes))
+                  : l
+              ));
+            }
+            LayerEditQueue.resolveConflict(edit.id, 'use-server');
+          }
+        },
+        {
+          text: "Keep Mine",
+          onPress: () => LayerEditQueue.resolveConflict(edit.id, 'keep-local')
+        }
+      ],
+      { cancelable: false }
+    );
   };
 
-  const moveLayerDown = async (layerId: string) => {
-    console.log('[moveLayerDown] Function called with layerId:', layerId);
-    console.log('[moveLayerDown] Current layers:', layers);
-    
-    // Find the layer that needs to move down (decrease order)
-    const layerIndex = layers.findIndex(l => l.id === layerId);
-    if (layerIndex === -1) {
-      console.warn('[moveLayerDown] Layer not found');
+  // Move a layer one step up or down the stack. Stepping onto a group enters
+  // it and stepping past the end of a group leaves it (see moveLayerInStack).
+  const moveLayer = async (layerId: string, direction: 'up' | 'down') => {
+    console.log('[moveLayer] Function called with layerId:', layerId, 'direction:', direction);
+
+    const movedLayer = layers.find(l => l.id === layerId);
+    if (!movedLayer || !checkLayerLocks([movedLayer], 'all')) {
       return;
     }
-    
-    const layer = layers[layerIndex];
-    console.log('[moveLayerDown] Current layer order:', layer.order);
-    
-    // Sort layers by order to find adjacent layer
-    const sortedLayers = [...layers].sort((a, b) => a.order - b.order);
-    const currentIndex = sortedLayers.findIndex(l => l.id === layerId);
-    
-    console.log('[moveLayerDown] Current position in stack:', currentIndex, 'of', sortedLayers.length);
-    
-    // Check if already at bottom
-    if (currentIndex <= 0) {
-      console.warn('[moveLayerDown] Cannot move down - already at bottom');
+
+    const restacked = moveLayerInStack(layers, layerId, direction);
+    if (!restacked) {
+      console.warn(`[moveLayer] Cannot move ${direction} - already at the ${direction === 'up' ? 'top' : 'bottom'}`);
       return;
     }
-    
-    // Swap order values with the layer below
-    const layerBelow = sortedLayers[currentIndex - 1];
-    console.log('[moveLayerDown] Swapping order with layer below:', layerBelow.name);
-    
-    // Create new layers array with swapped orders
-    const updatedLayers = layers.map(l => {
-      if (l.id === layer.id) {
-        return { ...l, order: layerBelow.order };
-      } else if (l.id === layerBelow.id) {
-        return { ...l, order: layer.order };
-      }
-      return l;
-    });
-    
-    console.log('[moveLayerDown] Updated layers:', updatedLayers.map(l => `${l.name}(${l.order})`));
-    
+
+    // Moving past the edge of a group moves the layer in or out of it
+    const lockedLayer = findRegroupLock(layers, restacked);
+    if (lockedLayer) {
+      showLayerLocked(lockedLayer.name, 'all');
+      return;
+    }
+
+    // Show the layer in the group it moved into
+    const parentId = restacked.find(l => l.id === layerId)?.parent;
+    if (parentId) {
+      setCollapsedGroupIds(prev => prev.filter(id => id !== parentId));
+    }
+
     // Update state immediately for smooth UI
-    setLayers(updatedLayers);
-    
-    // Save adjustment layers to AsyncStorage if this was an adjustment layer
-    if (layer.isAdjustmentLayer || layerBelow.isAdjustmentLayer) {
-      if (projectId) {
-        await saveAdjustmentLayers(projectId, updatedLayers.filter(l => l.isAdjustmentLayer));
-      }
+    setLayers(restacked);
+
+    // Send to backend
+    const { layerIds, parents } = getStackOrder(restacked);
+    if (await reorderLayers(layerIds, parents)) {
+      await recordStackChange(`Move ${direction === 'up' ? 'Up' : 'Down'}: ${movedLayer.name}`, layers, restacked);
     }
-    
-    // Send to backend (will filter out adjustment layers automatically)
-    const sortedIds = [...updatedLayers].sort((a, b) => a.order - b.order).map(l => l.id);
-    console.log('[moveLayerDown] New layer order:', sortedIds);
-    await reorderLayers(sortedIds);
   };
 
-  const reorderLayers = async (layerIds: string[]) => {
+  // Returns whether the backend took the new order
+  const reorderLayers = async (layerIds: string[], parents?: LayerParents): Promise<boolean> => {
     console.log('[reorderLayers] Function called with layerIds:', layerIds);
     console.log('[reorderLayers] Current projectId:', projectId);
     
     if (!projectId) {
       console.warn('[reorderLayers] No projectId - cannot reorder');
-      return;
+      return false;
     }
     
-    // If there are no backend layers to update, just return
-    const backendLayerIds = layerIds.filter(id => {
-      const layer = layers.find(l => l.id === id);
-      return layer && !layer.isAdjustmentLayer;
-    });
-    
-    if (backendLayerIds.length === 0) {
-      console.log('[reorderLayers] No backend layers to reorder, skipping API call');
-      return;
+    if (layerIds.length === 0) {
+      console.log('[reorderLayers] No layers to reorder, skipping API call');
+      return false;
     }
     
     try {
-      console.log('[reorderLayers] Backend layer IDs to send:', backendLayerIds);
-      
-      // Only send backend layers to API
-      console.log('[reorderLayers] Calling ApiService.reorderLayers with backend layers only...');
-      const result = await ApiService.reorderLayers(projectId, backendLayerIds);
+      console.log('[reorderLayers] Calling ApiService.reorderLayers...');
+      const result = await ApiService.reorderLayers(projectId, layerIds, parents);
       console.log('[reorderLayers] API response:', result);
       
       if (result.response.ok && result.data.success) {
         console.log('[reorderLayers] API call successful');
-        // Don't update state here - it's already been updated by moveLayerUp/Down
-        console.log('[reorderLayers] Backend layers synced successfully');
+        // Don't update state here - it's already been updated by the caller
+        console.log('[reorderLayers] Layers synced successfully');
+        return true;
       } else {
         console.error('[reorderLayers] API call failed:', result);
         showAlert('error', 'Error', 'Failed to reorder layers');
@@ -1029,6 +1245,7 @@ export default function Flowspace() {
       console.error('[reorderLayers] Error caught:', error);
       showAlert('error', 'Error', 'Failed to reorder layers');
     }
+    return false;
   };
 
   const deleteLayer = async (layerId: string) => {
@@ -1037,10 +1254,18 @@ export default function Flowspace() {
     
     const layer = layers.find(l => l.id === layerId);
     console.log('[deleteLayer] Layer to delete:', layer);
+
+    // A group is deleted with everything in it
+    const removedIds = [layerId, ...getGroupDescendants(layers, layerId).map(l => l.id)];
+    if (!checkLayerLocks(layers.filter(l => removedIds.includes(l.id)), 'all')) {
+      return;
+    }
     
     Alert.alert(
-      "Delete Layer",
-      "Are you sure you want to delete this layer?",
+      layer?.isGroupLayer ? "Delete Group" : "Delete Layer",
+      layer?.isGroupLayer
+        ? `Are you sure you want to delete this group and the ${removedIds.length - 1} layers in it?`
+        : "Are you sure you want to delete this layer?",
       [
         { 
           text: "Cancel", 
@@ -1053,46 +1278,46 @@ export default function Flowspace() {
           onPress: async () => {
             console.log('[deleteLayer] User confirmed deletion');
             try {
-              if (layer?.isAdjustmentLayer) {
-                // Client-side only deletion for adjustment layers
-                console.log('[deleteLayer] Deleting client-side adjustment layer');
+              console.log('[deleteLayer] Calling ApiService.deleteLayer...');
+              const result = await ApiService.deleteLayer(
+                layerId,
+                {},
+                layer && { name: layer.name, locks: getLayerLockState(layers, layer) }
+              );
+              console.log('[deleteLayer] API response:', result);
+              
+              if (result.response.ok && result.data.success) {
+                console.log('[deleteLayer] API call successful, updating state');
                 setLayers(prev => {
-                  const filtered = prev.filter(l => l.id !== layerId);
+                  const filtered = prev.filter(layer => !removedIds.includes(layer.id));
                   console.log('[deleteLayer] Updated layers after deletion:', filtered);
                   return filtered;
                 });
-                
-                // Update AsyncStorage
-                if (projectId) {
-                  const remainingAdjustmentLayers = layers.filter(l => l.isAdjustmentLayer && l.id !== layerId);
-                  await saveAdjustmentLayers(projectId, remainingAdjustmentLayers);
-                }
-                
-                showAlert('success', 'Deleted', 'Adjustment layer deleted successfully');
-                console.log('[deleteLayer] Adjustment layer deleted successfully');
+                await recordStackChange(
+                  `Delete: ${layer?.name ?? 'Layer'}`,
+                  layers,
+                  layers.filter(l => !removedIds.includes(l.id)),
+                  { removed: [layerId] }
+                );
+                showAlert(
+                  'success',
+                  'Deleted',
+                  layer?.isAdjustmentLayer
+                    ? 'Adjustment layer deleted successfully'
+                    : layer?.isGroupLayer ? 'Group deleted successfully' : 'Layer deleted successfully'
+                );
+                console.log('[deleteLayer] Layer deleted successfully');
               } else {
-                // Backend layer deletion via API
-                console.log('[deleteLayer] Calling ApiService.deleteLayer...');
-                const result = await ApiService.deleteLayer(layerId);
-                console.log('[deleteLayer] API response:', result);
-                
-                if (result.response.ok && result.data.success) {
-                  console.log('[deleteLayer] API call successful, updating state');
-                  setLayers(prev => {
-                    const filtered = prev.filter(layer => layer.id !== layerId);
-                    console.log('[deleteLayer] Updated layers after deletion:', filtered);
-                    return filtered;
-                  });
-                  showAlert('success', 'Deleted', 'Layer deleted successfully');
-                  console.log('[deleteLayer] Layer deleted successfully');
-                } else {
-                  console.error('[deleteLayer] API call failed:', result);
-                  showAlert('error', 'Error', 'Failed to delete layer');
-                }
+                console.error('[deleteLayer] API call failed:', result);
+                showAlert('error', 'Error', 'Failed to delete layer');
               }
-            } catch (error) {
+            } catch (error: any) {
               console.error('[deleteLayer] Error caught:', error);
-              showAlert('error', 'Error', 'Failed to delete layer');
+              if (isLayerLockedError(error)) {
+                showAlert('warning', 'Layer Locked', error.message);
+              } else {
+                showAlert('error', 'Error', 'Failed to delete layer');
+              }
             }
           }
         }
@@ -1107,13 +1332,11 @@ export default function Flowspace() {
       
       const result = await ApiService.duplicateLayer(layerId);
       
-      if (result.response.ok && result.data.success) {
-        const newLayer: Layer = {
-          ...result.data.data.layer,
-          id: result.data.data.layer._id || result.data.data.layer.id,
-        };
+      if (result.response.ok && result.data.success && result.data.data) {
+        const newLayer = toLayer(result.data.data.layer);
         
         setLayers(prev => [...prev, newLayer]);
+        await recordStackChange(`Duplicate: ${newLayer.name}`, layers, [...layers, newLayer], { added: [newLayer.id] });
         showAlert('success', 'Duplicated', 'Layer duplicated successfully');
       }
     } catch (error) {
@@ -1122,37 +1345,784 @@ export default function Flowspace() {
     } finally {
       setProcessing(false);
     }
-  };
-
-  // ============================================================
-  // ADJUSTMENT LAYER FUNCTIONS
-  // ============================================================
-  // ============================================================
-  // ADJUSTMENT LAYERS (CLIENT-SIDE ONLY)
-  // ============================================================
-  const saveAdjustmentLayers = async (projId: string, adjustmentLayers: Layer[]) => {
-    try {
-      const key = `adjustment_layers_${projId}`;
-      await AsyncStorage.setItem(key, JSON.stringify(adjustmentLayers));
-      console.log('[saveAdjustmentLayers] Saved adjustment layers to AsyncStorage:', adjustmentLayers.length);
-    } catch (error) {
-      console.error('[saveAdjustmentLayers] Error:', error);
+  };
+
+  // ============================================================
+  // UNDO / REDO FUNCTIONS
+  // ============================================================
+  // Add a change that creates, deletes or restacks layers to the undo history
+  const recordStackChange = (
+    label: string,
+    before: Layer[],
+    after: Layer[],
+    change: Omit<NewLayerHistoryEntry, 'label'> = {}
+  ) => {
+    return LayerHistory.record({
+      label,
+      stackBefore: getStackOrder(before),
+      stackAfter: getStackOrder(after),
+      ...change,
+    });
+  };
+
+  // Carry out a history entry either way, starting from `current`. Layers
+  // come back before the stack is restored and go after it, so a group is
+  // emptied (e.g. when undoing Group) before it is deleted.
+  const applyHistoryEntry = async (
+    current: Layer[],
+    entry: LayerHistoryEntry,
+    direction: 'undo' | 'redo'
+  ): Promise<Layer[]> => {
+    if (!projectId) return current;
+    const undo = direction === 'undo';
+
+    if (entry.mergedLayerId) {
+      if (!undo) {
+        throw new Error('A merge cannot be redone');
+      }
+      const result = await ApiService.unmergeLayer(entry.mergedLayerId);
+      assertApiSuccess(result, 'Failed to undo merge');
+      if (!result.data.data) {
+        throw new Error('Failed to undo merge');
+      }
+      return [...current.filter(l => l.id !== entry.mergedLayerId), ...result.data.data.layers.map(toLayer)];
+    }
+
+    let next = current;
+
+    for (const layerId of (undo ? entry.removed : entry.added) ?? []) {
+      if (next.some(l => l.id === layerId)) continue;
+
+      const result = await ApiService.restoreLayer(layerId);
+      assertApiSuccess(result, 'Failed to restore layer');
+      if (!result.data.data) {
+        throw new Error('Failed to restore layer');
+      }
+      const restored = result.data.data.layers.map(toLayer);
+      next = [...next.filter(l => !restored.some(r => r.id === l.id)), ...restored];
+    }
+
+    const stack = undo ? entry.stackBefore : entry.stackAfter;
+    if (stack) {
+      next = applyStackOrder(next, stack);
+      const { layerIds, parents } = getStackOrder(next);
+      if (layerIds.length > 0) {
+        const result = await ApiService.reorderLayers(projectId, layerIds, parents);
+        assertApiSuccess(result, 'Failed to restore the layer order');
+      }
+    }
+
+    for (const edit of entry.edits ?? []) {
+      const layer = next.find(l => l.id === edit.layerId);
+      if (!layer) continue;
+
+      const changes = undo ? edit.before : edit.after;
+      const base = getLayerUpdateBase(layer, changes);
+      next = next.map(l => (l.id === edit.layerId ? applyLayerUpdate(l, changes) : l));
+      await LayerEditQueue.enqueue(edit.layerId, changes, base);
+    }
+
+    for (const layerId of (undo ? entry.added : entry.removed) ?? []) {
+      const layer = next.find(l => l.id === layerId);
+      if (!layer) continue;
+
+      const result = await ApiService.deleteLayer(layerId, {}, { name: layer.name, locks: getLayerLockState(next, layer) });
+      assertApiSuccess(result, 'Failed to delete layer');
+      const removedIds = [layerId, ...getGroupDescendants(next, layerId).map(l => l.id)];
+      next = next.filter(l => !removedIds.includes(l.id));
+    }
+
+    return next;
+  };
+
+  // Undo or redo one step at a time until `target` history entries are applied
+  const goToHistory = async (target: number) => {
+    const { entries, position } = LayerHistory.getState();
+    if (historyBusy || target === position || target < 0 || target > entries.length) return;
+
+    setHistoryBusy(true);
+    setProcessing(true);
+    setLoadingMessage(target < position ? 'Undoing...' : 'Redoing...');
+
+    let current = layers;
+    let step = position;
+    try {
+      while (step !== target) {
+        const undo = target < step;
+        const entry = entries[undo ? step - 1 : step];
+        current = await applyHistoryEntry(current, entry, undo ? 'undo' : 'redo');
+        step += undo ? -1 : 1;
+        await LayerHistory.setPosition(step);
+
+        // Unmerging deletes the merged layer, so there is no redoing it
+        if (entry.mergedLayerId) {
+          await LayerHistory.discardFrom(entry.id);
+          setUndoableMerge(null);
+        }
+      }
+
+      setLayers(current);
+      setSelectedLayerId(prev => (prev && current.some(l => l.id === prev) ? prev : null));
+    } catch (error: any) {
+      console.error('[goToHistory] Error:', error);
+      showAlert('error', target < position ? 'Undo Failed' : 'Redo Failed', error.message || 'Failed to change history');
+
+      // A step may have been carried out halfway, so reload what the backend has
+      if (projectId) {
+        await loadExistingProject(projectId);
+      }
+    } finally {
+      setHistoryBusy(false);
+      setProcessing(false);
+    }
+  };
+
+  // ============================================================
+  // LAYER MERGE FUNCTIONS
+  // ============================================================
+  // Rasterize layers into one image (blend modes, opacity, transforms,
+  // masks and the adjustment layers among them), upload it as a new layer
+  // and replace the sources with it. The backend keeps the sources so the
+  // whole merge can be undone with undoMerge.
+  const mergeLayers = async (kind: 'down' | 'visible' | 'flatten', layerId?: string) => {
+    if (!projectId) return;
+
+    const sorted = [...layers].sort((a, b) => a.order - b.order);
+    let sources: Layer[];
+    let name: string;
+
+    if (kind === 'down') {
+      // Merge with the layer below it in the same group
+      const layer = layers.find(l => l.id === layerId);
+      const siblings = layer ? getChildLayers(layers, getParentGroup(layers, layer)?.id ?? null) : [];
+      const index = siblings.findIndex(l => l.id === layerId);
+      const below = siblings[index - 1];
+      if (index < 0 || !below) {
+        showAlert('warning', 'Cannot Merge', 'There is no layer below this one');
+        return;
+      }
+      if (below.isAdjustmentLayer) {
+        showAlert('warning', 'Cannot Merge', 'Layers cannot be merged into an adjustment layer');
+        return;
+      }
+      if (below.isGroupLayer || siblings[index].isGroupLayer) {
+        showAlert('warning', 'Cannot Merge', 'Groups cannot be merged down. Use Merge Visible or Flatten Image instead.');
+        return;
+      }
+      sources = [below, siblings[index]];
+      name = below.name;
+    } else if (kind === 'visible') {
+      // Layers in hidden groups count as hidden
+      sources = getVisibleLayers(sorted);
+      if (sources.length < 2) {
+        showAlert('warning', 'Cannot Merge', 'At least two layers must be visible');
+        return;
+      }
+      name = 'Merged';
+    } else {
+      // Hidden layers are discarded, like in other editors
+      sources = sorted;
+      name = 'Flattened Image';
+    }
+
+    if (getDrawableLayers(sources).length === 0) {
+      showAlert('warning', 'Cannot Merge', 'There are no visible image layers to merge');
+      return;
+    }
+
+    // Merging replaces the pixels of every source
+    if (!checkLayerLocks(sources, 'pixels')) {
+      return;
+    }
+
+    setProcessing(true);
+    setLoadingMessage('Merging layers...');
+
+    let mergedLayerId: string | null = null;
+    try {
+      const rendered = await renderCompositeToFile(
+        sources,
+        {
+          width: canvasWidth,
+          height: canvasHeight,
+          // Only a flattened image gets the canvas background
+          backgroundColor: kind === 'flatten' ? canvasBackgroundColor : undefined,
+        },
+        { format: 'png', quality: 100, maxEdge: null, keepMetadata: false }
+      );
+
+      const uploadResult = await ApiService.uploadImage(rendered.uri, projectId, 'layer-based');
+      assertApiSuccess(uploadResult, 'Failed to upload merged image');
+      mergedLayerId = uploadResult.data.data?.layer?.id ?? null;
+      if (!mergedLayerId) {
+        throw new Error('Failed to upload merged image');
+      }
+
+      const sourceIds = sources.map(l => l.id);
+      const mergeResult = await ApiService.mergeLayers(projectId, { mergedLayerId, layerIds: sourceIds, name });
+      assertApiSuccess(mergeResult, 'Failed to merge layers');
+      if (!mergeResult.data.data) {
+        throw new Error('Failed to merge layers');
+      }
+
+      const mergedLayer = toLayer(mergeResult.data.data.layer);
+      setLayers(prev => [...prev.filter(l => !sourceIds.includes(l.id)), mergedLayer]);
+      setSelectedLayerId(mergedLayer.id);
+      setUndoableMerge({ layerId: mergedLayer.id, name: mergedLayer.name });
+      await LayerHistory.record({
+        label: kind === 'flatten' ? 'Flatten Image' : `Merge: ${mergedLayer.name}`,
+        mergedLayerId: mergedLayer.id,
+      });
+
+      Alert.alert(
+        kind === 'flatten' ? 'Image Flattened' : 'Layers Merged',
+        `${sources.length} layers were merged into ${mergedLayer.name}.`,
+        [
+          { text: 'Undo', style: 'cancel', onPress: () => undoMerge(mergedLayer.id) },
+          { text: 'OK' },
+        ]
+      );
+    } catch (error: any) {
+      console.error('[mergeLayers] Error:', error);
+
+      // Don't leave the uploaded image behind as a stray layer
+      if (mergedLayerId) {
+        ApiService.deleteLayer(mergedLayerId).catch(cleanupError => {
+          console.warn('[mergeLayers] Failed to delete merged layer:', cleanupError);
+        });
+      }
+
+      showAlert('error', 'Merge Failed', error.message || 'Failed to merge layers');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  // Also called from the alert shown after merging, so it reads layersRef
+  // instead of the layers of the render that showed the alert
+  const undoMerge = async (mergedLayerId: string) => {
+    const current = layersRef.current;
+    const mergedLayer = current.find(l => l.id === mergedLayerId);
+    if (mergedLayer && !checkLayerLocks([mergedLayer], 'all', current)) {
+      return;
+    }
+
+    setProcessing(true);
+    setLoadingMessage('Undoing merge...');
+
+    try {
+      const result = await ApiService.unmergeLayer(mergedLayerId);
+      assertApiSuccess(result, 'Failed to undo merge');
+      if (!result.data.data) {
+        throw new Error('Failed to undo merge');
+      }
+
+      const restored = result.data.data.layers.map(toLayer);
+      setLayers(prev => [...prev.filter(l => l.id !== mergedLayerId), ...restored]);
+      setSelectedLayerId(null);
+      setUndoableMerge(null);
+
+      // Steps after the merge were made on the merged layer
+      const mergeEntry = LayerHistory.getState().entries.find(entry => entry.mergedLayerId === mergedLayerId);
+      if (mergeEntry) {
+        await LayerHistory.discardFrom(mergeEntry.id);
+      }
+
+      showAlert('success', 'Merge Undone', `${restored.length} layers restored`);
+    } catch (error: any) {
+      console.error('[undoMerge] Error:', error);
+      showAlert('error', 'Error', error.message || 'Failed to undo merge');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  // ============================================================
+  // LAYER GROUP FUNCTIONS
+  // ============================================================
+  // Put a layer (or a group) into a new group that takes its place
+  const groupLayer = async (layerId: string) => {
+    const layer = layers.find(l => l.id === layerId);
+    if (!projectId || !layer) return;
+
+    // The layer moves into the new group, which a lock doesn't allow
+    if (!checkLayerLocks([layer], 'all')) {
+      return;
+    }
+
+    setProcessing(true);
+    setLoadingMessage('Grouping layer...');
+
+    try {
+      const result = await ApiService.createLayer({
+        projectId,
+        type: 'group',
+        name: 'Group',
+        dimensions: { width: canvasWidth, height: canvasHeight },
+      });
+      assertApiSuccess(result, 'Failed to create group');
+      if (!result.data.data) {
+        throw new Error('Failed to create group');
+      }
+
+      const group = toLayer(result.data.data.layer);
+      const restacked = groupLayerInStack(layers, layerId, group);
+      const { layerIds, parents } = getStackOrder(restacked);
+      const reorderResult = await ApiService.reorderLayers(projectId, layerIds, parents);
+
+      if (!reorderResult.response.ok) {
+        // Nothing was moved into the group, so don't leave it behind empty
+        ApiService.deleteLayer(group.id).catch(cleanupError => {
+          console.warn('[groupLayer] Failed to delete empty group:', cleanupError);
+        });
+      }
+      assertApiSuccess(reorderResult, 'Failed to group layer');
+
+      setLayers(restacked);
+      setSelectedLayerId(group.id);
+
+      await recordStackChange(`Group: ${layer.name}`, layers, restacked, { added: [group.id] });
+    } catch (error: any) {
+      console.error('[groupLayer] Error:', error);
+      showAlert('error', 'Error', error.message || 'Failed to group layer');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  // Remove a group, keeping its contents where the group was
+  const ungroupLayer = async (groupId: string) => {
+    const group = layers.find(l => l.id === groupId);
+    if (!projectId || !group) return;
+
+    // Move the contents out first, since deleting a group deletes its contents
+    const restacked = ungroupInStack(layers, groupId);
+    const lockedLayer = getLayerLockState(layers, group).all ? group : findRegroupLock(layers, restacked);
+    if (lockedLayer) {
+      showLayerLocked(lockedLayer.name, 'all');
+      return;
+    }
+
+    setProcessing(true);
+    setLoadingMessage('Ungrouping...');
+
+    try {
+      const { layerIds, parents } = getStackOrder(restacked);
+      const reorderResult = await ApiService.reorderLayers(projectId, layerIds, parents);
+      assertApiSuccess(reorderResult, 'Failed to ungroup layers');
+
+      setLayers(restacked);
+      setCollapsedGroupIds(prev => prev.filter(id => id !== groupId));
+      setSelectedLayerId(null);
+
+      const deleteResult = await ApiService.deleteLayer(groupId);
+      if (!deleteResult.response.ok) {
+        console.warn('[ungroupLayer] Failed to delete empty group:', deleteResult);
+      }
+
+      await recordStackChange(`Ungroup: ${group.name}`, layers, restacked, {
+        removed: deleteResult.response.ok ? [groupId] : [],
+      });
+    } catch (error: any) {
+      console.error('[ungroupLayer] Error:', error);
+      showAlert('error', 'Error', error.message || 'Failed to ungroup layers');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const toggleGroupCollapsed = (groupId: string) => {
+    setCollapsedGroupIds(prev =>
+      prev.includes(groupId) ? prev.filter(id => id !== groupId) : [...prev, groupId]
+    );
+  };
+
+  // Turn one of a layer's own locks on or off. Locks from groups around it
+  // are changed on the group.
+  const toggleLayerLock = async (layerId: string, lock: LayerLock) => {
+    const layer = layers.find(l => l.id === layerId);
+    if (!layer) return;
+
+    if (lock === 'all') {
+      await queueLayerEdit(layerId, { locked: !layer.locked });
+    } else {
+      const locks = { position: !!layer.locks?.position, pixels: !!layer.locks?.pixels };
+      await queueLayerEdit(layerId, { locks: { ...locks, [lock]: !locks[lock] } });
+    }
+  };
+
+  const showLockMenu = (layerId: string) => {
+    const layer = layers.find(l => l.id === layerId);
+    if (!layer) return;
+
+    const isOn = (lock: LayerLock) => (lock === 'all' ? layer.locked : !!layer.locks?.[lock]);
+    const locks: LayerLock[] = ['position', 'pixels', 'all'];
+
+    Alert.alert(
+      `Lock ${layer.name}`,
+      locks.map(lock => `${LAYER_LOCKS[lock].label}: ${LAYER_LOCKS[lock].description}`).join('\n'),
+      [
+        ...locks.map(lock => ({
+          text: `${isOn(lock) ? 'Unlock' : 'Lock'} ${LAYER_LOCKS[lock].label}`,
+          onPress: () => toggleLayerLock(layerId, lock),
+        })),
+        { text: "Cancel", style: "cancel" as const },
+      ]
+    );
+  };
+
+  // ============================================================
+  // LAYER SEPARATION FUNCTIONS
+  // ============================================================
+  const confirmSplitLayer = (layerId: string) => {
+    const layer = layers.find(l => l.id === layerId);
+    if (!layer) return;
+
+    Alert.alert(
+      "Split into Layers",
+      `${layer.name} will be split into foreground, subject and background layers. The original is hidden, not changed.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Split", onPress: () => splitLayer(layerId) },
+      ]
+    );
+  };
+
+  // The photo is split into three layers placed where it is: the photo
+  // masked to its subject (foreground), the AI cut-out (subject) and the
+  // inpainted background. The original is hidden in the same step, so one
+  // undo brings it back and removes the new layers.
+  const splitLayer = async (layerId: string) => {
+    const layer = layers.find(l => l.id === layerId);
+    if (!layer || !projectId) return;
+
+    setProcessing(true);
+    setLoadingMessage('Splitting photo into layers...');
+
+    const createdLayerIds: string[] = [];
+
+    try {
+      const result = await ApiService.separateLayers(layer.imageUrl, projectId);
+      assertApiSuccess(result, 'Failed to split photo into layers');
+      if (!result.data.data) {
+        throw new Error('Failed to split photo into layers');
+      }
+
+      const { foreground, background } = result.data.data;
+
+      // The cut-out's alpha becomes the foreground layer's mask
+      const cutout = await loadSkImage(foreground.imageUrl);
+      const maskSize = getMaskSize(cutout.width(), cutout.height());
+      const maskUri = renderMaskToFile(maskSize.width, maskSize.height, alphaToMaskImage(cutout, maskSize.width, maskSize.height), [], {
+        feather: 0,
+        invert: false,
+      });
+
+      // New layers sit exactly where the photo is
+      const createSplitLayer = async (type: LayerType, name: string, image: ImageRef) => {
+        const createResult = await ApiService.createLayer({
+          projectId,
+          type,
+          name,
+          imageUrl: image.imageUrl,
+          publicId: image.publicId,
+          dimensions: {
+            width: image.width || layer.dimensions.width,
+            height: image.height || layer.dimensions.height,
+          },
+          position: layer.position,
+          transformations: layer.transformations,
+          parent: layer.parent ?? null,
+        });
+        assertApiSuccess(createResult, 'Failed to create layer');
+        if (!createResult.data.data) {
+          throw new Error('Failed to create layer');
+        }
+
+        const created = toLayer(createResult.data.data.layer);
+        createdLayerIds.push(created.id);
+        return created;
+      };
+
+      const backgroundLayer = await createSplitLayer('background', `${layer.name} Background`, background);
+      const subjectLayer = await createSplitLayer('foreground', `${layer.name} Subject`, foreground);
+      const foregroundLayer = await createSplitLayer('foreground', `${layer.name} Foreground`, {
+        imageUrl: layer.imageUrl,
+        publicId: layer.publicId,
+        width: layer.dimensions.width,
+        height: layer.dimensions.height,
+      });
+
+      const maskResult = await ApiService.uploadLayerMask(foregroundLayer.id, maskUri);
+      assertApiSuccess(maskResult, 'Failed to save subject mask');
+      if (!maskResult.data.data) {
+        throw new Error('Failed to save subject mask');
+      }
+      const { maskUrl, maskPublicId } = maskResult.data.data.layer;
+
+      let restacked = insertLayerInStack(layers, backgroundLayer, layer.id, 'below');
+      restacked = insertLayerInStack(restacked, subjectLayer, layer.id, 'above');
+      restacked = insertLayerInStack(restacked, { ...foregroundLayer, maskUrl, maskPublicId }, subjectLayer.id, 'above');
+
+      const { layerIds, parents } = getStackOrder(restacked);
+      const reorderResult = await ApiService.reorderLayers(projectId, layerIds, parents);
+      assertApiSuccess(reorderResult, 'Failed to place the new layers');
+
+      // Recorded once every new layer is complete, mask included
+      await recordStackChange(`Split: ${layer.name}`, layers, restacked, {
+        added: [...createdLayerIds],
+        edits: [{ layerId: layer.id, before: { visible: layer.visible }, after: { visible: false } }],
+      });
+
+      createdLayerIds.length = 0;
+      setLayers(restacked);
+      setSelectedLayerId(subjectLayer.id);
+
+      // The new layers replace the photo
+      await queueLayerEdit(layer.id, { visible: false }, false);
+
+      showAlert('success', 'Photo Split', 'Foreground, subject and background are now separate layers');
+    } catch (error: any) {
+      console.error('[splitLayer] Error:', error);
+
+      // Don't leave layers behind that never made it into the stack
+      createdLayerIds.forEach(id => {
+        ApiService.deleteLayer(id).catch(cleanupError => {
+          console.warn('[splitLayer] Failed to delete unused layer:', cleanupError);
+        });
+      });
+
+      showAlert('error', 'Error', error.message || 'Failed to split photo into layers');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  // ============================================================
+  // TEXT LAYER FUNCTIONS
+  // ============================================================
+  const openTextEditor = (layerId: string | null) => {
+    const layer = layerId ? layers.find(l => l.id === layerId) : null;
+    setPropertiesModalVisible(false);
+    setTextEditor({ layerId, text: layer?.text ?? defaultLayerText });
+  };
+
+  // Text layers are sized by their text, so dimensions are measured with
+  // the same layout the canvas uses
+  const saveTextLayer = async (text: LayerText) => {
+    if (!textEditor || !projectId) return;
+
+    setSavingText(true);
+    try {
+      const fonts = await loadTextFonts();
+      const { width, height } = layoutText(text, fonts);
+      const name = text.content.split('\n')[0].trim().slice(0, 24) || 'Text';
+
+      if (textEditor.layerId) {
+        await queueLayerEdit(textEditor.layerId, { name, text, dimensions: { width, height } });
+      } else {
+        const result = await ApiService.createLayer({
+          projectId,
+          type: 'text',
+          name,
+          text,
+          dimensions: { width, height },
+        });
+        assertApiSuccess(result, 'Failed to create text layer');
+        if (!result.data.data) {
+          throw new Error('Failed to create text layer');
+        }
+
+        const textLayer = toLayer(result.data.data.layer);
+        setLayers(prev => [...prev, textLayer]);
+        setSelectedLayerId(textLayer.id);
+        await recordStackChange(`Add Text: ${textLayer.name}`, layers, [...layers, textLayer], { added: [textLayer.id] });
+      }
+
+      setTextEditor(null);
+    } catch (error: any) {
+      console.error('[saveTextLayer] Error:', error);
+      showAlert('error', 'Error', error.message || 'Failed to save text layer');
+    } finally {
+      setSavingText(false);
+    }
+  };
+
+  // ============================================================
+  // LAYER MASK FUNCTIONS
+  // ============================================================
+  const openMaskEditor = (layerId: string) => {
+    const layer = layers.find(l => l.id === layerId);
+    if (layer && !checkLayerLocks([layer], 'pixels')) {
+      return;
+    }
+
+    setPropertiesModalVisible(false);
+    setMaskEditorLayerId(layerId);
+  };
+
+  // Errors are reported here and rethrown so the mask editor stays open
+  // Masks are saved through their own endpoints; undo and redo put the
+  // previous mask back with a regular layer update
+  const recordMaskChange = async (layer: Layer | undefined, after: LayerUpdate) => {
+    if (!layer) return;
+    await LayerHistory.record({
+      label: getLayerEditLabel(after, layer.name),
+      edits: [{
+        layerId: layer.id,
+        before: { maskUrl: layer.maskUrl ?? null, maskPublicId: layer.maskPublicId ?? null },
+        after,
+      }],
+    });
+  };
+
+  const saveLayerMask = async (layerId: string, maskUri: string) => {
+    const layer = layers.find(l => l.id === layerId);
+
+    try {
+      const result = await ApiService.uploadLayerMask(layerId, maskUri);
+      assertApiSuccess(result, 'Failed to save mask');
+      if (!result.data.data) {
+        throw new Error('Failed to save mask');
+      }
+
+      const { maskUrl, maskPublicId } = result.data.data.layer;
+      setLayers(prev => prev.map(l => (l.id === layerId ? { ...l, maskUrl, maskPublicId } : l)));
+      await recordMaskChange(layer, { maskUrl, maskPublicId });
+      setMaskEditorLayerId(null);
+      showAlert('success', 'Mask Saved', 'Layer mask updated successfully');
+    } catch (error: any) {
+      console.error('[saveLayerMask] Error:', error);
+      showAlert('error', 'Error', error.message || 'Failed to save mask');
+      throw error;
+    }
+  };
+
+  const removeLayerMask = async (layerId: string) => {
+    const layer = layers.find(l => l.id === layerId);
+
+    try {
+      const result = await ApiService.deleteLayerMask(layerId);
+      assertApiSuccess(result, 'Failed to remove mask');
+
+      setLayers(prev => prev.map(l => (l.id === layerId ? { ...l, maskUrl: null, maskPublicId: null } : l)));
+      await recordMaskChange(layer, { maskUrl: null, maskPublicId: null });
+      setMaskEditorLayerId(null);
+      showAlert('success', 'Mask Removed', 'The whole layer is visible again');
+    } catch (error: any) {
+      console.error('[removeLayerMask] Error:', error);
+      showAlert('error', 'Error', error.message || 'Failed to remove mask');
+      throw error;
+    }
+  };
+
+  // Background removal on the layer image; the mask editor turns the
+  // cut-out's transparency into a mask
+  const getLayerCutout = async (layerId: string): Promise<string> => {
+    const layer = layers.find(l => l.id === layerId);
+
+    try {
+      if (!layer?.publicId) {
+        throw new Error('This layer has no image to remove the background from');
+      }
+
+      const result = await ApiService.removeBackground(layer.publicId, 'object');
+      assertApiSuccess(result, 'Failed to remove background');
+      return normalizeProcessedImage('remove-background', result).imageUrl;
+    } catch (error: any) {
+      console.error('[getLayerCutout] Error:', error);
+      showAlert('error', 'Error', error.message || 'Failed to remove background');
+      throw error;
+    }
+  };
+
+  // ============================================================
+  // ADJUSTMENT LAYER FUNCTIONS
+  // ============================================================
+
+  // Adjustment layers used to be stored on the device only. Upload any that
+  // are still there so they show up everywhere, then forget the local copy.
+  const migrateLocalAdjustmentLayers = async (
+    projId: string,
+    backendLayers: LayerRecord[]
+  ): Promise<LayerRecord[]> => {
+    const key = `adjustment_layers_${projId}`;
+    
+    let localLayers: Layer[] = [];
+    try {
+      const stored = await AsyncStorage.getItem(key);
+      localLayers = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('[migrateLocalAdjustmentLayers] Failed to read local adjustment layers:', error);
+      return backendLayers;
+    }
+    
+    if (localLayers.length === 0) {
+      return backendLayers;
+    }
+    
+    console.log('[migrateLocalAdjustmentLayers] Migrating', localLayers.length, 'adjustment layers');
+    
+    const migrated: { layer: LayerRecord; order: number }[] = [];
+    const failed: Layer[] = [];
+    
+    for (const localLayer of localLayers) {
+      try {
+        const result = await ApiService.createLayer({
+          projectId: projId,
+          type: 'adjustment',
+          name: localLayer.name,
+          dimensions: localLayer.dimensions,
+          visible: localLayer.visible,
+          opacity: localLayer.opacity,
+          adjustments: {
+            brightness: 0,
+            contrast: 0,
+            saturation: 0,
+            hue: 0,
+            temperature: 0,
+            tint: 0,
+            ...localLayer.adjustments
+          }
+        });
+        assertApiSuccess(result, 'Failed to migrate adjustment layer');
+        if (!result.data.data) {
+          throw new Error('Failed to migrate adjustment layer');
+        }
+        migrated.push({ layer: result.data.data.layer, order: localLayer.order });
+      } catch (error) {
+        console.error('[migrateLocalAdjustmentLayers] Failed to migrate layer:', localLayer.id, error);
+        failed.push(localLayer);
+      }
+    }
+    
+    // Keep whatever did not make it for the next attempt
+    if (failed.length > 0) {
+      await AsyncStorage.setItem(key, JSON.stringify(failed));
+    } else {
+      await AsyncStorage.removeItem(key);
     }
-  };
-
-  const loadAdjustmentLayers = async (projId: string): Promise<Layer[]> => {
+    
+    if (migrated.length === 0) {
+      return backendLayers;
+    }
+    
+    // New layers are created on top; put them back where they were in the stack
+    const stacked = [
+      ...backendLayers.map(layer => ({ layer, order: layer.order })),
+      ...migrated,
+    ].sort((a, b) => a.order - b.order);
+    
     try {
-      const key = `adjustment_layers_${projId}`;
-      const stored = await AsyncStorage.getItem(key);
-      if (stored) {
-        const adjustmentLayers = JSON.parse(stored);
-        console.log('[loadAdjustmentLayers] Loaded adjustment layers from AsyncStorage:', adjustmentLayers.length);
-        return adjustmentLayers;
+      const result = await ApiService.reorderLayers(projId, stacked.map(item => item.layer._id));
+      if (result.response.ok && result.data.success && result.data.data) {
+        return result.data.data.layers;
       }
     } catch (error) {
-      console.error('[loadAdjustmentLayers] Error:', error);
+      console.error('[migrateLocalAdjustmentLayers] Failed to restore layer order:', error);
     }
-    return [];
+    
+    return [...backendLayers, ...migrated.map(item => item.layer)];
   };
 
   const createAdjustmentLayer = async () => {
@@ -1170,38 +2140,30 @@ export default function Flowspace() {
       // Find the highest order number
       const maxOrder = layers.length > 0 ? Math.max(...layers.map(l => l.order)) : -1;
       
-      // Create adjustment layer as CLIENT-SIDE ONLY (not saved to backend)
-      const adjustmentLayer: Layer = {
-        id: `adjustment_${Date.now()}`,
-        name: 'Adjustment Layer',
+      const result = await ApiService.createLayer({
+        projectId,
         type: 'adjustment',
-        imageUrl: '', // No image for adjustment layers
-        publicId: '',
+        name: 'Adjustment Layer',
         order: maxOrder + 1,
-        visible: true,
-        locked: false,
-        opacity: 100,
-        blendMode: 'normal',
-        position: { x: 0, y: 0 },
         dimensions: { width: canvasWidth, height: canvasHeight },
-        transformations: {
-          rotation: 0,
-          scaleX: 1,
-          scaleY: 1,
-          flipX: false,
-          flipY: false
-        },
-        isAdjustmentLayer: true,
         adjustments: { ...tempAdjustments }
-      };
-
-      console.log('[createAdjustmentLayer] New client-side adjustment layer:', adjustmentLayer);
+      });
+      
+      assertApiSuccess(result, 'Failed to create adjustment layer');
+      if (!result.data.data) {
+        throw new Error('Failed to create adjustment layer');
+      }
       
-      const newLayers = [...layers, adjustmentLayer];
-      setLayers(newLayers);
+      const adjustmentLayer = toLayer(result.data.data.layer);
+      console.log('[createAdjustmentLayer] New adjustment layer:', adjustmentLayer);
       
-      // Save adjustment layers to AsyncStorage for persistence
-      await saveAdjustmentLayers(projectId, newLayers.filter(l => l.isAdjustmentLayer));
+      setLayers(prev => [...prev, adjustmentLayer]);
+      await recordStackChange(
+        `Add: ${adjustmentLayer.name}`,
+        layers,
+        [...layers, adjustmentLayer],
+        { added: [adjustmentLayer.id] }
+      );
       
       // Reset temp adjustments
       setTempAdjustments({
@@ -1216,22 +2178,63 @@ export default function Flowspace() {
       setAdjustmentLayerModalVisible(false);
       showAlert('success', 'Created', 'Adjustment layer created successfully');
       
-    } catch (error) {
+    } catch (error: any) {
       console.error('[createAdjustmentLayer] Error:', error);
-      showAlert('error', 'Error', 'Failed to create adjustment layer');
+      showAlert('error', 'Error', error.message || 'Failed to create adjustment layer');
     } finally {
       setProcessing(false);
     }
   };
 
-  const updateAdjustmentLayer = (layerId: string, adjustments: typeof tempAdjustments) => {
+  const updateAdjustmentLayer = async (layerId: string, adjustments: typeof tempAdjustments) => {
     console.log('[updateAdjustmentLayer] Updating layer:', layerId, 'with:', adjustments);
-    
-    setLayers(prev => prev.map(layer => 
-      layer.id === layerId && layer.isAdjustmentLayer
-        ? { ...layer, adjustments: { ...adjustments } }
-        : layer
-    ));
+    await queueLayerEdit(layerId, { adjustments: { ...adjustments } });
+  };
+
+  // ============================================================
+  // EXPORT / SHARE
+  // ============================================================
+  const handleShare = () => {
+    if (getDrawableLayers(layers).length === 0) {
+      showAlert('warning', 'Nothing to Export', 'Add an image or text layer first');
+      return;
+    }
+
+    // The composite is drawn over the canvas background, so it is opaque
+    setExportHasAlpha(false);
+    setExportSheetVisible(true);
+  };
+
+  const handleExport = async (options: ExportOptions) => {
+    setExporting(true);
+
+    try {
+      // Flatten every visible layer with its blend mode, opacity and transformations
+      const exported = await renderCompositeToFile(
+        layers,
+        { width: canvasWidth, height: canvasHeight, backgroundColor: canvasBackgroundColor },
+        options
+      );
+
+      const isAvailable = await Sharing.isAvailableAsync();
+      if (!isAvailable) {
+        showAlert('error', 'Not Available', 'Sharing is not available on this device');
+        return;
+      }
+
+      setExportSheetVisible(false);
+
+      await Sharing.shareAsync(exported.uri, {
+        mimeType: exported.mimeType,
+        dialogTitle: 'Save or Share Image',
+        UTI: exported.uti, // iOS specific
+      });
+    } catch (error: any) {
+      console.error('[handleExport] Error:', error);
+      showAlert('error', 'Export Failed', error.message || 'Failed to export image. Please try again.');
+    } finally {
+      setExporting(false);
+    }
   };
 
   // ============================================================
@@ -1276,164 +2279,54 @@ export default function Flowspace() {
       );
     }
 
-    // Calculate cumulative adjustments for each layer based on adjustment layers above it
-    const getAdjustmentsForLayer = (layerOrder: number) => {
-      const adjustments = {
-        brightness: 0,
-        contrast: 0,
-        saturation: 0,
-        hue: 0,
-        temperature: 0,
-        tint: 0
-      };
-
-      // Find all adjustment layers with order > current layer order
-      layers
-        .filter(l => l.isAdjustmentLayer && l.order > layerOrder && l.visible)
-        .forEach(adjLayer => {
-          if (adjLayer.adjustments) {
-            adjustments.brightness += adjLayer.adjustments.brightness;
-            adjustments.contrast += adjLayer.adjustments.contrast;
-            adjustments.saturation += adjLayer.adjustments.saturation;
-            adjustments.hue += adjLayer.adjustments.hue;
-            adjustments.temperature += adjLayer.adjustments.temperature;
-            adjustments.tint += adjLayer.adjustments.tint;
-          }
-        });
-
-      return adjustments;
-    };
-
-    // Build CSS filter string from adjustments
-    const buildFilterString = (adjustments: ReturnType<typeof getAdjustmentsForLayer>) => {
-      const filters: string[] = [];
-      
-      // Brightness: -100 to 100 -> 0 to 2
-      if (adjustments.brightness !== 0) {
-        const brightness = 1 + (adjustments.brightness / 100);
-        filters.push(`brightness(${brightness})`);
-      }
-      
-      // Contrast: -100 to 100 -> 0 to 2
-      if (adjustments.contrast !== 0) {
-        const contrast = 1 + (adjustments.contrast / 100);
-        filters.push(`contrast(${contrast})`);
-      }
-      
-      // Saturation: -100 to 100 -> 0 to 2
-      if (adjustments.saturation !== 0) {
-        const saturation = 1 + (adjustments.saturation / 100);
-        filters.push(`saturate(${saturation})`);
-      }
-      
-      // Hue: -180 to 180
-      if (adjustments.hue !== 0) {
-        filters.push(`hue-rotate(${adjustments.hue}deg))`);
-      }
-
-      return filters.length > 0 ? filters.join(' ') : undefined;
-    };
-
-    // NOTE: React Native doesn't support CSS filters natively.
-    // To apply actual visual filters (brightness, contrast, saturation, hue),
-    // you would need to use a library like:
-    // - react-native-color-matrix-image-filters
-    // - react-native-image-filter-kit
-    // OR process filters on the backend
+    // LayerCanvas draws the same composite the export produces.
+    // While the adjustment editor is open, preview the values being edited.
+    let canvasLayers = layers;
+    if (adjustmentLayerModalVisible) {
+      const editingLayer = layers.find(l => l.id === selectedLayerId && l.isAdjustmentLayer);
+      canvasLayers = editingLayer
+        ? layers.map(l => (l.id === editingLayer.id ? { ...l, adjustments: tempAdjustments } : l))
+        : [...layers, {
+            id: 'adjustment_preview',
+            imageUrl: '',
+            order: Math.max(...layers.map(l => l.order)) + 1,
+            visible: true,
+            opacity: 100,
+            isAdjustmentLayer: true,
+            adjustments: tempAdjustments,
+          } as Layer];
+    }
     
-    const hasActiveAdjustmentLayers = layers.some(l => l.isAdjustmentLayer && l.visible);
+    // Show the layer where the current on-canvas gesture has put it
+    if (transformPreview) {
+      canvasLayers = canvasLayers.map(l =>
+        l.id === transformPreview.layerId ? { ...l, ...transformPreview.placement } : l
+      );
+    }
     
     return (
-      <View style={{ flex: 1 }}>
-        {/* {hasActiveAdjustmentLayers && (
-          <View style={[styles.adjustmentBanner, { 
-            backgroundColor: colors.button.arclight + '20',
-            borderBottomColor: colors.button.arclight
-          }]}>
-            <Settings size={16} color={colors.button.arclight} />
-            <Text style={[styles.adjustmentBannerText, { color: colors.button.arclight }]}>
-              Adjustment layers active (brightness shown as overlay)
-            </Text>
-          </View>
-        )} */}
-        <View style={styles.canvasImageContainer}>
-        {layers
-          .sort((a, b) => a.order - b.order)
-          .filter(layer => layer.visible)
-          .map(layer => {
-            // Skip rendering adjustment layers (they're invisible)
-            if (layer.isAdjustmentLayer) {
-              return null;
-            }
-
-            const adjustments = getAdjustmentsForLayer(layer.order);
-            
-            // Calculate approximate brightness adjustment using opacity and overlay
-            // Note: This is a LIMITED approximation - for full filter support, use:
-            // 1. Backend image processing (recommended for production)
-            // 2. react-native-color-matrix-image-filters library
-            // 3. expo-image-manipulator for preprocessing
-            
-            const contrastAdjusted = adjustments.contrast !== 0;
-            
-            return (
-              <View key={layer.id} style={styles.canvasLayerImage}>
-                {/* Base image */}
-                <Image
-                  source={{ uri: layer.imageUrl }}
-                  style={[
-                    styles.canvasLayerImage,
-                    {
-                      opacity: layer.opacity / 100,
-                    }
-                  ]}
-                  resizeMode="contain"
-                />
-                
-                {/* Brightness overlay - approximate effect */}
-                {adjustments.brightness > 0 && (
-                  <View
-                    style={[
-                      StyleSheet.absoluteFill,
-                      {
-                        backgroundColor: 'white',
-                        opacity: (adjustments.brightness / 100) * 0.5, // Scaled down for subtle effect
-                      }
-                    ]}
-                    pointerEvents="none"
-                  />
-                )}
-                
-                {adjustments.brightness < 0 && (
-                  <View
-                    style={[
-                      StyleSheet.absoluteFill,
-                      {
-                        backgroundColor: 'black',
-                        opacity: Math.abs(adjustments.brightness / 100) * 0.5, // Scaled down for subtle effect
-                      }
-                    ]}
-                    pointerEvents="none"
-                  />
-                )}
-                
-                {/* Contrast indicator - visual feedback that adjustment is active */}
-                {contrastAdjusted && (
-                  <View
-                    style={[
-                      StyleSheet.absoluteFill,
-                      {
-                        backgroundColor: adjustments.contrast > 0 ? 'white' : 'gray',
-                        opacity: Math.abs(adjustments.contrast / 100) * 0.1,
-                      }
-                    ]}
-                    pointerEvents="none"
-                  />
-                )}
-              </View>
-            );
-          })}
-      </View>
+      <View style={styles.canvasImageContainer}>
+        <LayerCanvas
+          layers={canvasLayers}
+          canvasWidth={canvasWidth}
+          canvasHeight={canvasHeight}
+          backgroundColor={canvasBackgroundColor}
+        />
+        {!adjustmentLayerModalVisible && (
+          <LayerTransformOverlay
+            layers={canvasLayers}
+            selectedLayerId={selectedLayerId}
+            canvasWidth={canvasWidth}
+            canvasHeight={canvasHeight}
+            onSelectLayer={setSelectedLayerId}
+            onTransform={(layerId, placement) => setTransformPreview({ layerId, placement })}
+            onTransformEnd={commitLayerPlacement}
+            onLockedTouch={layerId => {
+              const layer = layers.find(l => l.id === layerId);
+              if (layer) showLayerLocked(layer.name, getLayerLockState(layers, layer).all ? 'all' : 'position');
+            }}
+          />
+        )}
       </View>
     );
   };
@@ -1484,9 +2377,9 @@ export default function Flowspace() {
                 </Text>
               </View>
             ) : (
-              layers
-                .sort((a, b) => b.order - a.order)
-                .map((layer, index) => (
+              // Groups are listed with their contents nested below them
+              flattenLayerTree(layers, collapsedGroupIds)
+                .map(({ layer, depth }, index) => (
                   <TouchableOpacity
                     key={layer.id}
                     style={[styles.layerItem, { 
@@ -1516,13 +2409,33 @@ export default function Flowspace() {
                     }}
                     onLongPress={() => {
                       const buttons: any[] = [
-                        { text: "Move Up", onPress: () => moveLayerUp(layer.id) },
-                        { text: "Move Down", onPress: () => moveLayerDown(layer.id) },
+                        { text: "Move Up", onPress: () => moveLayer(layer.id, 'up') },
+                        { text: "Move Down", onPress: () => moveLayer(layer.id, 'down') },
                       ];
                       
-                      if (!layer.isAdjustmentLayer) {
+                      if (!layer.isAdjustmentLayer && !layer.isGroupLayer) {
                         buttons.push({ text: "Duplicate", onPress: () => duplicateLayer(layer.id) });
                       }
+
+                      if (!layer.isAdjustmentLayer && !layer.isGroupLayer && !layer.text && layer.imageUrl) {
+                        buttons.push({ text: "Split into Layers", onPress: () => confirmSplitLayer(layer.id) });
+                      }
+
+                      buttons.push({ text: "Group", onPress: () => groupLayer(layer.id) });
+                      if (layer.isGroupLayer) {
+                        buttons.push({ text: "Ungroup", onPress: () => ungroupLayer(layer.id) });
+                      }
+                      buttons.push({ text: "Lock...", onPress: () => showLockMenu(layer.id) });
+
+                      buttons.push(
+                        { text: "Merge Down", onPress: () => mergeLayers('down', layer.id) },
+                        { text: "Merge Visible", onPress: () => mergeLayers('visible') },
+                        { text: "Flatten Image", onPress: () => mergeLayers('flatten') }
+                      );
+
+                      if (undoableMerge?.layerId === layer.id) {
+                        buttons.push({ text: "Undo Merge", onPress: () => undoMerge(layer.id) });
+                      }
                       
                       buttons.push(
                         { text: "Delete", onPress: () => deleteLayer(layer.id), style: "destructive" },
@@ -1541,8 +2454,43 @@ export default function Flowspace() {
                         {index + 1}
                       </Text>
                     </View>
+
+                    <View style={{ width: depth * LAYER_INDENT }} />
+
+                    {layer.isGroupLayer && (
+                      <TouchableOpacity
+                        onPress={() => toggleGroupCollapsed(layer.id)}
+                        style={styles.layerCollapseButton}
+                        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                      >
+                        {collapsedGroupIds.includes(layer.id) ? (
+                          <ChevronRight size={18} color={colors.text.primary} strokeWidth={2} />
+                        ) : (
+                          <ChevronDown size={18} color={colors.text.primary} strokeWidth={2} />
+                        )}
+                      </TouchableOpacity>
+                    )}
                     
-                    {layer.isAdjustmentLayer ? (
+                    {layer.isGroupLayer ? (
+                      <View style={[styles.layerThumbnail, { 
+                        borderColor: colors.border.primary,
+                        backgroundColor: colors.background.secondary,
+                        justifyContent: 'center',
+                        alignItems: 'center'
+                      }]}>
+                        {collapsedGroupIds.includes(layer.id) ? (
+                          <Folder size={24} color={colors.text.primary} />
+                        ) : (
+                          <FolderOpen size={24} color={colors.text.primary} />
+                        )}
+                        <Text
+                          style={[styles.layerGroupName, { color: colors.text.secondary }]}
+                          numberOfLines={1}
+                        >
+                          {layer.name}
+                        </Text>
+                      </View>
+                    ) : layer.isAdjustmentLayer ? (
                       <View style={[styles.layerThumbnail, { 
                         borderColor: colors.border.primary,
                         backgroundColor: colors.background.secondary,
@@ -1551,6 +2499,15 @@ export default function Flowspace() {
                       }]}>
                         <Settings size={24} color={colors.button.arclight} />
                       </View>
+                    ) : layer.text ? (
+                      <View style={[styles.layerThumbnail, { 
+                        borderColor: colors.border.primary,
+                        backgroundColor: colors.background.secondary,
+                        justifyContent: 'center',
+                        alignItems: 'center'
+                      }]}>
+                        <Type size={24} color={colors.text.primary} />
+                      </View>
                     ) : (
                       <Image
                         source={{ uri: layer.imageUrl }}
@@ -1561,6 +2518,10 @@ export default function Flowspace() {
 
                     <View style={styles.layerSpacer} />
 
+                    {Object.values(getLayerLockState(layers, layer)).some(Boolean) && (
+                      <Lock size={16} color={colors.text.secondary} strokeWidth={2} />
+                    )}
+
                     <TouchableOpacity
                       onPress={() => toggleLayerVisibility(layer.id)}
                       style={styles.layerVisibilityButton}
@@ -1649,6 +2610,21 @@ export default function Flowspace() {
             </Text>
           </TouchableOpacity>
 
+          <TouchableOpacity
+            style={styles.addLayerOptionContainer}
+            onPress={() => {
+              setAddLayerModalVisible(false);
+              openTextEditor(null);
+            }}
+          >
+            <View style={[styles.addLayerCircle, { backgroundColor: colors.background.primary }]}>
+              <Type size={48} color={colors.text.primary} strokeWidth={1.5} />
+            </View>
+            <Text style={[styles.addLayerLabel, { color: '#FFFFFF' }]}>
+              TEXT{'\n'}LAYER
+            </Text>
+          </TouchableOpacity>
+
           <View style={styles.addLayerBottomActions}>
             <TouchableOpacity
               style={[styles.addLayerCloseButton, { backgroundColor: colors.background.secondary }]}
@@ -1715,15 +2691,7 @@ export default function Flowspace() {
                 onPress={async () => {
                   if (selectedLayerId && layers.find(l => l.id === selectedLayerId && l.isAdjustmentLayer)) {
                     // Update existing adjustment layer
-                    const updatedLayers = layers.map(l => 
-                      l.id === selectedLayerId ? { ...l, adjustments: { ...tempAdjustments } } : l
-                    );
-                    setLayers(updatedLayers);
-                    
-                    // Save to AsyncStorage
-                    if (projectId) {
-                      await saveAdjustmentLayers(projectId, updatedLayers.filter(l => l.isAdjustmentLayer));
-                    }
+                    await updateAdjustmentLayer(selectedLayerId, tempAdjustments);
                     
                     setTempAdjustments({
                       brightness: 0,
@@ -1919,11 +2887,63 @@ export default function Flowspace() {
                 </Text>
               </View>
 
-              <View style={styles.propertyGroup}>
-                <Text style={[styles.propertyLabel, { color: colors.text.primary }]}>
-                  Blend Mode: {selectedLayer.blendMode}
-                </Text>
-              </View>
+              {!selectedLayer.isAdjustmentLayer && (
+                <View style={styles.propertyGroup}>
+                  <Text style={[styles.propertyLabel, { color: colors.text.primary }]}>
+                    Blend Mode
+                  </Text>
+                  <View style={styles.blendModeGrid}>
+                    {BLEND_MODES.map(mode => {
+                      const active = selectedLayer.blendMode === mode.value;
+                      return (
+                        <TouchableOpacity
+                          key={mode.value}
+                          style={[
+                            styles.blendModeChip,
+                            { backgroundColor: active ? colors.button.arclight : colors.background.secondary }
+                          ]}
+                          onPress={() => updateLayerBlendMode(selectedLayer.id, mode.value)}
+                        >
+                          <Text style={[styles.blendModeChipText, { color: active ? '#FFFFFF' : colors.text.primary }]}>
+                            {mode.label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              )}
+
+              {selectedLayer.text && (
+                <View style={styles.propertyGroup}>
+                  <TouchableOpacity
+                    style={[styles.maskButton, { backgroundColor: colors.background.secondary }]}
+                    onPress={() => openTextEditor(selectedLayer.id)}
+                  >
+                    <Type size={18} color={colors.text.primary} />
+                    <Text style={[styles.blendModeChipText, { color: colors.text.primary }]}>
+                      Edit Text
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              {!selectedLayer.isAdjustmentLayer && !selectedLayer.text && !selectedLayer.isGroupLayer && (
+                <View style={styles.propertyGroup}>
+                  <Text style={[styles.propertyLabel, { color: colors.text.primary }]}>
+                    Mask: {selectedLayer.maskUrl ? 'On' : 'None'}
+                  </Text>
+                  <TouchableOpacity
+                    style={[styles.maskButton, { backgroundColor: colors.background.secondary }]}
+                    onPress={() => openMaskEditor(selectedLayer.id)}
+                  >
+                    <SquareDashed size={18} color={colors.text.primary} />
+                    <Text style={[styles.blendModeChipText, { color: colors.text.primary }]}>
+                      {selectedLayer.maskUrl ? 'Edit Mask' : 'Add Mask'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              )}
 
               <View style={styles.propertyGroup}>
                 <Text style={[styles.propertyLabel, { color: colors.text.primary }]}>
@@ -2043,6 +3063,8 @@ export default function Flowspace() {
     </Modal>
   );
 
+  const maskEditorLayer = layers.find(l => l.id === maskEditorLayerId);
+
   return (
     <SafeAreaView 
       style={[styles.container, { backgroundColor: isDark ? colors.background.dark : colors.background.cream }]} 
@@ -2053,7 +3075,7 @@ export default function Flowspace() {
         rightElement={
           <TouchableOpacity 
             style={styles.headerButton}
-            onPress={() => {}}
+            onPress={handleShare}
           >
             <Share2 size={28} color={colors.text.primary} strokeWidth={2.5} />
           </TouchableOpacity>
@@ -2069,6 +3091,47 @@ export default function Flowspace() {
           {renderCanvas()}
         </View>
 
+        {projectCreated && (
+          <View style={styles.historyBar}>
+            <TouchableOpacity
+              style={[styles.historyButton, { opacity: layerHistory.position === 0 || historyBusy ? 0.35 : 1 }]}
+              onPress={() => goToHistory(layerHistory.position - 1)}
+              disabled={layerHistory.position === 0 || historyBusy}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <Undo2 size={22} color={colors.text.primary} strokeWidth={2.2} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.historyButton, {
+                opacity: layerHistory.position === layerHistory.entries.length || historyBusy ? 0.35 : 1
+              }]}
+              onPress={() => goToHistory(layerHistory.position + 1)}
+              disabled={layerHistory.position === layerHistory.entries.length || historyBusy}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <Redo2 size={22} color={colors.text.primary} strokeWidth={2.2} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.historyButton}
+              onPress={() => setHistoryPanelVisible(true)}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <History size={22} color={colors.text.primary} strokeWidth={2.2} />
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {projectCreated && layerEditSync.offline && layerEditSync.pending > 0 && (
+          <TouchableOpacity
+            style={[styles.syncBanner, { backgroundColor: colors.background.secondary }]}
+            onPress={() => LayerEditQueue.retryNow()}
+          >
+            <Text style={[styles.syncBannerText, { color: colors.text.secondary }]}>
+              {`Offline - ${layerEditSync.pending} edit${layerEditSync.pending === 1 ? '' : 's'} waiting to sync. Tap to retry.`}
+            </Text>
+          </TouchableOpacity>
+        )}
+
         {!projectCreated && (
           <View style={styles.projectInfoContainer}>
             <Text style={[styles.projectInfoTitle, { color: colors.text.primary }]}>
@@ -2202,6 +3265,50 @@ export default function Flowspace() {
         </View>
       </Modal>
 
+      <TextLayerEditor
+        visible={textEditor !== null}
+        initialText={textEditor?.text ?? defaultLayerText}
+        isNew={textEditor?.layerId === null}
+        onClose={() => setTextEditor(null)}
+        onSave={saveTextLayer}
+        saving={savingText}
+      />
+
+      {maskEditorLayer && (
+        <MaskEditor
+          visible={maskEditorLayerId !== null}
+          imageUrl={maskEditorLayer.imageUrl}
+          maskUrl={maskEditorLayer.maskUrl}
+          onClose={() => setMaskEditorLayerId(null)}
+          onSave={maskUri => saveLayerMask(maskEditorLayer.id, maskUri)}
+          onRemoveMask={() => removeLayerMask(maskEditorLayer.id)}
+          onRequestCutout={() => getLayerCutout(maskEditorLayer.id)}
+        />
+      )}
+
+      <ImageImportSheet
+        visible={importItems.length > 0}
+        items={importItems}
+        layout={importLayout}
+        started={importStarted}
+        onLayoutChange={setImportLayout}
+        onStart={startImport}
+        onRetry={itemId => {
+          const item = importItems.find(i => i.id === itemId);
+          if (item) uploadImportItem(item);
+        }}
+        onFinish={finishImport}
+        onClose={closeImport}
+      />
+
+      <ExportSheet
+        visible={exportSheetVisible}
+        onClose={() => setExportSheetVisible(false)}
+        onExport={handleExport}
+        hasAlpha={exportHasAlpha}
+        exporting={exporting}
+      />
+
       {uploading && (
         <View style={[styles.loadingOverlay, { backgroundColor: colors.background.overlayTransparent }]}>
           <Loader size={160} />
@@ -2220,6 +3327,16 @@ export default function Flowspace() {
         </View>
       )}
 
+      <LayerHistoryPanel
+        visible={historyPanelVisible}
+        entries={layerHistory.entries}
+        position={layerHistory.position}
+        maxSteps={layerHistory.maxSteps}
+        busy={historyBusy}
+        onSelect={goToHistory}
+        onClose={() => setHistoryPanelVisible(false)}
+      />
+
       <CustomAlert
         visible={alertState.visible}
         type={alertState.type}
@@ -2253,6 +3370,31 @@ const styles = StyleSheet.create({
     overflow: 'hidden',
     marginBottom: 16,
   },
+  historyBar: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 20,
+    marginTop: -8,
+    marginBottom: 8,
+  },
+  historyButton: {
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  syncBanner: {
+    marginTop: -8,
+    marginBottom: 16,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  syncBannerText: {
+    fontSize: 12,
+  },
   emptyCanvas: {
     flex: 1,
     justifyContent: 'center',
@@ -2309,10 +3451,29 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     position: 'relative',
   },
-  canvasLayerImage: {
-    position: 'absolute',
-    width: '100%',
-    height: '100%',
+  blendModeGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  blendModeChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  blendModeChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  maskButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
   },
   projectInfoContainer: {
     padding: 20,
@@ -2464,6 +3625,15 @@ const styles = StyleSheet.create({
     padding: 8,
     marginLeft: 8,
   },
+  layerCollapseButton: {
+    marginRight: 4,
+  },
+  layerGroupName: {
+    fontSize: 9,
+    marginTop: 2,
+    maxWidth: 50,
+    fontFamily: 'geistmono',
+  },
   layerDeleteButton: {
     padding: 8,
     marginLeft: 4,
@@ -2513,7 +3683,7 @@ const styles = StyleSheet.create({
   },
   addLayerOptionContainer: {
     alignItems: 'center',
-    marginBottom: 40,
+    marginBottom: 28,
   },
   addLayerCircle: {
     width: 120,
@@ -2540,7 +3710,7 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
     gap: 16,
-    marginTop: 60,
+    marginTop: 32,
   },
   addLayerCloseButton: {
     width: 64,
@@ -2840,18 +4010,6 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
-  adjustmentBanner: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    paddingHorizontal: 16,
-    paddingVertical: 8,
-    borderBottomWidth: 1,
-    gap: 8,
-  },
-  adjustmentBannerText: {
-    fontSize: 12,
-    fontWeight: '500',
-  },
   adjustmentInfoBanner: {
     padding: 12,
     marginBottom: 16,
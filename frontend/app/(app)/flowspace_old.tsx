@@ -223,7 +223,7 @@ export default function Flowspace() {
       // Upload image to backend
       const uploadResult = await ApiService.uploadImage(uri, projectId, 'layer-based');
       
-      if (!uploadResult.response.ok || !uploadResult.data.success) {
+      if (!uploadResult.response.ok || !uploadResult.data.success || !uploadResult.data.data?.image) {
         throw new Error(uploadResult.data.message || 'Failed to upload image');
       }
 
@@ -22,12 +22,16 @@ import {
   ImageIcon,
   Clock,
   ChevronUp,
+  Crop,
+  Columns2,
 } from 'lucide-react-native';
 import { useTheme } from '../../context/ThemeContext';
 import { useAlert } from '../../hooks/useAlert';
 import CustomAlert from '../../components/CustomAlert';
 import Loader from '../../components/Loader';
+import ImageCompareViewer from '../../components/ImageCompareViewer';
 import ApiService from '../../services/api';
+import { ImageRef, TimelineEntry } from '../../services/apiTypes';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
@@ -37,26 +41,8 @@ const IMAGE_HEIGHT = IMAGE_WIDTH * 0.75; // 4:3 aspect ratio default
 // ============================================================
 // TYPES
 // ============================================================
-interface TimelineImage {
-  imageUrl: string;
-  publicId: string;
-  width?: number;
-  height?: number;
-}
-
-interface TimelineEntry {
-  index: number; // -1 for original, 0+ for operations
-  operationType: string;
-  image: TimelineImage; // Output image
-  inputImage?: TimelineImage; // Input image - for style-transfer this is the BASE image (Image 1)
-  timestamp: string;
-  prompt?: any;
-  processingTime?: number;
-  status: 'completed' | 'failed';
-}
-
 interface HistoryProps {
-  onRevertToOperation?: (operationIndex: number, imageData: TimelineImage) => void;
+  onRevertToOperation?: (operationIndex: number, imageData: ImageRef) => void;
   onUndoLast?: () => void;
   refreshKey?: number; // Increment to force refresh
 }
@@ -73,6 +59,8 @@ export default function History({ onRevertToOperation, onUndoLast, refreshKey }:
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isReverting, setIsReverting] = useState(false);
+  const [compareSelection, setCompareSelection] = useState<number[] | null>(null); // Entry indexes picked to compare, null when not picking
+  const [compareVisible, setCompareVisible] = useState(false);
 
   // ============================================================
   // FETCH TIMELINE
@@ -149,7 +137,7 @@ export default function History({ onRevertToOperation, onUndoLast, refreshKey }:
   // ============================================================
   // HANDLE REVERT TO OPERATION
   // ============================================================
-  const handleRevertToOperation = async (operationIndex: number, imageData: TimelineImage) => {
+  const handleRevertToOperation = async (operationIndex: number, imageData: ImageRef) => {
     if (!projectId) {
       showAlert('error', 'Error', 'No project found');
       return;
@@ -238,6 +226,39 @@ export default function History({ onRevertToOperation, onUndoLast, refreshKey }:
     }
   };
 
+  // ============================================================
+  // COMPARE TWO ENTRIES
+  // ============================================================
+  const getStepLabel = (entry: TimelineEntry): string => {
+    return entry.index === -1 ? 'ORIGINAL' : `STEP ${entry.index + 1}`;
+  };
+
+  const handleCompareSelect = (entryIndex: number) => {
+    if (!compareSelection) return;
+
+    if (compareSelection.includes(entryIndex)) {
+      setCompareSelection(compareSelection.filter(index => index !== entryIndex));
+      return;
+    }
+
+    const selection = [...compareSelection, entryIndex];
+    setCompareSelection(selection);
+    if (selection.length === 2) {
+      setCompareVisible(true);
+    }
+  };
+
+  const handleCompareClose = () => {
+    setCompareVisible(false);
+    setCompareSelection(null);
+  };
+
+  // The earlier step is always the before image
+  const comparedEntries = (compareSelection || [])
+    .map(index => timeline.find(entry => entry.index === index))
+    .filter((entry): entry is TimelineEntry => !!entry)
+    .sort((a, b) => a.index - b.index);
+
   // ============================================================
   // GET OPERATION LABEL
   // ============================================================
@@ -246,12 +267,16 @@ export default function History({ onRevertToOperation, onUndoLast, refreshKey }:
       case 'original':
         return 'Original Image';
       case 'relight':
+        if (prompt?.light) return 'Relit';
         const brightness = prompt?.brightness || 1;
         return brightness > 1 ? 'Brightened' : 'Darkened';
       case 'enhance':
-        const mode = prompt?.mode || 'denoise';
+        const mode = prompt?.mode || (prompt?.feature === 'deblur' ? 'deblur' : 'denoise');
         return mode === 'denoise' ? 'Removed Noise' : 'Removed Blur';
       case 'face-restore':
+        if (Array.isArray(prompt?.faces)) {
+          return prompt.faces.length === 1 ? 'Restored 1 Face' : `Restored ${prompt.faces.length} Faces`;
+        }
         return 'Restored Face';
       case 'style-transfer':
         return 'Applied Style';
@@ -260,6 +285,8 @@ export default function History({ onRevertToOperation, onUndoLast, refreshKey }:
         return bgMode === 'human' ? 'Removed Subject' : 'Removed Background';
       case 'object-removal':
         return 'Removed Object';
+      case 'crop':
+        return 'Cropped';
       default:
         return operationType.charAt(0).toUpperCase() + operationType.slice(1).replace(/-/g, ' ');
     }
@@ -287,6 +314,8 @@ export default function History({ onRevertToOperation, onUndoLast, refreshKey }:
         return <Scissors size={iconSize} color={iconColor} strokeWidth={2} />;
       case 'object-removal':
         return <Eraser size={iconSize} color={iconColor} strokeWidth={2} />;
+      case 'crop':
+        return <Crop size={iconSize} color={iconColor} strokeWidth={2} />;
       default:
         return <Clock size={iconSize} color={iconColor} strokeWidth={2} />;
     }
@@ -326,9 +355,22 @@ export default function History({ onRevertToOperation, onUndoLast, refreshKey }:
   // ============================================================
   return (
     <View style={[styles.container, { backgroundColor: isDark ? colors.background.dark : colors.background.cream }]}>
-      {/* Undo Button at Top */}
+      {/* Compare and Undo Buttons at Top */}
       {timeline.length > 1 && (
         <View style={styles.undoContainer}>
+          <TouchableOpacity
+            style={[
+              styles.undoButton,
+              { backgroundColor: compareSelection ? colors.button.arclight : (isDark ? '#2a2a2a' : '#f0f0f0') },
+            ]}
+            onPress={() => setCompareSelection(compareSelection ? null : [])}
+            disabled={isReverting}
+          >
+            <Columns2 size={18} color={compareSelection ? '#FFFFFF' : colors.text.primary} strokeWidth={2} />
+            <Text style={[styles.undoButtonText, { color: compareSelection ? '#FFFFFF' : colors.text.primary }]}>
+              {compareSelection ? 'Cancel' : 'Compare'}
+            </Text>
+          </TouchableOpacity>
           <TouchableOpacity
             style={[styles.undoButton, { backgroundColor: isDark ? '#2a2a2a' : '#f0f0f0' }]}
             onPress={handleUndoLast}
@@ -342,6 +384,12 @@ export default function History({ onRevertToOperation, onUndoLast, refreshKey }:
         </View>
       )}
 
+      {compareSelection && (
+        <Text style={[styles.compareHint, { color: colors.text.secondary }]}>
+          {compareSelection.length === 0 ? 'Tap two steps to compare' : 'Tap one more step to compare'}
+        </Text>
+      )}
+
       <ScrollView
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
@@ -362,6 +410,7 @@ export default function History({ onRevertToOperation, onUndoLast, refreshKey }:
             {[...timeline].reverse().map((entry, displayIndex) => {
               const isFirst = displayIndex === 0; // Newest/current image
               const isLast = displayIndex === timeline.length - 1; // Original image
+              const isSelected = !!compareSelection && compareSelection.includes(entry.index);
               
               return (
                 <View key={`${entry.index}-${entry.timestamp}`} style={styles.timelineItem}>
@@ -389,16 +438,21 @@ export default function History({ onRevertToOperation, onUndoLast, refreshKey }:
                     )}
                   </View>
 
-                  {/* Image Card */}
-                  <View style={[styles.imageCard, { 
-                    backgroundColor: isDark ? '#1a1a1a' : '#ffffff',
-                    borderColor: isFirst ? colors.button.arclight : colors.border.primary,
-                    borderWidth: isFirst ? 2 : 1,
-                  }]}>
+                  {/* Image Card - tap to pick it while choosing steps to compare */}
+                  <TouchableOpacity
+                    activeOpacity={compareSelection ? 0.8 : 1}
+                    disabled={!compareSelection}
+                    onPress={() => handleCompareSelect(entry.index)}
+                    style={[styles.imageCard, { 
+                      backgroundColor: isDark ? '#1a1a1a' : '#ffffff',
+                      borderColor: isSelected || isFirst ? colors.button.arclight : colors.border.primary,
+                      borderWidth: isSelected ? 3 : isFirst ? 2 : 1,
+                    }]}
+                  >
                     {/* Step Indicator */}
                     <View style={[styles.stepIndicator, { backgroundColor: isDark ? '#2a2a2a' : '#f5f5f5' }]}>
                       <Text style={[styles.stepText, { color: colors.text.secondary }]}>
-                        {entry.index === -1 ? 'ORIGINAL' : `STEP ${entry.index + 1}`}
+                        {getStepLabel(entry)}
                       </Text>
                     </View>
 
@@ -419,7 +473,7 @@ export default function History({ onRevertToOperation, onUndoLast, refreshKey }:
                     </View>
 
                     {/* Revert Button (not for current image) */}
-                    {!isFirst && (
+                    {!isFirst && !compareSelection && (
                       <TouchableOpacity
                         style={[styles.revertButton, { backgroundColor: isDark ? '#2a2a2a' : '#f0f0f0' }]}
                         onPress={() => handleRevertToOperation(entry.index, entry.image)}
@@ -431,7 +485,7 @@ export default function History({ onRevertToOperation, onUndoLast, refreshKey }:
                         </Text>
                       </TouchableOpacity>
                     )}
-                  </View>
+                  </TouchableOpacity>
 
                   {/* Original Badge at Bottom */}
                   {isLast && entry.index === -1 && (
@@ -462,6 +516,14 @@ export default function History({ onRevertToOperation, onUndoLast, refreshKey }:
         </View>
       )}
 
+      {/* Compare the two picked steps */}
+      <ImageCompareViewer
+        visible={compareVisible && comparedEntries.length === 2}
+        before={comparedEntries[0] ? { uri: comparedEntries[0].image.imageUrl, label: getStepLabel(comparedEntries[0]) } : null}
+        after={comparedEntries[1] ? { uri: comparedEntries[1].image.imageUrl, label: getStepLabel(comparedEntries[1]) } : null}
+        onClose={handleCompareClose}
+      />
+
       <CustomAlert
         visible={alertState.visible}
         type={alertState.type}
@@ -492,9 +554,11 @@ const styles = StyleSheet.create({
   
   // Undo Button
   undoContainer: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
     paddingHorizontal: 20,
     paddingVertical: 12,
-    alignItems: 'flex-end',
+    gap: 8,
   },
   undoButton: {
     flexDirection: 'row',
@@ -508,6 +572,12 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  compareHint: {
+    fontSize: 13,
+    textAlign: 'center',
+    paddingHorizontal: 20,
+    paddingBottom: 8,
+  },
 
   // Scroll View
   scrollView: {
@@ -17,11 +17,17 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
-import { Share2, Mic, Send, Sliders, Plus, ImageIcon, Camera, X, Upload, Trash2, XCircle } from 'lucide-react-native';
+import { Share2, Mic, Send, Sliders, Plus, ImageIcon, Camera, X, Upload, Trash2, XCircle, Crop, Columns2 } from 'lucide-react-native';
 import Sidebar from '../../components/Sidebar';
 import Navbar from '../../components/Navbar';
 import LightingModal from '../../components/LightingModal';
 import FilterToolsMenu from '../../components/FilterToolsMenu';
+import ExportSheet from '../../components/ExportSheet';
+import CropTool from '../../components/CropTool';
+import ObjectSelectionEditor from '../../components/ObjectSelectionEditor';
+import FaceRestoreEditor from '../../components/FaceRestoreEditor';
+import ImageCompareViewer from '../../components/ImageCompareViewer';
+import ZoomableImageViewport from '../../components/ZoomableImageViewport';
 import ArclightEngineButton from '../../components/ArclightEngineButton';
 import LiveGLShader from '../../components/LiveGLShader';
 import Loader from '../../components/Loader';
@@ -30,7 +36,8 @@ import { useSidebar } from '../../context/SideBarContext';
 import { useTheme } from '../../context/ThemeContext';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import ApiService from '../../services/api';
-import * as ImageManipulator from 'expo-image-manipulator';
+import { assertApiSuccess, normalizeProcessedImage, normalizeGeminiResult } from '../../services/apiResults';
+import { CropImageRequest, FaceDetectData, FaceRestoreOptions, ObjectSelectionPrompts, RelightParams } from '../../services/apiTypes';
 import * as Sharing from 'expo-sharing';
 import * as ImagePicker from 'expo-image-picker';
 import { useAlert } from '../../hooks/useAlert';
@@ -41,6 +48,8 @@ import {
   FilterValues,
   defaultFilterValues,
 } from '../../utils/filters';
+import { hasActiveFilterValues } from '../../utils/filterPipeline';
+import { ExportOptions, renderFilteredImageToFile, imageHasAlpha } from '../../utils/exportRenderer';
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
 const SCREEN_HEIGHT = Dimensions.get('window').height;
@@ -51,9 +60,9 @@ const CANVAS_HEIGHT = SCREEN_HEIGHT * 0.5; // Half the screen height
 
 
 // ============================================================
-// GPU-ACCELERATED FILTERED IMAGE COMPONENT
-// Using gl-react and GLSL shaders for real-time GPU rendering
-// All filters run on GPU - works in Expo Go without native modules
+// FILTERED IMAGE COMPONENT
+// Renders the image through the shared filter pipeline (LiveGLShader),
+// the same code path used when exporting.
 // ============================================================
 interface FilteredImageProps {
   uri: string;
@@ -85,6 +94,7 @@ const FilteredImage: React.FC<FilteredImageProps> = ({
           filters={filterValues}
           width={dimensions.width}
           height={dimensions.height}
+          resizeMode={resizeMode}
           style={{ width: '100%', height: '100%' }}
         />
       )}
@@ -115,6 +125,10 @@ export default function Workspace() {
   const [filterValues, setFilterValues] = useState<FilterValues>(defaultFilterValues);
   const [isEnhancing, setIsEnhancing] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
+  const [exportSheetVisible, setExportSheetVisible] = useState(false);
+  const [exportHasAlpha, setExportHasAlpha] = useState(false);
+  const [cropToolVisible, setCropToolVisible] = useState(false);
+  const [isCropping, setIsCropping] = useState(false);
   const [imageDimensions, setImageDimensions] = useState<{ width: number; height: number; aspectRatio: number } | null>(null);
   const [imageLoading, setImageLoading] = useState(false);
   const [loadingProjectImage, setLoadingProjectImage] = useState(false); // Loading state for fetching project image
@@ -122,6 +136,9 @@ export default function Workspace() {
   const [showingOriginal, setShowingOriginal] = useState(false); // Track if showing original or updated
   const [objectRemovalMode, setObjectRemovalMode] = useState(false); // Track if in object removal mode
   const [objectRemovalMarker, setObjectRemovalMarker] = useState<{ x: number; y: number } | null>(null); // Red dot marker position
+  const [objectSelectionVisible, setObjectSelectionVisible] = useState(false); // Brush/lasso/points/box selection editor
+  const [compareVisible, setCompareVisible] = useState(false); // Before/after comparison
+  const [faceRestoreVisible, setFaceRestoreVisible] = useState(false); // Face restore settings panel
   const [styleTransferMode, setStyleTransferMode] = useState(false); // Track if waiting for reference image
   const [referenceImageUri, setReferenceImageUri] = useState<string | null>(null); // Reference image URI
   const [referenceImagePublicId, setReferenceImagePublicId] = useState<string | null>(null); // Reference image publicId
@@ -431,7 +448,7 @@ export default function Workspace() {
         }
       });
       
-      if (!uploadResult.response.ok || !uploadResult.data.success) {
+      if (!uploadResult.response.ok || !uploadResult.data.success || !uploadResult.data.data?.image) {
         throw new Error(uploadResult.data.message || 'Failed to upload image');
       }
 
@@ -606,49 +623,18 @@ export default function Workspace() {
     try {
       const enhanceResult = await ApiService.enhanceImage(publicId, mode);
 
-      if (!enhanceResult.response.ok) {
-        const errorMessage = enhanceResult.data?.message ||
-          enhanceResult.data?.error?.message ||
-          `Server error: ${enhanceResult.response.status} ${enhanceResult.response.statusText}`;
-        throw new Error(errorMessage);
-      }
-
-      if (enhanceResult.data?.status === 'fail' || enhanceResult.data?.status === 'error') {
-        const errorMessage = enhanceResult.data?.message ||
-          enhanceResult.data?.error?.message ||
-          'Failed to enhance image';
-        throw new Error(errorMessage);
-      }
-
-      if (enhanceResult.data.success === false) {
-        const errorMessage = enhanceResult.data?.message ||
-          enhanceResult.data?.error?.message ||
-          'Failed to enhance image';
-        throw new Error(errorMessage);
-      }
-
-      const responseData = enhanceResult.data.data;
-
-      if (!responseData) {
-        throw new Error('Invalid response: missing data field');
-      }
+      assertApiSuccess(enhanceResult, 'Failed to enhance image');
 
-      const enhancedImageUrl = responseData.enhancedImageUrl;
-      const enhancedPublicId = responseData.publicId;
-
-      if (!enhancedImageUrl) {
-        throw new Error('Invalid response: missing enhancedImageUrl');
-      }
-      if (!enhancedPublicId) {
-        throw new Error('Invalid response: missing publicId');
-      }
+      const enhanced = normalizeProcessedImage('enhance', enhanceResult);
+      const enhancedImageUrl = enhanced.imageUrl;
+      const enhancedPublicId = enhanced.publicId;
 
       // Store output image data
       const outputImageData = {
         imageUrl: enhancedImageUrl,
         publicId: enhancedPublicId,
-        width: responseData.width,
-        height: responseData.height,
+        width: enhanced.width,
+        height: enhanced.height,
       };
 
       setImageUri(enhancedImageUrl);
@@ -686,18 +672,24 @@ export default function Workspace() {
   };
 
   // ============================================================
-  // RELIGHT FUNCTION
+  // CROP FUNCTION
   // ============================================================
-  const handleRelight = async (brightness: number = 1.5) => {
-    if (!publicId) {
+  const openCropTool = () => {
+    if (!publicId || !imageDimensions) {
       showAlert(
         'warning',
         'No Image Selected',
-        'Please upload an image first before using the relight feature.'
+        'Please upload an image first before cropping.'
       );
       return;
     }
 
+    setCropToolVisible(true);
+  };
+
+  const handleCrop = async (crop: Omit<CropImageRequest, 'publicId'>) => {
+    if (!publicId) return;
+
     // Store input image data before operation
     const inputImageData = {
       imageUrl: imageUri || '',
@@ -706,58 +698,82 @@ export default function Workspace() {
       height: imageDimensions?.height,
     };
 
-    setIsEnhancing(true);
+    setIsCropping(true);
 
     try {
-      const result = await ApiService.relight(publicId, brightness);
+      const result = await ApiService.cropImage({ publicId, ...crop });
 
-      if (!result.response.ok) {
-        const errorMessage = result.data?.message ||
-          result.data?.error?.message ||
-          `Server error: ${result.response.status} ${result.response.statusText}`;
-        throw new Error(errorMessage);
-      }
+      assertApiSuccess(result, 'Failed to crop image');
 
-      if (result.data?.status === 'fail' || result.data?.status === 'error') {
-        const errorMessage = result.data?.message ||
-          result.data?.error?.message ||
-          'Failed to relight image';
-        throw new Error(errorMessage);
-      }
+      const cropped = normalizeProcessedImage('crop', result);
 
-      if (result.data.success === false) {
-        const errorMessage = result.data?.message ||
-          result.data?.error?.message ||
-          'Failed to relight image';
-        throw new Error(errorMessage);
-      }
+      const outputImageData = {
+        imageUrl: cropped.imageUrl,
+        publicId: cropped.publicId,
+        width: cropped.width,
+        height: cropped.height,
+      };
 
-      const responseData = result.data.data;
+      setImageUri(cropped.imageUrl);
+      await AsyncStorage.setItem('selected_image_uri', cropped.imageUrl);
+      await AsyncStorage.setItem('current_public_id', cropped.publicId);
+      setPublicId(cropped.publicId);
+      setShowingOriginal(false);
+      setCropToolVisible(false);
 
-      if (!responseData) {
-        throw new Error('Invalid response: missing data field');
-      }
+      // Record operation to history
+      await addOperationToHistory('crop', crop, inputImageData, outputImageData);
+    } catch (error: any) {
+      console.error('Error cropping image:', error);
+
+      showAlert(
+        'error',
+        'Crop Failed',
+        error.message || 'Failed to crop image. Please try again.'
+      );
+    } finally {
+      setIsCropping(false);
+    }
+  };
 
-      // Handle both response structures:
-      // 1. Guide format: outputImage.imageUrl and outputImage.publicId
-      // 2. Actual backend: relitImageUrl and publicId directly (or similar)
-      const relitImageUrl = responseData.outputImage?.imageUrl || responseData.relitImageUrl || responseData.imageUrl;
-      const relitPublicId = responseData.outputImage?.publicId || responseData.publicId;
+  // ============================================================
+  // RELIGHT FUNCTION
+  // ============================================================
+  const handleRelight = async (light: RelightParams) => {
+    if (!publicId) {
+      showAlert(
+        'warning',
+        'No Image Selected',
+        'Please upload an image first before using the relight feature.'
+      );
+      return;
+    }
 
-      if (!relitImageUrl) {
-        console.error('Relight response data:', JSON.stringify(responseData, null, 2));
-        throw new Error('Invalid response: missing image URL');
-      }
-      if (!relitPublicId) {
-        throw new Error('Invalid response: missing publicId');
-      }
+    // Store input image data before operation
+    const inputImageData = {
+      imageUrl: imageUri || '',
+      publicId: publicId,
+      width: imageDimensions?.width,
+      height: imageDimensions?.height,
+    };
+
+    setIsEnhancing(true);
+
+    try {
+      const result = await ApiService.relightDirectional(publicId, light);
+
+      assertApiSuccess(result, 'Failed to relight image');
+
+      const relit = normalizeProcessedImage('relight', result);
+      const relitImageUrl = relit.imageUrl;
+      const relitPublicId = relit.publicId;
 
       // Store output image data
       const outputImageData = {
         imageUrl: relitImageUrl,
         publicId: relitPublicId,
-        width: responseData.outputImage?.width || responseData.width,
-        height: responseData.outputImage?.height || responseData.height,
+        width: relit.width,
+        height: relit.height,
       };
 
       setImageUri(relitImageUrl);
@@ -771,7 +787,7 @@ export default function Workspace() {
       setFilterValues(defaultFilterValues);
 
       // Record operation to history
-      await addOperationToHistory('relight', { brightness }, inputImageData, outputImageData);
+      await addOperationToHistory('relight', { brightness: result.data.data?.brightness, light }, inputImageData, outputImageData);
 
       showAlert(
         'success',
@@ -790,10 +806,36 @@ export default function Workspace() {
     }
   };
 
+  // Relight a small copy of the image so the light can be checked first
+  const handlePreviewRelight = async (light: RelightParams): Promise<string> => {
+    if (!publicId) {
+      throw new Error('No image selected');
+    }
+
+    try {
+      const result = await ApiService.previewRelight(publicId, light);
+      assertApiSuccess(result, 'Failed to preview relight');
+
+      const previewImage = result.data.data?.previewImage;
+      if (!previewImage) {
+        throw new Error('No preview image returned');
+      }
+      return previewImage;
+    } catch (error: any) {
+      console.error('Error previewing relight:', error);
+      showAlert(
+        'error',
+        'Preview Failed',
+        error.message || 'Failed to preview the lighting. Please try again.'
+      );
+      throw error;
+    }
+  };
+
   // ============================================================
   // FACE RESTORE FUNCTION
   // ============================================================
-  const handleFaceRestore = async () => {
+  const handleFaceRestore = () => {
     if (!publicId) {
       showAlert(
         'warning',
@@ -803,6 +845,64 @@ export default function Workspace() {
       return;
     }
 
+    setFaceRestoreVisible(true);
+  };
+
+  // Find the faces the restore panel outlines
+  const handleDetectFaces = async (): Promise<FaceDetectData> => {
+    if (!publicId) {
+      throw new Error('No image selected');
+    }
+
+    try {
+      const result = await ApiService.detectFaces(publicId);
+      assertApiSuccess(result, 'Failed to detect faces');
+
+      return {
+        faces: result.data.data?.faces ?? [],
+        width: result.data.data?.width ?? imageDimensions?.width ?? 0,
+        height: result.data.data?.height ?? imageDimensions?.height ?? 0,
+      };
+    } catch (error: any) {
+      console.error('Error detecting faces:', error);
+      showAlert(
+        'error',
+        'Face Detection Failed',
+        error.message || 'Could not find faces. The whole image can still be restored.'
+      );
+      throw error;
+    }
+  };
+
+  // Restore a small copy so the settings can be checked first
+  const handlePreviewFaceRestore = async (options: FaceRestoreOptions): Promise<string> => {
+    if (!publicId) {
+      throw new Error('No image selected');
+    }
+
+    try {
+      const result = await ApiService.previewFaceRestore(publicId, options);
+      assertApiSuccess(result, 'Failed to preview face restore');
+
+      const previewImage = result.data.data?.previewImage;
+      if (!previewImage) {
+        throw new Error('No preview image returned');
+      }
+      return previewImage;
+    } catch (error: any) {
+      console.error('Error previewing face restore:', error);
+      showAlert(
+        'error',
+        'Preview Failed',
+        error.message || 'Failed to preview the face restore. Please try again.'
+      );
+      throw error;
+    }
+  };
+
+  const handleRestoreFaces = async (options: FaceRestoreOptions) => {
+    if (!publicId) return;
+
     // Store input image data before operation
     const inputImageData = {
       imageUrl: imageUri || '',
@@ -814,55 +914,20 @@ export default function Workspace() {
     setIsEnhancing(true);
 
     try {
-      const fidelity = 0.7;
-      const result = await ApiService.faceRestore(publicId, fidelity);
-
-      if (!result.response.ok) {
-        const errorMessage = result.data?.message ||
-          result.data?.error?.message ||
-          `Server error: ${result.response.status} ${result.response.statusText}`;
-        throw new Error(errorMessage);
-      }
-
-      if (result.data?.status === 'fail' || result.data?.status === 'error') {
-        const errorMessage = result.data?.message ||
-          result.data?.error?.message ||
-          'Failed to restore face';
-        throw new Error(errorMessage);
-      }
+      const result = await ApiService.restoreFaces(publicId, options);
 
-      if (result.data.success === false) {
-        const errorMessage = result.data?.message ||
-          result.data?.error?.message ||
-          'Failed to restore face';
-        throw new Error(errorMessage);
-      }
-
-      const responseData = result.data.data;
-
-      if (!responseData) {
-        throw new Error('Invalid response: missing data field');
-      }
+      assertApiSuccess(result, 'Failed to restore face');
 
-      // Handle both response structures:
-      // 1. Guide format: outputImage.imageUrl and outputImage.publicId
-      // 2. Actual backend: restoredImageUrl and publicId directly
-      const restoredImageUrl = responseData.outputImage?.imageUrl || responseData.restoredImageUrl;
-      const restoredPublicId = responseData.outputImage?.publicId || responseData.publicId;
-
-      if (!restoredImageUrl) {
-        throw new Error('Invalid response: missing image URL');
-      }
-      if (!restoredPublicId) {
-        throw new Error('Invalid response: missing publicId');
-      }
+      const restored = normalizeProcessedImage('face-restore', result);
+      const restoredImageUrl = restored.imageUrl;
+      const restoredPublicId = restored.publicId;
 
       // Store output image data
       const outputImageData = {
         imageUrl: restoredImageUrl,
         publicId: restoredPublicId,
-        width: responseData.outputImage?.width || responseData.width,
-        height: responseData.outputImage?.height || responseData.height,
+        width: restored.width,
+        height: restored.height,
       };
 
       setImageUri(restoredImageUrl);
@@ -874,9 +939,14 @@ export default function Workspace() {
 
       // Reset filters when new image is loaded
       setFilterValues(defaultFilterValues);
+      setFaceRestoreVisible(false);
 
       // Record operation to history
-      await addOperationToHistory('face-restore', { fidelity }, inputImageData, outputImageData);
+      await addOperationToHistory('face-restore', {
+        fidelity: options.fidelity,
+        strength: options.strength,
+        faces: options.faces,
+      }, inputImageData, outputImageData);
 
       showAlert(
         'success',
@@ -923,25 +993,18 @@ export default function Workspace() {
       const removalMode = mode === 'subject' ? 'human' : 'object';
       const result = await ApiService.removeBackground(publicId, removalMode);
 
-      if (!result.response.ok || !result.data.success) {
-        throw new Error(result.data.message || `Failed to remove ${mode === 'subject' ? 'subject' : 'background'}`);
-      }
-
-      const responseData = result.data.data;
-      // Handle both response formats from the guide
-      const processedImageUrl = responseData.outputImage?.imageUrl || responseData.processedImageUrl || responseData.imageUrl;
-      const processedPublicId = responseData.outputImage?.publicId || responseData.publicId;
+      assertApiSuccess(result, `Failed to remove ${mode === 'subject' ? 'subject' : 'background'}`);
 
-      if (!processedImageUrl || !processedPublicId) {
-        throw new Error('Invalid response: missing processed image data');
-      }
+      const processed = normalizeProcessedImage('remove-background', result);
+      const processedImageUrl = processed.imageUrl;
+      const processedPublicId = processed.publicId;
 
       // Store output image data
       const outputImageData = {
         imageUrl: processedImageUrl,
         publicId: processedPublicId,
-        width: responseData.outputImage?.width || responseData.width,
-        height: responseData.outputImage?.height || responseData.height,
+        width: processed.width,
+        height: processed.height,
       };
 
       setImageUri(processedImageUrl);
@@ -1018,19 +1081,19 @@ export default function Workspace() {
         storedProjectType || undefined
       );
 
-      if (!result.response.ok || !result.data.success) {
-        // Check if it's a "not supported" message (this is still a valid response)
-        if (result.data.message && result.data.supported === false) {
+      // Unsupported prompts come back as { success: false, data: { supported: false } }
+      const unsupported = result.data.data && 'supported' in result.data.data;
+      if (unsupported && result.response.ok) {
         showAlert(
           'warning',
           'Feature Not Supported',
           result.data.message || 'This feature is not yet supported. Please try a different prompt.'
         );
-          return;
-        }
-        throw new Error(result.data.message || 'Failed to process prompt');
+        return;
       }
 
+      assertApiSuccess(result, 'Failed to process prompt');
+
       // Check if interaction is required (object removal)
       if (result.data.requiresInteraction === true) {
         // Enable object removal mode
@@ -1046,55 +1109,17 @@ export default function Workspace() {
       }
 
       // Automatic execution - update image with result
-      const responseData = result.data.data;
-      
-      console.log('=== Gemini Response Data ===');
-      console.log('Full result.data:', JSON.stringify(result.data, null, 2));
-      console.log('Full responseData:', JSON.stringify(responseData, null, 2));
-      
-      // Handle different response formats from different AI operations
-      // Face restore: restoredImageUrl, publicId
-      // Relight: relitImageUrl, publicId
-      // Enhance: enhancedImageUrl, publicId
-      // Background removal: outputImage.imageUrl, outputImage.publicId
-      // Style transfer: outputImage.imageUrl, outputImage.publicId
-      const processedImageUrl = 
-        responseData.outputImage?.imageUrl || 
-        responseData.restoredImageUrl || 
-        responseData.relitImageUrl || 
-        responseData.enhancedImageUrl ||
-        responseData.imageUrl || 
-        responseData.processedImageUrl;
-        
-      const processedPublicId = 
-        responseData.outputImage?.publicId || 
-        responseData.publicId;
-
-      console.log('Extracted imageUrl:', processedImageUrl);
-      console.log('Extracted publicId:', processedPublicId);
-
-      if (!processedImageUrl || !processedPublicId) {
-        console.error('Missing image data. Full response:', JSON.stringify(result.data, null, 2));
-        throw new Error('Invalid response: missing processed image data');
-      }
+      // The operation Gemini picked is identified from the payload
+      const processed = normalizeGeminiResult(result);
+      const processedImageUrl = processed.imageUrl;
+      const processedPublicId = processed.publicId;
 
-      // Store output image data
-      // Handle width/height from different response formats
-      const outputWidth = 
-        responseData.outputImage?.width || 
-        responseData.width;
-      const outputHeight = 
-        responseData.outputImage?.height || 
-        responseData.height;
-        
       const outputImageData = {
         imageUrl: processedImageUrl,
         publicId: processedPublicId,
-        width: outputWidth,
-        height: outputHeight,
+        width: processed.width,
+        height: processed.height,
       };
-      
-      console.log('Output image data:', outputImageData);
 
       setImageUri(processedImageUrl);
       await AsyncStorage.setItem('selected_image_uri', processedImageUrl);
@@ -1108,7 +1133,7 @@ export default function Workspace() {
       // Add to history for sequential projects
       // Backend tries to add automatically, but may fail for operations that don't use outputImage structure
       // So we add it here to ensure it's always recorded
-      if (storedProjectId && storedProjectType === 'ai-sequential' && processedImageUrl && processedPublicId) {
+      if (storedProjectId && storedProjectType === 'ai-sequential') {
         const inputImageData = {
           imageUrl: imageUri || '',
           publicId: publicId,
@@ -1116,64 +1141,13 @@ export default function Workspace() {
           height: imageDimensions?.height,
         };
 
-        // Infer operation type from response structure if feature is not available
-        // Check which field exists to determine the operation
-        let operationType = 'enhance'; // default
-        let feature = null;
-
-        // Try to get feature from response
-        if (result.data.data?.geminiAnalysis?.feature) {
-          feature = result.data.data.geminiAnalysis.feature;
-        } else if (result.data.data?.feature) {
-          feature = result.data.data.feature;
-        } else if (responseData.feature) {
-          feature = responseData.feature;
-        } else if (result.data.feature) {
-          feature = result.data.feature;
-        } else {
-          // Infer from response structure
-          if (responseData.restoredImageUrl || responseData.restoredImageId) {
-            feature = 'face_restore';
-          } else if (responseData.relitImageUrl || responseData.relitImageId) {
-            feature = 'relighting';
-          } else if (responseData.enhancedImageUrl || responseData.enhancedImageId) {
-            feature = 'denoise'; // or deblur, but default to denoise
-          } else if (responseData.outputImage) {
-            // Could be background removal or style transfer
-            feature = 'background_removal'; // default
-          }
-        }
-
-        console.log('Feature detected:', feature);
-        console.log('Full result.data:', JSON.stringify(result.data, null, 2));
-
-        // Map Gemini feature to operation type
-        const operationTypeMap: { [key: string]: string } = {
-          'relighting': 'relight',
-          'low_light_enhancement': 'relight',
-          'auto_enhance': 'enhance',
-          'denoise': 'enhance',
-          'deblur': 'enhance',
-          'face_restore': 'face-restore',
-          'face_restoration': 'face-restore',
-          'background_removal': 'remove-background',
-        };
-
-        operationType = feature ? (operationTypeMap[feature] || 'enhance') : 'enhance';
-        const promptData = responseData.prompt || { userPrompt, feature: feature || 'unknown' };
-
-        console.log('Adding to history:', {
-          operationType,
-          promptData,
-          inputImageData,
-          outputImageData
-        });
+        // The feature Gemini picked, e.g. deblur rather than just enhance
+        const promptData = { userPrompt, feature: result.data.feature || processed.operationType };
 
         try {
-          await addOperationToHistory(operationType, promptData, inputImageData, outputImageData);
-          console.log('✅ History added successfully');
+          await addOperationToHistory(processed.operationType, promptData, inputImageData, outputImageData);
         } catch (historyError: any) {
-          console.error('❌ Failed to add to history:', historyError);
+          console.error('Failed to add to history:', historyError);
           // Don't throw - history addition failure shouldn't block the operation
         }
       }
@@ -1226,7 +1200,7 @@ export default function Workspace() {
   // ============================================================
   // HANDLE IMAGE TAP FOR OBJECT REMOVAL
   // ============================================================
-  const handleImageTapForObjectRemoval = async (event: any) => {
+  const handleImageTapForObjectRemoval = async (point: { x: number; y: number }) => {
     console.log('=== handleImageTapForObjectRemoval called ===');
     console.log('objectRemovalMode:', objectRemovalMode);
     console.log('publicId:', publicId);
@@ -1244,8 +1218,9 @@ export default function Workspace() {
     }
 
     try {
-      // Get tap coordinates relative to the TouchableOpacity (image)
-      const { locationX, locationY } = event.nativeEvent;
+      // Tap coordinates on the image as laid out at fit size; the viewport
+      // has already undone any zoom and pan
+      const { x: locationX, y: locationY } = point;
       
       console.log('=== Object Removal Tap ===');
       console.log('Tap location:', { locationX, locationY });
@@ -1306,7 +1281,7 @@ export default function Workspace() {
       setTimeout(async () => {
         console.log('Starting object removal with coordinates:', { x: originalX, y: originalY });
         setIsEnhancing(true);
-        await performObjectRemoval(originalX, originalY);
+        await performObjectRemoval({ x: originalX, y: originalY });
         // Clear marker after processing
         setObjectRemovalMarker(null);
         console.log('Marker cleared after processing');
@@ -1324,12 +1299,33 @@ export default function Workspace() {
   };
 
   // ============================================================
-  // PERFORM OBJECT REMOVAL WITH COORDINATES
+  // OPEN SELECTION EDITOR FOR OBJECT REMOVAL
+  // For objects a tap doesn't catch, like wires or several separate things
   // ============================================================
-  const performObjectRemoval = async (x: number, y: number) => {
+  const handleOpenObjectSelection = () => {
+    setObjectRemovalMode(false);
+    setObjectRemovalMarker(null);
+    setObjectSelectionVisible(true);
+  };
+
+  // Errors are reported by performObjectRemoval and rethrown so the editor stays open
+  const handleRemoveObjectSelection = async (selection: ObjectSelectionPrompts, maskUri: string | null) => {
+    if (!(await performObjectRemoval({ selection, maskUri }))) {
+      throw new Error('Object removal failed');
+    }
+    setObjectSelectionVisible(false);
+  };
+
+  // ============================================================
+  // PERFORM OBJECT REMOVAL WITH COORDINATES OR A SELECTION
+  // Returns whether the object was removed
+  // ============================================================
+  const performObjectRemoval = async (
+    target: { x: number; y: number } | { selection: ObjectSelectionPrompts; maskUri: string | null }
+  ): Promise<boolean> => {
     if (!publicId) {
       setIsEnhancing(false);
-      return;
+      return false;
     }
 
     // Store input image data before operation
@@ -1341,52 +1337,22 @@ export default function Workspace() {
     };
 
     try {
-      const result = await ApiService.removeObject(publicId, x, y);
-
-      if (!result.response.ok) {
-        const errorMessage = result.data?.message ||
-          result.data?.error?.message ||
-          `Server error: ${result.response.status} ${result.response.statusText}`;
-        throw new Error(errorMessage);
-      }
-
-      if (result.data?.status === 'fail' || result.data?.status === 'error') {
-        const errorMessage = result.data?.message ||
-          result.data?.error?.message ||
-          'Failed to remove object';
-        throw new Error(errorMessage);
-      }
+      const result = 'selection' in target
+        ? await ApiService.removeObjectSelection(publicId, target.selection, target.maskUri)
+        : await ApiService.removeObject(publicId, target.x, target.y);
 
-      if (result.data.success === false) {
-        const errorMessage = result.data?.message ||
-          result.data?.error?.message ||
-          'Failed to remove object';
-        throw new Error(errorMessage);
-      }
+      assertApiSuccess(result, 'Failed to remove object');
 
-      const responseData = result.data.data;
-
-      if (!responseData) {
-        throw new Error('Invalid response: missing data field');
-      }
-
-      // Handle response structure - check for outputImage
-      const processedImageUrl = responseData.outputImage?.imageUrl || responseData.imageUrl;
-      const processedPublicId = responseData.outputImage?.publicId || responseData.publicId;
-
-      if (!processedImageUrl) {
-        throw new Error('Invalid response: missing image URL');
-      }
-      if (!processedPublicId) {
-        throw new Error('Invalid response: missing publicId');
-      }
+      const processed = normalizeProcessedImage('object-removal', result);
+      const processedImageUrl = processed.imageUrl;
+      const processedPublicId = processed.publicId;
 
       // Store output image data
       const outputImageData = {
         imageUrl: processedImageUrl,
         publicId: processedPublicId,
-        width: responseData.outputImage?.width || responseData.width,
-        height: responseData.outputImage?.height || responseData.height,
+        width: processed.width,
+        height: processed.height,
       };
 
       setImageUri(processedImageUrl);
@@ -1401,13 +1367,17 @@ export default function Workspace() {
       setFilterValues(defaultFilterValues);
 
       // Record operation to history
-      await addOperationToHistory('object-removal', { x, y }, inputImageData, outputImageData);
+      const historyPrompt = 'selection' in target
+        ? { selection: { ...target.selection, painted: !!target.maskUri } }
+        : { x: target.x, y: target.y };
+      await addOperationToHistory('object-removal', historyPrompt, inputImageData, outputImageData);
 
       showAlert(
         'success',
         'Object Removed',
         'Object has been removed from the image successfully!'
       );
+      return true;
     } catch (error: any) {
       console.error('Error removing object:', error);
       showAlert(
@@ -1415,6 +1385,7 @@ export default function Workspace() {
         'Removal Failed',
         error.message || 'Failed to remove object. Please try again.'
       );
+      return false;
     } finally {
       setIsEnhancing(false);
     }
@@ -1455,7 +1426,7 @@ export default function Workspace() {
       // Upload reference image to backend
       const uploadResult = await ApiService.uploadImage(uri, storedProjectId, projectType);
       
-      if (!uploadResult.response.ok || !uploadResult.data.success) {
+      if (!uploadResult.response.ok || !uploadResult.data.success || !uploadResult.data.data?.image) {
         throw new Error(uploadResult.data.message || 'Failed to upload reference image');
       }
 
@@ -1514,28 +1485,18 @@ export default function Workspace() {
       // Style from reference image will be transferred to base image
       const result = await ApiService.styleTransfer(publicId, stylePublicId);
 
-      if (!result.response.ok || !result.data.success) {
-        const errorMessage = result.data?.message || 'Failed to transfer style';
-        throw new Error(errorMessage);
-      }
-
-      const responseData = result.data.data;
-      const processedImageUrl = responseData.outputImage?.imageUrl || responseData.imageUrl;
-      const processedPublicId = responseData.outputImage?.publicId || responseData.publicId;
+      assertApiSuccess(result, 'Failed to transfer style');
 
-      if (!processedImageUrl) {
-        throw new Error('Invalid response: missing outputImage.imageUrl');
-      }
-      if (!processedPublicId) {
-        throw new Error('Invalid response: missing publicId');
-      }
+      const processed = normalizeProcessedImage('style-transfer', result);
+      const processedImageUrl = processed.imageUrl;
+      const processedPublicId = processed.publicId;
 
       // Output image data
       const outputImageData = {
         imageUrl: processedImageUrl,
         publicId: processedPublicId,
-        width: responseData.outputImage?.width || imageDimensions?.width,
-        height: responseData.outputImage?.height || imageDimensions?.height,
+        width: processed.width || imageDimensions?.width,
+        height: processed.height || imageDimensions?.height,
       };
 
       // Add to history with reference image info
@@ -1619,146 +1580,45 @@ export default function Workspace() {
   // CHECK IF ANY FILTER IS ACTIVE
   // ============================================================
   const hasActiveFilters = (): boolean => {
-    return (
-      filterValues.brightness !== 0 ||
-      filterValues.contrast !== 0 ||
-      filterValues.saturation !== 0 ||
-      filterValues.warmth !== 0 ||
-      filterValues.shadows !== 0 ||
-      filterValues.highlights !== 0 ||
-      filterValues.sharpen !== 0
-    );
+    return hasActiveFilterValues(filterValues);
+  };
+
+  // ============================================================
+  // BEFORE/AFTER COMPARISON
+  // Before is the original upload; after is the current image with the
+  // filters applied
+  // ============================================================
+  const canCompare = (): boolean => {
+    return !!imageUri && ((!!originalImageUri && originalImageUri !== imageUri) || hasActiveFilters());
   };
 
   // ============================================================
   // EXPORT/SHARE IMAGE WITH FILTERS
   // ============================================================
-  const handleShareImage = async () => {
+  const handleShareImage = () => {
     if (!imageUri) {
       showAlert('warning', 'No Image', 'Please select an image first');
       return;
     }
 
-    setIsSharing(true);
-
-    try {
-      // Apply filters to the image using Cloudinary URL transformations
-      let finalImageUri = imageUri;
+    // Open the export sheet right away and switch its default to PNG once we
+    // know the image has transparency (e.g. after background removal)
+    setExportHasAlpha(false);
+    setExportSheetVisible(true);
+    imageHasAlpha(imageUri)
+      .then(setExportHasAlpha)
+      .catch(error => console.warn('Unable to check image transparency:', error));
+  };
 
-      console.log('=== EXPORT DEBUG ===');
-      console.log('Original imageUri:', imageUri);
-      console.log('Filter values:', filterValues);
+  const handleExportImage = async (options: ExportOptions) => {
+    if (!imageUri) return;
 
-      // Check if any filters are active
-      const hasFilters = Object.values(filterValues).some(val => val !== 0);
-      console.log('Has filters:', hasFilters);
-      console.log('Is Cloudinary URL:', imageUri?.includes('res.cloudinary.com'));
+    setIsSharing(true);
 
-      if (hasFilters && imageUri?.includes('res.cloudinary.com')) {
-        // Build Cloudinary transformation parameters
-        const transformations: string[] = [];
-        
-        // Brightness: -50 to 50 → Cloudinary uses e_brightness:value (range -100 to 100)
-        if (filterValues.brightness !== 0) {
-          transformations.push(`e_brightness:${filterValues.brightness}`);
-        }
-        
-        // Contrast: -50 to 50 → Cloudinary uses e_contrast:value (range -100 to 100)
-        if (filterValues.contrast !== 0) {
-          transformations.push(`e_contrast:${filterValues.contrast}`);
-        }
-        
-        // Saturation: -50 to 50 → Cloudinary uses e_saturation:value (range -100 to 100)
-        if (filterValues.saturation !== 0) {
-          transformations.push(`e_saturation:${filterValues.saturation}`);
-        }
-        
-        console.log('Transformations array:', transformations);
-        
-        // Apply transformations to Cloudinary URL
-        if (transformations.length > 0) {
-          const transformString = transformations.join(',');
-          console.log('Transform string:', transformString);
-          
-          // Parse Cloudinary URL structure
-          // Format: https://res.cloudinary.com/{cloud_name}/image/upload/{version}/{folder}/{public_id}
-          // OR: https://res.cloudinary.com/{cloud_name}/image/upload/{transforms}/{version}/{folder}/{public_id}
-          if (imageUri.includes('/image/upload/')) {
-            const parts = imageUri.split('/image/upload/');
-            const baseUrl = parts[0] + '/image/upload';
-            const pathAfterUpload = parts[1];
-            
-            // Parse the path to extract version, folder, and public_id
-            // Path can be: {version}/{folder}/{public_id} or {transforms}/{version}/{folder}/{public_id}
-            const pathSegments = pathAfterUpload.split('/');
-            
-            // Check if segment is a version (starts with 'v' followed by numbers)
-            const isVersion = (segment: string) => /^v\d+$/.test(segment);
-            // Check if segment looks like transformations (contains colons, underscores, or commas)
-            const isTransformation = (segment: string) => /[:_,]/.test(segment);
-            
-            // Find version index (skip any transformation segments)
-            let versionIndex = -1;
-            for (let i = 0; i < pathSegments.length; i++) {
-              if (isVersion(pathSegments[i])) {
-                versionIndex = i;
-                break;
-              }
-              // If we hit a transformation segment, continue looking
-              if (isTransformation(pathSegments[i])) {
-                continue;
-              }
-            }
-            
-            // Reconstruct path with transformations
-            // Transformations go BEFORE version: /image/upload/{transforms}/{version}/{folder}/{public_id}
-            let newPath = transformString;
-            
-            if (versionIndex >= 0) {
-              // Has version - preserve version, folder(s), and public_id
-              // Include everything from version onwards
-              newPath += '/' + pathSegments.slice(versionIndex).join('/');
-            } else {
-              // No version found - preserve all segments (folder and public_id)
-              newPath += '/' + pathSegments.join('/');
-            }
-            
-            finalImageUri = `${baseUrl}/${newPath}`;
-            
-            console.log('Base URL:', baseUrl);
-            console.log('Path after upload:', pathAfterUpload);
-            console.log('Path segments:', pathSegments);
-            console.log('Version index:', versionIndex);
-            console.log('Transform string:', transformString);
-            console.log('New path:', newPath);
-            console.log('Final transformed URI:', finalImageUri);
-          } else {
-            console.warn('Unexpected Cloudinary URL format:', imageUri);
-          }
-        }
-      } else if (hasFilters && !imageUri?.includes('res.cloudinary.com')) {
-        // Not a Cloudinary URL - filters can't be applied
-        console.warn('Filters cannot be applied - not a Cloudinary URL');
-        showAlert(
-          'warning',
-          'Filters Not Applied',
-          'Filters can only be applied to Cloudinary images. The original image will be shared.'
-        );
-      }
-      
-      console.log('Using finalImageUri for ImageManipulator:', finalImageUri);
-      
-      // Process image with ImageManipulator to ensure proper format
-      const manipulatedImage = await ImageManipulator.manipulateAsync(
-        finalImageUri || imageUri,
-        [], // No additional actions needed
-        {
-          compress: 1,
-          format: ImageManipulator.SaveFormat.JPEG,
-        }
-      );
-      
-      console.log('ImageManipulator result URI:', manipulatedImage.uri);
+    try {
+      // Render every filter locally - same pipeline as the live preview, so
+      // the shared image matches what is on screen
+      const exported = await renderFilteredImageToFile(imageUri, filterValues, options);
 
       // Check if sharing is available
       const isAvailable = await Sharing.isAvailableAsync();
@@ -1767,20 +1627,18 @@ export default function Workspace() {
         return;
       }
 
-      // Share the image directly (works with both local and remote URIs)
+      setExportSheetVisible(false);
+
+      // Share the rendered file
       // On mobile, this opens the native share sheet where user can save to gallery
-      await Sharing.shareAsync(manipulatedImage.uri, {
-        mimeType: 'image/jpeg',
+      await Sharing.shareAsync(exported.uri, {
+        mimeType: exported.mimeType,
         dialogTitle: 'Save or Share Image',
-        UTI: 'public.jpeg', // iOS specific
+        UTI: exported.uti, // iOS specific
       });
     } catch (error: any) {
       console.error('Share error:', error);
-      showAlert(
-        'error',
-        'Share Failed', 
-        error.message || 'Failed to share image. Please try again.'
-      );
+      showAlert('error', 'Share Failed', error.message || 'Failed to share image. Please try again.');
     } finally {
       setIsSharing(false);
     }
@@ -1943,27 +1801,16 @@ export default function Workspace() {
                       </Text>
                     </View>
                   )}
-                  {/* Red dot marker for object removal */}
-                  {objectRemovalMarker && (
-                    <View 
-                      style={[
-                        styles.objectRemovalMarker,
-                        {
-                          left: objectRemovalMarker.x - 10,
-                          top: objectRemovalMarker.y - 10,
-                        }
-                      ]}
-                      pointerEvents="none"
-                    />
-                  )}
-                  {/* Image with long press handler and tap handler for object removal */}
-                  <TouchableOpacity
-                    activeOpacity={1}
+                  {/* Zoomable image: long press shows the original, taps pick the object to remove */}
+                  <ZoomableImageViewport
+                    key={imageUri} // Start each new image fitted
+                    imageUri={imageUri}
+                    imageWidth={imageDimensions?.width}
+                    imageHeight={imageDimensions?.height}
                     onPressIn={objectRemovalMode ? undefined : handleLongPressStart}
                     onPressOut={objectRemovalMode ? undefined : handleLongPressEnd}
-                    onPress={objectRemovalMode ? handleImageTapForObjectRemoval : undefined}
+                    onTap={objectRemovalMode ? handleImageTapForObjectRemoval : undefined}
                     style={styles.imageTouchable}
-                    disabled={false}
                   >
                     <FilteredImage
                       uri={showingOriginal && originalImageUri ? originalImageUri : imageUri}
@@ -1971,7 +1818,20 @@ export default function Workspace() {
                       style={styles.image}
                       resizeMode="contain"
                     />
-                  </TouchableOpacity>
+                    {/* Red dot marker for object removal, zoomed with the image */}
+                    {objectRemovalMarker && (
+                      <View 
+                        style={[
+                          styles.objectRemovalMarker,
+                          {
+                            left: objectRemovalMarker.x - 10,
+                            top: objectRemovalMarker.y - 10,
+                          }
+                        ]}
+                        pointerEvents="none"
+                      />
+                    )}
+                  </ZoomableImageViewport>
                 </View>
               ) : (
                 <TouchableOpacity
@@ -2020,8 +1880,16 @@ export default function Workspace() {
             {objectRemovalMode && (
               <View style={[styles.objectRemovalInstruction, { backgroundColor: isDark ? colors.background.dark : colors.background.cream }]}>
                 <Text style={[styles.objectRemovalInstructionText, { color: colors.text.primary }]}>
-                  Tap on the object to remove
+                  Tap on the object to remove (pinch to zoom in on small ones)
                 </Text>
+                <TouchableOpacity
+                  onPress={handleOpenObjectSelection}
+                  style={[styles.objectSelectionButton, { backgroundColor: colors.button.arclightHover }]}
+                >
+                  <Text style={[styles.objectSelectionButtonText, { color: colors.button.arclight }]}>
+                    Select with Brush, Lasso or Box
+                  </Text>
+                </TouchableOpacity>
               </View>
             )}
 
@@ -2082,6 +1950,36 @@ export default function Workspace() {
               />
             </TouchableOpacity>
 
+            <TouchableOpacity
+              style={[
+                styles.adjustButton,
+                { backgroundColor: '#E8E0F0' },
+              ]}
+              onPress={openCropTool}
+              disabled={isEnhancing || isCropping}
+            >
+              <Crop 
+                size={24} 
+                color={colors.background.dark} 
+                strokeWidth={2} 
+              />
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[
+                styles.adjustButton,
+                { backgroundColor: '#E8E0F0', opacity: canCompare() ? 1 : 0.4 },
+              ]}
+              onPress={() => setCompareVisible(true)}
+              disabled={!canCompare()}
+            >
+              <Columns2
+                size={24}
+                color={colors.background.dark}
+                strokeWidth={2}
+              />
+            </TouchableOpacity>
+
             <ArclightEngineButton
               onPress={() => setArclightEngineVisible(true)}
               disabled={isEnhancing}
@@ -2130,6 +2028,10 @@ export default function Workspace() {
         visible={arclightEngineVisible}
         onClose={() => setArclightEngineVisible(false)}
         onRelight={handleRelight}
+        onPreviewRelight={handlePreviewRelight}
+        imageUrl={imageUri}
+        imageWidth={imageDimensions?.width}
+        imageHeight={imageDimensions?.height}
         onEnhance={handleEnhanceImage}
         onFaceRestore={handleFaceRestore}
         onSubjectRemoval={handleSubjectRemoval}
@@ -2167,6 +2069,60 @@ export default function Workspace() {
         </View>
       )}
 
+      {/* CROP TOOL */}
+      {imageUri && imageDimensions && (
+        <CropTool
+          visible={cropToolVisible}
+          imageUri={imageUri}
+          imageWidth={imageDimensions.width}
+          imageHeight={imageDimensions.height}
+          applying={isCropping}
+          onClose={() => setCropToolVisible(false)}
+          onApply={handleCrop}
+        />
+      )}
+
+      {/* OBJECT SELECTION FOR OBJECT REMOVAL */}
+      {imageUri && (
+        <ObjectSelectionEditor
+          visible={objectSelectionVisible}
+          imageUrl={imageUri}
+          onClose={() => setObjectSelectionVisible(false)}
+          onRemove={handleRemoveObjectSelection}
+        />
+      )}
+
+      {/* FACE RESTORE SETTINGS */}
+      {imageUri && (
+        <FaceRestoreEditor
+          visible={faceRestoreVisible}
+          imageUrl={imageUri}
+          imageWidth={imageDimensions?.width}
+          imageHeight={imageDimensions?.height}
+          onClose={() => setFaceRestoreVisible(false)}
+          onDetectFaces={handleDetectFaces}
+          onPreview={handlePreviewFaceRestore}
+          onRestore={handleRestoreFaces}
+        />
+      )}
+
+      {/* BEFORE/AFTER COMPARISON */}
+      <ImageCompareViewer
+        visible={compareVisible}
+        before={imageUri ? { uri: originalImageUri || imageUri, label: 'ORIGINAL' } : null}
+        after={imageUri ? { uri: imageUri, label: 'CURRENT', filters: filterValues } : null}
+        onClose={() => setCompareVisible(false)}
+      />
+
+      {/* EXPORT SHEET */}
+      <ExportSheet
+        visible={exportSheetVisible}
+        onClose={() => setExportSheetVisible(false)}
+        onExport={handleExportImage}
+        hasAlpha={exportHasAlpha}
+        exporting={isSharing}
+      />
+
       {/* FILTER MENU */}
       <FilterToolsMenu
         visible={filterMenuVisible}
@@ -2422,6 +2378,16 @@ const styles = StyleSheet.create({
     letterSpacing: 0.5,
     textAlign: 'center',
   },
+  objectSelectionButton: {
+    marginTop: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+  },
+  objectSelectionButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
   objectRemovalMarker: {
     position: 'absolute',
     width: 20,
@@ -6,6 +6,7 @@ import { router } from 'expo-router';
 import Navbar from "../../components/Navbar"
 import CustomAlert from '../../components/CustomAlert';
 import { useAlert } from '../../hooks/useAlert';
+import { TEMPLATE_PRESETS } from '../../constants/sizePresets';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
@@ -461,14 +462,9 @@ const RenameModal = ({
 
 export default function TemplatesPage() {
   const { alertState, showAlert, hideAlert } = useAlert();
-  const [templates, setTemplates] = useState<Template[]>([
-    { id: 1, name: 'Instagram Post', width: 1080, height: 1080, isFixed: true },
-    { id: 2, name: 'Instagram Reel', width: 1080, height: 1920, isFixed: true },
-    { id: 3, name: 'YouTube Thumbnail', width: 1920, height: 1080, isFixed: true },
-    { id: 4, name: 'Pinterest Pin', width: 1000, height: 1500, isFixed: true },
-    { id: 5, name: 'Facebook Post', width: 940, height: 788, isFixed: true },
-    { id: 6, name: 'LinkedIn Banner', width: 1584, height: 396, isFixed: true },
-  ]);
+  const [templates, setTemplates] = useState<Template[]>(
+    TEMPLATE_PRESETS.map((preset, index) => ({ id: index + 1, ...preset, isFixed: true }))
+  );
 
   const [showAddModal, setShowAddModal] = useState(false);
   const [showRenameModal, setShowRenameModal] = useState(false);
@@ -15,16 +15,20 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
 import Svg, { G, Path } from 'react-native-svg';
-import { PanelLeft, Share2, Mic, Send, Sliders } from 'lucide-react-native';
+import { PanelLeft, Share2, Mic, Send, Sliders, Columns2 } from 'lucide-react-native';
 import Sidebar from '../../components/Sidebar';
 import LightingModal from '../../components/LightingModal';
 import Loader from '../../components/Loader';
 import FilterToolsMenu from '../../components/FilterToolsMenu';
+import ExportSheet from '../../components/ExportSheet';
 import ArclightEngineButton from '../../components/ArclightEngineButton';
+import ImageCompareViewer from '../../components/ImageCompareViewer';
+import ZoomableImageViewport from '../../components/ZoomableImageViewport';
+import LiveGLShader from '../../components/LiveGLShader';
 import { useSidebar } from '../../context/SideBarContext';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import ApiService from '../../services/api';
-import * as ImageManipulator from 'expo-image-manipulator';
+import { assertApiSuccess, normalizeProcessedImage } from '../../services/apiResults';
 import * as Sharing from 'expo-sharing';
 import CustomAlert from '../../components/CustomAlert';
 import { useAlert } from '../../hooks/useAlert';
@@ -34,6 +38,8 @@ import {
   FilterValues,
   defaultFilterValues,
 } from '../../utils/filters';
+import { hasActiveFilterValues } from '../../utils/filterPipeline';
+import { ExportOptions, renderFilteredImageToFile, imageHasAlpha } from '../../utils/exportRenderer';
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
 
@@ -74,9 +80,8 @@ const sampleSuggestions = [
 
 // ============================================================
 // FILTERED IMAGE COMPONENT
-// Note: Real-time filters require native modules. For Expo Go compatibility,
-// filters are applied via backend processing. The UI shows filter values
-// but visual preview requires backend processing or development build.
+// Renders the image through the shared filter pipeline (LiveGLShader),
+// the same code path used when exporting.
 // ============================================================
 interface FilteredImageProps {
   uri: string;
@@ -91,243 +96,26 @@ const FilteredImage: React.FC<FilteredImageProps> = ({
   style,
   resizeMode = 'contain',
 }) => {
-  // Apply CSS-style visual filters for LIVE PREVIEW only
-  const brightness = filterValues.brightness;
-  const contrast = filterValues.contrast;
-  const saturation = filterValues.saturation;
-  const sharpen = filterValues.sharpen;
-  
-  // Calculate brightness multiplier (-50 to 50 -> 0.5 to 1.5)
-  const brightnessMultiplier = 1 + (brightness / 100);
-  
-  return (
-    <View style={[style, { overflow: 'hidden' }]}>
-      {/* Base Image - brightness affects base image opacity */}
-      <Image
-        source={{ uri }}
-        style={[
-          { width: '100%', height: '100%' },
-          { opacity: Math.max(0.3, Math.min(1, brightnessMultiplier)) }
-        ]}
-        resizeMode={resizeMode}
-      />
-      
-      {/* BRIGHTNESS OVERLAYS - Applied first, independent of other filters */}
-      {/* White overlay for positive brightness (brightening) */}
-      {brightness > 0 && (
-        <View
-          style={{
-            position: 'absolute',
-            top: 0,
-            left: 0,
-            right: 0,
-            bottom: 0,
-            backgroundColor: '#ffffff',
-            opacity: brightness / 200, // 0 to 0.25 opacity
-          }}
-          pointerEvents="none"
-        />
-      )}
-      
-      {/* Black overlay for negative brightness (darkening) */}
-      {brightness < 0 && (
-        <View
-          style={{
-            position: 'absolute',
-            top: 0,
-            left: 0,
-            right: 0,
-            bottom: 0,
-            backgroundColor: '#000000',
-            opacity: Math.abs(brightness) / 100, // 0 to 0.5 opacity
-          }}
-          pointerEvents="none"
-        />
-      )}
-      
-      {/* CONTRAST OVERLAYS - Applied on top, independent of brightness */}
-      {/* Black overlay for positive contrast (increased contrast - darker midtones) */}
-      {contrast > 0 && (
-        <View
-          style={{
-            position: 'absolute',
-            top: 0,
-            left: 0,
-            right: 0,
-            bottom: 0,
-            backgroundColor: '#000000',
-            opacity: contrast / 250, // 0 to 0.2 opacity for subtle effect
-          }}
-          pointerEvents="none"
-        />
-      )}
-      
-      {/* Gray overlay for negative contrast (decreased contrast - washed out) */}
-      {contrast < 0 && (
-        <View
-          style={{
-            position: 'absolute',
-            top: 0,
-            left: 0,
-            right: 0,
-            bottom: 0,
-            backgroundColor: '#808080',
-            opacity: Math.abs(contrast) / 150, // 0 to 0.33 opacity for washed out effect
-          }}
-          pointerEvents="none"
-        />
-      )}
+  const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
 
-      {/* SATURATION OVERLAYS - Applied on top, independent of other filters */}
-      {/* 
-        Saturation Filter using CSS-style overlays
-        Formula from Python: factor = (value + 50) / 50
-        - value = -50 → factor = 0 → fully grayscale
-        - value = 0   → factor = 1 → original
-        - value = 50  → factor = 2 → double saturation
-      */}
-      
-      {/* ========== DESATURATION (saturation < 0) ========== */}
-      {/* 
-        When factor < 1, we're moving towards grayscale.
-        We overlay a gray that matches the image's average luminance.
-        At factor = 0 (saturation = -50), image should be fully grayscale.
-      */}
-      {saturation < 0 && (
-        <View
-          style={{
-            position: 'absolute',
-            top: 0,
-            left: 0,
-            right: 0,
-            bottom: 0,
-            // Gray overlay - opacity increases as saturation decreases
-            // At saturation = -50, opacity = 1 (full gray)
-            // At saturation = 0, opacity = 0 (no overlay)
-            backgroundColor: '#808080',
-            opacity: Math.abs(saturation) / 50, // 0 to 1
-          }}
-          pointerEvents="none"
+  return (
+    <View
+      style={[style, { overflow: 'hidden' }]}
+      onLayout={(event) => {
+        const { width, height } = event.nativeEvent.layout;
+        setDimensions({ width, height });
+      }}
+    >
+      {dimensions.width > 0 && dimensions.height > 0 && (
+        <LiveGLShader
+          imageUri={uri}
+          filters={filterValues}
+          width={dimensions.width}
+          height={dimensions.height}
+          resizeMode={resizeMode}
+          style={{ width: '100%', height: '100%' }}
         />
       )}
-
-      {/* ========== SATURATION BOOST (saturation > 0) ========== */}
-      {/* 
-        When factor > 1, we're boosting color intensity.
-        We use subtle colored overlays to enhance perceived saturation.
-        This is an approximation - true saturation needs pixel manipulation.
-      */}
-      {saturation > 0 && (
-        <>
-          {/* Method 1: Contrast boost to make colors pop */}
-          <View
-            style={{
-              position: 'absolute',
-              top: 0,
-              left: 0,
-              right: 0,
-              bottom: 0,
-              // Slight dark overlay increases perceived color intensity
-              backgroundColor: '#000000',
-              opacity: saturation / 300, // 0 to 0.167
-            }}
-            pointerEvents="none"
-          />
-          {/* Method 2: Subtle warm color overlay for vibrancy */}
-          <View
-            style={{
-              position: 'absolute',
-              top: 0,
-              left: 0,
-              right: 0,
-              bottom: 0,
-              // Warm tint adds perceived saturation
-              backgroundColor: '#FF4500', // Orange-red
-              opacity: saturation / 600, // 0 to 0.083
-            }}
-            pointerEvents="none"
-          />
-          {/* Method 3: Cool color to balance and add depth */}
-          <View
-            style={{
-              position: 'absolute',
-              top: 0,
-              left: 0,
-              right: 0,
-              bottom: 0,
-              backgroundColor: '#00CED1', // Dark cyan
-              opacity: saturation / 800, // 0 to 0.0625
-            }}
-            pointerEvents="none"
-          />
-        </>
-      )}
-
-      {/* SHARPEN OVERLAYS - Applied on top, independent of other filters */}
-      {/* Soften/Blur effect for negative sharpen (blur approximation) */}
-      {sharpen < 0 && (
-        <>
-          {/* White haze overlay to simulate blur/softness */}
-          <View
-            style={{
-              position: 'absolute',
-              top: 0,
-              left: 0,
-              right: 0,
-              bottom: 0,
-              backgroundColor: '#FFFFFF',
-              opacity: Math.abs(sharpen) / 200, // 0 to 0.25
-            }}
-            pointerEvents="none"
-          />
-          {/* Additional soft gray to reduce contrast (blur looks low contrast) */}
-          <View
-            style={{
-              position: 'absolute',
-              top: 0,
-              left: 0,
-              right: 0,
-              bottom: 0,
-              backgroundColor: '#C0C0C0',
-              opacity: Math.abs(sharpen) / 300, // 0 to 0.167
-            }}
-            pointerEvents="none"
-          />
-        </>
-      )}
-
-      {/* Sharpen effect for positive values (contrast + clarity boost) */}
-      {sharpen > 0 && (
-        <>
-          {/* Dark overlay to increase perceived sharpness via contrast */}
-          <View
-            style={{
-              position: 'absolute',
-              top: 0,
-              left: 0,
-              right: 0,
-              bottom: 0,
-              backgroundColor: '#000000',
-              opacity: sharpen / 400, // 0 to 0.125 - subtle darkening
-            }}
-            pointerEvents="none"
-          />
-          {/* Edge enhancement illusion using border */}
-          <View
-            style={{
-              position: 'absolute',
-              top: 0,
-              left: 0,
-              right: 0,
-              bottom: 0,
-              backgroundColor: 'transparent',
-              borderWidth: sharpen > 25 ? 1 : 0,
-              borderColor: `rgba(0, 0, 0, ${sharpen / 200})`, // Very subtle border
-            }}
-            pointerEvents="none"
-          />
-        </>
-      )}
     </View>
   );
 };
@@ -341,6 +129,8 @@ export default function Workspace() {
   const { alertState, showAlert, hideAlert } = useAlert();
   const [promptText, setPromptText] = useState('');
   const [imageUri, setImageUri] = useState<string | null>(null);
+  const [originalImageUri, setOriginalImageUri] = useState<string | null>(null); // Image as it was when the workspace opened
+  const [compareVisible, setCompareVisible] = useState(false);
   const [publicId, setPublicId] = useState<string | null>(null);
   const [suggestions, setSuggestions] = useState<string[]>([]);
   const [keyboardVisible, setKeyboardVisible] = useState(false);
@@ -349,6 +139,8 @@ export default function Workspace() {
   const [filterValues, setFilterValues] = useState<FilterValues>(defaultFilterValues);
   const [isEnhancing, setIsEnhancing] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
+  const [exportSheetVisible, setExportSheetVisible] = useState(false);
+  const [exportHasAlpha, setExportHasAlpha] = useState(false);
   const [imageDimensions, setImageDimensions] = useState<{ width: number; height: number; aspectRatio: number } | null>(null);
   const [imageLoading, setImageLoading] = useState(true);
   const [canScroll, setCanScroll] = useState(false);
@@ -398,11 +190,9 @@ export default function Workspace() {
   useEffect(() => {
     const loadImage = async () => {
       const storedUri = await AsyncStorage.getItem('selected_image_uri');
-      if (storedUri) {
-        setImageUri(storedUri);
-      } else {
-        setImageUri('https://images.pexels.com/photos/1133957/pexels-photo-1133957.jpeg?auto=compress&cs=tinysrgb&w=600');
-      }
+      const initialUri = storedUri || 'https://images.pexels.com/photos/1133957/pexels-photo-1133957.jpeg?auto=compress&cs=tinysrgb&w=600';
+      setImageUri(initialUri);
+      setOriginalImageUri(initialUri);
 
       const storedPublicId = await AsyncStorage.getItem('current_public_id');
       if (storedPublicId) {
@@ -466,42 +256,11 @@ export default function Workspace() {
     try {
       const enhanceResult = await ApiService.enhanceImage(publicId, mode);
 
-      if (!enhanceResult.response.ok) {
-        const errorMessage = enhanceResult.data?.message ||
-          enhanceResult.data?.error?.message ||
-          `Server error: ${enhanceResult.response.status} ${enhanceResult.response.statusText}`;
-        throw new Error(errorMessage);
-      }
-
-      if (enhanceResult.data?.status === 'fail' || enhanceResult.data?.status === 'error') {
-        const errorMessage = enhanceResult.data?.message ||
-          enhanceResult.data?.error?.message ||
-          'Failed to enhance image';
-        throw new Error(errorMessage);
-      }
-
-      if (enhanceResult.data.success === false) {
-        const errorMessage = enhanceResult.data?.message ||
-          enhanceResult.data?.error?.message ||
-          'Failed to enhance image';
-        throw new Error(errorMessage);
-      }
-
-      const responseData = enhanceResult.data.data;
-
-      if (!responseData) {
-        throw new Error('Invalid response: missing data field');
-      }
-
-      const enhancedImageUrl = responseData.enhancedImageUrl;
-      const enhancedPublicId = responseData.publicId;
+      assertApiSuccess(enhanceResult, 'Failed to enhance image');
 
-      if (!enhancedImageUrl) {
-        throw new Error('Invalid response: missing enhancedImageUrl');
-      }
-      if (!enhancedPublicId) {
-        throw new Error('Invalid response: missing publicId');
-      }
+      const enhanced = normalizeProcessedImage('enhance', enhanceResult);
+      const enhancedImageUrl = enhanced.imageUrl;
+      const enhancedPublicId = enhanced.publicId;
 
       setImageUri(enhancedImageUrl);
       await AsyncStorage.setItem('selected_image_uri', enhancedImageUrl);
@@ -538,17 +297,11 @@ export default function Workspace() {
     try {
       const result = await ApiService.removeBackground(publicId, 'human');
 
-      if (!result.response.ok || !result.data.success) {
-        throw new Error(result.data.message || 'Failed to remove subject');
-      }
-
-      const responseData = result.data.data;
-      const processedImageUrl = responseData.processedImageUrl;
-      const processedPublicId = responseData.publicId;
+      assertApiSuccess(result, 'Failed to remove subject');
 
-      if (!processedImageUrl || !processedPublicId) {
-        throw new Error('Invalid response: missing processed image data');
-      }
+      const processed = normalizeProcessedImage('remove-background', result);
+      const processedImageUrl = processed.imageUrl;
+      const processedPublicId = processed.publicId;
 
       setImageUri(processedImageUrl);
       await AsyncStorage.setItem('selected_image_uri', processedImageUrl);
@@ -585,17 +338,11 @@ export default function Workspace() {
     try {
       const result = await ApiService.removeBackground(publicId, 'object');
 
-      if (!result.response.ok || !result.data.success) {
-        throw new Error(result.data.message || 'Failed to remove object');
-      }
+      assertApiSuccess(result, 'Failed to remove object');
 
-      const responseData = result.data.data;
-      const processedImageUrl = responseData.processedImageUrl;
-      const processedPublicId = responseData.publicId;
-
-      if (!processedImageUrl || !processedPublicId) {
-        throw new Error('Invalid response: missing processed image data');
-      }
+      const processed = normalizeProcessedImage('remove-background', result);
+      const processedImageUrl = processed.imageUrl;
+      const processedPublicId = processed.publicId;
 
       setImageUri(processedImageUrl);
       await AsyncStorage.setItem('selected_image_uri', processedImageUrl);
@@ -640,142 +387,45 @@ export default function Workspace() {
   // CHECK IF ANY FILTER IS ACTIVE
   // ============================================================
   const hasActiveFilters = (): boolean => {
-    return (
-      filterValues.brightness !== 0 ||
-      filterValues.contrast !== 0 ||
-      filterValues.saturation !== 0 ||
-      filterValues.warmth !== 0 ||
-      filterValues.shadows !== 0 ||
-      filterValues.highlights !== 0 ||
-      filterValues.sharpen !== 0
-    );
+    return hasActiveFilterValues(filterValues);
+  };
+
+  // ============================================================
+  // BEFORE/AFTER COMPARISON
+  // Before is the image the workspace opened with; after is the current
+  // image with the filters applied
+  // ============================================================
+  const canCompare = (): boolean => {
+    return !!imageUri && ((!!originalImageUri && originalImageUri !== imageUri) || hasActiveFilters());
   };
 
   // ============================================================
   // EXPORT/SHARE IMAGE WITH FILTERS
   // ============================================================
-  const handleShareImage = async () => {
+  const handleShareImage = () => {
     if (!imageUri) {
       showAlert('error', 'No Image', 'Please select an image first');
       return;
     }
 
+    // Open the export sheet right away and switch its default to PNG once we
+    // know the image has transparency (e.g. after background removal)
+    setExportHasAlpha(false);
+    setExportSheetVisible(true);
+    imageHasAlpha(imageUri)
+      .then(setExportHasAlpha)
+      .catch(error => console.warn('Unable to check image transparency:', error));
+  };
+
+  const handleExportImage = async (options: ExportOptions) => {
+    if (!imageUri) return;
+
     setIsSharing(true);
 
     try {
-      // Apply filters to the image using Cloudinary URL transformations
-      let finalImageUri = imageUri;
-
-      console.log('=== EXPORT DEBUG ===');
-      console.log('Original imageUri:', imageUri);
-      console.log('Filter values:', filterValues);
-
-      // Check if any filters are active
-      const hasFilters = Object.values(filterValues).some(val => val !== 0);
-      console.log('Has filters:', hasFilters);
-      console.log('Is Cloudinary URL:', imageUri?.includes('res.cloudinary.com'));
-
-      if (hasFilters && imageUri?.includes('res.cloudinary.com')) {
-        // Build Cloudinary transformation parameters
-        const transformations: string[] = [];
-        
-        // Brightness: -50 to 50 → Cloudinary uses e_brightness:value (range -100 to 100)
-        if (filterValues.brightness !== 0) {
-          transformations.push(`e_brightness:${filterValues.brightness}`);
-        }
-        
-        // Contrast: -50 to 50 → Cloudinary uses e_contrast:value (range -100 to 100)
-        if (filterValues.contrast !== 0) {
-          transformations.push(`e_contrast:${filterValues.contrast}`);
-        }
-        
-        // Saturation: -50 to 50 → Cloudinary uses e_saturation:value (range -100 to 100)
-        if (filterValues.saturation !== 0) {
-          transformations.push(`e_saturation:${filterValues.saturation}`);
-        }
-        
-        console.log('Transformations array:', transformations);
-        
-        // Apply transformations to Cloudinary URL
-        if (transformations.length > 0) {
-          const transformString = transformations.join(',');
-          console.log('Transform string:', transformString);
-          
-          // Parse Cloudinary URL structure
-          // Format: https://res.cloudinary.com/{cloud_name}/image/upload/{version}/{folder}/{public_id}
-          // OR: https://res.cloudinary.com/{cloud_name}/image/upload/{transforms}/{version}/{folder}/{public_id}
-          if (imageUri.includes('/image/upload/')) {
-            const parts = imageUri.split('/image/upload/');
-            const baseUrl = parts[0] + '/image/upload';
-            const pathAfterUpload = parts[1];
-            
-            // Parse the path to extract version, folder, and public_id
-            // Path can be: {version}/{folder}/{public_id} or {transforms}/{version}/{folder}/{public_id}
-            const pathSegments = pathAfterUpload.split('/');
-            
-            // Check if segment is a version (starts with 'v' followed by numbers)
-            const isVersion = (segment: string) => /^v\d+$/.test(segment);
-            // Check if segment looks like transformations (contains colons, underscores, or commas)
-            const isTransformation = (segment: string) => /[:_,]/.test(segment);
-            
-            // Find version index (skip any transformation segments)
-            let versionIndex = -1;
-            for (let i = 0; i < pathSegments.length; i++) {
-              if (isVersion(pathSegments[i])) {
-                versionIndex = i;
-                break;
-              }
-              // If we hit a transformation segment, continue looking
-              if (isTransformation(pathSegments[i])) {
-                continue;
-              }
-            }
-            
-            // Reconstruct path with transformations
-            // Transformations go BEFORE version: /image/upload/{transforms}/{version}/{folder}/{public_id}
-            let newPath = transformString;
-            
-            if (versionIndex >= 0) {
-              // Has version - preserve version, folder(s), and public_id
-              // Include everything from version onwards
-              newPath += '/' + pathSegments.slice(versionIndex).join('/');
-            } else {
-              // No version found - preserve all segments (folder and public_id)
-              newPath += '/' + pathSegments.join('/');
-            }
-            
-            finalImageUri = `${baseUrl}/${newPath}`;
-            
-            console.log('Base URL:', baseUrl);
-            console.log('Path after upload:', pathAfterUpload);
-            console.log('Path segments:', pathSegments);
-            console.log('Version index:', versionIndex);
-            console.log('Transform string:', transformString);
-            console.log('New path:', newPath);
-            console.log('Final transformed URI:', finalImageUri);
-          } else {
-            console.warn('Unexpected Cloudinary URL format:', imageUri);
-          }
-        }
-      } else if (hasFilters && !imageUri?.includes('res.cloudinary.com')) {
-        // Not a Cloudinary URL - filters can't be applied
-        console.warn('Filters cannot be applied - not a Cloudinary URL');
-        showAlert('warning', 'Filters Not Applied', 'Filters can only be applied to Cloudinary images. The original image will be shared.');
-      }
-      
-      console.log('Using finalImageUri for ImageManipulator:', finalImageUri);
-      
-      // Process image with ImageManipulator to ensure proper format
-      const manipulatedImage = await ImageManipulator.manipulateAsync(
-        finalImageUri || imageUri,
-        [], // No additional actions needed
-        {
-          compress: 1,
-          format: ImageManipulator.SaveFormat.JPEG,
-        }
-      );
-      
-      console.log('ImageManipulator result URI:', manipulatedImage.uri);
+      // Render every filter locally - same pipeline as the live preview, so
+      // the shared image matches what is on screen
+      const exported = await renderFilteredImageToFile(imageUri, filterValues, options);
 
       // Check if sharing is available
       const isAvailable = await Sharing.isAvailableAsync();
@@ -784,12 +434,14 @@ export default function Workspace() {
         return;
       }
 
-      // Share the image directly (works with both local and remote URIs)
+      setExportSheetVisible(false);
+
+      // Share the rendered file
       // On mobile, this opens the native share sheet where user can save to gallery
-      await Sharing.shareAsync(manipulatedImage.uri, {
-        mimeType: 'image/jpeg',
+      await Sharing.shareAsync(exported.uri, {
+        mimeType: exported.mimeType,
         dialogTitle: 'Save or Share Image',
-        UTI: 'public.jpeg', // iOS specific
+        UTI: exported.uti, // iOS specific
       });
     } catch (error: any) {
       console.error('Share error:', error);
@@ -879,12 +531,20 @@ export default function Workspace() {
                 </View>
               ) : (
                 imageUri && (
-                  <FilteredImage
-                    uri={imageUri}
-                    filterValues={filterValues}
+                  <ZoomableImageViewport
+                    key={imageUri} // Start each new image fitted
+                    imageUri={imageUri}
+                    imageWidth={imageDimensions?.width}
+                    imageHeight={imageDimensions?.height}
                     style={styles.image}
-                    resizeMode="contain"
-                  />
+                  >
+                    <FilteredImage
+                      uri={imageUri}
+                      filterValues={filterValues}
+                      style={styles.image}
+                      resizeMode="contain"
+                    />
+                  </ZoomableImageViewport>
                 )
               )}
             </View>
@@ -957,6 +617,17 @@ export default function Workspace() {
               <Sliders size={24} color={hasActiveFilters() ? "#FFF" : "#000"} strokeWidth={2} />
             </TouchableOpacity>
 
+            <TouchableOpacity
+              style={[
+                styles.adjustButton,
+                !canCompare() && styles.adjustButtonDisabled,
+              ]}
+              onPress={() => setCompareVisible(true)}
+              disabled={!canCompare()}
+            >
+              <Columns2 size={24} color="#000" strokeWidth={2} />
+            </TouchableOpacity>
+
             <ArclightEngineButton
               onPress={() => setArclightEngineVisible(true)}
               disabled={isEnhancing}
@@ -1023,6 +694,23 @@ export default function Workspace() {
         </View>
       )}
 
+      {/* BEFORE/AFTER COMPARISON */}
+      <ImageCompareViewer
+        visible={compareVisible}
+        before={originalImageUri ? { uri: originalImageUri, label: 'BEFORE' } : null}
+        after={imageUri ? { uri: imageUri, label: 'AFTER', filters: filterValues } : null}
+        onClose={() => setCompareVisible(false)}
+      />
+
+      {/* EXPORT SHEET */}
+      <ExportSheet
+        visible={exportSheetVisible}
+        onClose={() => setExportSheetVisible(false)}
+        onExport={handleExportImage}
+        hasAlpha={exportHasAlpha}
+        exporting={isSharing}
+      />
+
       {/* FILTER MENU */}
       <FilterToolsMenu
         visible={filterMenuVisible}
@@ -1259,6 +947,9 @@ const styles = StyleSheet.create({
   adjustButtonActive: {
     backgroundColor: '#4A4E8D',
   },
+  adjustButtonDisabled: {
+    opacity: 0.4,
+  },
 
   // INPUT CONTAINER
   inputContainer: {
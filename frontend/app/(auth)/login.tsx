@@ -22,6 +22,7 @@ import * as WebBrowser from 'expo-web-browser';
 import * as AuthSession from 'expo-auth-session';
 import Constants from 'expo-constants';
 import apiService from '../../services/api';
+import { isApiError } from '../../services/apiErrors';
 import { useTheme } from '../../context/ThemeContext';
 import CustomAlert from '../../components/CustomAlert';
 import { useAlert } from '../../hooks/useAlert';
@@ -138,7 +139,7 @@ export default function Login() {
       console.error('Login error:', error);
       
       // Provide more specific error messages
-      if (error.name === 'NetworkError' || error.message?.includes('Network request failed')) {
+      if (isApiError(error, 'network')) {
         showAlert(
           'error',
           'ERROR',
@@ -207,7 +208,7 @@ export default function Login() {
       console.error('Signup error:', error);
       
       // Provide more specific error messages
-      if (error.name === 'NetworkError' || error.message?.includes('Network request failed')) {
+      if (isApiError(error, 'network')) {
         showAlert(
           'error',
           'ERROR',
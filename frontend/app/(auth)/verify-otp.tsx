@@ -17,6 +17,7 @@ import Svg, { Path } from 'react-native-svg';
 import { router, useLocalSearchParams } from 'expo-router';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import apiService from '../../services/api';
+import { isApiError } from '../../services/apiErrors';
 import CustomAlert from '../../components/CustomAlert';
 import { useAlert } from '../../hooks/useAlert';
 
@@ -141,7 +142,7 @@ export default function VerifyOtp() {
       console.error('OTP verification error:', error);
       
       // Provide more specific error messages
-      if (error.name === 'NetworkError' || error.message?.includes('Network request failed')) {
+      if (isApiError(error, 'network')) {
         showAlert(
           'error',
           'ERROR',
@@ -0,0 +1,562 @@
+/**
+ * CropTool Component
+ *
+ * Full screen crop, straighten, rotate and flip tool. Drag inside the crop
+ * to move it and drag its corners to resize it; the aspect chips lock the
+ * crop to a ratio (common ratios plus the canvas and template presets).
+ * The straighten slider tilts the image up to 45° either way and shrinks
+ * the crop so no empty corners show. A rule-of-thirds grid helps framing.
+ *
+ * The result is handed to onApply as a PATCH /images/crop request without
+ * the publicId (utils/cropGeometry); sending it is up to the parent.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  Image,
+  ScrollView,
+  PanResponder,
+  LayoutChangeEvent,
+} from 'react-native';
+import Slider from '@react-native-community/slider';
+import { X, RotateCw, FlipHorizontal, FlipVertical, RotateCcw } from 'lucide-react-native';
+import { CropImageRequest } from '../services/apiTypes';
+import {
+  CROP_ASPECTS,
+  CropRect,
+  CropTransform,
+  DEFAULT_CROP_TRANSFORM,
+  MAX_STRAIGHTEN,
+  clampCrop,
+  getCropAngle,
+  getInscribedCrop,
+  getRotatedSize,
+  resolveCropRatio,
+  toPixelCrop,
+} from '../utils/cropGeometry';
+
+interface CropToolProps {
+  visible: boolean;
+  imageUri: string;
+  imageWidth: number;
+  imageHeight: number;
+  applying?: boolean;
+  onClose: () => void;
+  onApply: (crop: Omit<CropImageRequest, 'publicId'>) => void;
+}
+
+const HANDLE_SIZE = 28; // Touch area of a corner handle
+const MIN_CROP = 0.05; // Smallest crop, as a fraction of the bounding box
+const PREVIEW_PADDING = 24;
+
+type CropDrag =
+  | { mode: 'move'; start: CropRect }
+  | { mode: 'corner'; start: CropRect; cornerX: 0 | 1; cornerY: 0 | 1 };
+
+/**
+ * CropTool Component
+ *
+ * @param visible - Whether the tool is open
+ * @param imageUri - Image to crop
+ * @param imageWidth - Image width in pixels
+ * @param imageHeight - Image height in pixels
+ * @param applying - Whether the crop is being saved
+ * @param onClose - Close without cropping
+ * @param onApply - Receives the crop, angle and flips
+ */
+export default function CropTool({
+  visible,
+  imageUri,
+  imageWidth,
+  imageHeight,
+  applying = false,
+  onClose,
+  onApply,
+}: CropToolProps) {
+  const [transform, setTransform] = useState<CropTransform>(DEFAULT_CROP_TRANSFORM);
+  const [aspectIndex, setAspectIndex] = useState(0);
+  const [crop, setCrop] = useState<CropRect>({ x: 0, y: 0, width: 1, height: 1 });
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  const aspect = CROP_ASPECTS[aspectIndex];
+  const ratio = resolveCropRatio(aspect, imageWidth, imageHeight, transform.quarterTurns);
+  const angle = getCropAngle(transform);
+
+  // Start over each time the tool opens
+  useEffect(() => {
+    if (!visible) return;
+    setTransform(DEFAULT_CROP_TRANSFORM);
+    setAspectIndex(0);
+    setCrop({ x: 0, y: 0, width: 1, height: 1 });
+  }, [visible, imageUri]);
+
+  // The rotated image's bounding box, fitted into the preview
+  const box = useMemo(() => {
+    if (size.width === 0 || size.height === 0 || imageWidth <= 0 || imageHeight <= 0) return null;
+
+    const rotated = getRotatedSize(imageWidth, imageHeight, angle);
+    const scale = Math.min(
+      (size.width - PREVIEW_PADDING * 2) / rotated.width,
+      (size.height - PREVIEW_PADDING * 2) / rotated.height
+    );
+    const width = rotated.width * scale;
+    const height = rotated.height * scale;
+
+    return {
+      x: (size.width - width) / 2,
+      y: (size.height - height) / 2,
+      width,
+      height,
+      scale,
+      pixelWidth: rotated.width,
+      pixelHeight: rotated.height,
+    };
+  }, [size, imageWidth, imageHeight, angle]);
+
+  // Changing how the image is turned starts from the largest clean crop
+  const updateTransform = (changes: Partial<CropTransform>, nextAspectIndex = aspectIndex) => {
+    const next = { ...transform, ...changes };
+    const nextRatio = resolveCropRatio(CROP_ASPECTS[nextAspectIndex], imageWidth, imageHeight, next.quarterTurns);
+    setTransform(next);
+    setAspectIndex(nextAspectIndex);
+    setCrop(getInscribedCrop(imageWidth, imageHeight, next, nextRatio));
+  };
+
+  const latest = useRef({ crop, box, ratio });
+  latest.current = { crop, box, ratio };
+  const dragRef = useRef<CropDrag | null>(null);
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => latest.current.box !== null,
+      onMoveShouldSetPanResponder: () => latest.current.box !== null,
+      onPanResponderGrant: event => {
+        const { crop: current, box: area } = latest.current;
+        if (!area) return;
+
+        const { locationX, locationY } = event.nativeEvent;
+        const left = current.x * area.width;
+        const top = current.y * area.height;
+        const right = left + current.width * area.width;
+        const bottom = top + current.height * area.height;
+
+        const nearLeft = Math.abs(locationX - left) <= HANDLE_SIZE;
+        const nearRight = Math.abs(locationX - right) <= HANDLE_SIZE;
+        const nearTop = Math.abs(locationY - top) <= HANDLE_SIZE;
+        const nearBottom = Math.abs(locationY - bottom) <= HANDLE_SIZE;
+
+        if ((nearLeft || nearRight) && (nearTop || nearBottom)) {
+          dragRef.current = {
+            mode: 'corner',
+            start: current,
+            cornerX: nearRight ? 1 : 0,
+            cornerY: nearBottom ? 1 : 0,
+          };
+        } else if (locationX > left && locationX < right && locationY > top && locationY < bottom) {
+          dragRef.current = { mode: 'move', start: current };
+        } else {
+          dragRef.current = null;
+        }
+      },
+      onPanResponderMove: (_, gesture) => {
+        const drag = dragRef.current;
+        const { box: area, ratio: lockedRatio } = latest.current;
+        if (!drag || !area) return;
+
+        const dx = gesture.dx / area.width;
+        const dy = gesture.dy / area.height;
+        const { start } = drag;
+
+        if (drag.mode === 'move') {
+          setCrop(clampCrop({ ...start, x: start.x + dx, y: start.y + dy }, MIN_CROP));
+          return;
+        }
+
+        // The opposite corner stays put
+        const anchorX = drag.cornerX === 1 ? start.x : start.x + start.width;
+        const anchorY = drag.cornerY === 1 ? start.y : start.y + start.height;
+        const maxWidth = drag.cornerX === 1 ? 1 - anchorX : anchorX;
+        const maxHeight = drag.cornerY === 1 ? 1 - anchorY : anchorY;
+
+        let width = Math.min(maxWidth, Math.max(MIN_CROP, start.width + (drag.cornerX === 1 ? dx : -dx)));
+        let height = Math.min(maxHeight, Math.max(MIN_CROP, start.height + (drag.cornerY === 1 ? dy : -dy)));
+
+        if (lockedRatio) {
+          // Fractions of a box that isn't square: convert the ratio first
+          const fractionRatio = (lockedRatio * area.pixelHeight) / area.pixelWidth;
+          height = width / fractionRatio;
+          if (height > maxHeight) {
+            height = maxHeight;
+            width = height * fractionRatio;
+          }
+        }
+
+        setCrop({
+          x: drag.cornerX === 1 ? anchorX : anchorX - width,
+          y: drag.cornerY === 1 ? anchorY : anchorY - height,
+          width,
+          height,
+        });
+      },
+      onPanResponderRelease: () => {
+        dragRef.current = null;
+      },
+      onPanResponderTerminate: () => {
+        dragRef.current = null;
+      },
+    })
+  ).current;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  const handleApply = () => {
+    onApply({
+      ...toPixelCrop(crop, imageWidth, imageHeight, transform),
+      angle,
+      flipX: transform.flipX,
+      flipY: transform.flipY,
+    });
+  };
+
+  const cropStyle = box && {
+    left: crop.x * box.width,
+    top: crop.y * box.height,
+    width: crop.width * box.width,
+    height: crop.height * box.height,
+  };
+  const pixelCrop = toPixelCrop(crop, imageWidth, imageHeight, transform);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity
+            onPress={onClose}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <X size={24} color="#FFF" strokeWidth={2} />
+          </TouchableOpacity>
+          <View style={styles.badge}>
+            <Text style={styles.badgeText}>CROP</Text>
+          </View>
+          <TouchableOpacity
+            onPress={handleApply}
+            disabled={applying || !box}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Text style={[styles.applyText, (applying || !box) && styles.disabledText]}>
+              {applying ? 'Saving...' : 'Apply'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.preview} onLayout={handleLayout}>
+          {box && cropStyle && (
+            <View
+              style={[styles.box, { left: box.x, top: box.y, width: box.width, height: box.height }]}
+              {...panResponder.panHandlers}
+            >
+              <Image
+                source={{ uri: imageUri }}
+                style={{
+                  position: 'absolute',
+                  left: (box.width - imageWidth * box.scale) / 2,
+                  top: (box.height - imageHeight * box.scale) / 2,
+                  width: imageWidth * box.scale,
+                  height: imageHeight * box.scale,
+                  // Applied right to left: flip first, then rotate
+                  transform: [
+                    { rotate: `${angle}deg` },
+                    { scaleX: transform.flipX ? -1 : 1 },
+                    { scaleY: transform.flipY ? -1 : 1 },
+                  ],
+                }}
+              />
+
+              {/* Dim everything outside the crop */}
+              <View pointerEvents="none" style={[styles.shade, { left: 0, top: 0, right: 0, height: cropStyle.top }]} />
+              <View
+                pointerEvents="none"
+                style={[styles.shade, { left: 0, right: 0, top: cropStyle.top + cropStyle.height, bottom: 0 }]}
+              />
+              <View
+                pointerEvents="none"
+                style={[styles.shade, { left: 0, width: cropStyle.left, top: cropStyle.top, height: cropStyle.height }]}
+              />
+              <View
+                pointerEvents="none"
+                style={[styles.shade, {
+                  left: cropStyle.left + cropStyle.width,
+                  right: 0,
+                  top: cropStyle.top,
+                  height: cropStyle.height,
+                }]}
+              />
+
+              {/* Crop frame with a rule-of-thirds grid */}
+              <View pointerEvents="none" style={[styles.cropFrame, cropStyle]}>
+                <View style={[styles.gridLine, styles.gridVertical, { left: '33.33%' }]} />
+                <View style={[styles.gridLine, styles.gridVertical, { left: '66.66%' }]} />
+                <View style={[styles.gridLine, styles.gridHorizontal, { top: '33.33%' }]} />
+                <View style={[styles.gridLine, styles.gridHorizontal, { top: '66.66%' }]} />
+                <View style={[styles.corner, styles.cornerTopLeft]} />
+                <View style={[styles.corner, styles.cornerTopRight]} />
+                <View style={[styles.corner, styles.cornerBottomLeft]} />
+                <View style={[styles.corner, styles.cornerBottomRight]} />
+              </View>
+            </View>
+          )}
+        </View>
+
+        <View style={styles.controls}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {CROP_ASPECTS.map((option, index) => (
+              <TouchableOpacity
+                key={option.label}
+                style={[styles.chip, aspectIndex === index && styles.chipActive]}
+                onPress={() => updateTransform({}, index)}
+                activeOpacity={0.8}
+              >
+                <Text style={[styles.chipText, aspectIndex === index && styles.chipTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionLabel}>Straighten</Text>
+            <Text style={styles.sectionValue}>{Math.round(transform.straighten)}°</Text>
+          </View>
+          <Slider
+            style={styles.slider}
+            minimumValue={-MAX_STRAIGHTEN}
+            maximumValue={MAX_STRAIGHTEN}
+            step={1}
+            value={transform.straighten}
+            onValueChange={straighten => updateTransform({ straighten })}
+            minimumTrackTintColor="#000"
+            maximumTrackTintColor="#BBB"
+            thumbTintColor="#000"
+          />
+
+          <View style={styles.toolRow}>
+            <TouchableOpacity
+              style={styles.iconChip}
+              onPress={() => updateTransform({ quarterTurns: (transform.quarterTurns + 1) % 4 })}
+              activeOpacity={0.8}
+            >
+              <RotateCw size={18} color="#000" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.iconChip, transform.flipX && styles.chipActive]}
+              onPress={() => updateTransform({ flipX: !transform.flipX })}
+              activeOpacity={0.8}
+            >
+              <FlipHorizontal size={18} color={transform.flipX ? '#FFF' : '#000'} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.iconChip, transform.flipY && styles.chipActive]}
+              onPress={() => updateTransform({ flipY: !transform.flipY })}
+              activeOpacity={0.8}
+            >
+              <FlipVertical size={18} color={transform.flipY ? '#FFF' : '#000'} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.iconChip}
+              onPress={() => updateTransform(DEFAULT_CROP_TRANSFORM, 0)}
+              activeOpacity={0.8}
+            >
+              <RotateCcw size={18} color="#000" />
+            </TouchableOpacity>
+            <Text style={styles.sizeText}>
+              {pixelCrop.width} × {pixelCrop.height}
+            </Text>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1A1A1A',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 56,
+    paddingBottom: 12,
+    paddingHorizontal: 20,
+  },
+  badge: {
+    backgroundColor: '#4A4A4A',
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+    borderRadius: 16,
+  },
+  badgeText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#E8E8E8',
+    letterSpacing: 1.2,
+    fontFamily: 'geistmono',
+  },
+  applyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFF',
+    fontFamily: 'geistmono',
+  },
+  disabledText: {
+    opacity: 0.4,
+  },
+  preview: {
+    flex: 1,
+  },
+  box: {
+    position: 'absolute',
+    overflow: 'hidden',
+  },
+  shade: {
+    position: 'absolute',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  cropFrame: {
+    position: 'absolute',
+    borderWidth: 1,
+    borderColor: '#FFF',
+  },
+  gridLine: {
+    position: 'absolute',
+    backgroundColor: 'rgba(255, 255, 255, 0.5)',
+  },
+  gridVertical: {
+    top: 0,
+    bottom: 0,
+    width: StyleSheet.hairlineWidth,
+  },
+  gridHorizontal: {
+    left: 0,
+    right: 0,
+    height: StyleSheet.hairlineWidth,
+  },
+  corner: {
+    position: 'absolute',
+    width: 18,
+    height: 18,
+    borderColor: '#FFF',
+  },
+  cornerTopLeft: {
+    top: -2,
+    left: -2,
+    borderTopWidth: 4,
+    borderLeftWidth: 4,
+  },
+  cornerTopRight: {
+    top: -2,
+    right: -2,
+    borderTopWidth: 4,
+    borderRightWidth: 4,
+  },
+  cornerBottomLeft: {
+    bottom: -2,
+    left: -2,
+    borderBottomWidth: 4,
+    borderLeftWidth: 4,
+  },
+  cornerBottomRight: {
+    bottom: -2,
+    right: -2,
+    borderBottomWidth: 4,
+    borderRightWidth: 4,
+  },
+  controls: {
+    backgroundColor: '#E8E8E8',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingTop: 20,
+    paddingBottom: 40,
+    paddingHorizontal: 24,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    backgroundColor: '#FFF',
+    alignItems: 'center',
+  },
+  chipActive: {
+    backgroundColor: '#000',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+    fontFamily: 'geistmono',
+  },
+  chipTextActive: {
+    color: '#FFF',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    fontFamily: 'geistmono',
+  },
+  sectionValue: {
+    fontSize: 14,
+    color: '#333',
+    fontFamily: 'geistmono',
+  },
+  slider: {
+    width: '100%',
+    height: 40,
+    marginBottom: 8,
+  },
+  toolRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  iconChip: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    backgroundColor: '#FFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  sizeText: {
+    flex: 1,
+    textAlign: 'right',
+    fontSize: 12,
+    color: '#666',
+    fontFamily: 'geistmono',
+  },
+});
@@ -0,0 +1,323 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  Switch,
+} from 'react-native';
+import Slider from '@react-native-community/slider';
+import { X } from 'lucide-react-native';
+import {
+  ExportFormat,
+  ExportOptions,
+  EXPORT_FORMATS,
+  getDefaultExportOptions,
+} from '../utils/exportRenderer';
+
+interface ExportSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  onExport: (options: ExportOptions) => void;
+  hasAlpha: boolean;
+  exporting?: boolean;
+}
+
+const formatOrder: ExportFormat[] = ['png', 'jpeg', 'webp'];
+
+// Longest edge presets (null = original resolution)
+const sizeOptions: { label: string; maxEdge: number | null }[] = [
+  { label: 'Original', maxEdge: null },
+  { label: '4096', maxEdge: 4096 },
+  { label: '2048', maxEdge: 2048 },
+  { label: '1080', maxEdge: 1080 },
+];
+
+export default function ExportSheet({
+  visible,
+  onClose,
+  onExport,
+  hasAlpha,
+  exporting = false,
+}: ExportSheetProps) {
+  const [options, setOptions] = useState<ExportOptions>(getDefaultExportOptions(hasAlpha));
+  const formatPicked = useRef(false);
+
+  // Start from the defaults each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      formatPicked.current = false;
+      setOptions(getDefaultExportOptions(hasAlpha));
+    }
+    // hasAlpha is handled below, so a late answer keeps the user's choices
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible]);
+
+  // hasAlpha can arrive after the sheet opened; it only decides the format,
+  // and only until the user picks one
+  useEffect(() => {
+    if (!formatPicked.current) {
+      setOptions(prev => ({ ...prev, format: getDefaultExportOptions(hasAlpha).format }));
+    }
+  }, [hasAlpha]);
+
+  const updateOptions = (changes: Partial<ExportOptions>) => {
+    setOptions(prev => ({ ...prev, ...changes }));
+  };
+
+  const selectedFormat = EXPORT_FORMATS[options.format];
+  const losesTransparency = hasAlpha && !selectedFormat.supportsAlpha;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <TouchableOpacity
+          style={styles.backdrop}
+          activeOpacity={1}
+          onPress={onClose}
+        />
+        <View style={styles.modalContainer}>
+          <TouchableOpacity
+            style={styles.closeButton}
+            onPress={onClose}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <X size={24} color="#333" strokeWidth={2} />
+          </TouchableOpacity>
+
+          <View style={styles.badgeContainer}>
+            <View style={styles.badge}>
+              <Text style={styles.badgeText}>EXPORT</Text>
+            </View>
+          </View>
+
+          {/* Format */}
+          <Text style={styles.sectionLabel}>Format</Text>
+          <View style={styles.chipRow}>
+            {formatOrder.map(format => (
+              <TouchableOpacity
+                key={format}
+                style={[styles.chip, options.format === format && styles.chipActive]}
+                onPress={() => {
+                  formatPicked.current = true;
+                  updateOptions({ format });
+                }}
+                activeOpacity={0.8}
+              >
+                <Text style={[styles.chipText, options.format === format && styles.chipTextActive]}>
+                  {EXPORT_FORMATS[format].label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {losesTransparency && (
+            <Text style={styles.hintText}>
+              JPEG has no transparency. Transparent areas will be filled with white.
+            </Text>
+          )}
+
+          {/* Quality (PNG is lossless) */}
+          {options.format !== 'png' && (
+            <>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionLabel}>Quality</Text>
+                <Text style={styles.sectionValue}>{options.quality}</Text>
+              </View>
+              <Slider
+                style={styles.slider}
+                minimumValue={10}
+                maximumValue={100}
+                step={1}
+                value={options.quality}
+                onValueChange={quality => updateOptions({ quality })}
+                minimumTrackTintColor="#000"
+                maximumTrackTintColor="#BBB"
+                thumbTintColor="#000"
+              />
+            </>
+          )}
+
+          {/* Size */}
+          <Text style={styles.sectionLabel}>Longest Edge</Text>
+          <View style={styles.chipRow}>
+            {sizeOptions.map(size => (
+              <TouchableOpacity
+                key={size.label}
+                style={[styles.chip, options.maxEdge === size.maxEdge && styles.chipActive]}
+                onPress={() => updateOptions({ maxEdge: size.maxEdge })}
+                activeOpacity={0.8}
+              >
+                <Text style={[styles.chipText, options.maxEdge === size.maxEdge && styles.chipTextActive]}>
+                  {size.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {/* Metadata */}
+          <View style={styles.switchRow}>
+            <View style={styles.switchLabelContainer}>
+              <Text style={styles.sectionLabel}>Keep Metadata</Text>
+              <Text style={styles.hintText}>Camera, date and location info (EXIF)</Text>
+            </View>
+            <Switch
+              value={options.keepMetadata}
+              onValueChange={keepMetadata => updateOptions({ keepMetadata })}
+              trackColor={{ false: '#BBB', true: '#000' }}
+            />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.exportButton, exporting && styles.exportButtonDisabled]}
+            onPress={() => onExport(options)}
+            disabled={exporting}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.exportButtonText}>
+              {exporting ? 'Exporting...' : `Export ${selectedFormat.label}`}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+  },
+  modalContainer: {
+    width: '100%',
+    backgroundColor: '#E8E8E8',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingTop: 20,
+    paddingBottom: 40,
+    paddingHorizontal: 24,
+    position: 'relative',
+    maxHeight: '80%',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 16,
+    right: 16,
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 10,
+  },
+  badgeContainer: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  badge: {
+    backgroundColor: '#4A4A4A',
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+    borderRadius: 16,
+  },
+  badgeText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#E8E8E8',
+    letterSpacing: 1.2,
+    fontFamily: 'geistmono',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+    fontFamily: 'geistmono',
+  },
+  sectionValue: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 8,
+    fontFamily: 'geistmono',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+    fontFamily: 'geistmono',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#FFF',
+    alignItems: 'center',
+  },
+  chipActive: {
+    backgroundColor: '#000',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+    fontFamily: 'geistmono',
+  },
+  chipTextActive: {
+    color: '#FFF',
+  },
+  slider: {
+    width: '100%',
+    height: 40,
+    marginBottom: 16,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  switchLabelContainer: {
+    flex: 1,
+    marginRight: 16,
+  },
+  exportButton: {
+    backgroundColor: '#000',
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 60,
+  },
+  exportButtonDisabled: {
+    opacity: 0.6,
+  },
+  exportButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFF',
+    fontFamily: 'geistmono',
+  },
+});
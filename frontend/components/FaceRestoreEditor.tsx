@@ -0,0 +1,555 @@
+/**
+ * FaceRestoreEditor Component
+ *
+ * Full screen settings for face restoration. The faces found in the image
+ * are outlined; tapping one includes or leaves it out, so only the chosen
+ * faces get restored. Fidelity trades restored detail (low) for staying
+ * close to the input (high), and Strength blends the result with the
+ * original. Preview restores a small copy with the current settings; changing
+ * anything afterwards drops the preview.
+ *
+ * When no face is found the whole image is restored. Detection, previews
+ * and the restore itself are up to the parent.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  Image,
+  ActivityIndicator,
+  LayoutChangeEvent,
+} from 'react-native';
+import Slider from '@react-native-community/slider';
+import { X, ScanFace, Eye, User } from 'lucide-react-native';
+import { FaceBox, FaceDetectData, FaceRestoreOptions } from '../services/apiTypes';
+import { getFittedLayerRect } from '../utils/compositor';
+
+interface FaceRestoreEditorProps {
+  visible: boolean;
+  imageUrl: string;
+  imageWidth?: number;
+  imageHeight?: number;
+  onClose: () => void;
+  onDetectFaces: () => Promise<FaceDetectData>;
+  onPreview: (options: FaceRestoreOptions) => Promise<string>; // Resolves to the preview image URI
+  onRestore: (options: FaceRestoreOptions) => Promise<void>;
+}
+
+const DEFAULT_FIDELITY = 0.7;
+const DEFAULT_STRENGTH = 1;
+const SELECTED_COLOR = '#34C759';
+
+/**
+ * FaceRestoreEditor Component
+ *
+ * @param visible - Whether the editor is open
+ * @param imageUrl - Image to restore
+ * @param imageWidth - Image width in pixels, until the faces are found
+ * @param imageHeight - Image height in pixels
+ * @param onClose - Close without restoring
+ * @param onDetectFaces - Find the faces; errors are reported by the parent
+ * @param onPreview - Restore a low-resolution copy; errors are reported by the parent
+ * @param onRestore - Run the full-resolution restore with these settings
+ */
+export default function FaceRestoreEditor({
+  visible,
+  imageUrl,
+  imageWidth,
+  imageHeight,
+  onClose,
+  onDetectFaces,
+  onPreview,
+  onRestore,
+}: FaceRestoreEditorProps) {
+  const [detection, setDetection] = useState<FaceDetectData | null>(null);
+  const [selected, setSelected] = useState<boolean[]>([]);
+  const [fidelity, setFidelity] = useState(DEFAULT_FIDELITY);
+  const [strength, setStrength] = useState(DEFAULT_STRENGTH);
+  const [previewUri, setPreviewUri] = useState<string | null>(null);
+  const [busy, setBusy] = useState<'detecting' | 'previewing' | 'restoring' | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // Find the faces each time the editor opens, all of them chosen
+  useEffect(() => {
+    if (!visible) return;
+
+    let cancelled = false;
+    setDetection(null);
+    setSelected([]);
+    setFidelity(DEFAULT_FIDELITY);
+    setStrength(DEFAULT_STRENGTH);
+    setPreviewUri(null);
+    setBusy('detecting');
+
+    onDetectFaces()
+      .then(found => {
+        if (cancelled) return;
+        setDetection(found);
+        setSelected(found.faces.map(() => true));
+      })
+      .catch(() => {
+        // onDetectFaces shows the error; without faces the whole image is restored
+      })
+      .finally(() => {
+        if (!cancelled) setBusy(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // Only when opened or the image changes, not when the parent re-renders
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible, imageUrl]);
+
+  const faces = detection?.faces ?? [];
+  const sourceWidth = detection?.width ?? imageWidth;
+  const sourceHeight = detection?.height ?? imageHeight;
+
+  // Where the image sits inside the preview
+  const imageRect = sourceWidth && sourceHeight && size.width > 0
+    ? getFittedLayerRect(sourceWidth, sourceHeight, size.width, size.height)
+    : null;
+
+  const selectedCount = selected.filter(Boolean).length;
+  const options: FaceRestoreOptions = {
+    fidelity,
+    strength,
+    faces: faces.length > 0 ? faces.filter((_, index) => selected[index]) : null,
+  };
+  const canRestore = busy === null && (faces.length === 0 || selectedCount > 0);
+
+  const toggleFace = (index: number) => {
+    setSelected(prev => prev.map((value, i) => (i === index ? !value : value)));
+    setPreviewUri(null);
+  };
+
+  const selectAll = (value: boolean) => {
+    setSelected(faces.map(() => value));
+    setPreviewUri(null);
+  };
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  const handlePreview = async () => {
+    setBusy('previewing');
+    try {
+      setPreviewUri(await onPreview(options));
+    } catch {
+      // onPreview shows the error
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRestore = async () => {
+    setBusy('restoring');
+    try {
+      await onRestore(options);
+    } catch {
+      // onRestore shows the error; the editor stays open to try again
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const renderFaceBox = (face: FaceBox, index: number) => {
+    if (!imageRect || !sourceWidth || !sourceHeight) return null;
+
+    const scale = imageRect.width / sourceWidth;
+    const isSelected = selected[index];
+    return (
+      <TouchableOpacity
+        key={index}
+        style={[
+          styles.faceBox,
+          isSelected ? styles.faceBoxSelected : styles.faceBoxUnselected,
+          {
+            left: imageRect.x + face.x * scale,
+            top: imageRect.y + face.y * scale,
+            width: face.width * scale,
+            height: face.height * scale,
+          },
+        ]}
+        onPress={() => toggleFace(index)}
+        disabled={busy !== null}
+        activeOpacity={0.7}
+      >
+        <View style={[styles.faceTag, isSelected && styles.faceTagSelected]}>
+          <Text style={styles.faceTagText}>{index + 1}</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const hint = busy === 'detecting'
+    ? 'Looking for faces...'
+    : faces.length === 0
+      ? 'No faces found, the whole image will be restored'
+      : 'Tap a face to include or leave it out';
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity
+            onPress={onClose}
+            disabled={busy === 'restoring'}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <X size={24} color="#FFF" strokeWidth={2} />
+          </TouchableOpacity>
+          <View style={styles.badge}>
+            <Text style={styles.badgeText}>FACE RESTORE</Text>
+          </View>
+          <TouchableOpacity
+            onPress={handleRestore}
+            disabled={!canRestore}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Text style={[styles.restoreText, !canRestore && styles.disabledText]}>
+              {busy === 'restoring' ? 'Restoring...' : 'Restore'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Preview: chosen faces are outlined in green */}
+        <View style={styles.preview} onLayout={handleLayout}>
+          {imageRect && (
+            <Image
+              source={{ uri: previewUri || imageUrl }}
+              style={[styles.image, { left: imageRect.x, top: imageRect.y, width: imageRect.width, height: imageRect.height }]}
+              resizeMode="contain"
+            />
+          )}
+          {faces.map(renderFaceBox)}
+          {previewUri && busy === null && (
+            <View style={styles.previewTag} pointerEvents="none">
+              <Text style={styles.previewTagText}>PREVIEW</Text>
+            </View>
+          )}
+          {busy !== null && (
+            <View style={styles.busyOverlay} pointerEvents="none">
+              <ActivityIndicator size="large" color="#FFF" />
+              {busy === 'restoring' && <Text style={styles.busyText}>Restoring faces...</Text>}
+            </View>
+          )}
+        </View>
+
+        <View style={styles.controls}>
+          <View style={styles.hintRow}>
+            <Text style={styles.hintText}>{hint}</Text>
+            {faces.length > 1 && (
+              <View style={styles.iconRow}>
+                <TouchableOpacity
+                  style={[styles.textChip, selectedCount === faces.length && styles.chipActive]}
+                  onPress={() => selectAll(true)}
+                  disabled={busy !== null}
+                  activeOpacity={0.8}
+                >
+                  <Text style={[styles.chipText, selectedCount === faces.length && styles.chipTextActive]}>All</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.textChip, selectedCount === 0 && styles.chipActive]}
+                  onPress={() => selectAll(false)}
+                  disabled={busy !== null}
+                  activeOpacity={0.8}
+                >
+                  <Text style={[styles.chipText, selectedCount === 0 && styles.chipTextActive]}>None</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionLabel}>Fidelity</Text>
+            <Text style={styles.sectionValue}>{fidelity.toFixed(2)}</Text>
+          </View>
+          <Slider
+            style={styles.slider}
+            minimumValue={0}
+            maximumValue={1}
+            step={0.05}
+            value={fidelity}
+            onSlidingComplete={value => {
+              // CodeFormer names its output after the value, so no float noise
+              setFidelity(Math.round(value * 100) / 100);
+              setPreviewUri(null);
+            }}
+            minimumTrackTintColor="#000"
+            maximumTrackTintColor="#BBB"
+            thumbTintColor="#000"
+          />
+          <View style={styles.scaleRow}>
+            <Text style={styles.scaleText}>More detail</Text>
+            <Text style={styles.scaleText}>Closer to original</Text>
+          </View>
+
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionLabel}>Strength</Text>
+            <Text style={styles.sectionValue}>{Math.round(strength * 100)}%</Text>
+          </View>
+          <Slider
+            style={styles.slider}
+            minimumValue={0}
+            maximumValue={1}
+            step={0.05}
+            value={strength}
+            onSlidingComplete={value => {
+              setStrength(Math.round(value * 100) / 100);
+              setPreviewUri(null);
+            }}
+            minimumTrackTintColor="#000"
+            maximumTrackTintColor="#BBB"
+            thumbTintColor="#000"
+          />
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.actionButtonSecondary, !canRestore && styles.actionButtonDisabled]}
+              onPress={handlePreview}
+              disabled={!canRestore}
+              activeOpacity={0.8}
+            >
+              <Eye size={18} color="#000" />
+              <Text style={[styles.actionButtonText, styles.actionButtonTextSecondary]}>
+                {busy === 'previewing' ? 'Previewing...' : 'Preview'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, !canRestore && styles.actionButtonDisabled]}
+              onPress={handleRestore}
+              disabled={!canRestore}
+              activeOpacity={0.8}
+            >
+              {faces.length > 0 ? <ScanFace size={18} color="#FFF" /> : <User size={18} color="#FFF" />}
+              <Text style={styles.actionButtonText}>
+                {faces.length === 0
+                  ? 'Restore Image'
+                  : `Restore ${selectedCount} ${selectedCount === 1 ? 'Face' : 'Faces'}`}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1A1A1A',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 56,
+    paddingBottom: 12,
+    paddingHorizontal: 20,
+  },
+  badge: {
+    backgroundColor: '#4A4A4A',
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+    borderRadius: 16,
+  },
+  badgeText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#E8E8E8',
+    letterSpacing: 1.2,
+    fontFamily: 'geistmono',
+  },
+  restoreText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFF',
+    fontFamily: 'geistmono',
+  },
+  disabledText: {
+    opacity: 0.4,
+  },
+  preview: {
+    flex: 1,
+    margin: 12,
+  },
+  image: {
+    position: 'absolute',
+  },
+  faceBox: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderRadius: 6,
+  },
+  faceBoxSelected: {
+    borderColor: SELECTED_COLOR,
+  },
+  faceBoxUnselected: {
+    borderColor: 'rgba(255, 255, 255, 0.6)',
+    borderStyle: 'dashed',
+  },
+  faceTag: {
+    position: 'absolute',
+    top: -12,
+    left: -12,
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: '#4A4A4A',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  faceTagSelected: {
+    backgroundColor: SELECTED_COLOR,
+  },
+  faceTagText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#FFF',
+    fontFamily: 'geistmono',
+  },
+  previewTag: {
+    position: 'absolute',
+    top: 8,
+    left: 8,
+    backgroundColor: '#4A4A4A',
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+  },
+  previewTagText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#E8E8E8',
+    letterSpacing: 1.2,
+    fontFamily: 'geistmono',
+  },
+  busyOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  busyText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: '#FFF',
+    fontFamily: 'geistmono',
+  },
+  controls: {
+    backgroundColor: '#E8E8E8',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingTop: 20,
+    paddingBottom: 40,
+    paddingHorizontal: 24,
+  },
+  chipActive: {
+    backgroundColor: '#000',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#000',
+    fontFamily: 'geistmono',
+  },
+  chipTextActive: {
+    color: '#FFF',
+  },
+  hintRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  hintText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+    fontFamily: 'geistmono',
+  },
+  iconRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  textChip: {
+    paddingHorizontal: 14,
+    height: 40,
+    borderRadius: 12,
+    backgroundColor: '#FFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    fontFamily: 'geistmono',
+  },
+  sectionValue: {
+    fontSize: 14,
+    color: '#333',
+    fontFamily: 'geistmono',
+  },
+  slider: {
+    width: '100%',
+    height: 40,
+  },
+  scaleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  scaleText: {
+    fontSize: 11,
+    color: '#666',
+    fontFamily: 'geistmono',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    gap: 8,
+    backgroundColor: '#000',
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  actionButtonSecondary: {
+    backgroundColor: '#FFF',
+  },
+  actionButtonDisabled: {
+    opacity: 0.6,
+  },
+  actionButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFF',
+    fontFamily: 'geistmono',
+  },
+  actionButtonTextSecondary: {
+    color: '#000',
+  },
+});
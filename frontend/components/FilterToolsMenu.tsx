@@ -29,7 +29,7 @@ const filterTools: Tool[] = [
   { id: 'saturation', icon: Droplet, label: 'Saturation' },
   { id: 'temperature', icon: Thermometer, label: 'Temperature' },
   { id: 'sharpen', icon: Aperture, label: 'Sharpen' },
-  { id: 'noise', icon: Film, label: 'Grain' },
+  { id: 'noise', icon: Film, label: 'Grain', min: 0 },
   { id: 'blackLift', icon: MoveVertical, label: 'Black Lift' },
   { id: 'warmth', icon: Palette, label: 'Warmth' },
   { id: 'shadows', icon: Moon, label: 'Shadows' },
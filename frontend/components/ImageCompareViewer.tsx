@@ -0,0 +1,504 @@
+/**
+ * ImageCompareViewer Component
+ *
+ * Full screen before/after comparison of two images. Split drags a divider
+ * across the two images stacked on top of each other, Side by Side shows
+ * them next to each other, and Blink swaps between them in place. Pinching
+ * and dragging zoom and pan both images together, so the same detail stays
+ * lined up in every mode.
+ *
+ * A side with filters is drawn through LiveGLShader, so unsaved filter
+ * edits can be compared with the image they were made on.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  Image,
+  PanResponder,
+  LayoutChangeEvent,
+  GestureResponderEvent,
+  PanResponderGestureState,
+} from 'react-native';
+import { X, SplitSquareHorizontal, Columns2, Repeat, Pause, Play, ZoomOut } from 'lucide-react-native';
+import LiveGLShader, { GLFilterValues } from './LiveGLShader';
+import {
+  FIT_TRANSFORM,
+  ViewportTransform,
+  clampViewportTransform,
+  getTouchDistance,
+  viewportToContent,
+  zoomAroundPoint,
+} from '../utils/viewportZoom';
+
+export type CompareMode = 'split' | 'side' | 'blink';
+
+export interface CompareSide {
+  uri: string;
+  label: string;
+  filters?: Partial<GLFilterValues>; // Drawn through the filter pipeline when set
+}
+
+interface ImageCompareViewerProps {
+  visible: boolean;
+  before: CompareSide | null;
+  after: CompareSide | null;
+  initialMode?: CompareMode;
+  onClose: () => void;
+}
+
+const MODES: { value: CompareMode; label: string; Icon: typeof Columns2 }[] = [
+  { value: 'split', label: 'Split', Icon: SplitSquareHorizontal },
+  { value: 'side', label: 'Side by Side', Icon: Columns2 },
+  { value: 'blink', label: 'Blink', Icon: Repeat },
+];
+
+const MODE_HINTS: Record<CompareMode, string> = {
+  split: 'Drag the divider to wipe between the images',
+  side: 'Pinch or drag either image to zoom both',
+  blink: 'The images swap in place to show what changed',
+};
+
+const MAX_SCALE = 8;
+const BLINK_INTERVAL_MS = 700;
+const DIVIDER_HIT_WIDTH = 44;
+
+/**
+ * ImageCompareViewer Component
+ *
+ * @param visible - Whether the viewer is open
+ * @param before - Earlier image, shown on the left
+ * @param after - Later image, shown on the right
+ * @param initialMode - Mode to open in (default 'split')
+ * @param onClose - Close the viewer
+ */
+export default function ImageCompareViewer({
+  visible,
+  before,
+  after,
+  initialMode = 'split',
+  onClose,
+}: ImageCompareViewerProps) {
+  const [mode, setMode] = useState<CompareMode>(initialMode);
+  const [split, setSplit] = useState(0.5); // Divider position across the stage, 0-1
+  const [transform, setTransform] = useState<ViewportTransform>(FIT_TRANSFORM);
+  const [showingAfter, setShowingAfter] = useState(true); // Blink
+  const [blinking, setBlinking] = useState(true);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // Start every comparison from the whole image
+  useEffect(() => {
+    if (visible) {
+      setMode(initialMode);
+      setSplit(0.5);
+      setTransform(FIT_TRANSFORM);
+      setShowingAfter(true);
+      setBlinking(true);
+    }
+  }, [visible, initialMode]);
+
+  useEffect(() => {
+    if (!visible || mode !== 'blink' || !blinking) return;
+
+    const timer = setInterval(() => setShowingAfter(prev => !prev), BLINK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [visible, mode, blinking]);
+
+  const paneWidth = mode === 'side' ? size.width / 2 : size.width;
+  const paneHeight = size.height;
+
+  const transformRef = useRef(transform);
+  transformRef.current = transform;
+  const paneRef = useRef({ width: paneWidth, height: paneHeight, stageWidth: size.width });
+  paneRef.current = { width: paneWidth, height: paneHeight, stageWidth: size.width };
+  const gestureRef = useRef({ start: FIT_TRANSFORM, distance: 0, dx: 0, dy: 0 });
+
+  // Each pane is the viewport, kept covered by the zoomed image
+  const updateTransform = (next: ViewportTransform) => {
+    const pane = { width: paneRef.current.width, height: paneRef.current.height };
+    setTransform(clampViewportTransform(next, pane, pane, MAX_SCALE));
+  };
+
+  // One finger pans, two fingers pinch around the pane center; the pan
+  // restarts whenever the number of fingers changes so the image doesn't jump
+  const viewResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: (event: GestureResponderEvent) => {
+        gestureRef.current = {
+          start: transformRef.current,
+          distance: event.nativeEvent.touches.length >= 2 ? getTouchDistance(event) : 0,
+          dx: 0,
+          dy: 0,
+        };
+      },
+      onPanResponderMove: (event: GestureResponderEvent, gesture: PanResponderGestureState) => {
+        const pinching = event.nativeEvent.touches.length >= 2;
+        const current = gestureRef.current;
+
+        if (pinching !== current.distance > 0) {
+          gestureRef.current = {
+            start: transformRef.current,
+            distance: pinching ? getTouchDistance(event) : 0,
+            dx: gesture.dx,
+            dy: gesture.dy,
+          };
+          return;
+        }
+
+        const panX = current.start.x + gesture.dx - current.dx;
+        const panY = current.start.y + gesture.dy - current.dy;
+        if (pinching) {
+          const pane = { width: paneRef.current.width, height: paneRef.current.height };
+          const center = { x: pane.width / 2, y: pane.height / 2 };
+          const start = { ...current.start, x: panX, y: panY };
+          const scale = current.start.scale * (getTouchDistance(event) / current.distance);
+          updateTransform(zoomAroundPoint(viewportToContent(center, start, pane), center, scale, pane));
+        } else {
+          updateTransform({ ...current.start, x: panX, y: panY });
+        }
+      },
+    })
+  ).current;
+
+  const splitStartRef = useRef(0.5);
+  const splitRef = useRef(split);
+  splitRef.current = split;
+
+  const dividerResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => {
+        splitStartRef.current = splitRef.current;
+      },
+      onPanResponderMove: (_event: GestureResponderEvent, gesture: PanResponderGestureState) => {
+        const width = paneRef.current.stageWidth;
+        if (width <= 0) return;
+        setSplit(Math.max(0, Math.min(1, splitStartRef.current + gesture.dx / width)));
+      },
+    })
+  ).current;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+    setTransform(FIT_TRANSFORM);
+  };
+
+  const handleModeChange = (next: CompareMode) => {
+    setMode(next);
+    // Pane sizes differ between modes, so start over from the whole image
+    setTransform(FIT_TRANSFORM);
+    setShowingAfter(true);
+  };
+
+  const renderImage = (side: CompareSide, width: number, height: number) => (
+    <View
+      style={[
+        { width, height },
+        { transform: [{ translateX: transform.x }, { translateY: transform.y }, { scale: transform.scale }] },
+      ]}
+    >
+      {side.filters ? (
+        <LiveGLShader imageUri={side.uri} filters={side.filters} width={width} height={height} style={{ width, height }} />
+      ) : (
+        <Image source={{ uri: side.uri }} style={{ width, height }} resizeMode="contain" />
+      )}
+    </View>
+  );
+
+  const renderLabel = (text: string, position: 'left' | 'right') => (
+    <View style={[styles.label, position === 'left' ? styles.labelLeft : styles.labelRight]} pointerEvents="none">
+      <Text style={styles.labelText} numberOfLines={1}>{text}</Text>
+    </View>
+  );
+
+  const renderStage = () => {
+    if (!before || !after || size.width === 0) return null;
+
+    if (mode === 'side') {
+      return (
+        <View style={styles.sideRow}>
+          {[before, after].map((side, index) => (
+            <View key={index} style={[styles.pane, { width: paneWidth, height: paneHeight }]}>
+              {renderImage(side, paneWidth, paneHeight)}
+              {renderLabel(side.label, 'left')}
+            </View>
+          ))}
+        </View>
+      );
+    }
+
+    if (mode === 'blink') {
+      const side = showingAfter ? after : before;
+      return (
+        <View style={[styles.pane, { width: size.width, height: size.height }]}>
+          {/* Keep both mounted so swapping doesn't wait on decoding */}
+          <View style={[StyleSheet.absoluteFill, !showingAfter && styles.hidden]}>
+            {renderImage(after, size.width, size.height)}
+          </View>
+          <View style={[StyleSheet.absoluteFill, showingAfter && styles.hidden]}>
+            {renderImage(before, size.width, size.height)}
+          </View>
+          {renderLabel(side.label, 'left')}
+        </View>
+      );
+    }
+
+    const dividerX = split * size.width;
+    return (
+      <View style={[styles.pane, { width: size.width, height: size.height }]}>
+        {renderImage(after, size.width, size.height)}
+        {/* The before image is clipped to the left of the divider */}
+        <View style={[styles.splitClip, { width: dividerX, height: size.height }]} pointerEvents="none">
+          {renderImage(before, size.width, size.height)}
+        </View>
+        {renderLabel(before.label, 'left')}
+        {renderLabel(after.label, 'right')}
+        <View
+          style={[styles.dividerHit, { left: dividerX - DIVIDER_HIT_WIDTH / 2 }]}
+          {...dividerResponder.panHandlers}
+        >
+          <View style={styles.dividerLine} />
+          <View style={styles.dividerKnob}>
+            <Columns2 size={16} color="#000" strokeWidth={2.5} />
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity
+            onPress={onClose}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <X size={24} color="#FFF" strokeWidth={2} />
+          </TouchableOpacity>
+          <View style={styles.badge}>
+            <Text style={styles.badgeText}>COMPARE</Text>
+          </View>
+          <Text style={styles.zoomText}>{Math.round(transform.scale * 100)}%</Text>
+        </View>
+
+        <View style={styles.stage} onLayout={handleLayout} {...viewResponder.panHandlers}>
+          {renderStage()}
+        </View>
+
+        <View style={styles.controls}>
+          <View style={styles.chipRow}>
+            {MODES.map(({ value, label, Icon }) => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.chip, mode === value && styles.chipActive]}
+                onPress={() => handleModeChange(value)}
+                activeOpacity={0.8}
+              >
+                <Icon size={16} color={mode === value ? '#FFF' : '#000'} />
+                <Text style={[styles.chipText, mode === value && styles.chipTextActive]} numberOfLines={1}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.hintRow}>
+            <Text style={styles.hintText}>{MODE_HINTS[mode]}</Text>
+            <View style={styles.iconRow}>
+              {mode === 'blink' && (
+                <TouchableOpacity
+                  style={styles.iconChip}
+                  onPress={() => setBlinking(prev => !prev)}
+                  activeOpacity={0.8}
+                >
+                  {blinking ? <Pause size={18} color="#000" /> : <Play size={18} color="#000" />}
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={styles.iconChip}
+                onPress={() => setTransform(FIT_TRANSFORM)}
+                disabled={transform.scale === 1}
+                activeOpacity={0.8}
+              >
+                <ZoomOut size={18} color={transform.scale === 1 ? '#AAA' : '#000'} />
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1A1A1A',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 56,
+    paddingBottom: 12,
+    paddingHorizontal: 20,
+  },
+  badge: {
+    backgroundColor: '#4A4A4A',
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+    borderRadius: 16,
+  },
+  badgeText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#E8E8E8',
+    letterSpacing: 1.2,
+    fontFamily: 'geistmono',
+  },
+  zoomText: {
+    minWidth: 48,
+    textAlign: 'right',
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFF',
+    fontFamily: 'geistmono',
+  },
+  stage: {
+    flex: 1,
+    margin: 12,
+  },
+  sideRow: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  pane: {
+    overflow: 'hidden',
+  },
+  hidden: {
+    opacity: 0,
+  },
+  splitClip: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    overflow: 'hidden',
+  },
+  dividerHit: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: DIVIDER_HIT_WIDTH,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dividerLine: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    backgroundColor: '#FFF',
+  },
+  dividerKnob: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#FFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  label: {
+    position: 'absolute',
+    top: 8,
+    maxWidth: '45%',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+  },
+  labelLeft: {
+    left: 8,
+  },
+  labelRight: {
+    right: 8,
+  },
+  labelText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#FFF',
+    letterSpacing: 1,
+    fontFamily: 'geistmono',
+  },
+  controls: {
+    backgroundColor: '#E8E8E8',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingTop: 20,
+    paddingBottom: 40,
+    paddingHorizontal: 24,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    flex: 1,
+    flexDirection: 'row',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#FFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  chipActive: {
+    backgroundColor: '#000',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#000',
+    fontFamily: 'geistmono',
+  },
+  chipTextActive: {
+    color: '#FFF',
+  },
+  hintRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  hintText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+    fontFamily: 'geistmono',
+  },
+  iconRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  iconChip: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    backgroundColor: '#FFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
@@ -0,0 +1,337 @@
+/**
+ * ImageImportSheet Component
+ *
+ * Bottom sheet for importing several images into a layer project at once.
+ * Each image gets a row with its upload status and, when its upload
+ * failed, a retry button. The layout chips choose how the new layers are
+ * arranged on the canvas (utils/importLayout). Uploading and creating the
+ * layers is up to the parent.
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  Image,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { X, Check, RotateCcw } from 'lucide-react-native';
+import { IMPORT_LAYOUTS, ImportLayout } from '../utils/importLayout';
+
+export type ImportItemStatus = 'pending' | 'uploading' | 'done' | 'failed';
+
+export interface ImportItem {
+  id: string;
+  uri: string;
+  name: string;
+  width: number;
+  height: number;
+  status: ImportItemStatus;
+  message?: string; // Retry progress or the upload error
+}
+
+interface ImageImportSheetProps {
+  visible: boolean;
+  items: ImportItem[];
+  layout: ImportLayout;
+  started: boolean;
+  onLayoutChange: (layout: ImportLayout) => void;
+  onStart: () => void;
+  onRetry: (itemId: string) => void;
+  onFinish: () => void;
+  onClose: () => void;
+}
+
+const layoutOrder: ImportLayout[] = ['fit', 'grid', 'collage'];
+
+const statusLabels: Record<ImportItemStatus, string> = {
+  pending: 'Waiting',
+  uploading: 'Uploading...',
+  done: 'Uploaded',
+  failed: 'Failed',
+};
+
+/**
+ * ImageImportSheet Component
+ *
+ * @param visible - Whether the sheet is open
+ * @param items - Selected images with their upload status
+ * @param layout - How the layers will be arranged
+ * @param started - Whether the upload has been started
+ * @param onLayoutChange - Called when a layout chip is chosen
+ * @param onStart - Start uploading all images
+ * @param onRetry - Upload one failed image again
+ * @param onFinish - Add the uploaded images as layers, skipping failed ones
+ * @param onClose - Close before the upload has started
+ */
+export default function ImageImportSheet({
+  visible,
+  items,
+  layout,
+  started,
+  onLayoutChange,
+  onStart,
+  onRetry,
+  onFinish,
+  onClose,
+}: ImageImportSheetProps) {
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const busy = items.some(item => item.status === 'pending' || item.status === 'uploading');
+  const canClose = !started || !busy;
+
+  const handleClose = () => {
+    if (!started) {
+      onClose();
+    } else if (!busy) {
+      onFinish();
+    }
+  };
+
+  const buttonText = !started
+    ? `Import ${items.length} Images`
+    : busy
+      ? `Uploading ${doneCount}/${items.length}...`
+      : `Add ${doneCount} ${doneCount === 1 ? 'Layer' : 'Layers'}`;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={handleClose}
+    >
+      <View style={styles.overlay}>
+        <TouchableOpacity
+          style={styles.backdrop}
+          activeOpacity={1}
+          onPress={handleClose}
+        />
+        <View style={styles.modalContainer}>
+          {canClose && (
+            <TouchableOpacity
+              style={styles.closeButton}
+              onPress={handleClose}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <X size={24} color="#333" strokeWidth={2} />
+            </TouchableOpacity>
+          )}
+
+          <View style={styles.badgeContainer}>
+            <View style={styles.badge}>
+              <Text style={styles.badgeText}>IMPORT</Text>
+            </View>
+          </View>
+
+          {/* Layout */}
+          <Text style={styles.sectionLabel}>Layout</Text>
+          <View style={styles.chipRow}>
+            {layoutOrder.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, layout === option && styles.chipActive]}
+                onPress={() => onLayoutChange(option)}
+                disabled={started && !canClose}
+                activeOpacity={0.8}
+              >
+                <Text style={[styles.chipText, layout === option && styles.chipTextActive]}>
+                  {IMPORT_LAYOUTS[option].label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.hintText}>{IMPORT_LAYOUTS[layout].description}</Text>
+
+          {/* Images */}
+          <ScrollView style={styles.itemList}>
+            {items.map(item => (
+              <View key={item.id} style={styles.itemRow}>
+                <Image source={{ uri: item.uri }} style={styles.itemThumbnail} />
+                <View style={styles.itemInfo}>
+                  <Text style={styles.itemName} numberOfLines={1}>{item.name}</Text>
+                  <Text
+                    style={[styles.itemStatus, item.status === 'failed' && styles.itemStatusFailed]}
+                    numberOfLines={2}
+                  >
+                    {item.message || statusLabels[item.status]}
+                  </Text>
+                </View>
+                {item.status === 'uploading' && <ActivityIndicator size="small" color="#000" />}
+                {item.status === 'done' && <Check size={20} color="#000" strokeWidth={2} />}
+                {item.status === 'failed' && (
+                  <TouchableOpacity
+                    style={styles.retryButton}
+                    onPress={() => onRetry(item.id)}
+                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                  >
+                    <RotateCcw size={18} color="#FFF" strokeWidth={2} />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.importButton, (busy || (started && doneCount === 0)) && styles.importButtonDisabled]}
+            onPress={started ? onFinish : onStart}
+            disabled={busy || (started && doneCount === 0)}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.importButtonText}>{buttonText}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+  },
+  modalContainer: {
+    width: '100%',
+    backgroundColor: '#E8E8E8',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingTop: 20,
+    paddingBottom: 40,
+    paddingHorizontal: 24,
+    position: 'relative',
+    maxHeight: '80%',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 16,
+    right: 16,
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 10,
+  },
+  badgeContainer: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  badge: {
+    backgroundColor: '#4A4A4A',
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+    borderRadius: 16,
+  },
+  badgeText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#E8E8E8',
+    letterSpacing: 1.2,
+    fontFamily: 'geistmono',
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+    fontFamily: 'geistmono',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+    fontFamily: 'geistmono',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#FFF',
+    alignItems: 'center',
+  },
+  chipActive: {
+    backgroundColor: '#000',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+    fontFamily: 'geistmono',
+  },
+  chipTextActive: {
+    color: '#FFF',
+  },
+  itemList: {
+    marginBottom: 16,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+  },
+  itemThumbnail: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    backgroundColor: '#FFF',
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+    fontFamily: 'geistmono',
+  },
+  itemStatus: {
+    fontSize: 12,
+    color: '#666',
+    fontFamily: 'geistmono',
+  },
+  itemStatusFailed: {
+    color: '#D32F2F',
+  },
+  retryButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#000',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  importButton: {
+    backgroundColor: '#000',
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 60,
+  },
+  importButtonDisabled: {
+    opacity: 0.6,
+  },
+  importButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFF',
+    fontFamily: 'geistmono',
+  },
+});
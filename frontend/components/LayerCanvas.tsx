@@ -0,0 +1,156 @@
+/**
+ * LayerCanvas Component
+ *
+ * Live preview of a layer-based project. Draws the layers with the same
+ * compositor as the flowspace export (utils/compositor), scaled to fit the
+ * view: blend modes, opacity, position, transformations, masks, text and
+ * adjustment layers all look the way they will in the exported image.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, StyleSheet, LayoutChangeEvent, StyleProp, ViewStyle } from 'react-native';
+import {
+  Canvas,
+  ClipOp,
+  Picture,
+  Skia,
+  SkTypefaceFontProvider,
+  createPicture,
+} from '@shopify/react-native-skia';
+import { loadSkImage } from '../utils/bitmap';
+import {
+  CompositeCanvas,
+  CompositeImages,
+  CompositeLayer,
+  drawComposite,
+  getCompositeImageUrls,
+  getDrawableLayers,
+} from '../utils/compositor';
+import { loadTextFonts } from '../utils/textLayers';
+
+interface LayerCanvasProps {
+  layers: CompositeLayer[];
+  canvasWidth: number;
+  canvasHeight: number;
+  backgroundColor?: string;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * LayerCanvas Component
+ *
+ * @param layers - All layers of the project, in any order
+ * @param canvasWidth - Project canvas width in pixels
+ * @param canvasHeight - Project canvas height in pixels
+ * @param backgroundColor - Project canvas background
+ * @param style - Additional React Native styles
+ */
+const LayerCanvas: React.FC<LayerCanvasProps> = ({
+  layers,
+  canvasWidth,
+  canvasHeight,
+  backgroundColor,
+  style
+}) => {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [images, setImages] = useState<CompositeImages>({});
+  const [fonts, setFonts] = useState<SkTypefaceFontProvider | null>(null);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  // Decode each layer image and mask once. Decoded images are kept while a
+  // layer uses them and dropped once replaced or deleted.
+  const imageUrls = getCompositeImageUrls(layers).join('\n');
+  useEffect(() => {
+    let cancelled = false;
+    const wanted = imageUrls.split('\n').filter(Boolean);
+    const missing = wanted.filter(uri => !images[uri]);
+
+    setImages(prev => {
+      const unused = Object.keys(prev).filter(uri => !wanted.includes(uri));
+      if (unused.length === 0) return prev;
+
+      const kept = { ...prev };
+      unused.forEach(uri => delete kept[uri]);
+      return kept;
+    });
+
+    missing.forEach(uri => {
+      loadSkImage(uri)
+        .then(image => {
+          if (!cancelled) {
+            setImages(prev => ({ ...prev, [uri]: image }));
+          }
+        })
+        .catch(error => console.warn('LayerCanvas: failed to load layer image:', error));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [imageUrls]);
+
+  // Fonts are only loaded once there is a text layer
+  const hasText = getDrawableLayers(layers).some(layer => layer.text);
+  useEffect(() => {
+    if (!hasText || fonts) return;
+
+    let cancelled = false;
+    loadTextFonts()
+      .then(provider => {
+        if (!cancelled) setFonts(provider);
+      })
+      .catch(error => console.warn('LayerCanvas: failed to load fonts:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hasText, fonts]);
+
+  const picture = useMemo(() => {
+    if (size.width === 0 || size.height === 0 || canvasWidth <= 0 || canvasHeight <= 0) {
+      return null;
+    }
+
+    // Fit the project canvas inside the view
+    const scale = Math.min(size.width / canvasWidth, size.height / canvasHeight);
+    const target: CompositeCanvas = { width: canvasWidth, height: canvasHeight, backgroundColor };
+
+    return createPicture(canvas => {
+      canvas.translate(
+        (size.width - canvasWidth * scale) / 2,
+        (size.height - canvasHeight * scale) / 2
+      );
+      canvas.scale(scale, scale);
+      canvas.clipRect(Skia.XYWHRect(0, 0, canvasWidth, canvasHeight), ClipOp.Intersect, true);
+      drawComposite(canvas, layers, images, target, fonts);
+    }, size);
+  }, [layers, images, fonts, size, canvasWidth, canvasHeight, backgroundColor]);
+
+  return (
+    <View style={[styles.container, style]} onLayout={handleLayout}>
+      {picture && (
+        <Canvas style={styles.canvas}>
+          <Picture picture={picture} />
+        </Canvas>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignSelf: 'stretch',
+    overflow: 'hidden',
+  },
+  canvas: {
+    flex: 1,
+  },
+});
+
+export default LayerCanvas;
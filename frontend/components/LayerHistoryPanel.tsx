@@ -0,0 +1,282 @@
+/**
+ * LayerHistoryPanel Component
+ *
+ * Bottom sheet listing the undo history of a layer-based project, oldest
+ * first. The current step is highlighted and undone steps are greyed out;
+ * tapping a step undoes or redoes everything up to it. Carrying the steps
+ * out is up to the parent (see services/layerHistory).
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { X, Undo2, Redo2 } from 'lucide-react-native';
+import { LayerHistoryEntry } from '../services/layerHistory';
+
+interface LayerHistoryPanelProps {
+  visible: boolean;
+  entries: LayerHistoryEntry[];
+  position: number;
+  maxSteps: number;
+  busy: boolean;
+  onSelect: (position: number) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+/**
+ * LayerHistoryPanel Component
+ *
+ * @param visible - Whether the sheet is open
+ * @param entries - History entries, oldest first
+ * @param position - Number of entries currently applied
+ * @param maxSteps - Most steps the project keeps
+ * @param busy - Whether steps are being undone or redone
+ * @param onSelect - Go to a position: 0 undoes everything, entries.length redoes everything
+ * @param onClose - Close the sheet
+ */
+export default function LayerHistoryPanel({
+  visible,
+  entries,
+  position,
+  maxSteps,
+  busy,
+  onSelect,
+  onClose,
+}: LayerHistoryPanelProps) {
+  const renderRow = (label: string, detail: string, rowPosition: number, key: string) => {
+    const current = rowPosition === position;
+    const undone = rowPosition > position;
+
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[styles.row, current && styles.rowCurrent]}
+        onPress={() => onSelect(rowPosition)}
+        disabled={busy || current}
+        activeOpacity={0.8}
+      >
+        <View style={styles.rowInfo}>
+          <Text
+            style={[styles.rowLabel, current && styles.rowLabelCurrent, undone && styles.rowLabelUndone]}
+            numberOfLines={1}
+          >
+            {label}
+          </Text>
+          <Text style={[styles.rowDetail, current && styles.rowDetailCurrent]}>{detail}</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <TouchableOpacity
+          style={styles.backdrop}
+          activeOpacity={1}
+          onPress={onClose}
+        />
+        <View style={styles.modalContainer}>
+          <TouchableOpacity
+            style={styles.closeButton}
+            onPress={onClose}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <X size={24} color="#333" strokeWidth={2} />
+          </TouchableOpacity>
+
+          <View style={styles.badgeContainer}>
+            <View style={styles.badge}>
+              <Text style={styles.badgeText}>HISTORY</Text>
+            </View>
+          </View>
+
+          {entries.length === 0 ? (
+            <Text style={styles.emptyText}>Nothing to undo yet</Text>
+          ) : (
+            <ScrollView style={styles.list}>
+              {renderRow('Start', 'Before the first step', 0, 'start')}
+              {entries.map((entry, index) =>
+                renderRow(entry.label, formatTime(entry.createdAt), index + 1, entry.id)
+              )}
+            </ScrollView>
+          )}
+
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              style={[styles.actionButton, (busy || position === 0) && styles.actionButtonDisabled]}
+              onPress={() => onSelect(position - 1)}
+              disabled={busy || position === 0}
+              activeOpacity={0.8}
+            >
+              <Undo2 size={18} color="#FFF" strokeWidth={2} />
+              <Text style={styles.actionButtonText}>Undo</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, (busy || position === entries.length) && styles.actionButtonDisabled]}
+              onPress={() => onSelect(position + 1)}
+              disabled={busy || position === entries.length}
+              activeOpacity={0.8}
+            >
+              <Redo2 size={18} color="#FFF" strokeWidth={2} />
+              <Text style={styles.actionButtonText}>Redo</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.footerRow}>
+            {busy && <ActivityIndicator size="small" color="#000" />}
+            <Text style={styles.hintText}>{`Keeps the last ${maxSteps} steps`}</Text>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+  },
+  modalContainer: {
+    width: '100%',
+    backgroundColor: '#E8E8E8',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingTop: 20,
+    paddingBottom: 40,
+    paddingHorizontal: 24,
+    position: 'relative',
+    maxHeight: '80%',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 16,
+    right: 16,
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 10,
+  },
+  badgeContainer: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  badge: {
+    backgroundColor: '#4A4A4A',
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+    borderRadius: 16,
+  },
+  badgeText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#E8E8E8',
+    letterSpacing: 1.2,
+    fontFamily: 'geistmono',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 24,
+    fontFamily: 'geistmono',
+  },
+  list: {
+    marginBottom: 16,
+  },
+  row: {
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    marginBottom: 6,
+    backgroundColor: '#FFF',
+  },
+  rowCurrent: {
+    backgroundColor: '#000',
+  },
+  rowInfo: {
+    gap: 2,
+  },
+  rowLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+    fontFamily: 'geistmono',
+  },
+  rowLabelCurrent: {
+    color: '#FFF',
+  },
+  rowLabelUndone: {
+    color: '#999',
+  },
+  rowDetail: {
+    fontSize: 12,
+    color: '#666',
+    fontFamily: 'geistmono',
+  },
+  rowDetailCurrent: {
+    color: '#CCC',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    gap: 8,
+    backgroundColor: '#000',
+    paddingVertical: 14,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  actionButtonDisabled: {
+    opacity: 0.4,
+  },
+  actionButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFF',
+    fontFamily: 'geistmono',
+  },
+  footerRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#666',
+    fontFamily: 'geistmono',
+  },
+});
@@ -0,0 +1,572 @@
+/**
+ * LayerTransformOverlay Component
+ *
+ * Sits on top of LayerCanvas and lets the user place the selected layer
+ * directly on the canvas: tap to select, drag to move, pinch to scale,
+ * twist two fingers to rotate, or drag a corner handle to resize. Moving
+ * snaps to the canvas centre and edges and to other layers' edges, with
+ * the guide lines shown while snapped. A selected group moves everything
+ * in it, and layers with their position locked (by themselves or by a
+ * group around them) stay put. Changes are reported live for the
+ * preview and once more when the gesture ends, so the parent saves each
+ * gesture as a single layer edit.
+ */
+
+import React, { useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  PanResponder,
+  PanResponderInstance,
+  GestureResponderEvent,
+  LayoutChangeEvent,
+} from 'react-native';
+import { Link2, Link2Off } from 'lucide-react-native';
+import {
+  LayerBox,
+  PlaceableLayer,
+  SnapGuide,
+  SnapTargets,
+  getBoxBounds,
+  getBoxCorners,
+  getLayerBaseSize,
+  getLayerBox,
+  getSnapTargets,
+  isPointInBox,
+  snapBox,
+  toBoxSpace,
+} from '../utils/layerGeometry';
+import { getGroupDescendants, getLayerAncestors, getVisibleLayers } from '../utils/layerGroups';
+import { getLayerLockState } from '../utils/layerLocks';
+
+export interface LayerPlacement {
+  position: { x: number; y: number };
+  transformations: {
+    rotation: number;
+    scaleX: number;
+    scaleY: number;
+    flipX: boolean;
+    flipY: boolean;
+  };
+}
+
+interface TransformableLayer extends PlaceableLayer {
+  transformations: LayerPlacement['transformations'];
+  id: string;
+  order: number;
+  visible: boolean;
+  locked: boolean;
+  locks?: { position?: boolean; pixels?: boolean };
+  parent?: string | null;
+  isAdjustmentLayer?: boolean;
+  isGroupLayer?: boolean;
+}
+
+interface LayerTransformOverlayProps {
+  layers: TransformableLayer[];
+  selectedLayerId: string | null;
+  canvasWidth: number;
+  canvasHeight: number;
+  onSelectLayer: (layerId: string | null) => void;
+  onTransform: (layerId: string, placement: LayerPlacement) => void;
+  onTransformEnd: (layerId: string, placement: LayerPlacement) => void;
+  onLockedTouch?: (layerId: string) => void;
+}
+
+const SNAP_DISTANCE = 8; // Screen points
+const TAP_SLOP = 4; // Screen points a tap may move
+const MIN_SCALE = 0.05;
+const HANDLE_SIZE = 28;
+
+// Gesture being tracked by the canvas responder
+interface ActiveGesture {
+  layerId: string;
+  start: LayerPlacement; // Placement when the current finger count began
+  touches: { x: number; y: number }[]; // Page points at that moment
+  current: LayerPlacement;
+  targets: SnapTargets;
+  changed: boolean;
+}
+
+const getPlacement = (layer: LayerPlacement): LayerPlacement => ({
+  position: { ...layer.position },
+  transformations: { ...layer.transformations },
+});
+
+const getTouches = (event: GestureResponderEvent) =>
+  event.nativeEvent.touches.map(touch => ({ x: touch.pageX, y: touch.pageY }));
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+  Math.hypot(b.x - a.x, b.y - a.y);
+
+const angle = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+  (Math.atan2(b.y - a.y, b.x - a.x) * 180) / Math.PI;
+
+// Keep rotation in (-180, 180]
+const normalizeRotation = (rotation: number) => {
+  const wrapped = ((rotation % 360) + 360) % 360;
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+};
+
+/**
+ * LayerTransformOverlay Component
+ *
+ * @param layers - All layers of the project
+ * @param selectedLayerId - Layer showing the handles
+ * @param canvasWidth - Project canvas width in pixels
+ * @param canvasHeight - Project canvas height in pixels
+ * @param onSelectLayer - Called with the tapped layer, or null for empty canvas
+ * @param onTransform - Called while a gesture moves, scales or rotates a layer
+ * @param onTransformEnd - Called once when that gesture ends
+ * @param onLockedTouch - Called once when the user tries to drag a layer whose position is locked
+ */
+const LayerTransformOverlay: React.FC<LayerTransformOverlayProps> = ({
+  layers,
+  selectedLayerId,
+  canvasWidth,
+  canvasHeight,
+  onSelectLayer,
+  onTransform,
+  onTransformEnd,
+  onLockedTouch,
+}) => {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [guides, setGuides] = useState<SnapGuide[]>([]);
+  const [aspectLocked, setAspectLocked] = useState(true);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  // Same fit as LayerCanvas, so canvas pixels line up with what is drawn
+  const viewScale = canvasWidth > 0 && canvasHeight > 0
+    ? Math.min(size.width / canvasWidth, size.height / canvasHeight)
+    : 0;
+  const offsetX = (size.width - canvasWidth * viewScale) / 2;
+  const offsetY = (size.height - canvasHeight * viewScale) / 2;
+
+  // Layers that can be picked on the canvas, topmost first. Groups are
+  // selected from the layer list and then dragged as a whole.
+  const visibleLayers = getVisibleLayers(layers);
+  const placeableLayers = visibleLayers
+    .filter(layer => !layer.isAdjustmentLayer && !layer.isGroupLayer)
+    .sort((a, b) => b.order - a.order);
+  const selectedLayer = visibleLayers.find(layer => layer.id === selectedLayerId && !layer.isAdjustmentLayer) || null;
+
+  const stateRef = useRef({
+    layers,
+    placeableLayers,
+    selectedLayer,
+    viewScale,
+    offsetX,
+    offsetY,
+    canvasWidth,
+    canvasHeight,
+    aspectLocked,
+    onSelectLayer,
+    onTransform,
+    onTransformEnd,
+    onLockedTouch,
+  });
+  stateRef.current = {
+    layers,
+    placeableLayers,
+    selectedLayer,
+    viewScale,
+    offsetX,
+    offsetY,
+    canvasWidth,
+    canvasHeight,
+    aspectLocked,
+    onSelectLayer,
+    onTransform,
+    onTransformEnd,
+    onLockedTouch,
+  };
+
+  const gestureRef = useRef<ActiveGesture | null>(null);
+  const tappedEmptyRef = useRef(false);
+  const lockedDragRef = useRef<string | null>(null); // Locked layer under the finger
+
+  // Where a layer (or everything in a group) sits on the canvas, with the
+  // groups around it moved by their position. Empty groups have no box.
+  const boxOf = (layer: TransformableLayer, placement: LayerPlacement = layer): LayerBox | null => {
+    const { layers: all, placeableLayers: candidates, canvasWidth: width, canvasHeight: height } = stateRef.current;
+
+    if (layer.isGroupLayer) {
+      const contentIds = new Set(getGroupDescendants(all, layer.id).map(l => l.id));
+      const bounds = candidates.filter(l => contentIds.has(l.id)).map(l => getBoxBounds(boxOf(l)!));
+      if (bounds.length === 0) return null;
+
+      const left = Math.min(...bounds.map(b => b.left));
+      const top = Math.min(...bounds.map(b => b.top));
+      const right = Math.max(...bounds.map(b => b.right));
+      const bottom = Math.max(...bounds.map(b => b.bottom));
+      return {
+        cx: (left + right) / 2 + placement.position.x - layer.position.x,
+        cy: (top + bottom) / 2 + placement.position.y - layer.position.y,
+        width: right - left,
+        height: bottom - top,
+        rotation: 0,
+      };
+    }
+
+    const offset = getLayerAncestors(all, layer).reduce(
+      (sum, group) => ({ x: sum.x + group.position.x, y: sum.y + group.position.y }),
+      { x: 0, y: 0 }
+    );
+    return getLayerBox(
+      {
+        ...layer,
+        ...placement,
+        position: { x: placement.position.x + offset.x, y: placement.position.y + offset.y },
+      },
+      width,
+      height
+    );
+  };
+
+  const startGesture = (layer: TransformableLayer, event: GestureResponderEvent) => {
+    const { layers: all, placeableLayers: candidates, canvasWidth: width, canvasHeight: height } = stateRef.current;
+    const moving = new Set([layer.id, ...getGroupDescendants(all, layer.id).map(l => l.id)]);
+    const others = candidates.filter(other => !moving.has(other.id)).map(other => boxOf(other)!);
+    const placement = getPlacement(layer);
+
+    gestureRef.current = {
+      layerId: layer.id,
+      start: placement,
+      touches: getTouches(event),
+      current: placement,
+      targets: getSnapTargets(width, height, others),
+      changed: false,
+    };
+  };
+
+  const updatePlacement = (placement: LayerPlacement) => {
+    const gesture = gestureRef.current!;
+    gesture.current = placement;
+    gesture.changed = true;
+    stateRef.current.onTransform(gesture.layerId, placement);
+  };
+
+  const finishGesture = () => {
+    const gesture = gestureRef.current;
+    gestureRef.current = null;
+    setGuides([]);
+
+    if (gesture?.changed) {
+      stateRef.current.onTransformEnd(gesture.layerId, gesture.current);
+    }
+  };
+
+  // Drag with one finger, pinch and twist with two
+  const moveGesture = (event: GestureResponderEvent) => {
+    const gesture = gestureRef.current;
+    const { viewScale: scale, layers: all } = stateRef.current;
+    const layer = gesture && all.find(candidate => candidate.id === gesture.layerId);
+    if (!gesture || !layer || scale <= 0) return;
+
+    const touches = getTouches(event);
+    if (touches.length === 0) return;
+
+    // Start over from here whenever a finger is added or lifted
+    if (touches.length !== gesture.touches.length) {
+      gesture.start = gesture.current;
+      gesture.touches = touches;
+      setGuides([]);
+      return;
+    }
+
+    const { start } = gesture;
+
+    // Groups are only moved; scale and rotation belong to their layers
+    if (touches.length >= 2 && !layer.isGroupLayer) {
+      const [a0, b0] = gesture.touches;
+      const [a1, b1] = touches;
+      const factor = distance(a1, b1) / Math.max(1, distance(a0, b0));
+      const midX = (a1.x + b1.x - a0.x - b0.x) / 2;
+      const midY = (a1.y + b1.y - a0.y - b0.y) / 2;
+
+      updatePlacement({
+        position: {
+          x: start.position.x + midX / scale,
+          y: start.position.y + midY / scale,
+        },
+        transformations: {
+          ...start.transformations,
+          rotation: normalizeRotation(start.transformations.rotation + angle(a1, b1) - angle(a0, b0)),
+          scaleX: Math.max(MIN_SCALE, start.transformations.scaleX * factor),
+          scaleY: Math.max(MIN_SCALE, start.transformations.scaleY * factor),
+        },
+      });
+      return;
+    }
+
+    const position = {
+      x: start.position.x + (touches[0].x - gesture.touches[0].x) / scale,
+      y: start.position.y + (touches[0].y - gesture.touches[0].y) / scale,
+    };
+    const box = boxOf(layer, { position, transformations: start.transformations });
+    const snap = box ? snapBox(box, gesture.targets, SNAP_DISTANCE / scale) : { dx: 0, dy: 0, guides: [] };
+
+    setGuides(snap.guides);
+    updatePlacement({
+      position: { x: position.x + snap.dx, y: position.y + snap.dy },
+      transformations: start.transformations,
+    });
+  };
+
+  const canvasResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => stateRef.current.viewScale > 0,
+      onMoveShouldSetPanResponder: () => stateRef.current.viewScale > 0,
+      onPanResponderGrant: event => {
+        const { layers: all, placeableLayers: candidates, selectedLayer: selected, viewScale: scale } = stateRef.current;
+        const x = (event.nativeEvent.locationX - stateRef.current.offsetX) / scale;
+        const y = (event.nativeEvent.locationY - stateRef.current.offsetY) / scale;
+
+        // Keep dragging the selected layer (or group) even where another
+        // one overlaps it
+        const selectedBox = selected && boxOf(selected);
+        const hit = selected && selectedBox && isPointInBox(selectedBox, x, y)
+          ? selected
+          : candidates.find(candidate => isPointInBox(boxOf(candidate)!, x, y));
+
+        tappedEmptyRef.current = !hit;
+        if (!hit) return;
+
+        if (hit.id !== selected?.id) {
+          stateRef.current.onSelectLayer(hit.id);
+        }
+        if (getLayerLockState(all, hit).position) {
+          lockedDragRef.current = hit.id;
+        } else {
+          startGesture(hit, event);
+        }
+      },
+      onPanResponderMove: (event, gestureState) => {
+        // Selecting a locked layer is fine; say why dragging it does nothing
+        const lockedId = lockedDragRef.current;
+        if (lockedId && Math.hypot(gestureState.dx, gestureState.dy) >= TAP_SLOP) {
+          lockedDragRef.current = null;
+          stateRef.current.onLockedTouch?.(lockedId);
+        }
+        moveGesture(event);
+      },
+      onPanResponderRelease: (_, gestureState) => {
+        if (tappedEmptyRef.current && Math.hypot(gestureState.dx, gestureState.dy) < TAP_SLOP) {
+          stateRef.current.onSelectLayer(null);
+        }
+        tappedEmptyRef.current = false;
+        lockedDragRef.current = null;
+        finishGesture();
+      },
+      onPanResponderTerminate: () => {
+        tappedEmptyRef.current = false;
+        lockedDragRef.current = null;
+        finishGesture();
+      },
+    })
+  ).current;
+
+  // Corner handles resize around the layer's center
+  const createHandleResponder = (corner: number): PanResponderInstance => {
+    let startBox: LayerBox | null = null;
+    let startCorner = { x: 0, y: 0 };
+
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => {
+        const { layers: all, selectedLayer: layer } = stateRef.current;
+        return !!layer && !layer.isGroupLayer && !getLayerLockState(all, layer).position;
+      },
+      onPanResponderGrant: event => {
+        const layer = stateRef.current.selectedLayer!;
+        startGesture(layer, event);
+        startBox = boxOf(layer);
+        startCorner = getBoxCorners(startBox!)[corner];
+      },
+      onPanResponderMove: (_, gestureState) => {
+        const gesture = gestureRef.current;
+        const { selectedLayer: layer, viewScale: scale, aspectLocked: locked } = stateRef.current;
+        if (!gesture || !layer || !startBox || scale <= 0) return;
+
+        const start = gesture.start.transformations;
+        const finger = toBoxSpace(
+          startBox,
+          startCorner.x + gestureState.dx / scale,
+          startCorner.y + gestureState.dy / scale
+        );
+        const base = getLayerBaseSize(layer, stateRef.current.canvasWidth, stateRef.current.canvasHeight);
+
+        let scaleX: number;
+        let scaleY: number;
+        if (locked) {
+          const factor = Math.hypot(finger.x, finger.y) / Math.max(1, Math.hypot(startBox.width / 2, startBox.height / 2));
+          scaleX = start.scaleX * factor;
+          scaleY = start.scaleY * factor;
+        } else {
+          scaleX = Math.abs(finger.x) / Math.max(1, base.width / 2);
+          scaleY = Math.abs(finger.y) / Math.max(1, base.height / 2);
+        }
+
+        updatePlacement({
+          position: gesture.start.position,
+          transformations: {
+            ...start,
+            scaleX: Math.max(MIN_SCALE, scaleX),
+            scaleY: Math.max(MIN_SCALE, scaleY),
+          },
+        });
+      },
+      onPanResponderRelease: finishGesture,
+      onPanResponderTerminate: finishGesture,
+    });
+  };
+
+  const handleResponders = useRef([0, 1, 2, 3].map(createHandleResponder)).current;
+
+  // Canvas pixels to overlay points
+  const toView = (x: number, y: number) => ({
+    x: offsetX + x * viewScale,
+    y: offsetY + y * viewScale,
+  });
+
+  const selectedLocked = !!selectedLayer && getLayerLockState(layers, selectedLayer).position;
+  const showHandles = !!selectedLayer && !selectedLayer.isGroupLayer && !selectedLocked;
+
+  const renderSelection = () => {
+    if (!selectedLayer || viewScale <= 0) return null;
+
+    const box = boxOf(selectedLayer);
+    if (!box) return null;
+    const center = toView(box.cx, box.cy);
+    const width = box.width * viewScale;
+    const height = box.height * viewScale;
+
+    return (
+      <>
+        <View
+          pointerEvents="none"
+          style={[
+            styles.selectionBox,
+            (selectedLocked || selectedLayer.isGroupLayer) && styles.selectionBoxDashed,
+            selectedLocked && styles.selectionBoxLocked,
+            {
+              left: center.x - width / 2,
+              top: center.y - height / 2,
+              width,
+              height,
+              transform: [{ rotate: `${box.rotation}deg` }],
+            },
+          ]}
+        />
+        {showHandles && getBoxCorners(box).map((corner, index) => {
+          const point = toView(corner.x, corner.y);
+          return (
+            <View
+              key={index}
+              style={[styles.handle, { left: point.x - HANDLE_SIZE / 2, top: point.y - HANDLE_SIZE / 2 }]}
+              {...handleResponders[index].panHandlers}
+            >
+              <View style={styles.handleDot} />
+            </View>
+          );
+        })}
+      </>
+    );
+  };
+
+  return (
+    <View style={StyleSheet.absoluteFill} onLayout={handleLayout} {...canvasResponder.panHandlers}>
+      {guides.map(guide => {
+        const start = toView(0, 0);
+        const end = toView(canvasWidth, canvasHeight);
+        const at = toView(guide.value, guide.value);
+        return (
+          <View
+            key={`${guide.axis}-${guide.value}`}
+            pointerEvents="none"
+            style={[
+              styles.guide,
+              guide.axis === 'x'
+                ? { left: at.x, top: start.y, width: 1, height: end.y - start.y }
+                : { top: at.y, left: start.x, height: 1, width: end.x - start.x },
+            ]}
+          />
+        );
+      })}
+
+      {renderSelection()}
+
+      {showHandles && (
+        <TouchableOpacity
+          style={styles.aspectButton}
+          onPress={() => setAspectLocked(prev => !prev)}
+          activeOpacity={0.8}
+        >
+          {aspectLocked
+            ? <Link2 size={14} color="#FFF" strokeWidth={2} />
+            : <Link2Off size={14} color="#FFF" strokeWidth={2} />}
+          <Text style={styles.aspectButtonText}>{aspectLocked ? 'RATIO' : 'FREE'}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  selectionBox: {
+    position: 'absolute',
+    borderWidth: 1.5,
+    borderColor: '#4A90E2',
+  },
+  selectionBoxDashed: {
+    borderStyle: 'dashed',
+  },
+  selectionBoxLocked: {
+    borderColor: '#999',
+  },
+  handle: {
+    position: 'absolute',
+    width: HANDLE_SIZE,
+    height: HANDLE_SIZE,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  handleDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: '#FFF',
+    borderWidth: 2,
+    borderColor: '#4A90E2',
+  },
+  guide: {
+    position: 'absolute',
+    backgroundColor: '#FF3B9A',
+  },
+  aspectButton: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+  },
+  aspectButtonText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#FFF',
+    letterSpacing: 1,
+    fontFamily: 'geistmono',
+  },
+});
+
+export default LayerTransformOverlay;
@@ -5,13 +5,20 @@ import {
   StyleSheet,
   TouchableOpacity,
   Modal,
+  ScrollView,
 } from 'react-native';
 import { X, ChevronLeft, ChevronRight, Sun, UserX, Trash2, Sparkles, User, Palette } from 'lucide-react-native';
+import { RelightParams } from '../services/apiTypes';
+import RelightControls from './RelightControls';
 
 interface LightingModalProps {
   visible: boolean;
   onClose: () => void;
-  onRelight: (brightness?: number) => void;
+  onRelight: (light: RelightParams) => void;
+  onPreviewRelight?: (light: RelightParams) => Promise<string>; // Resolves to the preview image URI
+  imageUrl?: string | null; // Shown in the relight controls
+  imageWidth?: number;
+  imageHeight?: number;
   onEnhance: (mode: 'denoise' | 'deblur') => void;
   onFaceRestore: () => void;
   onSubjectRemoval: (mode?: 'subject' | 'background') => void;
@@ -38,7 +45,7 @@ const modes: Mode[] = [
     id: 'natural-relighting',
     label: 'Natural Relighting',
     badgeText: 'NATURAL RELIGHTING',
-    instruction: 'Select the point where you want your light source to be positioned, and our AI will relight the entire scene to simulate natural lighting.',
+    instruction: 'Drag the light source to where you want it, pick a preset or fine-tune the light, and our AI will relight the entire scene to simulate natural lighting.',
     options: [
       { id: 'sun', icon: Sun, label: 'Natural Light' },
       { id: 'sparkle-1', icon: Sparkles, label: 'Ambient Light' },
@@ -104,6 +111,10 @@ export default function LightingModal({
   visible, 
   onClose,
   onRelight,
+  onPreviewRelight,
+  imageUrl,
+  imageWidth,
+  imageHeight,
   onEnhance,
   onFaceRestore,
   onSubjectRemoval,
@@ -113,6 +124,7 @@ export default function LightingModal({
   const [selectedModeIndex, setSelectedModeIndex] = useState(0);
   const [showEnhanceButtons, setShowEnhanceButtons] = useState(false);
   const [showSubjectRemovalButtons, setShowSubjectRemovalButtons] = useState(false);
+  const [showRelightControls, setShowRelightControls] = useState(false);
 
   const currentMode = modes[selectedModeIndex];
   const selectedMode = currentMode.id;
@@ -124,6 +136,7 @@ export default function LightingModal({
     setSelectedModeIndex(newIndex);
     setShowEnhanceButtons(false);
     setShowSubjectRemovalButtons(false);
+    setShowRelightControls(false);
   };
 
   const handleNext = () => {
@@ -131,6 +144,7 @@ export default function LightingModal({
     setSelectedModeIndex(newIndex);
     setShowEnhanceButtons(false);
     setShowSubjectRemovalButtons(false);
+    setShowRelightControls(false);
   };
 
   const handleOptionSelect = () => {
@@ -140,6 +154,9 @@ export default function LightingModal({
     } else if (selectedMode === 'subject-removal') {
       // For subject removal mode, show the two buttons (subject removal/background removal)
       setShowSubjectRemovalButtons(true);
+    } else if (selectedMode === 'natural-relighting') {
+      // For relighting, show the light position, presets and sliders
+      setShowRelightControls(true);
     } else {
       // For other modes, directly call the handler
       onClose();
@@ -150,10 +167,6 @@ export default function LightingModal({
         case 'object-removal':
           onObjectRemoval();
           break;
-        case 'natural-relighting':
-          // Use default brightness of 1.5 (can be made configurable later)
-          onRelight(1.5);
-          break;
         case 'style-transfer':
           onStyleTransfer();
           break;
@@ -174,6 +187,12 @@ export default function LightingModal({
     onSubjectRemoval(mode);
   };
 
+  const handleRelightApply = (light: RelightParams) => {
+    onClose();
+    setShowRelightControls(false);
+    onRelight(light);
+  };
+
   return (
     <Modal
       visible={visible}
@@ -206,7 +225,19 @@ export default function LightingModal({
             </View>
           </View>
 
-          {showEnhanceButtons ? (
+          {showRelightControls ? (
+            // Show light position, presets and sliders for relighting
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <RelightControls
+                imageUrl={imageUrl}
+                imageWidth={imageWidth}
+                imageHeight={imageHeight}
+                initialPreset="natural"
+                onPreview={onPreviewRelight}
+                onApply={handleRelightApply}
+              />
+            </ScrollView>
+          ) : showEnhanceButtons ? (
             // Show denoise/deblur buttons for enhance mode
             <View style={styles.enhanceButtonsContainer}>
               <TouchableOpacity
@@ -1,43 +1,57 @@
 /**
  * LiveGLShader Component
- * 
- * SIMPLIFIED VERSION: Uses CSS-style filters as fallback since gl-react is not compatible with React 19.
- * For true GPU acceleration, React would need to be downgraded to v18 or use a different GL library.
- * 
- * This component maintains the same API but uses optimized CSS approximations.
- * 
+ *
+ * Pixel-accurate live preview. The image is decoded once at preview
+ * resolution into an RGBA buffer, run through utils/filterPipeline and drawn
+ * with Skia. Export uses the same pipeline at full resolution, so the preview
+ * matches the shared image.
+ *
  * Filters implemented:
  * - Brightness: -50 to 50
- * - Contrast: -50 to 50
+ * - Contrast: -100 to 100
  * - Saturation: -50 to 50
- * - Temperature/White Balance: -50 to 50
- * - Sharpen: -50 to 50 (approximated)
- * - Noise/Grain: 0 to 50 (not implemented in CSS)
+ * - Temperature/White Balance: -50 to 50 (warmth is folded in)
+ * - Sharpen: -50 to 50
+ * - Grain: 0 to 50
  * - Black Lift: -50 to 50
+ * - Shadows: -50 to 50
+ * - Highlights: -50 to 50
  */
 
-import React, { useState } from 'react';
-import { View, StyleSheet, Image } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, Image, PixelRatio } from 'react-native';
+import { Canvas, Fit, Image as SkiaImage, SkImage } from '@shopify/react-native-skia';
+import { RGBABitmap, loadBitmap, bitmapToSkImage } from '../utils/bitmap';
+import { applyFilterPipeline, hasActiveFilterValues } from '../utils/filterPipeline';
 
-/**
- * CSS Filter approximations
- * These are optimized CSS implementations while we wait for React 19 compatible GL library
- */
+// Longest edge of the preview bitmap. Keeps slider updates responsive on
+// large photos while staying sharp on high density screens.
+const MAX_PREVIEW_EDGE = 1440;
+
+export type GLResizeMode = 'cover' | 'contain' | 'stretch' | 'center';
+
+// React Native resize modes as Skia fits
+const SKIA_FITS: Record<GLResizeMode, Fit> = {
+  cover: 'cover',
+  contain: 'contain',
+  stretch: 'fill',
+  center: 'none',
+};
 
 /**
  * Filter values interface matching the UI sliders
  */
 export interface GLFilterValues {
   brightness: number;    // -50 to 50
-  contrast: number;      // -50 to 50
+  contrast: number;      // -100 to 100
   saturation: number;    // -50 to 50
   temperature: number;   // -50 to 50 (warmth/white balance)
   sharpen: number;       // -50 to 50
   noise: number;         // 0 to 50
   blackLift: number;     // -50 to 50
-  shadows: number;       // -50 to 50 (legacy, maps to blackLift)
-  highlights: number;    // -50 to 50 (legacy, not implemented yet)
-  warmth: number;        // -50 to 50 (legacy, maps to temperature)
+  shadows: number;       // -50 to 50
+  highlights: number;    // -50 to 50
+  warmth: number;        // -50 to 50 (legacy, added to temperature)
 }
 
 interface LiveGLShaderProps {
@@ -45,102 +59,94 @@ interface LiveGLShaderProps {
   filters: Partial<GLFilterValues>;
   width: number;
   height: number;
+  resizeMode?: GLResizeMode;
   style?: any;
 }
 
 /**
- * LiveGLShader Component - CSS Fallback Version
- * 
- * Note: Using CSS approximations since gl-react is not compatible with React 19.
- * For true GPU acceleration, consider downgrading to React 18 or waiting for
- * React 19 compatible GL libraries.
- * 
+ * LiveGLShader Component
+ *
  * @param imageUri - URI of the image to filter
- * @param filters - Filter values from UI sliders (-50 to 50 range)
+ * @param filters - Filter values from UI sliders
  * @param width - Surface width in pixels
  * @param height - Surface height in pixels
+ * @param resizeMode - How the image fills the surface (default 'contain')
  * @param style - Additional React Native styles
  */
-const LiveGLShader: React.FC<LiveGLShaderProps> = ({ 
-  imageUri, 
-  filters, 
-  width, 
+const LiveGLShader: React.FC<LiveGLShaderProps> = ({
+  imageUri,
+  filters,
+  width,
   height,
-  style 
+  resizeMode = 'contain',
+  style
 }) => {
-  // Map UI filter values
-  const brightness = filters.brightness || 0;
-  const contrast = filters.contrast || 0;
-  const saturation = filters.saturation || 0;
-  const temperature = filters.temperature !== undefined ? filters.temperature : (filters.warmth || 0);
-  const sharpen = filters.sharpen || 0;
-  const blackLift = filters.blackLift !== undefined ? filters.blackLift : (filters.shadows || 0);
-  
-  // Calculate brightness multiplier
-  const brightnessMultiplier = 1 + (brightness / 100);
-  
+  const [source, setSource] = useState<RGBABitmap | null>(null);
+  const [preview, setPreview] = useState<SkImage | null>(null);
+
+  const previewEdge = Math.min(
+    MAX_PREVIEW_EDGE,
+    Math.round(Math.max(width, height) * PixelRatio.get())
+  );
+
+  // Decode the source image once per URI / preview size
+  useEffect(() => {
+    let cancelled = false;
+    setSource(null);
+    setPreview(null);
+
+    loadBitmap(imageUri, previewEdge)
+      .then(bitmap => {
+        if (!cancelled) {
+          setSource(bitmap);
+        }
+      })
+      .catch(error => {
+        // Fall back to the unfiltered image
+        console.warn('LiveGLShader: failed to decode preview bitmap:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUri, previewEdge]);
+
+  // Re-run the pipeline when filters change. Deferred so rapid slider
+  // updates within the same tick only render once.
+  useEffect(() => {
+    if (!source) return;
+
+    const timer = setTimeout(() => {
+      try {
+        // Untouched sliders show the decoded image as is
+        setPreview(bitmapToSkImage(hasActiveFilterValues(filters) ? applyFilterPipeline(source, filters) : source));
+      } catch (error) {
+        console.warn('LiveGLShader: failed to apply filters:', error);
+      }
+    }, 0);
+
+    return () => clearTimeout(timer);
+  }, [source, filters]);
+
   return (
     <View style={[styles.container, style, { width, height }]}>
-      {/* Base Image */}
-      <Image
-        source={{ uri: imageUri }}
-        style={[
-          styles.baseImage,
-          { opacity: Math.max(0.3, Math.min(1, brightnessMultiplier)) }
-        ]}
-        resizeMode="contain"
-      />
-      
-      {/* Brightness overlays */}
-      {brightness > 0 && (
-        <View style={[styles.overlay, { backgroundColor: '#ffffff', opacity: brightness / 200 }]} />
-      )}
-      {brightness < 0 && (
-        <View style={[styles.overlay, { backgroundColor: '#000000', opacity: Math.abs(brightness) / 100 }]} />
-      )}
-      
-      {/* Contrast overlays */}
-      {contrast > 0 && (
-        <View style={[styles.overlay, { backgroundColor: '#000000', opacity: contrast / 400 }]} />
-      )}
-      {contrast < 0 && (
-        <View style={[styles.overlay, { backgroundColor: '#808080', opacity: Math.abs(contrast) / 200 }]} />
-      )}
-      
-      {/* Saturation overlays */}
-      {saturation < 0 && (
-        <View style={[styles.overlay, { backgroundColor: '#808080', opacity: Math.abs(saturation) / 50 }]} />
-      )}
-      {saturation > 0 && (
-        <>
-          <View style={[styles.overlay, { backgroundColor: '#000000', opacity: saturation / 300 }]} />
-          <View style={[styles.overlay, { backgroundColor: '#FF4500', opacity: saturation / 600 }]} />
-          <View style={[styles.overlay, { backgroundColor: '#00CED1', opacity: saturation / 800 }]} />
-        </>
-      )}
-      
-      {/* Temperature/Warmth overlays */}
-      {temperature > 0 && (
-        <View style={[styles.overlay, { backgroundColor: '#FFA500', opacity: temperature / 150 }]} />
-      )}
-      {temperature < 0 && (
-        <View style={[styles.overlay, { backgroundColor: '#00BFFF', opacity: Math.abs(temperature) / 150 }]} />
-      )}
-      
-      {/* Black Lift overlay */}
-      {blackLift > 0 && (
-        <View style={[styles.overlay, { backgroundColor: '#404040', opacity: blackLift / 100 }]} />
-      )}
-      {blackLift < 0 && (
-        <View style={[styles.overlay, { backgroundColor: '#000000', opacity: Math.abs(blackLift) / 100 }]} />
-      )}
-      
-      {/* Sharpen approximation */}
-      {sharpen > 0 && (
-        <View style={[styles.overlay, { backgroundColor: '#000000', opacity: sharpen / 400 }]} />
-      )}
-      {sharpen < 0 && (
-        <View style={[styles.overlay, { backgroundColor: '#FFFFFF', opacity: Math.abs(sharpen) / 200 }]} />
+      {preview ? (
+        <Canvas style={styles.baseImage}>
+          <SkiaImage
+            image={preview}
+            x={0}
+            y={0}
+            width={width}
+            height={height}
+            fit={SKIA_FITS[resizeMode]}
+          />
+        </Canvas>
+      ) : (
+        <Image
+          source={{ uri: imageUri }}
+          style={styles.baseImage}
+          resizeMode={resizeMode}
+        />
       )}
     </View>
   );
@@ -155,13 +161,6 @@ const styles = StyleSheet.create({
     width: '100%',
     height: '100%',
   },
-  overlay: {
-    position: 'absolute',
-    top: 0,
-    left: 0,
-    right: 0,
-    bottom: 0,
-  },
 });
 
 export default LiveGLShader;
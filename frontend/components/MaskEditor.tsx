@@ -0,0 +1,554 @@
+/**
+ * MaskEditor Component
+ *
+ * Full screen editor for a layer mask. The layer is shown with a red
+ * overlay on the parts the mask hides; painting with the Reveal brush shows
+ * the layer, the Hide brush hides it. Feather softens the mask edges and
+ * Invert swaps shown and hidden areas. "From Background Removal" starts
+ * over from an AI cut-out of the layer.
+ *
+ * The mask is rendered at image resolution (utils/layerMask) and handed to
+ * onSave as a PNG file; uploading it is up to the parent.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  Switch,
+  PanResponder,
+  ActivityIndicator,
+  LayoutChangeEvent,
+  GestureResponderEvent,
+} from 'react-native';
+import Slider from '@react-native-community/slider';
+import { Canvas, Picture, Skia, SkImage, createPicture } from '@shopify/react-native-skia';
+import { X, Brush, Eraser, Undo2, RotateCcw, Wand2 } from 'lucide-react-native';
+import CustomAlert from './CustomAlert';
+import { useAlert } from '../hooks/useAlert';
+import { loadSkImage } from '../utils/bitmap';
+import { getFittedLayerRect } from '../utils/compositor';
+import {
+  MaskBrushMode,
+  MaskStroke,
+  alphaToMaskImage,
+  drawMaskOverlay,
+  getMaskSize,
+  renderMaskToFile,
+} from '../utils/layerMask';
+
+interface MaskEditorProps {
+  visible: boolean;
+  imageUrl: string;
+  maskUrl?: string | null;
+  onClose: () => void;
+  onSave: (maskUri: string) => Promise<void>;
+  onRemoveMask: () => Promise<void>;
+  onRequestCutout: () => Promise<string>; // Resolves to a transparent PNG of the layer
+}
+
+const OVERLAY_COLOR = 'rgba(255, 59, 48, 0.5)';
+
+/**
+ * MaskEditor Component
+ *
+ * @param visible - Whether the editor is open
+ * @param imageUrl - Layer image
+ * @param maskUrl - Current mask of the layer, if any
+ * @param onClose - Close without saving
+ * @param onSave - Receives the rendered mask PNG (file:// URI)
+ * @param onRemoveMask - Remove the layer's mask
+ * @param onRequestCutout - Run background removal on the layer image
+ */
+export default function MaskEditor({
+  visible,
+  imageUrl,
+  maskUrl,
+  onClose,
+  onSave,
+  onRemoveMask,
+  onRequestCutout,
+}: MaskEditorProps) {
+  const [image, setImage] = useState<SkImage | null>(null);
+  const [baseMask, setBaseMask] = useState<SkImage | null>(null);
+  const [strokes, setStrokes] = useState<MaskStroke[]>([]);
+  const [activeStroke, setActiveStroke] = useState<MaskStroke | null>(null);
+  const [brushMode, setBrushMode] = useState<MaskBrushMode>('hide');
+  const [brushSize, setBrushSize] = useState(60);
+  const [feather, setFeather] = useState(0);
+  const [invert, setInvert] = useState(false);
+  const [busy, setBusy] = useState<'loading' | 'cutout' | 'saving' | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const { alertState, showAlert, hideAlert } = useAlert();
+
+  // Start from the layer's current mask each time the editor opens
+  useEffect(() => {
+    if (!visible) return;
+
+    let cancelled = false;
+    setImage(null);
+    setBaseMask(null);
+    setStrokes([]);
+    setActiveStroke(null);
+    setFeather(0);
+    setInvert(false);
+    setBusy('loading');
+
+    Promise.all([
+      loadSkImage(imageUrl),
+      maskUrl ? loadSkImage(maskUrl) : Promise.resolve(null),
+    ])
+      .then(([layerImage, mask]) => {
+        if (cancelled) return;
+        setImage(layerImage);
+        setBaseMask(mask);
+      })
+      .catch(error => console.warn('MaskEditor: failed to load layer:', error))
+      .finally(() => {
+        if (!cancelled) setBusy(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, imageUrl, maskUrl]);
+
+  // Where the layer image sits inside the preview
+  const imageRect = useMemo(() => {
+    if (!image || size.width === 0 || size.height === 0) return null;
+    return getFittedLayerRect(image.width(), image.height(), size.width, size.height);
+  }, [image, size]);
+
+  const strokeRef = useRef<MaskStroke | null>(null);
+  const brushRef = useRef({ mode: brushMode, size: brushSize });
+  brushRef.current = { mode: brushMode, size: brushSize };
+  const rectRef = useRef(imageRect);
+  rectRef.current = imageRect;
+
+  const toImagePoint = (event: GestureResponderEvent) => {
+    const rect = rectRef.current!;
+    const { locationX, locationY } = event.nativeEvent;
+    return {
+      x: Math.max(0, Math.min(1, (locationX - rect.x) / rect.width)),
+      y: Math.max(0, Math.min(1, (locationY - rect.y) / rect.height)),
+    };
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => rectRef.current !== null,
+      onMoveShouldSetPanResponder: () => rectRef.current !== null,
+      onPanResponderGrant: event => {
+        strokeRef.current = { ...brushRef.current, points: [toImagePoint(event)] };
+        setActiveStroke(strokeRef.current);
+      },
+      onPanResponderMove: event => {
+        if (!strokeRef.current) return;
+        strokeRef.current = {
+          ...strokeRef.current,
+          points: [...strokeRef.current.points, toImagePoint(event)],
+        };
+        setActiveStroke(strokeRef.current);
+      },
+      onPanResponderRelease: () => {
+        const stroke = strokeRef.current;
+        strokeRef.current = null;
+        setActiveStroke(null);
+        if (stroke) {
+          setStrokes(prev => [...prev, stroke]);
+        }
+      },
+      onPanResponderTerminate: () => {
+        strokeRef.current = null;
+        setActiveStroke(null);
+      },
+    })
+  ).current;
+
+  const picture = useMemo(() => {
+    if (!image || !imageRect) return null;
+
+    const allStrokes = activeStroke ? [...strokes, activeStroke] : strokes;
+    return createPicture(canvas => {
+      canvas.drawImageRect(
+        image,
+        Skia.XYWHRect(0, 0, image.width(), image.height()),
+        imageRect,
+        Skia.Paint()
+      );
+      drawMaskOverlay(canvas, imageRect, baseMask, allStrokes, { feather, invert }, OVERLAY_COLOR);
+    }, size);
+  }, [image, imageRect, baseMask, strokes, activeStroke, feather, invert, size]);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  const handleReset = () => {
+    setBaseMask(null);
+    setStrokes([]);
+    setInvert(false);
+  };
+
+  const handleCutout = async () => {
+    if (!image) return;
+
+    setBusy('cutout');
+    let cutoutUri: string | null = null;
+    try {
+      cutoutUri = await onRequestCutout();
+      const cutout = await loadSkImage(cutoutUri);
+      const { width, height } = getMaskSize(image.width(), image.height());
+      setBaseMask(alphaToMaskImage(cutout, width, height));
+      setStrokes([]);
+      setInvert(false);
+    } catch (error: any) {
+      // Background removal errors are shown by onRequestCutout
+      if (cutoutUri) {
+        console.error('[MaskEditor] Failed to read cut-out:', error);
+        showAlert('error', 'Error', error.message || 'Failed to read the cut-out');
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!image) return;
+
+    setBusy('saving');
+    let maskUri: string | null = null;
+    try {
+      const { width, height } = getMaskSize(image.width(), image.height());
+      maskUri = renderMaskToFile(width, height, baseMask, strokes, { feather, invert });
+      await onSave(maskUri);
+    } catch (error: any) {
+      // Upload errors are shown by onSave
+      if (!maskUri) {
+        console.error('[MaskEditor] Failed to render mask:', error);
+        showAlert('error', 'Error', error.message || 'Failed to render mask');
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRemove = async () => {
+    setBusy('saving');
+    try {
+      await onRemoveMask();
+    } catch {
+      // Shown by onRemoveMask; the editor stays open
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const canEdit = image !== null && busy === null;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity
+            onPress={onClose}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <X size={24} color="#FFF" strokeWidth={2} />
+          </TouchableOpacity>
+          <View style={styles.badge}>
+            <Text style={styles.badgeText}>EDIT MASK</Text>
+          </View>
+          <TouchableOpacity
+            onPress={handleSave}
+            disabled={!canEdit}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Text style={[styles.saveText, !canEdit && styles.disabledText]}>
+              {busy === 'saving' ? 'Saving...' : 'Save'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Preview: red marks the hidden parts of the layer */}
+        <View style={styles.preview} onLayout={handleLayout} {...panResponder.panHandlers}>
+          {picture && (
+            <Canvas style={styles.canvas} pointerEvents="none">
+              <Picture picture={picture} />
+            </Canvas>
+          )}
+          {(busy === 'loading' || busy === 'cutout') && (
+            <View style={styles.busyOverlay} pointerEvents="none">
+              <ActivityIndicator size="large" color="#FFF" />
+              {busy === 'cutout' && <Text style={styles.busyText}>Removing background...</Text>}
+            </View>
+          )}
+        </View>
+
+        <View style={styles.controls}>
+          <View style={styles.chipRow}>
+            <TouchableOpacity
+              style={[styles.chip, brushMode === 'reveal' && styles.chipActive]}
+              onPress={() => setBrushMode('reveal')}
+              activeOpacity={0.8}
+            >
+              <Brush size={16} color={brushMode === 'reveal' ? '#FFF' : '#000'} />
+              <Text style={[styles.chipText, brushMode === 'reveal' && styles.chipTextActive]}>Reveal</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.chip, brushMode === 'hide' && styles.chipActive]}
+              onPress={() => setBrushMode('hide')}
+              activeOpacity={0.8}
+            >
+              <Eraser size={16} color={brushMode === 'hide' ? '#FFF' : '#000'} />
+              <Text style={[styles.chipText, brushMode === 'hide' && styles.chipTextActive]}>Hide</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.iconChip}
+              onPress={() => setStrokes(prev => prev.slice(0, -1))}
+              disabled={strokes.length === 0}
+              activeOpacity={0.8}
+            >
+              <Undo2 size={18} color={strokes.length === 0 ? '#AAA' : '#000'} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.iconChip} onPress={handleReset} activeOpacity={0.8}>
+              <RotateCcw size={18} color="#000" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionLabel}>Brush Size</Text>
+            <Text style={styles.sectionValue}>{brushSize}</Text>
+          </View>
+          <Slider
+            style={styles.slider}
+            minimumValue={5}
+            maximumValue={200}
+            step={1}
+            value={brushSize}
+            onValueChange={setBrushSize}
+            minimumTrackTintColor="#000"
+            maximumTrackTintColor="#BBB"
+            thumbTintColor="#000"
+          />
+
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionLabel}>Feather</Text>
+            <Text style={styles.sectionValue}>{feather}</Text>
+          </View>
+          <Slider
+            style={styles.slider}
+            minimumValue={0}
+            maximumValue={50}
+            step={1}
+            value={feather}
+            onSlidingComplete={setFeather}
+            minimumTrackTintColor="#000"
+            maximumTrackTintColor="#BBB"
+            thumbTintColor="#000"
+          />
+
+          <View style={styles.switchRow}>
+            <Text style={styles.sectionLabel}>Invert</Text>
+            <Switch
+              value={invert}
+              onValueChange={setInvert}
+              trackColor={{ false: '#BBB', true: '#000' }}
+            />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.actionButton, !canEdit && styles.actionButtonDisabled]}
+            onPress={handleCutout}
+            disabled={!canEdit}
+            activeOpacity={0.8}
+          >
+            <Wand2 size={18} color="#FFF" />
+            <Text style={styles.actionButtonText}>From Background Removal</Text>
+          </TouchableOpacity>
+
+          {maskUrl && (
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={handleRemove}
+              disabled={busy !== null}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.removeButtonText}>Remove Mask</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      <CustomAlert
+        visible={alertState.visible}
+        type={alertState.type}
+        title={alertState.title}
+        message={alertState.message}
+        onClose={hideAlert}
+      />
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1A1A1A',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 56,
+    paddingBottom: 12,
+    paddingHorizontal: 20,
+  },
+  badge: {
+    backgroundColor: '#4A4A4A',
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+    borderRadius: 16,
+  },
+  badgeText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#E8E8E8',
+    letterSpacing: 1.2,
+    fontFamily: 'geistmono',
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFF',
+    fontFamily: 'geistmono',
+  },
+  disabledText: {
+    opacity: 0.4,
+  },
+  preview: {
+    flex: 1,
+    margin: 12,
+  },
+  canvas: {
+    flex: 1,
+  },
+  busyOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  busyText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: '#FFF',
+    fontFamily: 'geistmono',
+  },
+  controls: {
+    backgroundColor: '#E8E8E8',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingTop: 20,
+    paddingBottom: 40,
+    paddingHorizontal: 24,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    flex: 1,
+    flexDirection: 'row',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#FFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  chipActive: {
+    backgroundColor: '#000',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+    fontFamily: 'geistmono',
+  },
+  chipTextActive: {
+    color: '#FFF',
+  },
+  iconChip: {
+    width: 44,
+    borderRadius: 12,
+    backgroundColor: '#FFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    fontFamily: 'geistmono',
+  },
+  sectionValue: {
+    fontSize: 14,
+    color: '#333',
+    fontFamily: 'geistmono',
+  },
+  slider: {
+    width: '100%',
+    height: 40,
+    marginBottom: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    gap: 8,
+    backgroundColor: '#000',
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  actionButtonDisabled: {
+    opacity: 0.6,
+  },
+  actionButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFF',
+    fontFamily: 'geistmono',
+  },
+  removeButton: {
+    marginTop: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  removeButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#D32F2F',
+    fontFamily: 'geistmono',
+  },
+});
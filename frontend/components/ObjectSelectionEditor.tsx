@@ -0,0 +1,550 @@
+/**
+ * ObjectSelectionEditor Component
+ *
+ * Full screen editor for selecting what object removal should remove, for
+ * objects a single tap doesn't catch (thin wires, several separate things).
+ * Brush paints over the object, Lasso draws around it, Points marks the
+ * object (+) and what to keep (-), and Box frames it. The selection is
+ * previewed as a translucent red overlay.
+ *
+ * The painted part is rendered as a mask at image resolution and the points
+ * and box are converted to image pixels (utils/objectSelection); sending
+ * them is up to the parent.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  PanResponder,
+  ActivityIndicator,
+  LayoutChangeEvent,
+  GestureResponderEvent,
+} from 'react-native';
+import Slider from '@react-native-community/slider';
+import { Canvas, Picture, Skia, SkImage, createPicture } from '@shopify/react-native-skia';
+import { X, Brush, Lasso, Crosshair, SquareDashed, Undo2, RotateCcw, Plus, Minus, Eraser } from 'lucide-react-native';
+import CustomAlert from './CustomAlert';
+import { useAlert } from '../hooks/useAlert';
+import { ObjectSelectionPrompts } from '../services/apiTypes';
+import { loadSkImage } from '../utils/bitmap';
+import { getFittedLayerRect } from '../utils/compositor';
+import { getMaskSize } from '../utils/layerMask';
+import {
+  SelectionItem,
+  SelectionTool,
+  canRemoveSelection,
+  drawSelectionOverlay,
+  getSelectionPrompts,
+  hasPaintedSelection,
+  renderSelectionMaskToFile,
+} from '../utils/objectSelection';
+
+interface ObjectSelectionEditorProps {
+  visible: boolean;
+  imageUrl: string;
+  onClose: () => void;
+  onRemove: (prompts: ObjectSelectionPrompts, maskUri: string | null) => Promise<void>;
+}
+
+const OVERLAY_COLOR = '#FF3B30';
+const OVERLAY_OPACITY = 0.5;
+const MIN_BOX_SIZE = 0.01; // Of the image, so a stray tap doesn't make a box
+
+const TOOLS: { value: SelectionTool; label: string; Icon: typeof Brush }[] = [
+  { value: 'brush', label: 'Brush', Icon: Brush },
+  { value: 'lasso', label: 'Lasso', Icon: Lasso },
+  { value: 'points', label: 'Points', Icon: Crosshair },
+  { value: 'box', label: 'Box', Icon: SquareDashed },
+];
+
+const TOOL_HINTS: Record<SelectionTool, string> = {
+  brush: 'Paint over the object',
+  lasso: 'Draw around the object',
+  points: 'Tap the object, or tap what to keep',
+  box: 'Drag a box around the object',
+};
+
+/**
+ * ObjectSelectionEditor Component
+ *
+ * @param visible - Whether the editor is open
+ * @param imageUrl - Image to remove an object from
+ * @param onClose - Close without removing anything
+ * @param onRemove - Receives the points and box in image pixels, and the painted mask PNG (file:// URI) if any
+ */
+export default function ObjectSelectionEditor({
+  visible,
+  imageUrl,
+  onClose,
+  onRemove,
+}: ObjectSelectionEditorProps) {
+  const [image, setImage] = useState<SkImage | null>(null);
+  const [items, setItems] = useState<SelectionItem[]>([]);
+  const [activeItem, setActiveItem] = useState<SelectionItem | null>(null);
+  const [tool, setTool] = useState<SelectionTool>('brush');
+  const [positivePoints, setPositivePoints] = useState(true);
+  const [brushSize, setBrushSize] = useState(40);
+  const [busy, setBusy] = useState<'loading' | 'removing' | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const { alertState, showAlert, hideAlert } = useAlert();
+
+  // Start with an empty selection each time the editor opens
+  useEffect(() => {
+    if (!visible) return;
+
+    let cancelled = false;
+    setImage(null);
+    setItems([]);
+    setActiveItem(null);
+    setBusy('loading');
+
+    loadSkImage(imageUrl)
+      .then(loaded => {
+        if (!cancelled) setImage(loaded);
+      })
+      .catch(error => console.warn('ObjectSelectionEditor: failed to load image:', error))
+      .finally(() => {
+        if (!cancelled) setBusy(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, imageUrl]);
+
+  // Where the image sits inside the preview
+  const imageRect = useMemo(() => {
+    if (!image || size.width === 0 || size.height === 0) return null;
+    return getFittedLayerRect(image.width(), image.height(), size.width, size.height);
+  }, [image, size]);
+
+  const itemRef = useRef<SelectionItem | null>(null);
+  const startRef = useRef({ x: 0, y: 0 });
+  const toolRef = useRef({ tool, positive: positivePoints, size: brushSize });
+  toolRef.current = { tool, positive: positivePoints, size: brushSize };
+  const rectRef = useRef(imageRect);
+  rectRef.current = imageRect;
+
+  const toImagePoint = (event: GestureResponderEvent) => {
+    const rect = rectRef.current!;
+    const { locationX, locationY } = event.nativeEvent;
+    return {
+      x: Math.max(0, Math.min(1, (locationX - rect.x) / rect.width)),
+      y: Math.max(0, Math.min(1, (locationY - rect.y) / rect.height)),
+    };
+  };
+
+  const setActive = (item: SelectionItem | null) => {
+    itemRef.current = item;
+    setActiveItem(item);
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => rectRef.current !== null,
+      onMoveShouldSetPanResponder: () => rectRef.current !== null,
+      onPanResponderGrant: event => {
+        const point = toImagePoint(event);
+        const current = toolRef.current;
+        startRef.current = point;
+
+        if (current.tool === 'brush') {
+          setActive({ kind: 'brush', size: current.size, points: [point] });
+        } else if (current.tool === 'lasso') {
+          setActive({ kind: 'lasso', points: [point] });
+        } else if (current.tool === 'points') {
+          setActive({ kind: 'point', ...point, positive: current.positive });
+        } else {
+          setActive({ kind: 'box', ...point, width: 0, height: 0 });
+        }
+      },
+      onPanResponderMove: event => {
+        const item = itemRef.current;
+        if (!item) return;
+
+        const point = toImagePoint(event);
+        if (item.kind === 'brush' || item.kind === 'lasso') {
+          setActive({ ...item, points: [...item.points, point] });
+        } else if (item.kind === 'point') {
+          // Let the point be nudged into place before letting go
+          setActive({ ...item, ...point });
+        } else {
+          const start = startRef.current;
+          setActive({
+            kind: 'box',
+            x: Math.min(start.x, point.x),
+            y: Math.min(start.y, point.y),
+            width: Math.abs(point.x - start.x),
+            height: Math.abs(point.y - start.y),
+          });
+        }
+      },
+      onPanResponderRelease: () => {
+        const item = itemRef.current;
+        setActive(null);
+        if (!item) return;
+
+        if (item.kind === 'lasso' && item.points.length < 3) return;
+        if (item.kind === 'box') {
+          if (item.width < MIN_BOX_SIZE || item.height < MIN_BOX_SIZE) return;
+          // There is one box; a new one replaces it
+          setItems(prev => [...prev.filter(i => i.kind !== 'box'), item]);
+          return;
+        }
+        setItems(prev => [...prev, item]);
+      },
+      onPanResponderTerminate: () => {
+        setActive(null);
+      },
+    })
+  ).current;
+
+  const picture = useMemo(() => {
+    if (!image || !imageRect) return null;
+
+    const allItems = activeItem ? [...items, activeItem] : items;
+    return createPicture(canvas => {
+      canvas.drawImageRect(
+        image,
+        Skia.XYWHRect(0, 0, image.width(), image.height()),
+        imageRect,
+        Skia.Paint()
+      );
+      drawSelectionOverlay(canvas, imageRect, allItems, OVERLAY_COLOR, OVERLAY_OPACITY);
+    }, size);
+  }, [image, imageRect, items, activeItem, size]);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  const handleRemove = async () => {
+    if (!image) return;
+
+    setBusy('removing');
+    let rendered = false;
+    try {
+      let maskUri: string | null = null;
+      if (hasPaintedSelection(items)) {
+        const { width, height } = getMaskSize(image.width(), image.height());
+        maskUri = renderSelectionMaskToFile(width, height, items);
+      }
+      const prompts = getSelectionPrompts(items, image.width(), image.height());
+      rendered = true;
+      await onRemove(prompts, maskUri);
+    } catch (error: any) {
+      // Object removal errors are shown by onRemove
+      if (!rendered) {
+        console.error('[ObjectSelectionEditor] Failed to render selection:', error);
+        showAlert('error', 'Error', error.message || 'Failed to render selection');
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const canRemove = image !== null && busy === null && canRemoveSelection(items);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity
+            onPress={onClose}
+            disabled={busy === 'removing'}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <X size={24} color="#FFF" strokeWidth={2} />
+          </TouchableOpacity>
+          <View style={styles.badge}>
+            <Text style={styles.badgeText}>SELECT OBJECT</Text>
+          </View>
+          <TouchableOpacity
+            onPress={handleRemove}
+            disabled={!canRemove}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Text style={[styles.removeText, !canRemove && styles.disabledText]}>
+              {busy === 'removing' ? 'Removing...' : 'Remove'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Preview: red marks what will be removed */}
+        <View style={styles.preview} onLayout={handleLayout} {...panResponder.panHandlers}>
+          {picture && (
+            <Canvas style={styles.canvas} pointerEvents="none">
+              <Picture picture={picture} />
+            </Canvas>
+          )}
+          {busy !== null && (
+            <View style={styles.busyOverlay} pointerEvents="none">
+              <ActivityIndicator size="large" color="#FFF" />
+              {busy === 'removing' && <Text style={styles.busyText}>Removing object...</Text>}
+            </View>
+          )}
+        </View>
+
+        <View style={styles.controls}>
+          <View style={styles.chipRow}>
+            {TOOLS.map(({ value, label, Icon }) => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.chip, tool === value && styles.chipActive]}
+                onPress={() => setTool(value)}
+                activeOpacity={0.8}
+              >
+                <Icon size={16} color={tool === value ? '#FFF' : '#000'} />
+                <Text style={[styles.chipText, tool === value && styles.chipTextActive]}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.hintRow}>
+            <Text style={styles.hintText}>{TOOL_HINTS[tool]}</Text>
+            <View style={styles.iconRow}>
+              <TouchableOpacity
+                style={styles.iconChip}
+                onPress={() => setItems(prev => prev.slice(0, -1))}
+                disabled={items.length === 0}
+                activeOpacity={0.8}
+              >
+                <Undo2 size={18} color={items.length === 0 ? '#AAA' : '#000'} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.iconChip}
+                onPress={() => setItems([])}
+                disabled={items.length === 0}
+                activeOpacity={0.8}
+              >
+                <RotateCcw size={18} color={items.length === 0 ? '#AAA' : '#000'} />
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {tool === 'brush' && (
+            <>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionLabel}>Brush Size</Text>
+                <Text style={styles.sectionValue}>{brushSize}</Text>
+              </View>
+              <Slider
+                style={styles.slider}
+                minimumValue={5}
+                maximumValue={200}
+                step={1}
+                value={brushSize}
+                onValueChange={setBrushSize}
+                minimumTrackTintColor="#000"
+                maximumTrackTintColor="#BBB"
+                thumbTintColor="#000"
+              />
+            </>
+          )}
+
+          {tool === 'points' && (
+            <View style={styles.chipRow}>
+              <TouchableOpacity
+                style={[styles.chip, positivePoints && styles.chipActive]}
+                onPress={() => setPositivePoints(true)}
+                activeOpacity={0.8}
+              >
+                <Plus size={16} color={positivePoints ? '#FFF' : '#000'} />
+                <Text style={[styles.chipText, positivePoints && styles.chipTextActive]}>Object</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.chip, !positivePoints && styles.chipActive]}
+                onPress={() => setPositivePoints(false)}
+                activeOpacity={0.8}
+              >
+                <Minus size={16} color={!positivePoints ? '#FFF' : '#000'} />
+                <Text style={[styles.chipText, !positivePoints && styles.chipTextActive]}>Keep</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={[styles.actionButton, !canRemove && styles.actionButtonDisabled]}
+            onPress={handleRemove}
+            disabled={!canRemove}
+            activeOpacity={0.8}
+          >
+            <Eraser size={18} color="#FFF" />
+            <Text style={styles.actionButtonText}>Remove Selection</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <CustomAlert
+        visible={alertState.visible}
+        type={alertState.type}
+        title={alertState.title}
+        message={alertState.message}
+        onClose={hideAlert}
+      />
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1A1A1A',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 56,
+    paddingBottom: 12,
+    paddingHorizontal: 20,
+  },
+  badge: {
+    backgroundColor: '#4A4A4A',
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+    borderRadius: 16,
+  },
+  badgeText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#E8E8E8',
+    letterSpacing: 1.2,
+    fontFamily: 'geistmono',
+  },
+  removeText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFF',
+    fontFamily: 'geistmono',
+  },
+  disabledText: {
+    opacity: 0.4,
+  },
+  preview: {
+    flex: 1,
+    margin: 12,
+  },
+  canvas: {
+    flex: 1,
+  },
+  busyOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  busyText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: '#FFF',
+    fontFamily: 'geistmono',
+  },
+  controls: {
+    backgroundColor: '#E8E8E8',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingTop: 20,
+    paddingBottom: 40,
+    paddingHorizontal: 24,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    flex: 1,
+    flexDirection: 'row',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#FFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  chipActive: {
+    backgroundColor: '#000',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#000',
+    fontFamily: 'geistmono',
+  },
+  chipTextActive: {
+    color: '#FFF',
+  },
+  hintRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  hintText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+    fontFamily: 'geistmono',
+  },
+  iconRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  iconChip: {
+    width: 44,
+    height: 40,
+    borderRadius: 12,
+    backgroundColor: '#FFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    fontFamily: 'geistmono',
+  },
+  sectionValue: {
+    fontSize: 14,
+    color: '#333',
+    fontFamily: 'geistmono',
+  },
+  slider: {
+    width: '100%',
+    height: 40,
+    marginBottom: 8,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    gap: 8,
+    backgroundColor: '#000',
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  actionButtonDisabled: {
+    opacity: 0.6,
+  },
+  actionButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFF',
+    fontFamily: 'geistmono',
+  },
+});
@@ -0,0 +1,359 @@
+/**
+ * RelightControls Component
+ *
+ * Directional relight settings shown in LightingModal: the image with a
+ * light source to drag into place, the four lighting presets, and sliders
+ * for colour temperature, intensity and hardness. Preview relights a small
+ * copy of the image so the light can be checked before the full-resolution
+ * job; changing anything afterwards drops the preview.
+ */
+
+import React, { useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Image,
+  PanResponder,
+  ActivityIndicator,
+  LayoutChangeEvent,
+  GestureResponderEvent,
+} from 'react-native';
+import Slider from '@react-native-community/slider';
+import { Sun } from 'lucide-react-native';
+import { RelightParams } from '../services/apiTypes';
+import { getFittedLayerRect } from '../utils/compositor';
+import { RELIGHT_LIMITS, RELIGHT_PRESETS, RelightPresetId, getLightColor } from '../utils/relight';
+
+interface RelightControlsProps {
+  imageUrl?: string | null;
+  imageWidth?: number;
+  imageHeight?: number;
+  initialPreset: RelightPresetId;
+  onPreview?: (light: RelightParams) => Promise<string>; // Resolves to the preview image URI
+  onApply: (light: RelightParams) => void;
+}
+
+const STAGE_HEIGHT = 200;
+const LIGHT_SIZE = 32;
+
+/**
+ * RelightControls Component
+ *
+ * @param imageUrl - Image being relit
+ * @param imageWidth - Image width in pixels
+ * @param imageHeight - Image height in pixels
+ * @param initialPreset - Preset to start from
+ * @param onPreview - Relight a low-resolution copy; errors are reported by the parent
+ * @param onApply - Run the full-resolution relight with these settings
+ */
+export default function RelightControls({
+  imageUrl,
+  imageWidth,
+  imageHeight,
+  initialPreset,
+  onPreview,
+  onApply,
+}: RelightControlsProps) {
+  const [preset, setPreset] = useState<RelightPresetId | null>(initialPreset);
+  const [light, setLight] = useState<RelightParams>(RELIGHT_PRESETS[initialPreset].params);
+  const [previewUri, setPreviewUri] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // Where the image sits on the stage
+  const imageRect = size.width > 0 && imageWidth && imageHeight
+    ? getFittedLayerRect(imageWidth, imageHeight, size.width, size.height)
+    : { x: 0, y: 0, width: size.width, height: size.height };
+
+  const updateLight = (changes: Partial<RelightParams>) => {
+    setLight(prev => ({ ...prev, ...changes }));
+    setPreset(null);
+    setPreviewUri(null);
+  };
+
+  const selectPreset = (id: RelightPresetId) => {
+    setLight(RELIGHT_PRESETS[id].params);
+    setPreset(id);
+    setPreviewUri(null);
+  };
+
+  const rectRef = useRef(imageRect);
+  rectRef.current = imageRect;
+  const updateRef = useRef(updateLight);
+  updateRef.current = updateLight;
+
+  const moveLight = (event: GestureResponderEvent) => {
+    const rect = rectRef.current;
+    if (rect.width <= 0 || rect.height <= 0) return;
+
+    const { locationX, locationY } = event.nativeEvent;
+    updateRef.current({
+      x: Math.round(Math.max(0, Math.min(1, (locationX - rect.x) / rect.width)) * 100) / 100,
+      y: Math.round(Math.max(0, Math.min(1, (locationY - rect.y) / rect.height)) * 100) / 100,
+    });
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      // Keep the sheet from taking over the drag
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: moveLight,
+      onPanResponderMove: moveLight,
+    })
+  ).current;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  const handlePreview = async () => {
+    if (!onPreview) return;
+
+    setPreviewing(true);
+    try {
+      setPreviewUri(await onPreview(light));
+    } catch {
+      // onPreview shows the error; the last preview stays up
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const renderSlider = (
+    label: string,
+    value: number,
+    key: 'temperature' | 'intensity' | 'hardness',
+    format: (value: number) => string
+  ) => (
+    <>
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionLabel}>{label}</Text>
+        <Text style={styles.sectionValue}>{format(value)}</Text>
+      </View>
+      <Slider
+        style={styles.slider}
+        minimumValue={RELIGHT_LIMITS[key].min}
+        maximumValue={RELIGHT_LIMITS[key].max}
+        step={RELIGHT_LIMITS[key].step}
+        value={value}
+        onSlidingComplete={next => updateLight({ [key]: next })}
+        minimumTrackTintColor="#000"
+        maximumTrackTintColor="#BBB"
+        thumbTintColor="#000"
+      />
+    </>
+  );
+
+  const lightColor = getLightColor(light.temperature);
+
+  return (
+    <View>
+      {/* Stage: drag anywhere to move the light source */}
+      <View style={styles.stage} onLayout={handleLayout} {...panResponder.panHandlers}>
+        {(previewUri || imageUrl) && (
+          <Image
+            source={{ uri: previewUri || imageUrl! }}
+            style={[styles.stageImage, { left: imageRect.x, top: imageRect.y, width: imageRect.width, height: imageRect.height }]}
+            resizeMode="contain"
+          />
+        )}
+        <View
+          pointerEvents="none"
+          style={[
+            styles.lightSource,
+            {
+              left: imageRect.x + light.x * imageRect.width - LIGHT_SIZE / 2,
+              top: imageRect.y + light.y * imageRect.height - LIGHT_SIZE / 2,
+              backgroundColor: lightColor,
+              shadowColor: lightColor,
+            },
+          ]}
+        >
+          <Sun size={18} color="#000" strokeWidth={2} />
+        </View>
+        {previewing && (
+          <View style={styles.busyOverlay} pointerEvents="none">
+            <ActivityIndicator size="large" color="#FFF" />
+          </View>
+        )}
+        {previewUri && !previewing && (
+          <View style={styles.previewTag} pointerEvents="none">
+            <Text style={styles.previewTagText}>PREVIEW</Text>
+          </View>
+        )}
+      </View>
+
+      <View style={styles.chipRow}>
+        {(Object.keys(RELIGHT_PRESETS) as RelightPresetId[]).map(id => (
+          <TouchableOpacity
+            key={id}
+            style={[styles.chip, preset === id && styles.chipActive]}
+            onPress={() => selectPreset(id)}
+            activeOpacity={0.8}
+          >
+            <Text style={[styles.chipText, preset === id && styles.chipTextActive]} numberOfLines={1}>
+              {RELIGHT_PRESETS[id].label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {renderSlider('Temperature', light.temperature, 'temperature', value => `${Math.round(value)}K`)}
+      {renderSlider('Intensity', light.intensity, 'intensity', value => value.toFixed(2))}
+      {renderSlider('Hardness', light.hardness, 'hardness', value => `${Math.round(value * 100)}%`)}
+
+      <View style={styles.buttonRow}>
+        {onPreview && (
+          <TouchableOpacity
+            style={[styles.button, styles.buttonSecondary, previewing && styles.buttonDisabled]}
+            onPress={handlePreview}
+            disabled={previewing}
+            activeOpacity={0.8}
+          >
+            <Text style={[styles.buttonText, styles.buttonTextSecondary]}>
+              {previewing ? 'Previewing...' : 'Preview'}
+            </Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={[styles.button, previewing && styles.buttonDisabled]}
+          onPress={() => onApply(light)}
+          disabled={previewing}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.buttonText}>Apply</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  stage: {
+    height: STAGE_HEIGHT,
+    borderRadius: 16,
+    backgroundColor: '#1A1A1A',
+    overflow: 'hidden',
+    marginBottom: 16,
+  },
+  stageImage: {
+    position: 'absolute',
+  },
+  lightSource: {
+    position: 'absolute',
+    width: LIGHT_SIZE,
+    height: LIGHT_SIZE,
+    borderRadius: LIGHT_SIZE / 2,
+    borderWidth: 2,
+    borderColor: '#FFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowOffset: { width: 0, height: 0 },
+    shadowOpacity: 0.9,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  busyOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  previewTag: {
+    position: 'absolute',
+    top: 8,
+    left: 8,
+    backgroundColor: '#4A4A4A',
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+  },
+  previewTagText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#E8E8E8',
+    letterSpacing: 1.2,
+    fontFamily: 'geistmono',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    flexGrow: 1,
+    flexBasis: '45%',
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#FFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  chipActive: {
+    backgroundColor: '#000',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#000',
+    fontFamily: 'geistmono',
+  },
+  chipTextActive: {
+    color: '#FFF',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    fontFamily: 'geistmono',
+  },
+  sectionValue: {
+    fontSize: 14,
+    color: '#333',
+    fontFamily: 'geistmono',
+  },
+  slider: {
+    width: '100%',
+    height: 40,
+    marginBottom: 4,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 8,
+  },
+  button: {
+    flex: 1,
+    backgroundColor: '#000',
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonSecondary: {
+    backgroundColor: '#FFF',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFF',
+    fontFamily: 'geistmono',
+  },
+  buttonTextSecondary: {
+    color: '#000',
+  },
+});
@@ -0,0 +1,417 @@
+/**
+ * TextLayerEditor Component
+ *
+ * Bottom sheet for the text and styling of a text layer: content, font,
+ * size, colour, alignment, line height, letter spacing, stroke and shadow.
+ * The preview uses the same layout code as the canvas and exports
+ * (utils/textLayers), so it shows exactly what will be drawn.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  LayoutChangeEvent,
+} from 'react-native';
+import Slider from '@react-native-community/slider';
+import { Canvas, Picture, SkTypefaceFontProvider, createPicture } from '@shopify/react-native-skia';
+import { X, AlignLeft, AlignCenter, AlignRight } from 'lucide-react-native';
+import { LayerText, TextAlign } from '../services/apiTypes';
+import { TEXT_FONTS, drawTextLayout, layoutText, loadTextFonts } from '../utils/textLayers';
+
+interface TextLayerEditorProps {
+  visible: boolean;
+  initialText: LayerText;
+  isNew: boolean;
+  onClose: () => void;
+  onSave: (text: LayerText) => void;
+  saving?: boolean;
+}
+
+const COLOR_SWATCHES = ['#000000', '#FFFFFF', '#EF4444', '#F59E0B', '#FACC15', '#10B981', '#3B82F6', '#8B5CF6'];
+
+const alignOptions: { value: TextAlign; icon: any }[] = [
+  { value: 'left', icon: AlignLeft },
+  { value: 'center', icon: AlignCenter },
+  { value: 'right', icon: AlignRight },
+];
+
+/**
+ * TextLayerEditor Component
+ *
+ * @param visible - Whether the sheet is open
+ * @param initialText - Text and styling to start from
+ * @param isNew - Creating a layer (true) or editing one (false)
+ * @param onClose - Close without saving
+ * @param onSave - Receives the edited text and styling
+ * @param saving - Disables the save button while the parent saves
+ */
+export default function TextLayerEditor({
+  visible,
+  initialText,
+  isNew,
+  onClose,
+  onSave,
+  saving = false,
+}: TextLayerEditorProps) {
+  const [text, setText] = useState<LayerText>(initialText);
+  const [fonts, setFonts] = useState<SkTypefaceFontProvider | null>(null);
+  const [previewSize, setPreviewSize] = useState({ width: 0, height: 0 });
+
+  // Start from the layer's current text each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setText(initialText);
+    }
+  }, [visible, initialText]);
+
+  useEffect(() => {
+    if (!visible || fonts) return;
+
+    loadTextFonts()
+      .then(setFonts)
+      .catch(error => console.warn('TextLayerEditor: failed to load fonts:', error));
+  }, [visible, fonts]);
+
+  const updateText = (changes: Partial<LayerText>) => {
+    setText(prev => ({ ...prev, ...changes }));
+  };
+
+  const handlePreviewLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setPreviewSize({ width, height });
+  };
+
+  // Scale the text down to fit the preview box
+  const preview = useMemo(() => {
+    if (!fonts || !text.content || previewSize.width === 0) return null;
+
+    const layout = layoutText(text, fonts);
+    const scale = Math.min(1, (previewSize.width - 24) / layout.width, (previewSize.height - 24) / layout.height);
+
+    return createPicture(canvas => {
+      canvas.translate(previewSize.width / 2, previewSize.height / 2);
+      canvas.scale(scale, scale);
+      drawTextLayout(canvas, layout);
+    }, previewSize);
+  }, [fonts, text, previewSize]);
+
+  const renderSwatches = (selected: string, onSelect: (color: string) => void) => (
+    <View style={styles.swatchRow}>
+      {COLOR_SWATCHES.map(color => (
+        <TouchableOpacity
+          key={color}
+          style={[
+            styles.swatch,
+            { backgroundColor: color },
+            selected.toUpperCase() === color && styles.swatchActive,
+          ]}
+          onPress={() => onSelect(color)}
+        />
+      ))}
+    </View>
+  );
+
+  const renderSlider = (
+    label: string,
+    value: number,
+    min: number,
+    max: number,
+    step: number,
+    onChange: (value: number) => void,
+    format: (value: number) => string = v => `${v}`
+  ) => (
+    <>
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionLabel}>{label}</Text>
+        <Text style={styles.sectionValue}>{format(value)}</Text>
+      </View>
+      <Slider
+        style={styles.slider}
+        minimumValue={min}
+        maximumValue={max}
+        step={step}
+        value={value}
+        onValueChange={onChange}
+        minimumTrackTintColor="#000"
+        maximumTrackTintColor="#BBB"
+        thumbTintColor="#000"
+      />
+    </>
+  );
+
+  const canSave = text.content.trim().length > 0 && !saving;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <TouchableOpacity
+          style={styles.backdrop}
+          activeOpacity={1}
+          onPress={onClose}
+        />
+        <View style={styles.modalContainer}>
+          <TouchableOpacity
+            style={styles.closeButton}
+            onPress={onClose}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <X size={24} color="#333" strokeWidth={2} />
+          </TouchableOpacity>
+
+          <View style={styles.badgeContainer}>
+            <View style={styles.badge}>
+              <Text style={styles.badgeText}>{isNew ? 'NEW TEXT' : 'EDIT TEXT'}</Text>
+            </View>
+          </View>
+
+          <View style={styles.preview} onLayout={handlePreviewLayout}>
+            {preview && (
+              <Canvas style={styles.previewCanvas}>
+                <Picture picture={preview} />
+              </Canvas>
+            )}
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <TextInput
+              style={styles.input}
+              value={text.content}
+              onChangeText={content => updateText({ content })}
+              placeholder="Type your text"
+              placeholderTextColor="#999"
+              multiline
+            />
+
+            <Text style={styles.sectionLabel}>Font</Text>
+            <View style={styles.chipRow}>
+              {TEXT_FONTS.map(font => (
+                <TouchableOpacity
+                  key={font.family}
+                  style={[styles.chip, text.fontFamily === font.family && styles.chipActive]}
+                  onPress={() => updateText({ fontFamily: font.family })}
+                  activeOpacity={0.8}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      { fontFamily: font.family },
+                      text.fontFamily === font.family && styles.chipTextActive,
+                    ]}
+                  >
+                    {font.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.sectionLabel}>Alignment</Text>
+            <View style={styles.chipRow}>
+              {alignOptions.map(({ value, icon: Icon }) => (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.chip, text.align === value && styles.chipActive]}
+                  onPress={() => updateText({ align: value })}
+                  activeOpacity={0.8}
+                >
+                  <Icon size={18} color={text.align === value ? '#FFF' : '#000'} />
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.sectionLabel}>Colour</Text>
+            {renderSwatches(text.color, color => updateText({ color }))}
+
+            {renderSlider('Size', text.fontSize, 12, 400, 1, fontSize => updateText({ fontSize }))}
+            {renderSlider('Line Height', text.lineHeight, 0.8, 3, 0.05, lineHeight => updateText({ lineHeight }), v => v.toFixed(2))}
+            {renderSlider('Letter Spacing', text.letterSpacing, -10, 50, 1, letterSpacing => updateText({ letterSpacing }))}
+
+            {renderSlider('Stroke', text.stroke.width, 0, 20, 1, width => updateText({ stroke: { ...text.stroke, width } }))}
+            {text.stroke.width > 0 && renderSwatches(text.stroke.color, color => updateText({ stroke: { ...text.stroke, color } }))}
+
+            {renderSlider('Shadow Blur', text.shadow.blur, 0, 40, 1, blur => updateText({ shadow: { ...text.shadow, blur } }))}
+            {renderSlider('Shadow Distance', text.shadow.offsetY, 0, 40, 1, distance => updateText({
+              shadow: { ...text.shadow, offsetX: distance, offsetY: distance },
+            }))}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.saveButton, !canSave && styles.saveButtonDisabled]}
+            onPress={() => onSave(text)}
+            disabled={!canSave}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.saveButtonText}>
+              {saving ? 'Saving...' : isNew ? 'Add Text' : 'Save Text'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+  },
+  modalContainer: {
+    width: '100%',
+    backgroundColor: '#E8E8E8',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingTop: 20,
+    paddingBottom: 40,
+    paddingHorizontal: 24,
+    position: 'relative',
+    maxHeight: '90%',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 16,
+    right: 16,
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 10,
+  },
+  badgeContainer: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  badge: {
+    backgroundColor: '#4A4A4A',
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+    borderRadius: 16,
+  },
+  badgeText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#E8E8E8',
+    letterSpacing: 1.2,
+    fontFamily: 'geistmono',
+  },
+  preview: {
+    height: 120,
+    borderRadius: 16,
+    backgroundColor: '#C8C8C8',
+    marginBottom: 16,
+    overflow: 'hidden',
+  },
+  previewCanvas: {
+    flex: 1,
+  },
+  input: {
+    minHeight: 48,
+    maxHeight: 120,
+    borderRadius: 12,
+    backgroundColor: '#FFF',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#000',
+    marginBottom: 16,
+    fontFamily: 'geistmono',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+    fontFamily: 'geistmono',
+  },
+  sectionValue: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 8,
+    fontFamily: 'geistmono',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#FFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  chipActive: {
+    backgroundColor: '#000',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#000',
+  },
+  chipTextActive: {
+    color: '#FFF',
+  },
+  swatchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  swatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#BBB',
+  },
+  swatchActive: {
+    borderWidth: 3,
+    borderColor: '#4A90E2',
+  },
+  slider: {
+    width: '100%',
+    height: 40,
+    marginBottom: 8,
+  },
+  saveButton: {
+    backgroundColor: '#000',
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 60,
+    marginTop: 12,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFF',
+    fontFamily: 'geistmono',
+  },
+});
@@ -0,0 +1,432 @@
+/**
+ * ZoomableImageViewport Component
+ *
+ * Zooms and pans an image for pixel-level inspection. Pinch zooms around
+ * the fingers up to 800%, dragging pans with momentum, and a double tap
+ * toggles between the fitted image and 100% (one image pixel per screen
+ * pixel) at the tapped spot. While zoomed in, a minimap shows which part
+ * of the image is in view.
+ *
+ * The children are laid out at fit size, filling the viewport with the
+ * image centered like resizeMode="contain". Taps are reported in those
+ * fit-size coordinates at any zoom, so code that maps a tap on the fitted
+ * image to image pixels keeps working. At fit size a one finger drag is
+ * left to the surrounding ScrollView.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Image,
+  Animated,
+  PanResponder,
+  PixelRatio,
+  LayoutChangeEvent,
+  GestureResponderEvent,
+  PanResponderGestureState,
+} from 'react-native';
+import {
+  FIT_TRANSFORM,
+  MAX_ZOOM_PERCENT,
+  ViewportPoint,
+  ViewportTransform,
+  clampViewportTransform,
+  getActualSizeScale,
+  getFittedSize,
+  getTouchCenter,
+  getTouchDistance,
+  getVisibleImageRect,
+  viewportToContent,
+  zoomAroundPoint,
+} from '../utils/viewportZoom';
+
+interface ZoomableImageViewportProps {
+  imageUri?: string | null; // Shown in the minimap
+  imageWidth?: number;
+  imageHeight?: number;
+  style?: any;
+  children: React.ReactNode;
+  onTap?: (point: ViewportPoint) => void;
+  onPressIn?: () => void;
+  onPressOut?: () => void;
+}
+
+const TAP_SLOP = 8; // Points a touch may move and still be a tap
+const TAP_MAX_MS = 250;
+const DOUBLE_TAP_MS = 280;
+const ZOOM_ANIMATION_MS = 200;
+const MOMENTUM_DECAY = 0.995; // Velocity kept per millisecond
+const MOMENTUM_MIN_VELOCITY = 0.02; // Points per millisecond
+const LABEL_UPDATE_MS = 80;
+const MINIMAP_SIZE = 96;
+
+/**
+ * ZoomableImageViewport Component
+ *
+ * @param imageUri - Image shown in the minimap
+ * @param imageWidth - Image width in pixels, to find 100% and the pan limits
+ * @param imageHeight - Image height in pixels
+ * @param style - Viewport style; the viewport clips its content
+ * @param children - Content laid out at fit size
+ * @param onTap - Single tap, in fit-size content coordinates
+ * @param onPressIn - A touch started
+ * @param onPressOut - The touch ended or turned into a pan or pinch
+ */
+export default function ZoomableImageViewport({
+  imageUri,
+  imageWidth,
+  imageHeight,
+  style,
+  children,
+  onTap,
+  onPressIn,
+  onPressOut,
+}: ZoomableImageViewportProps) {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [shown, setShown] = useState<ViewportTransform>(FIT_TRANSFORM); // For the minimap and zoom label
+
+  const translateX = useRef(new Animated.Value(0)).current;
+  const translateY = useRef(new Animated.Value(0)).current;
+  const scale = useRef(new Animated.Value(1)).current;
+
+  const fitted = imageWidth && imageHeight && size.width > 0
+    ? getFittedSize(imageWidth, imageHeight, size)
+    : size;
+  const actualScale = imageWidth ? getActualSizeScale(imageWidth, fitted.width, PixelRatio.get()) : 1;
+  const maxScale = Math.max(1, (actualScale * MAX_ZOOM_PERCENT) / 100);
+
+  const viewRef = useRef<ViewportTransform>(FIT_TRANSFORM);
+  const geometryRef = useRef({ viewport: size, fitted, actualScale, maxScale });
+  geometryRef.current = { viewport: size, fitted, actualScale, maxScale };
+  const callbacksRef = useRef({ onTap, onPressIn, onPressOut });
+  callbacksRef.current = { onTap, onPressIn, onPressOut };
+
+  const frameRef = useRef<number | null>(null);
+  const tapTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastTapRef = useRef<{ time: number; point: ViewportPoint } | null>(null);
+  const labelTimeRef = useRef(0);
+  const gestureRef = useRef({
+    start: FIT_TRANSFORM,
+    startTime: 0,
+    point: { x: 0, y: 0 },
+    baseDx: 0,
+    baseDy: 0,
+    pinch: null as { distance: number; content: ViewportPoint } | null,
+    moved: false,
+    pinched: false,
+  });
+
+  const applyTransform = (next: ViewportTransform, settled: boolean) => {
+    const geometry = geometryRef.current;
+    const clamped = clampViewportTransform(next, geometry.fitted, geometry.viewport, geometry.maxScale);
+    viewRef.current = clamped;
+    translateX.setValue(clamped.x);
+    translateY.setValue(clamped.y);
+    scale.setValue(clamped.scale);
+
+    // Re-rendering every frame would redraw the children, so the label and
+    // minimap follow at a lower rate
+    const now = Date.now();
+    if (settled || now - labelTimeRef.current > LABEL_UPDATE_MS) {
+      labelTimeRef.current = now;
+      setShown(clamped);
+    }
+    return clamped;
+  };
+
+  const stopAnimation = () => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+  };
+
+  const animateTo = (target: ViewportTransform) => {
+    stopAnimation();
+    const from = viewRef.current;
+    const startTime = Date.now();
+
+    const step = () => {
+      const progress = Math.min(1, (Date.now() - startTime) / ZOOM_ANIMATION_MS);
+      const eased = 1 - Math.pow(1 - progress, 3);
+      applyTransform({
+        scale: from.scale + (target.scale - from.scale) * eased,
+        x: from.x + (target.x - from.x) * eased,
+        y: from.y + (target.y - from.y) * eased,
+      }, progress === 1);
+      frameRef.current = progress < 1 ? requestAnimationFrame(step) : null;
+    };
+    frameRef.current = requestAnimationFrame(step);
+  };
+
+  const startMomentum = (vx: number, vy: number) => {
+    stopAnimation();
+    let velocity = { x: vx, y: vy };
+    let lastTime = Date.now();
+
+    const step = () => {
+      const now = Date.now();
+      const dt = now - lastTime;
+      lastTime = now;
+
+      const current = viewRef.current;
+      const next = applyTransform({ ...current, x: current.x + velocity.x * dt, y: current.y + velocity.y * dt }, false);
+      const decay = Math.pow(MOMENTUM_DECAY, dt);
+      // Stop on an axis that hit the edge
+      velocity = {
+        x: next.x === current.x + velocity.x * dt ? velocity.x * decay : 0,
+        y: next.y === current.y + velocity.y * dt ? velocity.y * decay : 0,
+      };
+
+      if (Math.hypot(velocity.x, velocity.y) < MOMENTUM_MIN_VELOCITY) {
+        frameRef.current = null;
+        setShown(viewRef.current);
+        return;
+      }
+      frameRef.current = requestAnimationFrame(step);
+    };
+    frameRef.current = requestAnimationFrame(step);
+  };
+
+  // Double tap: fit <-> 100% around the tapped spot. Images already shown
+  // at 100% or more when fitted zoom in 2x instead.
+  const toggleZoom = (point: ViewportPoint) => {
+    const { viewport, fitted: fit, actualScale: actual, maxScale: max } = geometryRef.current;
+    const current = viewRef.current;
+
+    if (current.scale > 1.01) {
+      animateTo(FIT_TRANSFORM);
+      return;
+    }
+
+    const target = actual > 1.01 ? Math.min(actual, max) : Math.min(2, max);
+    const content = viewportToContent(point, current, viewport);
+    animateTo(clampViewportTransform(zoomAroundPoint(content, point, target, viewport), fit, viewport, max));
+  };
+
+  const handleTap = (point: ViewportPoint) => {
+    const now = Date.now();
+    const last = lastTapRef.current;
+
+    if (last && now - last.time < DOUBLE_TAP_MS && Math.hypot(point.x - last.point.x, point.y - last.point.y) < TAP_SLOP * 3) {
+      lastTapRef.current = null;
+      if (tapTimerRef.current) {
+        clearTimeout(tapTimerRef.current);
+        tapTimerRef.current = null;
+      }
+      toggleZoom(point);
+      return;
+    }
+
+    lastTapRef.current = { time: now, point };
+    // Map the tap now, before any zoom changes
+    const content = viewportToContent(point, viewRef.current, geometryRef.current.viewport);
+    if (callbacksRef.current.onTap) {
+      tapTimerRef.current = setTimeout(() => {
+        tapTimerRef.current = null;
+        callbacksRef.current.onTap?.(content);
+      }, DOUBLE_TAP_MS);
+    }
+  };
+
+  const endPress = () => {
+    const gesture = gestureRef.current;
+    if (!gesture.moved) {
+      gesture.moved = true;
+      callbacksRef.current.onPressOut?.();
+    }
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: (event: GestureResponderEvent) =>
+        event.nativeEvent.touches.length >= 2 || viewRef.current.scale > 1,
+      // Let a ScrollView take one finger drags on the fitted image only
+      onPanResponderTerminationRequest: () =>
+        viewRef.current.scale <= 1 && !gestureRef.current.pinched,
+      onPanResponderGrant: (event: GestureResponderEvent) => {
+        stopAnimation();
+        gestureRef.current = {
+          start: viewRef.current,
+          startTime: Date.now(),
+          point: { x: event.nativeEvent.locationX, y: event.nativeEvent.locationY },
+          baseDx: 0,
+          baseDy: 0,
+          pinch: null,
+          moved: false,
+          pinched: false,
+        };
+        callbacksRef.current.onPressIn?.();
+      },
+      onPanResponderMove: (event: GestureResponderEvent, state: PanResponderGestureState) => {
+        const gesture = gestureRef.current;
+        const { viewport } = geometryRef.current;
+
+        if (event.nativeEvent.touches.length >= 2) {
+          if (!gesture.pinch) {
+            endPress();
+            gesture.pinched = true;
+            gesture.start = viewRef.current;
+            gesture.pinch = {
+              distance: getTouchDistance(event),
+              content: viewportToContent(getTouchCenter(event), viewRef.current, viewport),
+            };
+          }
+          const nextScale = gesture.start.scale * (getTouchDistance(event) / gesture.pinch.distance);
+          applyTransform(zoomAroundPoint(gesture.pinch.content, getTouchCenter(event), nextScale, viewport), false);
+          return;
+        }
+
+        if (gesture.pinch) {
+          // Back to one finger: pan on from here
+          gesture.pinch = null;
+          gesture.start = viewRef.current;
+          gesture.baseDx = state.dx;
+          gesture.baseDy = state.dy;
+        }
+
+        if (Math.abs(state.dx) > TAP_SLOP || Math.abs(state.dy) > TAP_SLOP) {
+          endPress();
+        }
+        if (gesture.moved) {
+          applyTransform({
+            ...gesture.start,
+            x: gesture.start.x + state.dx - gesture.baseDx,
+            y: gesture.start.y + state.dy - gesture.baseDy,
+          }, false);
+        }
+      },
+      onPanResponderRelease: (_event: GestureResponderEvent, state: PanResponderGestureState) => {
+        const gesture = gestureRef.current;
+
+        if (!gesture.moved && Date.now() - gesture.startTime < TAP_MAX_MS) {
+          callbacksRef.current.onPressOut?.();
+          handleTap(gesture.point);
+          return;
+        }
+
+        endPress();
+        if (!gesture.pinched && viewRef.current.scale > 1) {
+          startMomentum(state.vx, state.vy);
+        } else {
+          setShown(viewRef.current);
+        }
+      },
+      onPanResponderTerminate: () => {
+        endPress();
+        setShown(viewRef.current);
+      },
+    })
+  ).current;
+
+  useEffect(() => {
+    return () => {
+      stopAnimation();
+      if (tapTimerRef.current) {
+        clearTimeout(tapTimerRef.current);
+      }
+    };
+  }, []);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    if (width === size.width && height === size.height) return;
+
+    setSize({ width, height });
+    // Pan limits depend on the size, so start over from the fitted image
+    stopAnimation();
+    viewRef.current = FIT_TRANSFORM;
+    translateX.setValue(0);
+    translateY.setValue(0);
+    scale.setValue(1);
+    setShown(FIT_TRANSFORM);
+  };
+
+  const zoomed = shown.scale > 1.01;
+  const visibleRect = zoomed ? getVisibleImageRect(shown, fitted, size) : null;
+  const minimapSize = imageWidth && imageHeight
+    ? (imageWidth >= imageHeight
+        ? { width: MINIMAP_SIZE, height: (MINIMAP_SIZE * imageHeight) / imageWidth }
+        : { width: (MINIMAP_SIZE * imageWidth) / imageHeight, height: MINIMAP_SIZE })
+    : null;
+
+  return (
+    <View style={[style, styles.viewport]} onLayout={handleLayout}>
+      <Animated.View
+        style={[
+          StyleSheet.absoluteFill,
+          { transform: [{ translateX }, { translateY }, { scale }] },
+        ]}
+      >
+        {children}
+      </Animated.View>
+
+      {/* Catches every touch so tap positions are on the viewport, not the zoomed content */}
+      <View style={StyleSheet.absoluteFill} {...panResponder.panHandlers} />
+
+      {zoomed && (
+        <View style={styles.minimapContainer} pointerEvents="none">
+          {imageUri && minimapSize && visibleRect && (
+            <View style={[styles.minimap, minimapSize]}>
+              <Image source={{ uri: imageUri }} style={minimapSize} resizeMode="stretch" />
+              <View
+                style={[
+                  styles.minimapView,
+                  {
+                    left: visibleRect.x * minimapSize.width,
+                    top: visibleRect.y * minimapSize.height,
+                    width: visibleRect.width * minimapSize.width,
+                    height: visibleRect.height * minimapSize.height,
+                  },
+                ]}
+              />
+            </View>
+          )}
+          <View style={styles.zoomLabel}>
+            <Text style={styles.zoomLabelText}>{Math.round((shown.scale / actualScale) * 100)}%</Text>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  viewport: {
+    overflow: 'hidden',
+  },
+  minimapContainer: {
+    position: 'absolute',
+    left: 8,
+    bottom: 8,
+    alignItems: 'flex-start',
+    gap: 4,
+  },
+  minimap: {
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.8)',
+    backgroundColor: '#000',
+    overflow: 'hidden',
+  },
+  minimapView: {
+    position: 'absolute',
+    borderWidth: 1.5,
+    borderColor: '#FFF',
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  zoomLabel: {
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+  },
+  zoomLabelText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#FFF',
+    fontFamily: 'geistmono',
+  },
+});
@@ -0,0 +1,25 @@
+// Canvas and template sizes offered when creating a project, also used as
+// crop aspect ratios (in pixels)
+
+export interface SizePreset {
+  name: string;
+  width: number;
+  height: number;
+}
+
+// Quick presets on the new canvas screen
+export const CANVAS_PRESETS = {
+  instagram: { width: 1080, height: 1080, name: 'Instagram' },
+  facebook: { width: 1200, height: 630, name: 'Facebook' },
+  youtube: { width: 1280, height: 720, name: 'YouTube' },
+};
+
+// Popular templates on the templates screen
+export const TEMPLATE_PRESETS: SizePreset[] = [
+  { name: 'Instagram Post', width: 1080, height: 1080 },
+  { name: 'Instagram Reel', width: 1080, height: 1920 },
+  { name: 'YouTube Thumbnail', width: 1920, height: 1080 },
+  { name: 'Pinterest Pin', width: 1000, height: 1500 },
+  { name: 'Facebook Post', width: 940, height: 788 },
+  { name: 'LinkedIn Banner', width: 1584, height: 396 },
+];
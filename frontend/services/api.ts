@@ -8,9 +8,137 @@ import {
   setCustomApiUrl,
   getCurrentApiUrl 
 } from '../constants/api';
+import {
+  AIProjectDetails,
+  AIProjectStateData,
+  AIProjectSummary,
+  ApiResponse,
+  ApiResult,
+  ApplyEnhancementsData,
+  AuthData,
+  CreateLayerRequest,
+  AutoEnhanceAnalysisData,
+  CreateAIProjectData,
+  CreateLayerProjectData,
+  EnhanceData,
+  FaceDetectData,
+  FaceRestoreData,
+  FaceRestoreOptions,
+  FaceRestorePreviewData,
+  GeminiPromptData,
+  LayerData,
+  LayerParents,
+  LayerProjectDetails,
+  LayerProjectSummary,
+  LayersData,
+  LayerUpdate,
+  MergeLayersRequest,
+  ObjectRemovalData,
+  ObjectSelectionPrompts,
+  ProjectLayersData,
+  ProjectTitleData,
+  RelightData,
+  RelightParams,
+  RelightPreviewData,
+  RemoveBackgroundData,
+  SeparateLayersData,
+  ReplaceBackgroundData,
+  SignupData,
+  StyleTransferData,
+  TimelineData,
+  UpdateAIProjectData,
+  UploadImageData,
+  UploadMultipleImagesData,
+  CropImageRequest,
+  CropImageData,
+} from './apiTypes';
+import { ApiError, isApiError, isRetryableError, isSessionExpiredResponse } from './apiErrors';
+import { LayerLockState, getBlockingLock, getLayerLockMessage } from '../utils/layerLocks';
+
+// ============================================================
+// REQUEST OPTIONS
+// ============================================================
+
+// fetch options plus the pipeline settings for a single call
+export interface RequestOptions extends RequestInit {
+  auth?: boolean;            // Send the stored token and require one (default true)
+  timeoutMs?: number;        // Per attempt (default 30s)
+  retries?: number;          // Extra attempts (default 2 for idempotent methods, 0 otherwise)
+  idempotent?: boolean;      // Safe to send twice (default: GET, HEAD, PUT, DELETE, OPTIONS)
+  getBody?: () => BodyInit;  // Fresh body for every attempt (FormData can only be used once)
+  onRetry?: (attempt: number, maxAttempts: number, error: ApiError | null, delayMs: number) => void;
+}
+
+// Options every public method accepts
+export interface CallOptions {
+  signal?: AbortSignal;      // Abort to cancel the call (throws ApiError 'cancelled')
+  timeoutMs?: number;
+}
+
+export interface RequestContext {
+  endpoint: string;
+  url: string;
+  init: RequestInit & { headers: Record<string, string> };
+  attempt: number;
+}
+
+export type RequestInterceptor = (
+  context: RequestContext
+) => RequestContext | void | Promise<RequestContext | void>;
+
+export type ResponseInterceptor = (
+  response: Response,
+  context: RequestContext
+) => Response | void | Promise<Response | void>;
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const AI_TIMEOUT_MS = 180000;      // Docker-backed AI operations take up to a few minutes
+const UPLOAD_TIMEOUT_MS = 120000;  // Large images on slow connections
+const UPLOAD_RETRIES = 4;          // 5 attempts in all, for every image upload
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 10000;
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'];
+
+// Exponential backoff with a little jitter so retries don't line up
+const getRetryDelay = (attempt: number): number => {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1), RETRY_MAX_DELAY_MS);
+  return Math.round(delay + Math.random() * delay * 0.2);
+};
+
+// Progress message for an upload that is about to be sent again
+const getUploadRetryMessage = (attempt: number, maxAttempts: number, error: ApiError | null, delayMs: number): string => {
+  const reason = !error
+    ? 'Server error.'
+    : error.kind === 'timeout' ? 'Upload timed out.' : 'Connection failed.';
+  return `${reason} Waiting ${Math.round(delayMs / 1000)}s before retry... (${attempt}/${maxAttempts})`;
+};
+
+// Wait between attempts; cancelling the call also cancels the wait
+const waitForRetry = (delay: number, signal: AbortSignal | null | undefined, endpoint: string): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const cancelled = () => new ApiError('cancelled', 'Request was cancelled', endpoint);
+    if (signal?.aborted) {
+      reject(cancelled());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(cancelled());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener('abort', onAbort);
+  });
+};
 
 class ApiService {
   private baseURL: string;
+  private requestInterceptors: RequestInterceptor[] = [];
+  private responseInterceptors: ResponseInterceptor[] = [];
 
   constructor() {
     // Use cached URL initially
@@ -55,15 +183,108 @@ class ApiService {
     }
   }
 
-  // Make API request with automatic token handling
+  // Auth headers for fetching a file served by our own backend (e.g. images
+  // on a self-hosted deployment). URLs on any other host get no headers.
+  async getAuthHeadersFor(url: string): Promise<Record<string, string>> {
+    const originOf = (value: string) => value.match(/^https?:\/\/[^/]+/i)?.[0].toLowerCase();
+    const backendOrigin = originOf(this.baseURL);
+
+    if (!backendOrigin || originOf(url) !== backendOrigin) {
+      return {};
+    }
+
+    const token = await this.getToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
+  // ============================================================
+  // INTERCEPTORS
+  // Request interceptors can rewrite the URL or headers of every attempt,
+  // response interceptors see every response before it is parsed.
+  // Both return a function that removes the interceptor again.
+  // ============================================================
+  addRequestInterceptor(interceptor: RequestInterceptor): () => void {
+    this.requestInterceptors.push(interceptor);
+    return () => {
+      this.requestInterceptors = this.requestInterceptors.filter(item => item !== interceptor);
+    };
+  }
+
+  addResponseInterceptor(interceptor: ResponseInterceptor): () => void {
+    this.responseInterceptors.push(interceptor);
+    return () => {
+      this.responseInterceptors = this.responseInterceptors.filter(item => item !== interceptor);
+    };
+  }
+
+  // ============================================================
+  // REQUEST PIPELINE
+  // Every call goes through request(): token handling, timeout,
+  // cancellation, retries with exponential backoff, interceptors and
+  // expired session detection. Failures are thrown as ApiError.
+  // ============================================================
   async request(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestOptions = {}
   ): Promise<Response> {
-    const token = await this.getToken();
-    
+    const {
+      auth = true,
+      timeoutMs = DEFAULT_TIMEOUT_MS,
+      retries,
+      idempotent,
+      getBody,
+      onRetry,
+      signal,
+      ...init
+    } = options;
+
+    const method = (init.method || 'GET').toUpperCase();
+    const isIdempotent = idempotent ?? IDEMPOTENT_METHODS.includes(method);
+    const maxAttempts = 1 + (retries ?? (isIdempotent ? DEFAULT_RETRIES : 0));
+
+    const token = auth ? await this.getToken() : null;
+    if (auth && !token) {
+      throw new ApiError('unauthenticated', 'Authentication required. Please login first.', endpoint);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      let failure: ApiError | null = null;
+
+      try {
+        const response = await this.fetchOnce(endpoint, {
+          ...init,
+          method,
+          body: getBody ? getBody() : init.body,
+        }, { token, timeoutMs, signal, attempt });
+
+        // 5xx, 408 and 429 are worth another attempt, everything else is final
+        const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+        if (!retryable || attempt >= maxAttempts) {
+          return response;
+        }
+      } catch (error) {
+        if (!isRetryableError(error) || attempt >= maxAttempts) {
+          throw error;
+        }
+        failure = error as ApiError;
+      }
+
+      const delay = getRetryDelay(attempt);
+      onRetry?.(attempt, maxAttempts, failure, delay);
+      await waitForRetry(delay, signal, endpoint);
+    }
+  }
+
+  // One attempt: build headers, run interceptors, fetch with a timeout
+  private async fetchOnce(
+    endpoint: string,
+    init: RequestInit,
+    attemptOptions: { token: string | null; timeoutMs: number; signal?: AbortSignal | null; attempt: number }
+  ): Promise<Response> {
+    const { token, timeoutMs, signal, attempt } = attemptOptions;
+
     // Don't set Content-Type for FormData (it will be set automatically with boundary)
-    const isFormData = options.body instanceof FormData;
+    const isFormData = init.body instanceof FormData;
     const headers: Record<string, string> = isFormData
       ? {}
       : {
@@ -71,8 +292,8 @@ class ApiService {
         };
     
     // Merge with any provided headers
-    if (options.headers) {
-      Object.assign(headers, options.headers);
+    if (init.headers) {
+      Object.assign(headers, init.headers);
     }
 
     // Add authorization header if token exists
@@ -80,120 +301,184 @@ class ApiService {
       headers['Authorization'] = `Bearer ${token}`;
     }
 
-    const url = `${this.baseURL}${endpoint}`;
-    
+    let context: RequestContext = {
+      endpoint,
+      url: `${this.baseURL}${endpoint}`,
+      init: { ...init, headers },
+      attempt,
+    };
+    for (const interceptor of this.requestInterceptors) {
+      context = (await interceptor(context)) || context;
+    }
+
+    // The caller's signal and the timeout both abort the same controller
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const abortFromCaller = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener('abort', abortFromCaller);
+    }
+
     try {
-      const response = await fetch(url, {
-        ...options,
-        headers,
+      let response = await fetch(context.url, {
+        ...context.init,
+        signal: controller.signal,
       });
-      
+
+      for (const interceptor of this.responseInterceptors) {
+        response = (await interceptor(response, context)) || response;
+      }
+
+      if (token && !response.ok) {
+        await this.detectExpiredSession(response, endpoint);
+      }
+
       return response;
     } catch (error: any) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      if (controller.signal.aborted) {
+        throw timedOut
+          ? new ApiError('timeout', `Request timed out after ${Math.round(timeoutMs / 1000)} seconds. Please check your connection and try again.`, endpoint)
+          : new ApiError('cancelled', 'Request was cancelled', endpoint);
+      }
+
       // Only log network errors if they're not part of a retry sequence
-      // (uploadImage handles its own error logging)
-      if (!url.includes('/images/upload')) {
+      if (attempt === 1) {
         console.error('API Request Error:', error);
-        console.error('Request URL:', url);
+        console.error('Request URL:', context.url);
       }
       
       // Provide more helpful error messages
       if (error.message?.includes('Network request failed') || error.message?.includes('Failed to fetch')) {
-        const helpfulError = new Error(
+        throw new ApiError(
+          'network',
           `Cannot connect to backend server at ${this.baseURL}\n\n` +
           `Possible issues:\n` +
           `1. Backend server is not running\n` +
           `2. Wrong IP address in constants/api.ts\n` +
           `3. Device/emulator not on same network\n` +
           `4. Firewall blocking port 4000\n\n` +
-          `Check BACKEND_SETUP.md for setup instructions.`
+          `Check BACKEND_SETUP.md for setup instructions.`,
+          endpoint
         );
-        helpfulError.name = 'NetworkError';
-        throw helpfulError;
       }
       
-      throw error;
+      throw new ApiError('network', error.message || 'Network request failed', endpoint);
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', abortFromCaller);
     }
   }
 
-  // Auth Methods
-  async login(email: string, password: string) {
-    const response = await this.request('/auth/login', {
-      method: 'POST',
-      body: JSON.stringify({ email, password }),
-    });
-
-    let data;
+  // A rejected token clears the stored session so the auth guard sends the
+  // user back to login, and surfaces as a 'session-expired' ApiError
+  private async detectExpiredSession(response: Response, endpoint: string): Promise<void> {
+    let payload: any = null;
     try {
-      data = await response.json();
-    } catch (error) {
-      // If response is not valid JSON, create error object
-      data = {
-        success: false,
-        message: response.statusText || 'An error occurred',
-      };
-    }
-    
-    if (response.ok && data.success === true) {
-      // Store token and user data
-      if (data.token) {
-        await AsyncStorage.setItem('jwt_token', data.token);
-      }
-      if (data.data?.user) {
-        await AsyncStorage.setItem('user_data', JSON.stringify(data.data.user));
-      }
+      payload = await response.clone().json();
+    } catch {
+      // Not JSON - decided by status alone
     }
 
-    return { response, data };
+    if (isSessionExpiredResponse(response.status, payload)) {
+      await this.logout();
+      throw new ApiError('session-expired', 'Your session has expired. Please login again.', endpoint, {
+        status: response.status,
+        payload,
+      });
+    }
   }
 
-  async signup(name: string, email: string, password: string) {
-    const response = await this.request('/auth/signup', {
-      method: 'POST',
-      body: JSON.stringify({ name, email, password }),
-    });
+  // Run a request and parse the JSON envelope. Empty or invalid bodies
+  // become { success: false, message } so callers only handle one shape.
+  private async send<T = undefined>(
+    endpoint: string,
+    options: RequestOptions,
+    fallbackMessage: string
+  ): Promise<ApiResult<T>> {
+    const response = await this.request(endpoint, options);
+
+    // DELETE returns 204 No Content on success
+    if (response.status === 204) {
+      return { response, data: { success: true } };
+    }
 
-    let data;
+    let data: ApiResponse<T>;
     try {
-      data = await response.json();
+      const text = await response.text();
+      data = text
+        ? JSON.parse(text)
+        : { success: false, message: response.ok ? 'Empty response from server' : (response.statusText || fallbackMessage) };
     } catch (error) {
-      // If response is not valid JSON, create error object
+      console.error(`Failed to parse response from ${endpoint}:`, error);
       data = {
         success: false,
-        message: response.statusText || 'An error occurred',
+        message: response.statusText || fallbackMessage,
       };
     }
+
     return { response, data };
   }
 
-  async verifyOTP(email: string, otp: string) {
-    const response = await this.request('/auth/verify-otp', {
+  // Auth Methods
+  // Auth endpoints never send the stored token (it may be stale)
+  async login(email: string, password: string, callOptions: CallOptions = {}): Promise<ApiResult<AuthData>> {
+    const result = await this.send<AuthData>('/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ email, password }),
+      auth: false,
+      ...callOptions,
+    }, 'An error occurred');
+
+    await this.storeSession(result);
+    return result;
+  }
+
+  async signup(name: string, email: string, password: string, callOptions: CallOptions = {}): Promise<ApiResult<SignupData>> {
+    return this.send('/auth/signup', {
+      method: 'POST',
+      body: JSON.stringify({ name, email, password }),
+      auth: false,
+      ...callOptions,
+    }, 'An error occurred');
+  }
+
+  async verifyOTP(email: string, otp: string, callOptions: CallOptions = {}): Promise<ApiResult<AuthData>> {
+    const result = await this.send<AuthData>('/auth/verify-otp', {
       method: 'POST',
       body: JSON.stringify({ email, otp }),
-    });
+      auth: false,
+      ...callOptions,
+    }, 'An error occurred');
 
-    let data;
-    try {
-      data = await response.json();
-    } catch (error) {
-      // If response is not valid JSON, create error object
-      data = {
-        success: false,
-        message: response.statusText || 'An error occurred',
-      };
-    }
-    
-    if (response.ok && data.success === true) {
-      // Store token and user data after OTP verification
-      if (data.token) {
-        await AsyncStorage.setItem('jwt_token', data.token);
-      }
-      if (data.data?.user) {
-        await AsyncStorage.setItem('user_data', JSON.stringify(data.data.user));
-      }
+    // Store token and user data after OTP verification
+    await this.storeSession(result);
+    return result;
+  }
+
+  // Store token and user data from a successful auth response
+  private async storeSession(result: ApiResult<AuthData>): Promise<boolean> {
+    const { response, data } = result;
+    if (!response.ok || data.success !== true) {
+      return false;
     }
 
-    return { response, data };
+    if (data.token) {
+      await AsyncStorage.setItem('jwt_token', data.token);
+    }
+    if (data.data?.user) {
+      await AsyncStorage.setItem('user_data', JSON.stringify(data.data.user));
+    }
+    return true;
   }
 
   // Logout - clear stored tokens and user data
@@ -209,41 +494,24 @@ class ApiService {
   }
 
   // Google Authentication
-  async googleAuth(idToken: string) {
+  async googleAuth(idToken: string, callOptions: CallOptions = {}): Promise<ApiResult<AuthData>> {
     console.log('=== API Service: Google Auth ===');
     console.log('Endpoint: /auth/google');
     console.log('ID Token provided:', idToken ? `Yes (length: ${idToken.length})` : 'NO - MISSING!');
     
-    const response = await this.request('/auth/google', {
+    const result = await this.send<AuthData>('/auth/google', {
       method: 'POST',
       body: JSON.stringify({ idToken }),
-    });
+      auth: false,
+      ...callOptions,
+    }, 'An error occurred');
 
+    const { response, data } = result;
     console.log('Response status:', response.status);
     console.log('Response ok:', response.ok);
 
-    let data;
-    try {
-      data = await response.json();
-      console.log('Response data:', data);
-    } catch (error) {
-      console.error('Failed to parse response JSON:', error);
-      // If response is not valid JSON, create error object
-      data = {
-        success: false,
-        message: response.statusText || 'An error occurred',
-      };
-    }
-    
-    if (response.ok && data.success === true) {
-      console.log('✅ Storing token and user data');
-      // Store token and user data
-      if (data.token) {
-        await AsyncStorage.setItem('jwt_token', data.token);
-      }
-      if (data.data?.user) {
-        await AsyncStorage.setItem('user_data', JSON.stringify(data.data.user));
-      }
+    if (await this.storeSession(result)) {
+      console.log('✅ Stored token and user data');
     } else {
       console.error('❌ Google auth failed:', {
         status: response.status,
@@ -252,7 +520,7 @@ class ApiService {
       });
     }
 
-    return { response, data };
+    return result;
   }
 
   // Check if user is authenticated
@@ -269,14 +537,9 @@ class ApiService {
     imageUri: string,
     projectId: string,
     projectType: 'layer-based' | 'ai-sequential',
-    onRetry?: (attempt: number, maxRetries: number, message: string) => void
-  ): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
+    onRetry?: (attempt: number, maxRetries: number, message: string) => void,
+    callOptions: CallOptions = {}
+  ): Promise<ApiResult<UploadImageData>> {
     if (!projectId) {
       throw new Error('Project ID is required. Please create a project first.');
     }
@@ -303,156 +566,114 @@ class ApiService {
       return formData;
     };
 
-    // Make request with FormData (don't set Content-Type, let fetch set it with boundary)
     // Image upload endpoint is at /api/v1/adobe-ps/images/upload
     // baseURL already includes /api/v1/adobe-ps, so use /images/upload
-    const url = `${this.baseURL}/images/upload`;
+    const maxAttempts = UPLOAD_RETRIES + 1;
+    onRetry?.(1, maxAttempts, 'Uploading image...');
 
-    // Retry logic for network errors with longer waits
-    const maxRetries = 5; // Increased from 3 to 5
-    let response: Response | null = null;
-    let lastError: Error | null = null;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        // Notify about retry attempt
-        if (attempt > 1 && onRetry) {
-          onRetry(attempt, maxRetries, `Retrying upload... (${attempt}/${maxRetries})`);
-        } else if (onRetry) {
-          onRetry(attempt, maxRetries, 'Uploading image...');
-        }
-        
+    let result: ApiResult<UploadImageData>;
+    try {
+      result = await this.send<UploadImageData>('/images/upload', {
+        method: 'POST',
         // Create fresh FormData for each attempt (FormData can only be used once)
-        const formData = createFormData();
-        
-        // Add timeout to prevent hanging requests - 120 seconds for large images
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 120000);
-
-        response = await fetch(url, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            // Don't set Content-Type - let fetch set it with boundary for FormData
-          },
-          body: formData,
-          signal: controller.signal,
-        });
-
-        clearTimeout(timeoutId);
-        
-        // If successful, break out of retry loop
-        if (response.ok) {
-          lastError = null; // Clear any previous errors
-          if (onRetry) {
-            onRetry(maxRetries, maxRetries, 'Upload complete!');
-          }
-          break;
-        }
-        
-        // If non-network error (4xx), don't retry
-        if (response.status >= 400 && response.status < 500) {
-          lastError = null;
-          break;
-        }
-        
-        // For 5xx errors, retry with longer delay
-        if (attempt < maxRetries && response.status >= 500) {
-          const delay = Math.min(2000 * Math.pow(2, attempt - 1), 10000); // Exponential backoff, max 10s
-          if (onRetry) {
-            onRetry(attempt, maxRetries, `Server error. Waiting ${Math.round(delay/1000)}s before retry...`);
-          }
-          await new Promise(resolve => setTimeout(resolve, delay));
-        } else if (attempt < maxRetries) {
-          // For other non-ok responses, retry
-          const delay = Math.min(2000 * Math.pow(2, attempt - 1), 10000);
-          if (onRetry) {
-            onRetry(attempt, maxRetries, `Unexpected response. Waiting ${Math.round(delay/1000)}s before retry...`);
-          }
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
-      } catch (fetchError: any) {
-        lastError = fetchError;
-        
-        // Only log errors on final attempt to avoid cluttering console
-        if (attempt === maxRetries) {
-          console.error(`=== Network Error (Final Attempt ${attempt}/${maxRetries}) ===`);
-          console.error('Error type:', fetchError.name);
-          console.error('Error message:', fetchError.message);
-          console.error('Failed URL:', url);
-        } else {
-          // Silent retry - only log at debug level, not error level
-          console.log(`[Retry ${attempt}/${maxRetries}] Connection issue, retrying...`);
-        }
-        
-        // If aborted due to timeout, provide helpful message
-        if (fetchError.name === 'AbortError') {
-          if (attempt === maxRetries) {
-            throw new Error('Upload timeout after 2 minutes. The image may be too large or connection is too slow. Please try:\n1. Use a smaller image\n2. Check your internet connection\n3. Move closer to WiFi router');
-          }
-          // Otherwise retry with longer delay
-          const delay = 5000; // 5 second delay before retry
-          if (onRetry) {
-            onRetry(attempt, maxRetries, `Upload timed out. Waiting ${Math.round(delay/1000)}s before retry...`);
-          }
-          await new Promise(resolve => setTimeout(resolve, delay));
-          continue;
-        }
-        
-        // If last attempt, throw error
-        if (attempt === maxRetries) {
-          let errorMessage = 'Network request failed. ';
-          if (fetchError.message?.includes('Network request failed') || fetchError.message?.includes('Failed to fetch')) {
-            errorMessage += 'Please check:\n';
-            errorMessage += '1. Backend server is running\n';
-            errorMessage += `2. Backend URL is correct: ${this.baseURL}\n`;
-            errorMessage += '3. Device/emulator can reach the server\n';
-            errorMessage += '4. For physical device, use your computer\'s IP address instead of localhost\n';
-            errorMessage += '5. Check your internet connection';
-          } else {
-            errorMessage += fetchError.message || 'Unknown network error';
-          }
-          
-          throw new Error(errorMessage);
-        }
-        
-        // Wait before retrying with exponential backoff (longer delays)
-        const delay = Math.min(2000 * Math.pow(2, attempt - 1), 10000); // Max 10 seconds
-        if (onRetry) {
-          onRetry(attempt, maxRetries, `Connection failed. Waiting ${Math.round(delay/1000)}s before retry... (${attempt}/${maxRetries})`);
-        }
-        await new Promise(resolve => setTimeout(resolve, delay));
+        getBody: createFormData,
+        timeoutMs: UPLOAD_TIMEOUT_MS,
+        retries: UPLOAD_RETRIES,
+        onRetry: (attempt, maxAttempts, error, delayMs) => {
+          onRetry?.(attempt + 1, maxAttempts, getUploadRetryMessage(attempt, maxAttempts, error, delayMs));
+        },
+        ...callOptions,
+      }, 'Upload failed');
+    } catch (error) {
+      if (isApiError(error, 'timeout')) {
+        throw new ApiError('timeout', 'Upload timeout after 2 minutes. The image may be too large or connection is too slow. Please try:\n1. Use a smaller image\n2. Check your internet connection\n3. Move closer to WiFi router', error.endpoint);
       }
+      throw error;
     }
 
-    if (!response) {
-      throw new Error('Failed to upload image after multiple attempts');
+    if (result.response.ok) {
+      onRetry?.(maxAttempts, maxAttempts, 'Upload complete!');
     }
+    console.log('Upload response data:', result.data);
 
-    let data;
-    try {
-      data = await response.json();
-      console.log('Upload response data:', data);
-    } catch (error) {
-      console.error('Failed to parse upload response:', error);
-      console.error('Response status:', response.status);
-      console.error('Response statusText:', response.statusText);
-      
-      // Try to get response text for debugging
-      try {
-        const responseText = await response.text();
-        console.error('Response text:', responseText);
-      } catch (textError) {
-        console.error('Could not read response text');
-      }
-      
-      data = {
-        success: false,
-        message: response.statusText || 'Upload failed',
-      };
+    return result;
+  }
+
+  // ============================================================
+  // UPLOAD MULTIPLE IMAGES
+  // Add images to a layer project, one layer per image
+  // Route: POST /api/v1/adobe-ps/images/upload-multiple
+  // Backend: imageController.uploadMultipleImages (max 2 images per request)
+  // 
+  // Parameters:
+  //   - imageUris: Local image URIs
+  //   - projectId: Layer project to add the layers to
+  //   - onRetry: Called before each retry with the attempt and reason
+  // 
+  // Returns:
+  //   - images: Uploaded images
+  //   - layers: Created layers, stacked on top of the project
+  // ============================================================
+  async uploadMultipleImages(
+    imageUris: string[],
+    projectId: string,
+    onRetry?: (attempt: number, maxAttempts: number, message: string) => void,
+    callOptions: CallOptions = {}
+  ): Promise<ApiResult<UploadMultipleImagesData>> {
+    if (!projectId) {
+      throw new Error('Project ID is required. Please create a project first.');
     }
 
-    return { response, data };
+    const createFormData = () => {
+      const formData = new FormData();
+      imageUris.forEach(imageUri => {
+        const filename = imageUri.split('/').pop() || 'image.jpg';
+        const match = /\.(\w+)$/.exec(filename);
+        formData.append('images', {
+          uri: imageUri,
+          type: match ? `image/${match[1]}` : 'image/jpeg',
+          name: filename,
+        } as any);
+      });
+      formData.append('projectId', projectId);
+      return formData;
+    };
+
+    return this.send<UploadMultipleImagesData>('/images/upload-multiple', {
+      method: 'POST',
+      getBody: createFormData,
+      timeoutMs: UPLOAD_TIMEOUT_MS,
+      retries: UPLOAD_RETRIES,
+      onRetry: (attempt, maxAttempts, error, delayMs) => {
+        onRetry?.(attempt + 1, maxAttempts, getUploadRetryMessage(attempt, maxAttempts, error, delayMs));
+      },
+      ...callOptions,
+    }, 'Upload failed');
+  }
+
+  // ============================================================
+  // CROP IMAGE
+  // Crop, straighten, rotate and flip an image
+  // Route: PATCH /api/v1/adobe-ps/images/crop
+  // Backend: imageController.cropImage
+  // 
+  // Parameters:
+  //   - publicId: Cloudinary public ID of the image
+  //   - x, y, width, height: Crop in pixels of the flipped and rotated image
+  //   - angle: Clockwise rotation in whole degrees (90° turns + straighten)
+  //   - flipX, flipY: Mirror before rotating
+  // 
+  // Returns:
+  //   - inputImage: The image as it was (kept for the timeline)
+  //   - outputImage: The cropped image, saved as a new image
+  // ============================================================
+  async cropImage(request: CropImageRequest, callOptions: CallOptions = {}): Promise<ApiResult<CropImageData>> {
+    return this.send('/images/crop', {
+      method: 'PATCH',
+      body: JSON.stringify(request),
+      timeoutMs: UPLOAD_TIMEOUT_MS,
+      ...callOptions,
+    }, 'Failed to crop image');
   }
 
   // ============================================================
@@ -463,15 +684,10 @@ class ApiService {
     title: string,
     canvasWidth: number,
     canvasHeight: number,
-    backgroundColor: string
-  ): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
-    const response = await this.request('/projects/create', {
+    backgroundColor: string,
+    callOptions: CallOptions = {}
+  ): Promise<ApiResult<CreateLayerProjectData>> {
+    return this.send('/projects/create', {
       method: 'POST',
       body: JSON.stringify({
         title: title || 'Untitled Project',
@@ -479,21 +695,8 @@ class ApiService {
         canvasHeight: canvasHeight || 1080,
         backgroundColor: backgroundColor || '#ffffff',
       }),
-    });
-
-    let data;
-    try {
-      data = await response.json();
-      console.log('Create layer project response:', data);
-    } catch (error) {
-      console.error('Failed to parse create layer project response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to create project',
-      };
-    }
-
-    return { response, data };
+      ...callOptions,
+    }, 'Failed to create project');
   }
 
   // ============================================================
@@ -505,15 +708,10 @@ class ApiService {
     canvasWidth: number,
     canvasHeight: number,
     backgroundColor: string,
-    description?: string
-  ): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
-    const response = await this.request('/ai-projects/create', {
+    description?: string,
+    callOptions: CallOptions = {}
+  ): Promise<ApiResult<CreateAIProjectData>> {
+    return this.send('/ai-projects/create', {
       method: 'POST',
       body: JSON.stringify({
         title: title || 'AI Edit Project',
@@ -522,21 +720,8 @@ class ApiService {
         canvasHeight: canvasHeight || 1080,
         backgroundColor: backgroundColor || '#ffffff',
       }),
-    });
-
-    let data;
-    try {
-      data = await response.json();
-      console.log('Create AI project response:', data);
-    } catch (error) {
-      console.error('Failed to parse create AI project response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to create AI project',
-      };
-    }
-
-    return { response, data };
+      ...callOptions,
+    }, 'Failed to create AI project');
   }
 
   // ============================================================
@@ -579,13 +764,7 @@ class ApiService {
   // Processing Time: 30-60 seconds
   // Backend: aiController.enhanceImage() -> Docker: nafnet-service (sameer513/nafnet-image)
   // ============================================================
-  async enhanceImage(publicId: string, mode: 'denoise' | 'deblur'): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
+  async enhanceImage(publicId: string, mode: 'denoise' | 'deblur', callOptions: CallOptions = {}): Promise<ApiResult<EnhanceData>> {
     // Validate mode parameter according to API spec
     if (!['denoise', 'deblur'].includes(mode)) {
       throw new Error('Mode must be either "denoise" or "deblur"');
@@ -612,39 +791,42 @@ class ApiService {
     // 7. Uploads enhanced image to Cloudinary
     // 8. Saves to database
     // 9. Returns success response with enhancedImageUrl
-    const response = await this.request('/ai/enhance', {
+    return this.send('/ai/enhance', {
       method: 'POST',
       body: JSON.stringify({
         publicId,
         mode,
       }),
-    });
-
-    let data;
-    try {
-      // Try to parse JSON response
-      const text = await response.text();
-      if (text) {
-        data = JSON.parse(text);
-        console.log('Enhance image response:', data);
-      } else {
-        // Empty response
-        data = {
-          success: false,
-          message: 'Empty response from server',
-        };
-      }
-    } catch (error) {
-      console.error('Failed to parse enhance image response:', error);
-      // If JSON parsing fails, check if it's an error response
-      // Backend error format: { status: 'fail', message: '...' } or { success: false, message: '...' }
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to enhance image',
-      };
-    }
+      timeoutMs: AI_TIMEOUT_MS,
+      ...callOptions,
+    }, 'Failed to enhance image');
+  }
 
-    return { response, data };
+  // ============================================================
+  // SEPARATE LAYERS
+  // Split a photo into a subject and a clean background
+  // Route: POST /api/ai/separate-layers
+  // Backend: aiOperationsController.separateLayers
+  // 
+  // Parameters:
+  //   - imageUrl: Cloudinary URL of the photo
+  //   - projectId: Layer project the results are stored under
+  // 
+  // Returns:
+  //   - foreground: subject on a transparent background (u2net, human or
+  //     general model picked by Gemini classification)
+  //   - background: photo with the subject inpainted away (LaMa)
+  // ============================================================
+  async separateLayers(imageUrl: string, projectId: string, callOptions: CallOptions = {}): Promise<ApiResult<SeparateLayersData>> {
+    return this.send('/ai/separate-layers', {
+      method: 'POST',
+      body: JSON.stringify({
+        imageUrl,
+        projectId,
+      }),
+      timeoutMs: AI_TIMEOUT_MS,
+      ...callOptions,
+    }, 'Failed to split photo into layers');
   }
 
   // ============================================================
@@ -660,13 +842,7 @@ class ApiService {
   // Returns:
   //   - Image with background removed (transparent PNG)
   // ============================================================
-  async removeBackground(publicId: string, mode: 'human' | 'object'): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
+  async removeBackground(publicId: string, mode: 'human' | 'object', callOptions: CallOptions = {}): Promise<ApiResult<RemoveBackgroundData>> {
     // Validate mode parameter
     if (!['human', 'object'].includes(mode)) {
       throw new Error('Mode must be either "human" or "object"');
@@ -686,27 +862,15 @@ class ApiService {
     // 4. Uploads to Cloudinary
     // 5. Saves to database
     // 6. Returns processed image URL
-    const response = await this.request('/ai/remove-background', {
+    return this.send('/ai/remove-background', {
       method: 'POST',
       body: JSON.stringify({
         publicId,
         mode,
       }),
-    });
-
-    let data;
-    try {
-      data = await response.json();
-      console.log('Remove background response:', data);
-    } catch (error) {
-      console.error('Failed to parse remove background response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to remove background',
-      };
-    }
-
-    return { response, data };
+      timeoutMs: AI_TIMEOUT_MS,
+      ...callOptions,
+    }, 'Failed to remove background');
   }
 
   // ============================================================
@@ -743,16 +907,15 @@ class ApiService {
   //     }
   //   }
   // 
+  // Selection Request (multipart/form-data, see removeObjectSelection):
+  //   publicId, points (JSON [{ x, y, positive }]), box (JSON { x, y, width, height }),
+  //   mask (optional PNG, white where to remove)
+  //   The response has "selection" instead of "coordinates".
+  // 
   // Processing Time: 5-15 seconds
   // Backend: aiController.objectRemoval() -> Docker: object removal service
   // ============================================================
-  async removeObject(publicId: string, x: number, y: number): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
+  async removeObject(publicId: string, x: number, y: number, callOptions: CallOptions = {}): Promise<ApiResult<ObjectRemovalData>> {
     // Validate coordinates
     if (typeof x !== 'number' || typeof y !== 'number' || x < 0 || y < 0) {
       throw new Error('Valid x and y coordinates are required (non-negative numbers)');
@@ -763,31 +926,61 @@ class ApiService {
     console.log('PublicId:', publicId);
     console.log('Coordinates:', { x, y });
 
-    const response = await this.request('/ai/object-removal', {
+    return this.send('/ai/object-removal', {
       method: 'POST',
       body: JSON.stringify({
         publicId,
         x,
         y,
       }),
-    });
+      timeoutMs: AI_TIMEOUT_MS,
+      ...callOptions,
+    }, 'Failed to remove object');
+  }
 
-    let data;
-    try {
-      data = await response.json();
-      console.log('Object removal response:', data);
-    } catch (error) {
-      console.error('Failed to parse object removal response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to remove object',
-      };
+  // Remove what a selection covers: an optional painted mask (brush and
+  // lasso, white where to remove) plus SAM points and box, in image pixels.
+  // Sent as multipart form data to the same endpoint.
+  async removeObjectSelection(
+    publicId: string,
+    selection: ObjectSelectionPrompts,
+    maskUri: string | null,
+    callOptions: CallOptions = {}
+  ): Promise<ApiResult<ObjectRemovalData>> {
+    if (!maskUri && !selection.box && !selection.points.some(point => point.positive)) {
+      throw new Error('Select the object with the brush, lasso, a box or at least one positive point');
     }
 
-    return { response, data };
-  }
+    console.log('=== Object Removal (Selection) API Call ===');
+    console.log('PublicId:', publicId);
+    console.log('Selection:', { ...selection, painted: !!maskUri });
 
-  // ============================================================
+    const createFormData = () => {
+      const formData = new FormData();
+      formData.append('publicId', publicId);
+      formData.append('points', JSON.stringify(selection.points));
+      if (selection.box) {
+        formData.append('box', JSON.stringify(selection.box));
+      }
+      if (maskUri) {
+        formData.append('mask', {
+          uri: maskUri,
+          type: 'image/png',
+          name: `selection_${Date.now()}.png`,
+        } as any);
+      }
+      return formData;
+    };
+
+    return this.send('/ai/object-removal', {
+      method: 'POST',
+      getBody: createFormData,
+      timeoutMs: AI_TIMEOUT_MS,
+      ...callOptions,
+    }, 'Failed to remove object');
+  }
+
+  // ============================================================
   // RELIGHT
   // Adjust lighting/brightness of image using AI model
   // 
@@ -804,32 +997,31 @@ class ApiService {
   //     "success": true,
   //     "message": "Image relit successfully",
   //     "data": {
-  //       "inputImage": {
-  //         "publicId": "...",
-  //         "imageUrl": "..."
-  //       },
-  //       "outputImage": {
-  //         "publicId": "...",
-  //         "imageUrl": "...",
-  //         "width": 1920,
-  //         "height": 1080,
-  //         "format": "jpg",
-  //         "size": 456789
-  //       },
-  //       "brightness": 1.5
+  //       "originalImageId": "...",
+  //       "originalImageUrl": "...",
+  //       "relitImageId": "...",
+  //       "relitImageUrl": "...",
+  //       "publicId": "...",
+  //       "brightness": 1.5,
+  //       "format": "jpg",
+  //       "width": 1920,
+  //       "height": 1080,
+  //       "size": 456789
   //     }
   //   }
   // 
+  // Directional Request Body (see relightDirectional / previewRelight):
+  //   {
+  //     "publicId": "adobe-ps-uploads/abc123xyz",
+  //     "light": { "x": 0.3, "y": 0.2, "temperature": 5500, "intensity": 1, "hardness": 0.6 },
+  //     "preview": true  // Optional: small result as a data URI, nothing saved
+  //   }
+  //   The model brightness follows the light intensity.
+  // 
   // Processing Time: 10-30 seconds
   // Backend: aiController.relight() -> Docker: relight service
   // ============================================================
-  async relight(publicId: string, brightness: number = 0.5): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
+  async relight(publicId: string, brightness: number = 0.5, callOptions: CallOptions = {}): Promise<ApiResult<RelightData>> {
     // Validate brightness parameter
     if (brightness < 0.1 || brightness > 3.0) {
       throw new Error('Brightness must be between 0.1 and 3.0');
@@ -840,35 +1032,46 @@ class ApiService {
     console.log('PublicId:', publicId);
     console.log('Brightness:', brightness);
 
-    const response = await this.request('/ai/relight', {
+    return this.send('/ai/relight', {
       method: 'POST',
       body: JSON.stringify({
         publicId,
         brightness,
       }),
-    });
+      timeoutMs: AI_TIMEOUT_MS,
+      ...callOptions,
+    }, 'Failed to relight image');
+  }
 
-    let data;
-    try {
-      const text = await response.text();
-      if (text) {
-        data = JSON.parse(text);
-        console.log('Relight response:', data);
-      } else {
-        data = {
-          success: false,
-          message: 'Empty response from server',
-        };
-      }
-    } catch (error) {
-      console.error('Failed to parse relight response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to relight image',
-      };
-    }
+  // Relight with a directional light at full resolution
+  async relightDirectional(publicId: string, light: RelightParams, callOptions: CallOptions = {}): Promise<ApiResult<RelightData>> {
+    console.log('=== Directional Relight API Call ===');
+    console.log('PublicId:', publicId);
+    console.log('Light:', light);
 
-    return { response, data };
+    return this.send('/ai/relight', {
+      method: 'POST',
+      body: JSON.stringify({
+        publicId,
+        light,
+      }),
+      timeoutMs: AI_TIMEOUT_MS,
+      ...callOptions,
+    }, 'Failed to relight image');
+  }
+
+  // Relight a low-resolution copy to preview a light before committing to it
+  async previewRelight(publicId: string, light: RelightParams, callOptions: CallOptions = {}): Promise<ApiResult<RelightPreviewData>> {
+    return this.send('/ai/relight', {
+      method: 'POST',
+      body: JSON.stringify({
+        publicId,
+        light,
+        preview: true,
+      }),
+      timeoutMs: AI_TIMEOUT_MS,
+      ...callOptions,
+    }, 'Failed to preview relight');
   }
 
   // ============================================================
@@ -882,30 +1085,38 @@ class ApiService {
   //     "publicId": "adobe-ps-uploads/abc123xyz",
   //     "fidelity": 0.7  // Range: 0 - 1, default: 0.7
   //   }
+  //
+  // Selective Request Body (see restoreFaces / previewFaceRestore):
+  //   {
+  //     "publicId": "adobe-ps-uploads/abc123xyz",
+  //     "fidelity": 0.7,
+  //     "strength": 0.8,  // Blend with the original, 0 - 1
+  //     "faces": [{ "x": 120, "y": 80, "width": 96, "height": 110 }],  // null = whole image
+  //     "preview": true  // Optional: small result as a data URI, nothing saved
+  //   }
   // 
   // Success Response (200):
   //   {
   //     "success": true,
   //     "message": "Face restored successfully",
   //     "data": {
-  //       "outputImage": {
-  //         "publicId": "...",
-  //         "imageUrl": "..."
-  //       },
-  //       "fidelity": 0.7
+  //       "originalImageId": "...",
+  //       "originalImageUrl": "...",
+  //       "restoredImageId": "...",
+  //       "restoredImageUrl": "...",
+  //       "publicId": "...",
+  //       "fidelity": 0.7,
+  //       "format": "jpg",
+  //       "width": 1920,
+  //       "height": 1080,
+  //       "size": 456789
   //     }
   //   }
   // 
   // Processing Time: 10-30 seconds
   // Backend: aiController.faceRestore() -> Docker: face-restoration service
   // ============================================================
-  async faceRestore(publicId: string, fidelity: number = 0.7): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
+  async faceRestore(publicId: string, fidelity: number = 0.7, callOptions: CallOptions = {}): Promise<ApiResult<FaceRestoreData>> {
     if (fidelity < 0 || fidelity > 1) {
       throw new Error('Fidelity must be between 0 and 1');
     }
@@ -914,27 +1125,76 @@ class ApiService {
     console.log('PublicId:', publicId);
     console.log('Fidelity:', fidelity);
 
-    const response = await this.request('/ai/face-restore', {
+    return this.send('/ai/face-restore', {
       method: 'POST',
       body: JSON.stringify({
         publicId,
         fidelity,
       }),
-    });
+      timeoutMs: AI_TIMEOUT_MS,
+      ...callOptions,
+    }, 'Failed to restore face');
+  }
 
-    let data;
-    try {
-      data = await response.json();
-      console.log('Face restore response:', data);
-    } catch (error) {
-      console.error('Failed to parse face restore response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to restore face',
-      };
-    }
+  // Face restore limited to some faces and blended with the original
+  async restoreFaces(publicId: string, options: FaceRestoreOptions, callOptions: CallOptions = {}): Promise<ApiResult<FaceRestoreData>> {
+    console.log('=== Face Restore API Call ===');
+    console.log('PublicId:', publicId);
+    console.log('Options:', options);
 
-    return { response, data };
+    return this.send('/ai/face-restore', {
+      method: 'POST',
+      body: JSON.stringify({
+        publicId,
+        ...options,
+      }),
+      timeoutMs: AI_TIMEOUT_MS,
+      ...callOptions,
+    }, 'Failed to restore face');
+  }
+
+  // Restore a low-resolution copy to check the settings before the full job
+  async previewFaceRestore(publicId: string, options: FaceRestoreOptions, callOptions: CallOptions = {}): Promise<ApiResult<FaceRestorePreviewData>> {
+    return this.send('/ai/face-restore', {
+      method: 'POST',
+      body: JSON.stringify({
+        publicId,
+        ...options,
+        preview: true,
+      }),
+      timeoutMs: AI_TIMEOUT_MS,
+      ...callOptions,
+    }, 'Failed to preview face restore');
+  }
+
+  // ============================================================
+  // FACE DETECT
+  // Find the faces face restore can work on
+  //
+  // Endpoint: POST /api/v1/adobe-ps/ai/face-detect
+  //
+  // Request Body:
+  //   { "publicId": "adobe-ps-uploads/abc123xyz" }
+  //
+  // Success Response (200):
+  //   {
+  //     "success": true,
+  //     "data": {
+  //       "faces": [{ "x": 120, "y": 80, "width": 96, "height": 110, "score": 0.998 }],
+  //       "width": 1920,
+  //       "height": 1080
+  //     }
+  //   }
+  //
+  // Backend: aiOperationsController.faceDetect() -> Docker: face-restoration service
+  // ============================================================
+  async detectFaces(publicId: string, callOptions: CallOptions = {}): Promise<ApiResult<FaceDetectData>> {
+    return this.send('/ai/face-detect', {
+      method: 'POST',
+      body: JSON.stringify({ publicId }),
+      timeoutMs: AI_TIMEOUT_MS,
+      ...callOptions,
+    }, 'Failed to detect faces');
   }
 
   // ============================================================
@@ -952,13 +1212,7 @@ class ApiService {
   //   - Styled image URL (style from reference applied to base)
   //   - Processing takes 30-90 seconds (Docker container processing)
   // ============================================================
-  async styleTransfer(contentPublicId: string, stylePublicId: string): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
+  async styleTransfer(contentPublicId: string, stylePublicId: string, callOptions: CallOptions = {}): Promise<ApiResult<StyleTransferData>> {
     console.log('=== Style Transfer API Call ===');
     console.log('Content PublicId (Base Image):', contentPublicId);
     console.log('Style PublicId (Reference Image):', stylePublicId);
@@ -973,27 +1227,15 @@ class ApiService {
     // 6. Uploads to Cloudinary
     // 7. Saves to database
     // 8. Returns styled image URL
-    const response = await this.request('/ai/style-transfer', {
+    return this.send('/ai/style-transfer', {
       method: 'POST',
       body: JSON.stringify({
         contentPublicId, // Base image that will be styled
         stylePublicId,   // Reference image that provides the style
       }),
-    });
-
-    let data;
-    try {
-      data = await response.json();
-      console.log('Style transfer response:', data);
-    } catch (error) {
-      console.error('Failed to parse style transfer response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to transfer style',
-      };
-    }
-
-    return { response, data };
+      timeoutMs: AI_TIMEOUT_MS,
+      ...callOptions,
+    }, 'Failed to transfer style');
   }
 
   // ============================================================
@@ -1005,13 +1247,7 @@ class ApiService {
     sort?: string;
     limit?: number;
     page?: number;
-  }): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
+  }, callOptions: CallOptions = {}): Promise<ApiResult<LayerProjectSummary[]>> {
     // Build query string
     const queryParams = new URLSearchParams();
     if (params?.sort) queryParams.append('sort', params.sort);
@@ -1021,111 +1257,35 @@ class ApiService {
     const queryString = queryParams.toString();
     const endpoint = queryString ? `/projects?${queryString}` : '/projects';
 
-    const response = await this.request(endpoint, {
+    return this.send(endpoint, {
       method: 'GET',
-    });
-
-    let data;
-    try {
-      data = await response.json();
-      console.log('Get all projects response:', data);
-    } catch (error) {
-      console.error('Failed to parse get all projects response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to get projects',
-      };
-    }
-
-    return { response, data };
+      ...callOptions,
+    }, 'Failed to get projects');
   }
 
   // Get project details by ID
-  async getProjectDetails(projectId: string): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
-    const response = await this.request(`/projects/${projectId}`, {
+  async getProjectDetails(projectId: string, callOptions: CallOptions = {}): Promise<ApiResult<LayerProjectDetails>> {
+    return this.send(`/projects/${projectId}`, {
       method: 'GET',
-    });
-
-    let data;
-    try {
-      data = await response.json();
-      console.log('Get project details response:', data);
-    } catch (error) {
-      console.error('Failed to parse get project details response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to get project details',
-      };
-    }
-
-    return { response, data };
+      ...callOptions,
+    }, 'Failed to get project details');
   }
 
   // Update project title
-  async updateProjectTitle(projectId: string, title: string): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
-    const response = await this.request(`/projects/${projectId}/title`, {
+  async updateProjectTitle(projectId: string, title: string, callOptions: CallOptions = {}): Promise<ApiResult<ProjectTitleData>> {
+    return this.send(`/projects/${projectId}/title`, {
       method: 'PATCH',
       body: JSON.stringify({ title }),
-    });
-
-    let data;
-    try {
-      data = await response.json();
-      console.log('Update project title response:', data);
-    } catch (error) {
-      console.error('Failed to parse update project title response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to update project title',
-      };
-    }
-
-    return { response, data };
+      ...callOptions,
+    }, 'Failed to update project title');
   }
 
   // Delete project
-  async deleteProject(projectId: string): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
-    const response = await this.request(`/projects/${projectId}`, {
+  async deleteProject(projectId: string, callOptions: CallOptions = {}): Promise<ApiResult> {
+    return this.send(`/projects/${projectId}`, {
       method: 'DELETE',
-    });
-
-    // DELETE returns 204 No Content on success
-    let data;
-    if (response.status === 204) {
-      data = {
-        success: true,
-        message: 'Project deleted successfully',
-      };
-    } else {
-      try {
-        data = await response.json();
-      } catch (error) {
-        data = {
-          success: false,
-          message: response.statusText || 'Failed to delete project',
-        };
-      }
-    }
-
-    return { response, data };
+      ...callOptions,
+    }, 'Failed to delete project');
   }
 
   // ============================================================
@@ -1135,13 +1295,7 @@ class ApiService {
   // Get all AI sequential projects for user
   async getAllAIProjects(params?: {
     status?: 'active' | 'archived' | 'deleted';
-  }): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
+  }, callOptions: CallOptions = {}): Promise<ApiResult<AIProjectSummary[]>> {
     // Build query string
     const queryParams = new URLSearchParams();
     if (params?.status) queryParams.append('status', params.status);
@@ -1149,50 +1303,18 @@ class ApiService {
     const queryString = queryParams.toString();
     const endpoint = queryString ? `/ai-projects?${queryString}` : '/ai-projects';
 
-    const response = await this.request(endpoint, {
+    return this.send(endpoint, {
       method: 'GET',
-    });
-
-    let data;
-    try {
-      data = await response.json();
-      console.log('Get all AI projects response:', data);
-    } catch (error) {
-      console.error('Failed to parse get all AI projects response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to get AI projects',
-      };
-    }
-
-    return { response, data };
+      ...callOptions,
+    }, 'Failed to get AI projects');
   }
 
   // Get AI project details by ID
-  async getAIProjectDetails(projectId: string): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
-    const response = await this.request(`/ai-projects/${projectId}`, {
+  async getAIProjectDetails(projectId: string, callOptions: CallOptions = {}): Promise<ApiResult<AIProjectDetails>> {
+    return this.send(`/ai-projects/${projectId}`, {
       method: 'GET',
-    });
-
-    let data;
-    try {
-      data = await response.json();
-      console.log('Get AI project details response:', data);
-    } catch (error) {
-      console.error('Failed to parse get AI project details response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to get AI project details',
-      };
-    }
-
-    return { response, data };
+      ...callOptions,
+    }, 'Failed to get AI project details');
   }
 
   // Update AI project metadata
@@ -1202,66 +1324,23 @@ class ApiService {
       title?: string;
       description?: string;
       status?: 'active' | 'archived' | 'deleted';
-    }
-  ): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
-    const response = await this.request(`/ai-projects/${projectId}`, {
+    },
+    callOptions: CallOptions = {}
+  ): Promise<ApiResult<UpdateAIProjectData>> {
+    return this.send(`/ai-projects/${projectId}`, {
       method: 'PATCH',
       body: JSON.stringify(updates),
-    });
-
-    let data;
-    try {
-      data = await response.json();
-      console.log('Update AI project response:', data);
-    } catch (error) {
-      console.error('Failed to parse update AI project response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to update AI project',
-      };
-    }
-
-    return { response, data };
+      ...callOptions,
+    }, 'Failed to update AI project');
   }
 
   // Delete AI project
-  async deleteAIProject(projectId: string, permanent: boolean = false): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
+  async deleteAIProject(projectId: string, permanent: boolean = false, callOptions: CallOptions = {}): Promise<ApiResult> {
     const queryString = permanent ? '?permanent=true' : '';
-    const response = await this.request(`/ai-projects/${projectId}${queryString}`, {
+    return this.send(`/ai-projects/${projectId}${queryString}`, {
       method: 'DELETE',
-    });
-
-    // DELETE may return 204 No Content on success
-    let data;
-    if (response.status === 204) {
-      data = {
-        success: true,
-        message: permanent ? 'Project permanently deleted' : 'Project moved to trash',
-      };
-    } else {
-      try {
-        data = await response.json();
-      } catch (error) {
-        data = {
-          success: false,
-          message: response.statusText || 'Failed to delete AI project',
-        };
-      }
-    }
-
-    return { response, data };
+      ...callOptions,
+    }, 'Failed to delete AI project');
   }
 
   // Add operation to AI project
@@ -1285,86 +1364,30 @@ class ApiService {
       processingTime?: number;
       status: 'completed' | 'failed';
       errorMessage?: string;
-    }
-  ): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
-    const response = await this.request(`/ai-projects/${projectId}/operations`, {
+    },
+    callOptions: CallOptions = {}
+  ): Promise<ApiResult<AIProjectStateData>> {
+    return this.send(`/ai-projects/${projectId}/operations`, {
       method: 'POST',
       body: JSON.stringify(operationData),
-    });
-
-    let data;
-    try {
-      data = await response.json();
-      console.log('Add AI project operation response:', data);
-    } catch (error) {
-      console.error('Failed to parse add operation response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to add operation',
-      };
-    }
-
-    return { response, data };
+      ...callOptions,
+    }, 'Failed to add operation');
   }
 
   // Undo last operation in AI project
-  async undoAIProjectOperation(projectId: string): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
-    const response = await this.request(`/ai-projects/${projectId}/undo`, {
+  async undoAIProjectOperation(projectId: string, callOptions: CallOptions = {}): Promise<ApiResult<AIProjectStateData>> {
+    return this.send(`/ai-projects/${projectId}/undo`, {
       method: 'POST',
-    });
-
-    let data;
-    try {
-      data = await response.json();
-      console.log('Undo AI project operation response:', data);
-    } catch (error) {
-      console.error('Failed to parse undo operation response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to undo operation',
-      };
-    }
-
-    return { response, data };
+      ...callOptions,
+    }, 'Failed to undo operation');
   }
 
   // Revert AI project to specific operation
-  async revertAIProject(projectId: string, operationIndex: number): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
-    const response = await this.request(`/ai-projects/${projectId}/revert/${operationIndex}`, {
+  async revertAIProject(projectId: string, operationIndex: number, callOptions: CallOptions = {}): Promise<ApiResult<AIProjectStateData>> {
+    return this.send(`/ai-projects/${projectId}/revert/${operationIndex}`, {
       method: 'POST',
-    });
-
-    let data;
-    try {
-      data = await response.json();
-      console.log('Revert AI project response:', data);
-    } catch (error) {
-      console.error('Failed to parse revert response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to revert project',
-      };
-    }
-
-    return { response, data };
+      ...callOptions,
+    }, 'Failed to revert project');
   }
 
   // ============================================================
@@ -1389,14 +1412,9 @@ class ApiService {
     publicId: string,
     prompt: string,
     projectId?: string,
-    projectType?: 'layer-based' | 'ai-sequential'
-  ): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
+    projectType?: 'layer-based' | 'ai-sequential',
+    callOptions: CallOptions = {}
+  ): Promise<ApiResult<GeminiPromptData>> {
     if (!publicId) {
       throw new Error('Image publicId is required');
     }
@@ -1422,51 +1440,20 @@ class ApiService {
       requestBody.projectType = projectType;
     }
 
-    const response = await this.request('/gemini/prompt', {
+    return this.send('/gemini/prompt', {
       method: 'POST',
       body: JSON.stringify(requestBody),
-    });
-
-    let data;
-    try {
-      data = await response.json();
-      console.log('Gemini prompt response:', data);
-    } catch (error) {
-      console.error('Failed to parse Gemini prompt response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to process prompt',
-      };
-    }
-
-    return { response, data };
+      timeoutMs: AI_TIMEOUT_MS,
+      ...callOptions,
+    }, 'Failed to process prompt');
   }
 
   // Get AI project operation timeline
-  async getAIProjectTimeline(projectId: string): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
-    const response = await this.request(`/ai-projects/${projectId}/timeline`, {
+  async getAIProjectTimeline(projectId: string, callOptions: CallOptions = {}): Promise<ApiResult<TimelineData>> {
+    return this.send(`/ai-projects/${projectId}/timeline`, {
       method: 'GET',
-    });
-
-    let data;
-    try {
-      data = await response.json();
-      console.log('Get AI project timeline response:', data);
-    } catch (error) {
-      console.error('Failed to parse timeline response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to get timeline',
-      };
-    }
-
-    return { response, data };
+      ...callOptions,
+    }, 'Failed to get timeline');
   }
 
   // ============================================================
@@ -1498,13 +1485,7 @@ class ApiService {
   //     }
   //   }
   // ============================================================
-  async autoEnhanceAnalysis(projectId: string): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
+  async autoEnhanceAnalysis(projectId: string, callOptions: CallOptions = {}): Promise<ApiResult<AutoEnhanceAnalysisData>> {
     if (!projectId) {
       throw new Error('Project ID is required');
     }
@@ -1512,37 +1493,20 @@ class ApiService {
     console.log('=== Auto-Enhancement Analysis API Call ===');
     console.log('ProjectId:', projectId);
 
-    const response = await this.request(`/gemini/auto-enhance/${projectId}`, {
+    return this.send(`/gemini/auto-enhance/${projectId}`, {
       method: 'POST',
-    });
-
-    let data;
-    try {
-      data = await response.json();
-      console.log('Auto-enhance analysis response:', data);
-    } catch (error) {
-      console.error('Failed to parse auto-enhance response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to analyze for enhancements',
-      };
-    }
-
-    return { response, data };
+      timeoutMs: AI_TIMEOUT_MS,
+      ...callOptions,
+    }, 'Failed to analyze for enhancements');
   }
 
   // Apply enhancements sequentially
   // Endpoint: POST /api/v1/adobe-ps/gemini/apply-enhancements/:projectId
   async applyEnhancements(
     projectId: string,
-    enhancementOrder: string[]
-  ): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
+    enhancementOrder: string[],
+    callOptions: CallOptions = {}
+  ): Promise<ApiResult<ApplyEnhancementsData>> {
     if (!projectId) {
       throw new Error('Project ID is required');
     }
@@ -1555,39 +1519,23 @@ class ApiService {
     console.log('ProjectId:', projectId);
     console.log('Enhancement Order:', enhancementOrder);
 
-    const response = await this.request(`/gemini/apply-enhancements/${projectId}`, {
+    return this.send(`/gemini/apply-enhancements/${projectId}`, {
       method: 'POST',
       body: JSON.stringify({
         enhancementOrder,
       }),
-    });
-
-    let data;
-    try {
-      data = await response.json();
-      console.log('Apply enhancements response:', data);
-    } catch (error) {
-      console.error('Failed to parse apply enhancements response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to apply enhancements',
-      };
-    }
-    return { response, data };
+      timeoutMs: AI_TIMEOUT_MS,
+      ...callOptions,
+    }, 'Failed to apply enhancements');
   }
 
   // Replace background with harmonization
   // Endpoint: POST /api/v1/adobe-ps/ai/replace-background
   async replaceBackground(
     subjectImageUrl: string,
-    backgroundImageUrl: string
-  ): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
+    backgroundImageUrl: string,
+    callOptions: CallOptions = {}
+  ): Promise<ApiResult<ReplaceBackgroundData>> {
     if (!subjectImageUrl || !backgroundImageUrl) {
       throw new Error('Both subject and background image URLs are required');
     }
@@ -1596,26 +1544,15 @@ class ApiService {
     console.log('Subject Image URL:', subjectImageUrl);
     console.log('Background Image URL:', backgroundImageUrl);
 
-    const response = await this.request('/ai/replace-background', {
+    return this.send('/ai/replace-background', {
       method: 'POST',
       body: JSON.stringify({
         subjectImageUrl,
         backgroundImageUrl,
       }),
-    });
-
-    let data;
-    try {
-      data = await response.json();
-      console.log('Replace background response:', data);
-    } catch (error) {
-      console.error('Failed to parse replace background response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to replace background',
-      };
-    }
-    return { response, data };
+      timeoutMs: AI_TIMEOUT_MS,
+      ...callOptions,
+    }, 'Failed to replace background');
   }
 
   // ============================================================
@@ -1623,214 +1560,150 @@ class ApiService {
   // ============================================================
 
   // Get all layers for a project
-  async getProjectLayers(projectId: string): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
-    const response = await fetch(`${this.baseURL}/layers/project/${projectId}`, {
+  async getProjectLayers(projectId: string, callOptions: CallOptions = {}): Promise<ApiResult<ProjectLayersData>> {
+    return this.send(`/layers/project/${projectId}`, {
       method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-    });
-
-    let data;
-    try {
-      data = await response.json();
-      console.log('Get project layers response:', data);
-    } catch (error) {
-      console.error('Failed to parse get project layers response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to get project layers',
-      };
-    }
+      ...callOptions,
+    }, 'Failed to get project layers');
+  }
 
-    return { response, data };
+  // Create a layer from an already uploaded image, or an adjustment layer
+  async createLayer(layer: CreateLayerRequest, callOptions: CallOptions = {}): Promise<ApiResult<LayerData>> {
+    return this.send('/layers', {
+      method: 'POST',
+      body: JSON.stringify(layer),
+      ...callOptions,
+    }, 'Failed to create layer');
   }
 
   // Get single layer details
-  async getLayer(layerId: string): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
-    const response = await fetch(`${this.baseURL}/layers/${layerId}`, {
+  async getLayer(layerId: string, callOptions: CallOptions = {}): Promise<ApiResult<LayerData>> {
+    return this.send(`/layers/${layerId}`, {
       method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-    });
-
-    let data;
-    try {
-      data = await response.json();
-      console.log('Get layer response:', data);
-    } catch (error) {
-      console.error('Failed to parse get layer response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to get layer',
-      };
-    }
-
-    return { response, data };
+      ...callOptions,
+    }, 'Failed to get layer');
   }
 
-  // Update layer properties
+  // Update layer properties. Given the locks in effect for the layer (see
+  // utils/layerLocks), an edit to locked properties fails without a request.
   async updateLayer(
     layerId: string,
-    updates: {
-      name?: string;
-      visible?: boolean;
-      locked?: boolean;
-      opacity?: number;
-      blendMode?: string;
-      position?: { x: number; y: number };
-      transformations?: {
-        rotation?: number;
-        scaleX?: number;
-        scaleY?: number;
-        flipX?: boolean;
-        flipY?: boolean;
-      };
-      order?: number;
-    }
-  ): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
+    updates: LayerUpdate,
+    callOptions: CallOptions = {},
+    lockCheck?: { name: string; locks: LayerLockState }
+  ): Promise<ApiResult<LayerData>> {
+    const lock = lockCheck && getBlockingLock(lockCheck.locks, updates);
+    if (lockCheck && lock) {
+      throw new ApiError('locked', getLayerLockMessage(lockCheck.name, lock), `/layers/${layerId}`);
     }
 
-    const response = await fetch(`${this.baseURL}/layers/${layerId}`, {
+    return this.send(`/layers/${layerId}`, {
       method: 'PATCH',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
+      // Sets absolute values, so sending it twice is harmless
+      idempotent: true,
       body: JSON.stringify(updates),
-    });
-
-    let data;
-    try {
-      data = await response.json();
-      console.log('Update layer response:', data);
-    } catch (error) {
-      console.error('Failed to parse update layer response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to update layer',
-      };
-    }
-
-    return { response, data };
+      ...callOptions,
+    }, 'Failed to update layer');
   }
 
-  // Reorder all layers in a project
-  async reorderLayers(projectId: string, layerIds: string[]): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
+  // Reorder all layers in a project, optionally moving some into or out of groups
+  async reorderLayers(
+    projectId: string,
+    layerIds: string[],
+    parents?: LayerParents,
+    callOptions: CallOptions = {}
+  ): Promise<ApiResult<LayersData>> {
     if (!Array.isArray(layerIds) || layerIds.length === 0) {
       throw new Error('layerIds must be a non-empty array');
     }
 
-    const response = await fetch(`${this.baseURL}/layers/project/${projectId}/reorder`, {
+    return this.send(`/layers/project/${projectId}/reorder`, {
       method: 'PATCH',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ layerIds }),
-    });
+      idempotent: true,
+      body: JSON.stringify(parents ? { layerIds, parents } : { layerIds }),
+      ...callOptions,
+    }, 'Failed to reorder layers');
+  }
 
-    let data;
-    try {
-      data = await response.json();
-      console.log('Reorder layers response:', data);
-    } catch (error) {
-      console.error('Failed to parse reorder layers response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to reorder layers',
-      };
-    }
+  // Replace layers with the layer their merged image was uploaded as.
+  // The sources are kept on the backend until the merged layer is deleted.
+  async mergeLayers(projectId: string, merge: MergeLayersRequest, callOptions: CallOptions = {}): Promise<ApiResult<LayerData>> {
+    return this.send(`/layers/project/${projectId}/merge`, {
+      method: 'PATCH',
+      body: JSON.stringify(merge),
+      ...callOptions,
+    }, 'Failed to merge layers');
+  }
 
-    return { response, data };
+  // Undo a merge: restores the source layers and deletes the merged layer
+  async unmergeLayer(layerId: string, callOptions: CallOptions = {}): Promise<ApiResult<LayersData>> {
+    return this.send(`/layers/${layerId}/unmerge`, {
+      method: 'POST',
+      ...callOptions,
+    }, 'Failed to undo merge');
   }
 
-  // Delete a layer
-  async deleteLayer(layerId: string): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
+  // Delete a layer. It can be restored while it is within the project's undo steps.
+  // Given the locks in effect for it, a locked layer fails without a request.
+  async deleteLayer(
+    layerId: string,
+    callOptions: CallOptions = {},
+    lockCheck?: { name: string; locks: LayerLockState }
+  ): Promise<ApiResult> {
+    if (lockCheck?.locks.all) {
+      throw new ApiError('locked', getLayerLockMessage(lockCheck.name, 'all'), `/layers/${layerId}`);
     }
 
-    const response = await fetch(`${this.baseURL}/layers/${layerId}`, {
+    return this.send(`/layers/${layerId}`, {
       method: 'DELETE',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-    });
-
-    let data;
-    if (response.status === 204 || response.status === 200) {
-      data = {
-        success: true,
-        message: 'Layer deleted successfully',
-      };
-    } else {
-      try {
-        data = await response.json();
-      } catch (error) {
-        data = {
-          success: false,
-          message: response.statusText || 'Failed to delete layer',
-        };
-      }
-    }
+      ...callOptions,
+    }, 'Failed to delete layer');
+  }
 
-    return { response, data };
+  // Bring back a deleted layer, with the layers deleted along with it
+  async restoreLayer(layerId: string, callOptions: CallOptions = {}): Promise<ApiResult<LayersData>> {
+    return this.send(`/layers/${layerId}/restore`, {
+      method: 'POST',
+      ...callOptions,
+    }, 'Failed to restore layer');
   }
 
   // Duplicate a layer
-  async duplicateLayer(layerId: string): Promise<{ response: Response; data: any }> {
-    const token = await this.getToken();
-    
-    if (!token) {
-      throw new Error('Authentication required. Please login first.');
-    }
-
-    const response = await fetch(`${this.baseURL}/layers/${layerId}/duplicate`, {
+  async duplicateLayer(layerId: string, callOptions: CallOptions = {}): Promise<ApiResult<LayerData>> {
+    return this.send(`/layers/${layerId}/duplicate`, {
       method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-    });
+      ...callOptions,
+    }, 'Failed to duplicate layer');
+  }
 
-    let data;
-    try {
-      data = await response.json();
-      console.log('Duplicate layer response:', data);
-    } catch (error) {
-      console.error('Failed to parse duplicate layer response:', error);
-      data = {
-        success: false,
-        message: response.statusText || 'Failed to duplicate layer',
-      };
-    }
+  // Replace a layer's mask with a grayscale PNG (white shows, black hides)
+  async uploadLayerMask(layerId: string, maskUri: string, callOptions: CallOptions = {}): Promise<ApiResult<LayerData>> {
+    const createFormData = () => {
+      const formData = new FormData();
+      formData.append('mask', {
+        uri: maskUri,
+        type: 'image/png',
+        name: `mask_${layerId}.png`,
+      } as any);
+      return formData;
+    };
 
-    return { response, data };
+    return this.send(`/layers/${layerId}/mask`, {
+      method: 'PUT',
+      getBody: createFormData,
+      timeoutMs: UPLOAD_TIMEOUT_MS,
+      // Every attempt uploads a new file; the backend deletes the mask it replaces
+      idempotent: true,
+      ...callOptions,
+    }, 'Failed to upload layer mask');
+  }
+
+  // Remove a layer's mask
+  async deleteLayerMask(layerId: string, callOptions: CallOptions = {}): Promise<ApiResult<LayerData>> {
+    return this.send(`/layers/${layerId}/mask`, {
+      method: 'DELETE',
+      ...callOptions,
+    }, 'Failed to remove layer mask');
   }
 }
 
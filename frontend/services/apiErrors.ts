@@ -0,0 +1,71 @@
+// API Errors
+// Error type thrown by the ApiService request pipeline
+
+export type ApiErrorKind =
+  | 'unauthenticated'   // No stored token for an endpoint that needs one
+  | 'session-expired'   // Token rejected by the backend, stored session cleared
+  | 'network'           // Backend unreachable
+  | 'timeout'           // No response within the call's timeout
+  | 'cancelled'         // Aborted by the caller
+  | 'locked'            // Change to a locked layer, refused before sending
+  | 'http';             // Backend answered with an error (see assertApiSuccess)
+
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  endpoint: string;
+  status?: number;
+  payload?: unknown;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    endpoint: string,
+    details: { status?: number; payload?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.endpoint = endpoint;
+    this.status = details.status;
+    this.payload = details.payload;
+  }
+}
+
+export const isApiError = (error: unknown, kind?: ApiErrorKind): error is ApiError => {
+  return error instanceof ApiError && (kind === undefined || error.kind === kind);
+};
+
+// The user has to log in again
+export const isSessionExpiredError = (error: unknown): boolean => {
+  return isApiError(error, 'session-expired') || isApiError(error, 'unauthenticated');
+};
+
+// A locked layer was touched, caught here or by the backend (423 Locked)
+export const isLayerLockedError = (error: unknown): boolean => {
+  return isApiError(error, 'locked') || (isApiError(error, 'http') && error.status === 423);
+};
+
+// Errors worth trying again: the request never got a usable answer
+export const isRetryableError = (error: unknown): boolean => {
+  return isApiError(error, 'network') || isApiError(error, 'timeout');
+};
+
+// JWT failures. Production answers 401; the development error handler
+// passes the raw jsonwebtoken error through with status 500.
+const SESSION_ERROR_PATTERN = /invalid signature|jwt (expired|malformed|must be provided)|invalid token|token has expired|no longer exists|not logged in/i;
+
+/**
+ * Check whether a response means the stored token is no longer valid
+ * @param status - HTTP status
+ * @param payload - Parsed response body, if any
+ * @returns true if the user has to log in again
+ */
+export const isSessionExpiredResponse = (status: number, payload: any): boolean => {
+  if (status === 401) return true;
+  if (status < 400 || !payload) return false;
+
+  const errorName = payload.error?.name;
+  if (errorName === 'JsonWebTokenError' || errorName === 'TokenExpiredError') return true;
+
+  return typeof payload.message === 'string' && SESSION_ERROR_PATTERN.test(payload.message);
+};
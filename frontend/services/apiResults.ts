@@ -0,0 +1,233 @@
+// API Result Helpers
+// Error checking and runtime validation for ApiService results, and the
+// normalizer that turns every AI operation payload into one ProcessedImage
+
+import {
+  ApiResult,
+  ImageRef,
+  ProcessedImage,
+  ProcessedImageOperation,
+  EnhanceData,
+  RelightData,
+  FaceRestoreData,
+  RemoveBackgroundData,
+  ObjectRemovalData,
+  StyleTransferData,
+  ReplaceBackgroundData,
+  CropImageData,
+  GeminiPromptData,
+} from './apiTypes';
+import { ApiError } from './apiErrors';
+
+// Thrown when the backend answers successfully but the payload does not have
+// the shape the app relies on. Never swallowed into a fallback value.
+export class ResponseValidationError extends Error {
+  operation: string;
+  payload: unknown;
+
+  constructor(operation: string, detail: string, payload: unknown) {
+    super(`Invalid ${operation} response: ${detail}`);
+    this.name = 'ResponseValidationError';
+    this.operation = operation;
+    this.payload = payload;
+  }
+}
+
+// ============================================================
+// ERROR CHECKING
+// ============================================================
+
+// Best error message the backend gave us
+export const getApiErrorMessage = (result: ApiResult<any>, fallbackMessage: string): string => {
+  return result.data?.message ||
+    result.data?.error?.message ||
+    (!result.response.ok
+      ? `Server error: ${result.response.status} ${result.response.statusText}`
+      : fallbackMessage);
+};
+
+// Throw if the request failed in any of the ways the backend reports errors:
+// non-2xx status, { status: 'fail' | 'error' } or { success: false }
+export const assertApiSuccess = (result: ApiResult<any>, fallbackMessage: string): void => {
+  if (
+    !result.response.ok ||
+    result.data?.status === 'fail' ||
+    result.data?.status === 'error' ||
+    result.data?.success === false
+  ) {
+    throw new ApiError('http', getApiErrorMessage(result, fallbackMessage), result.response.url, {
+      status: result.response.status,
+      payload: result.data,
+    });
+  }
+};
+
+// ============================================================
+// FIELD VALIDATION
+// ============================================================
+const requireString = (operation: string, payload: unknown, path: string, value: unknown): string => {
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new ResponseValidationError(operation, `${path} must be a non-empty string`, payload);
+  }
+  return value;
+};
+
+const optionalNumber = (value: unknown): number | undefined => {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+};
+
+const optionalString = (value: unknown): string | undefined => {
+  return typeof value === 'string' ? value : undefined;
+};
+
+const requireImageRef = (operation: string, payload: unknown, path: string, value: any): ImageRef => {
+  if (!value || typeof value !== 'object') {
+    throw new ResponseValidationError(operation, `${path} is missing`, payload);
+  }
+  return {
+    imageUrl: requireString(operation, payload, `${path}.imageUrl`, value.imageUrl),
+    publicId: requireString(operation, payload, `${path}.publicId`, value.publicId),
+    width: optionalNumber(value.width),
+    height: optionalNumber(value.height),
+    format: optionalString(value.format),
+    size: optionalNumber(value.size),
+  };
+};
+
+const requireData = <T>(operation: string, result: ApiResult<T>): T => {
+  const data = result.data?.data;
+  if (!data || typeof data !== 'object') {
+    throw new ResponseValidationError(operation, 'data is missing', result.data);
+  }
+  return data;
+};
+
+// ============================================================
+// PER-OPERATION EXTRACTORS
+// Relight, face restore and enhance return flat fields; the other
+// operations return an outputImage object
+// ============================================================
+const fromEnhance = (data: EnhanceData, payload: unknown): ProcessedImage => ({
+  operationType: 'enhance',
+  imageUrl: requireString('enhance', payload, 'data.enhancedImageUrl', data.enhancedImageUrl),
+  publicId: requireString('enhance', payload, 'data.publicId', data.publicId),
+  width: optionalNumber(data.width),
+  height: optionalNumber(data.height),
+  format: optionalString(data.format),
+  size: optionalNumber(data.size),
+});
+
+const fromRelight = (data: RelightData, payload: unknown): ProcessedImage => ({
+  operationType: 'relight',
+  imageUrl: requireString('relight', payload, 'data.relitImageUrl', data.relitImageUrl),
+  publicId: requireString('relight', payload, 'data.publicId', data.publicId),
+  width: optionalNumber(data.width),
+  height: optionalNumber(data.height),
+  format: optionalString(data.format),
+  size: optionalNumber(data.size),
+});
+
+const fromFaceRestore = (data: FaceRestoreData, payload: unknown): ProcessedImage => ({
+  operationType: 'face-restore',
+  imageUrl: requireString('face-restore', payload, 'data.restoredImageUrl', data.restoredImageUrl),
+  publicId: requireString('face-restore', payload, 'data.publicId', data.publicId),
+  width: optionalNumber(data.width),
+  height: optionalNumber(data.height),
+  format: optionalString(data.format),
+  size: optionalNumber(data.size),
+});
+
+const fromOutputImage = (
+  operationType: ProcessedImageOperation,
+  data: RemoveBackgroundData | ObjectRemovalData | StyleTransferData | ReplaceBackgroundData | CropImageData,
+  payload: unknown
+): ProcessedImage => {
+  const inputImage = 'inputImage' in data
+    ? data.inputImage
+    : 'contentImage' in data
+      ? data.contentImage
+      : undefined;
+
+  return {
+    operationType,
+    ...requireImageRef(operationType, payload, 'data.outputImage', data.outputImage),
+    inputImage: inputImage ? requireImageRef(operationType, payload, 'data.inputImage', inputImage) : undefined,
+  };
+};
+
+// ============================================================
+// NORMALIZERS
+// ============================================================
+interface ProcessedImagePayloads {
+  'enhance': EnhanceData;
+  'relight': RelightData;
+  'face-restore': FaceRestoreData;
+  'remove-background': RemoveBackgroundData;
+  'object-removal': ObjectRemovalData;
+  'style-transfer': StyleTransferData;
+  'replace-background': ReplaceBackgroundData;
+  'crop': CropImageData;
+}
+
+/**
+ * Turn the result of an AI operation into a ProcessedImage
+ * Call assertApiSuccess first - this only validates successful payloads.
+ * @param operation - Operation the request was made for
+ * @param result - ApiService result
+ * @returns Normalized image
+ * @throws ResponseValidationError if the payload is malformed
+ */
+export const normalizeProcessedImage = <K extends keyof ProcessedImagePayloads>(
+  operation: K,
+  result: ApiResult<ProcessedImagePayloads[K]>
+): ProcessedImage => {
+  const data: any = requireData(operation, result);
+  const payload = result.data;
+
+  let image: ProcessedImage;
+  switch (operation) {
+    case 'enhance':
+      image = fromEnhance(data, payload);
+      break;
+    case 'relight':
+      image = fromRelight(data, payload);
+      break;
+    case 'face-restore':
+      image = fromFaceRestore(data, payload);
+      break;
+    default:
+      image = fromOutputImage(operation, data, payload);
+  }
+
+  return { ...image, message: result.data.message };
+};
+
+/**
+ * Turn the result of a Gemini prompt into a ProcessedImage
+ * The prompt endpoint runs whichever operation Gemini picked, so the
+ * operation is identified from the payload shape.
+ * Handle requiresInteraction / unsupported responses before calling this.
+ * @param result - ApiService.processGeminiPrompt result
+ * @returns Normalized image
+ * @throws ResponseValidationError if no known operation payload is found
+ */
+export const normalizeGeminiResult = (result: ApiResult<GeminiPromptData>): ProcessedImage => {
+  const data: any = requireData('gemini prompt', result);
+  const payload = result.data;
+
+  let image: ProcessedImage;
+  if ('relitImageUrl' in data) {
+    image = fromRelight(data, payload);
+  } else if ('restoredImageUrl' in data) {
+    image = fromFaceRestore(data, payload);
+  } else if ('enhancedImageUrl' in data) {
+    image = fromEnhance(data, payload);
+  } else if ('outputImage' in data) {
+    // Background removal is the only prompt operation returning outputImage
+    image = fromOutputImage('remove-background', data, payload);
+  } else {
+    throw new ResponseValidationError('gemini prompt', 'data does not contain a processed image', payload);
+  }
+
+  return { ...image, message: result.data.message };
+};
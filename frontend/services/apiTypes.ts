@@ -0,0 +1,616 @@
+// API Response Types
+// Shapes of the JSON payloads returned by the backend (see backend/controllers)
+
+// ============================================================
+// ENVELOPE
+// Every endpoint answers with { success, message?, data? }.
+// Errors from globalErrorHandler use { status: 'fail' | 'error', message }.
+// ============================================================
+export interface ApiResponse<T = undefined> {
+  success?: boolean;
+  status?: 'success' | 'fail' | 'error';
+  message?: string;
+  data?: T;
+  error?: { message?: string };
+  token?: string;                 // Auth endpoints only
+  count?: number;                 // List endpoints only
+  requiresInteraction?: boolean;  // Gemini prompt (object removal) only
+  feature?: string;               // Gemini prompt only: the feature Gemini picked
+}
+
+export interface ApiResult<T = undefined> {
+  response: Response;
+  data: ApiResponse<T>;
+}
+
+// ============================================================
+// SHARED
+// ============================================================
+export interface ImageRef {
+  imageUrl: string;
+  publicId: string;
+  width?: number;
+  height?: number;
+  format?: string;
+  size?: number;
+}
+
+export interface CanvasSettings {
+  width: number;
+  height: number;
+  backgroundColor: string;
+}
+
+// ============================================================
+// AUTH
+// ============================================================
+export interface User {
+  id: string;
+  email: string;
+  name: string;
+  image?: string;
+  isVerified: boolean;
+}
+
+export interface AuthData {
+  user: User;
+}
+
+export interface SignupData {
+  userId: string;
+  email: string;
+  name: string;
+  otp?: string; // Development only
+}
+
+// ============================================================
+// IMAGE UPLOAD
+// ============================================================
+export interface UploadedImage extends ImageRef {
+  id: string;
+  createdAt?: string;
+}
+
+export interface UploadedLayerSummary {
+  id: string;
+  name: string;
+  type: LayerType;
+  order: number;
+  imageUrl?: string;
+  visible?: boolean;
+  opacity?: number;
+}
+
+// AI sequential projects return { projectId, image }, layer-based projects
+// return { image, layer } or, for the first image, { originalImage, layers }
+export interface UploadImageData {
+  projectId?: string;
+  image?: UploadedImage;
+  layer?: UploadedLayerSummary;
+  originalImage?: UploadedImage;
+  layers?: UploadedLayerSummary[];
+}
+
+// Layer-based projects only: one new layer per uploaded image, no
+// automatic layer separation
+export interface UploadMultipleImagesData {
+  images: UploadedImage[];
+  layers: (LayerRecord & { id: string })[];
+}
+
+// Body of PATCH /images/crop. The image is flipped, then rotated clockwise
+// by angle (whole degrees), then cropped; crop coordinates are pixels of
+// the flipped and rotated image
+export interface CropImageRequest {
+  publicId: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  angle?: number;
+  flipX?: boolean;
+  flipY?: boolean;
+}
+
+export interface CropImageData {
+  inputImage: ImageRef;
+  outputImage: ImageRef; // A new image, the input is kept
+  crop: Required<Omit<CropImageRequest, 'publicId'>>;
+}
+
+// ============================================================
+// LAYER-BASED PROJECTS
+// ============================================================
+export interface LayerProjectSummary {
+  projectId: string;
+  title: string;
+  thumbnail?: { imageUrl?: string; publicId?: string };
+  canvas: CanvasSettings;
+  totalLayers: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateLayerProjectData {
+  projectId: string;
+  title: string;
+  canvas: CanvasSettings;
+  layers: LayerRecord[];
+  createdAt: string;
+}
+
+export interface ProjectHistoryEntry {
+  action: string;
+  timestamp: string;
+  layerId?: string;
+  description?: string;
+  snapshot?: any;
+}
+
+export interface LayerProjectDetails {
+  projectId: string;
+  title: string;
+  user: string;
+  originalImage?: ImageRef;
+  canvas: CanvasSettings;
+  layers: LayerRecord[];
+  totalLayers: number;
+  thumbnail?: { imageUrl?: string; publicId?: string };
+  history: ProjectHistoryEntry[];
+  maxHistorySteps: number; // Undo steps kept for the project
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProjectTitleData {
+  projectId: string;
+  title: string;
+}
+
+// ============================================================
+// AI SEQUENTIAL PROJECTS
+// ============================================================
+export type AIOperationType =
+  | 'relight'
+  | 'enhance'
+  | 'face-restore'
+  | 'style-transfer'
+  | 'remove-background'
+  | 'object-removal'
+  | 'crop';
+
+export interface AIOperation {
+  _id?: string;
+  operationType: AIOperationType;
+  prompt: any;
+  inputImage: ImageRef;
+  outputImage: ImageRef;
+  timestamp: string;
+}
+
+export interface CreateAIProjectData {
+  projectId: string;
+  title: string;
+  description: string;
+  canvasWidth: number;
+  canvasHeight: number;
+  backgroundColor: string;
+  createdAt: string;
+}
+
+export interface AIProjectSummary {
+  projectId: string;
+  title: string;
+  description: string;
+  thumbnail?: { imageUrl?: string; publicId?: string };
+  currentImage: ImageRef;
+  totalOperations: number;
+  lastOperation: AIOperationType | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AIProjectDetails {
+  projectId: string;
+  title: string;
+  description: string;
+  user: string;
+  originalImage?: ImageRef;
+  currentImage?: ImageRef;
+  operations: AIOperation[];
+  totalOperations: number;
+  thumbnail?: { imageUrl?: string; publicId?: string };
+  status: 'active' | 'archived' | 'deleted';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UpdateAIProjectData {
+  projectId: string;
+  title: string;
+  description: string;
+  status: 'active' | 'archived' | 'deleted';
+}
+
+export interface AIProjectStateData {
+  projectId: string;
+  currentImage: ImageRef;
+  totalOperations: number;
+  latestOperation?: AIOperation; // Only when adding an operation
+}
+
+export interface TimelineEntry {
+  index: number; // -1 is the original image
+  operationType: AIOperationType | 'original';
+  image: ImageRef;
+  inputImage?: ImageRef;
+  timestamp: string;
+  prompt: any;
+  processingTime?: number;
+  status?: 'completed' | 'failed';
+}
+
+export interface TimelineData {
+  projectId: string;
+  title: string;
+  timeline: TimelineEntry[];
+  totalSteps: number;
+}
+
+// ============================================================
+// AI OPERATIONS
+// ============================================================
+export interface EnhanceData {
+  originalImageId: string;
+  originalImageUrl: string;
+  enhancedImageId: string;
+  enhancedImageUrl: string;
+  publicId: string;
+  mode: 'denoise' | 'deblur';
+  format?: string;
+  width?: number;
+  height?: number;
+  size?: number;
+  createdAt?: string;
+}
+
+// Directional light of a relight
+export interface RelightParams {
+  x: number; // Light source position, 0-1 of the image width
+  y: number; // 0-1 of the image height
+  temperature: number; // Kelvin, 2000-10000
+  intensity: number; // 0.1-2
+  hardness: number; // 0 (soft) - 1 (hard)
+}
+
+export interface RelightData {
+  originalImageId: string;
+  originalImageUrl: string;
+  relitImageId: string;
+  relitImageUrl: string;
+  publicId: string;
+  brightness: number;
+  light?: RelightParams | null;
+  format?: string;
+  width?: number;
+  height?: number;
+  size?: number;
+  createdAt?: string;
+}
+
+// Low-resolution relight, not saved
+export interface RelightPreviewData {
+  preview: true;
+  previewImage: string; // data:image/jpeg;base64 URI
+  brightness: number;
+  light: RelightParams;
+  width: number;
+  height: number;
+}
+
+// A detected face, in image pixels
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  score?: number; // Detection confidence, 0-1
+}
+
+export interface FaceDetectData {
+  faces: FaceBox[]; // Left to right
+  width: number;
+  height: number;
+}
+
+export interface FaceRestoreOptions {
+  fidelity: number; // 0 (more restoration) - 1 (closer to the input)
+  strength: number; // Blend with the original, 0-1
+  faces: FaceBox[] | null; // Only restore these faces; null = the whole image
+}
+
+export interface FaceRestoreData {
+  originalImageId: string;
+  originalImageUrl: string;
+  restoredImageId: string;
+  restoredImageUrl: string;
+  publicId: string;
+  fidelity: number;
+  strength?: number;
+  faces?: FaceBox[] | null;
+  format?: string;
+  width?: number;
+  height?: number;
+  size?: number;
+  createdAt?: string;
+}
+
+export interface FaceRestorePreviewData {
+  preview: true;
+  previewImage: string; // data:image/jpeg;base64 URI
+  fidelity: number;
+  strength: number;
+  faces: FaceBox[] | null;
+  width: number;
+  height: number;
+}
+
+export interface RemoveBackgroundData {
+  inputImage: ImageRef;
+  outputImage: ImageRef;
+  modelType: string;
+  model: string;
+  mode: 'human' | 'object';
+}
+
+// What to remove instead of a single tap, in image pixels
+export interface ObjectSelectionPrompts {
+  points: { x: number; y: number; positive: boolean }[]; // Negative points mark what to keep
+  box: { x: number; y: number; width: number; height: number } | null;
+}
+
+export interface ObjectRemovalData {
+  inputImage: ImageRef;
+  outputImage: ImageRef;
+  coordinates?: { x: number; y: number }; // Tap removals
+  selection?: ObjectSelectionPrompts & { painted: boolean }; // Selection removals
+  processingTime?: { sam: string; lama: string; total: string };
+}
+
+export interface StyleTransferData {
+  contentImage: ImageRef;
+  styleImage: ImageRef;
+  outputImage: ImageRef;
+  operationType: 'first' | 'sequential';
+}
+
+// Subject cut out on a transparent background, and the background with the
+// subject painted out
+export interface SeparateLayersData {
+  foreground: ImageRef;
+  background: ImageRef;
+}
+
+export interface ReplaceBackgroundData {
+  subjectImageUrl: string;
+  backgroundImageUrl: string;
+  outputImage: ImageRef;
+  modelType: string;
+  processingTime?: { segmentation: string; harmonization: string; total: string };
+}
+
+// ============================================================
+// GEMINI
+// ============================================================
+
+// Object removal needs a tap on the image before it can run
+export interface GeminiInteractionData {
+  userPrompt: string;
+  feature: 'object_removal';
+  geminiAnalysis?: any;
+  nextStep: string;
+  inputImage: ImageRef;
+}
+
+export interface GeminiUnsupportedData {
+  userPrompt: string;
+  supported: false;
+  availableFeatures: string[];
+}
+
+export interface GeminiLayerSeparationData {
+  userPrompt: string;
+  analysis: any;
+  foreground: ImageRef;
+  background: ImageRef;
+}
+
+// The prompt endpoint runs the chosen AI operation and returns its payload
+export type GeminiPromptData =
+  | EnhanceData
+  | RelightData
+  | FaceRestoreData
+  | RemoveBackgroundData
+  | GeminiInteractionData
+  | GeminiUnsupportedData
+  | GeminiLayerSeparationData;
+
+export interface AutoEnhanceAnalysisData {
+  project: { id: string; name?: string };
+  layersAnalyzed: number;
+  analysis: {
+    needs_enhancement: boolean;
+    enhancements: string[];
+    priority_order: string[];
+    overall_quality: 'good' | 'fair' | 'poor';
+    detailed_analysis: any;
+  };
+  recommendations: {
+    apply_in_order: string[];
+    total_steps: number;
+    enhancement_details: { type: string; severity: string; needed: boolean }[];
+  };
+}
+
+export interface ApplyEnhancementsData {
+  project: { id: string; name?: string };
+  originalCompositeUrl: string;
+  finalImageUrl: string;
+  appliedEnhancements: string[];
+  enhancementResults: any[];
+  totalSteps: number;
+  successfulSteps: number;
+  totalProcessingTime: string;
+}
+
+// ============================================================
+// LAYERS
+// ============================================================
+export type LayerType = 'background' | 'foreground' | 'object' | 'text' | 'adjustment' | 'group' | 'custom';
+
+export type BlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'soft-light' | 'hard-light';
+
+// Colour adjustments of an adjustment layer, applied to the layers below it
+export interface LayerAdjustments {
+  brightness: number;  // -100 to 100
+  contrast: number;    // -100 to 100
+  saturation: number;  // -100 to 100
+  hue: number;         // -180 to 180
+  temperature: number; // -100 to 100 (warmth/coolness)
+  tint: number;        // -100 to 100 (green/magenta)
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+// Text and styling of a text layer. Sizes are in canvas pixels.
+export interface LayerText {
+  content: string;
+  fontFamily: string;    // grift, geistmono or DelaGothicOne
+  fontSize: number;
+  color: string;
+  align: TextAlign;
+  lineHeight: number;    // Multiple of the font size
+  letterSpacing: number;
+  stroke: { color: string; width: number };  // width 0 = no stroke
+  shadow: { color: string; blur: number; offsetX: number; offsetY: number };  // blur 0 and no offset = no shadow
+}
+
+// Partial locks; `locked` on the layer locks everything (see utils/layerLocks)
+export interface LayerLocks {
+  position: boolean; // No moving, scaling or rotating
+  pixels: boolean;   // No changes to the image, mask, text or adjustments
+}
+
+export interface LayerRecord {
+  _id: string;
+  project: string;
+  name: string;
+  type: LayerType;
+  imageUrl: string | null;  // null for adjustment, text and group layers
+  publicId: string | null;
+  maskUrl: string | null;
+  maskPublicId: string | null;
+  order: number;
+  visible: boolean;
+  locked: boolean;
+  locks?: LayerLocks;
+  opacity: number; // 0 to 100
+  blendMode: BlendMode;
+  position: { x: number; y: number };
+  dimensions: { width: number; height: number };
+  transformations: {
+    rotation: number;
+    scaleX: number;
+    scaleY: number;
+    flipX: boolean;
+    flipY: boolean;
+  };
+  adjustments?: LayerAdjustments; // Adjustment layers only
+  text?: LayerText; // Text layers only
+  mergedInto?: string | null; // Set on hidden merge sources
+  parent?: string | null; // Group the layer is nested in (null at the top level)
+  metadata?: { format?: string; size?: number; originalPublicId?: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Editable layer properties (PATCH /layers/:id)
+export interface LayerUpdate {
+  name?: string;
+  visible?: boolean;
+  locked?: boolean;
+  locks?: LayerLocks;
+  opacity?: number;
+  blendMode?: string;
+  position?: { x: number; y: number };
+  transformations?: {
+    rotation?: number;
+    scaleX?: number;
+    scaleY?: number;
+    flipX?: boolean;
+    flipY?: boolean;
+  };
+  order?: number;
+  adjustments?: LayerAdjustments; // Adjustment layers only
+  text?: LayerText; // Text layers only
+  dimensions?: { width: number; height: number }; // Text layers only (follows the text)
+  maskUrl?: string | null; // Changes together with maskPublicId (undo/redo of a mask)
+  maskPublicId?: string | null;
+}
+
+// Body of POST /layers. Adjustment layers need adjustments and text layers
+// need text instead of an image.
+export interface CreateLayerRequest {
+  projectId: string;
+  type: LayerType;
+  name?: string;
+  imageUrl?: string;
+  publicId?: string;
+  dimensions: { width: number; height: number };
+  order?: number;
+  visible?: boolean;
+  opacity?: number;
+  blendMode?: BlendMode;
+  position?: { x: number; y: number };
+  transformations?: LayerRecord['transformations'];
+  adjustments?: LayerAdjustments;
+  text?: LayerText;
+  parent?: string | null;
+}
+
+// New group of each moved layer (null for the top level), sent with a
+// reorder (PATCH /layers/project/:projectId/reorder)
+export type LayerParents = Record<string, string | null>;
+
+// Body of PATCH /layers/project/:projectId/merge
+export interface MergeLayersRequest {
+  mergedLayerId: string; // Layer created by uploading the merged image
+  layerIds: string[]; // Layers it replaces
+  name?: string;
+}
+
+export interface ProjectLayersData {
+  projectId: string;
+  layers: LayerRecord[];
+}
+
+export interface LayerData {
+  layer: LayerRecord;
+}
+
+export interface LayersData {
+  layers: LayerRecord[];
+}
+
+// ============================================================
+// PROCESSED IMAGE
+// One shape for the result of every AI operation, produced by
+// normalizeProcessedImage in services/apiResults.ts
+// ============================================================
+export type ProcessedImageOperation = AIOperationType | 'replace-background';
+
+export interface ProcessedImage extends ImageRef {
+  operationType: ProcessedImageOperation;
+  inputImage?: ImageRef;
+  message?: string;
+}
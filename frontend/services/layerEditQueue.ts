@@ -0,0 +1,408 @@
+// Layer Edit Queue
+// Persistent queue for layer property edits in layer-based projects.
+// Edits show up in the UI straight away and are sent in the background;
+// anything the backend has not confirmed stays in AsyncStorage and is
+// replayed once the backend can be reached again.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, NativeEventSubscription } from 'react-native';
+import ApiService from './api';
+import { ApiResult, LayerData, LayerRecord, LayerUpdate } from './apiTypes';
+import { isRetryableError, isSessionExpiredError } from './apiErrors';
+import { getApiErrorMessage } from './apiResults';
+
+export interface QueuedLayerEdit {
+  id: string;
+  projectId: string;
+  layerId: string;
+  changes: LayerUpdate;
+  base: LayerUpdate;   // Values before the first queued change, used to spot conflicts
+  queuedAt: number;
+  attempts: number;      // Every send, network retries included
+  serverErrors: number;  // Retryable error answers from the backend
+}
+
+export type LayerEditConflictReason =
+  | 'changed'    // The layer was changed elsewhere since the edit was made
+  | 'deleted'    // The layer no longer exists
+  | 'rejected';  // The backend refused the edit
+
+export interface LayerEditConflict {
+  edit: QueuedLayerEdit;
+  reason: LayerEditConflictReason;
+  message: string;
+  serverLayer?: LayerRecord;
+}
+
+export interface LayerEditQueueState {
+  projectId: string | null;
+  pending: number;
+  syncing: boolean;
+  offline: boolean;
+  conflicts: LayerEditConflict[];
+}
+
+export type LayerEditQueueListener = (state: LayerEditQueueState) => void;
+
+const STORAGE_PREFIX = 'layer_edit_queue_';
+const COALESCE_DELAY_MS = 400;       // Rapid edits (e.g. dragging) are sent as one request
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 30000;
+const MAX_SERVER_ERRORS = 5; // Network failures retry forever, 5xx answers do not
+
+// ============================================================
+// LAYER UPDATE HELPERS
+// ============================================================
+
+// Copy the fields named in `fields` from source, following nested objects
+const pickFields = (source: any, fields: any): any => {
+  const picked: any = {};
+  Object.keys(fields).forEach(key => {
+    const field = fields[key];
+    picked[key] = field && typeof field === 'object' && !Array.isArray(field)
+      ? pickFields(source?.[key] ?? {}, field)
+      : source?.[key];
+  });
+  return picked;
+};
+
+const hasSameValues = (a: LayerUpdate, b: LayerUpdate): boolean => {
+  return JSON.stringify(a) === JSON.stringify(pickFields(b, a));
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+};
+
+// Later values win. Object fields (position, transformations, locks, text,
+// adjustments) are merged field by field, like the backend does.
+const mergeLayerUpdates = (earlier: any, later: LayerUpdate): any => {
+  const merged = { ...earlier, ...later };
+  Object.entries(later).forEach(([key, value]) => {
+    if (isPlainObject(value) && isPlainObject(earlier[key])) {
+      merged[key] = { ...earlier[key], ...value };
+    }
+  });
+  return merged;
+};
+
+/**
+ * Apply an update to a layer the same way the backend does
+ * @param layer - Layer to update
+ * @param changes - Changed properties
+ * @returns Updated copy of the layer
+ */
+export const applyLayerUpdate = <T extends object>(layer: T, changes: LayerUpdate): T => {
+  return mergeLayerUpdates(layer, changes) as T;
+};
+
+/**
+ * Current values of the properties an update is about to change
+ * @param layer - Layer before the update
+ * @param changes - Properties that will change
+ * @returns Update that restores the layer
+ */
+export const getLayerUpdateBase = (layer: object, changes: LayerUpdate): LayerUpdate => {
+  return pickFields(layer, changes);
+};
+
+// ============================================================
+// QUEUE
+// ============================================================
+class LayerEditQueue {
+  private projectId: string | null = null;
+  private edits: QueuedLayerEdit[] = [];
+  private conflicts: LayerEditConflict[] = [];
+  private listeners: LayerEditQueueListener[] = [];
+  private inFlightId: string | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private offline = false;
+  private retryAttempt = 0;
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  /**
+   * Load the queued edits of a project and start syncing them
+   * @param projectId - Layer-based project ID
+   * @returns Edits the backend has not confirmed yet, oldest first
+   */
+  async open(projectId: string): Promise<QueuedLayerEdit[]> {
+    if (this.projectId !== projectId) {
+      this.close();
+      this.projectId = projectId;
+
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_PREFIX + projectId);
+        // Anything left over may have reached the backend before the app
+        // stopped, so it is checked for conflicts before being sent again
+        this.edits = stored
+          ? (JSON.parse(stored) as QueuedLayerEdit[]).map(edit => ({ ...edit, attempts: Math.max(edit.attempts, 1), serverErrors: edit.serverErrors ?? 0 }))
+          : [];
+      } catch (error) {
+        console.error('[LayerEditQueue] Failed to load queued edits:', error);
+        this.edits = [];
+      }
+
+      // Coming back to the app is a good moment to try again
+      this.appStateSubscription = AppState.addEventListener('change', status => {
+        if (status === 'active' && this.edits.length > 0) {
+          this.scheduleFlush(0);
+        }
+      });
+
+      console.log('[LayerEditQueue] Opened project', projectId, 'with', this.edits.length, 'queued edits');
+      this.notify();
+      this.scheduleFlush(0);
+    }
+
+    return [...this.edits];
+  }
+
+  // Stop syncing. Queued edits stay stored and replay the next time the project opens.
+  close(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.projectId = null;
+    this.edits = [];
+    this.conflicts = [];
+    this.inFlightId = null;
+    this.offline = false;
+    this.retryAttempt = 0;
+    this.notify();
+  }
+
+  /**
+   * Queue a layer edit. Edits to the same layer are merged until they are sent.
+   * @param layerId - Layer to update
+   * @param changes - Changed properties
+   * @param base - Values before the change (see getLayerUpdateBase)
+   */
+  async enqueue(layerId: string, changes: LayerUpdate, base: LayerUpdate): Promise<void> {
+    if (!this.projectId) {
+      throw new Error('No project is open for layer edits');
+    }
+
+    const pending = this.edits.find(edit => edit.layerId === layerId && edit.id !== this.inFlightId);
+    if (pending) {
+      pending.changes = mergeLayerUpdates(pending.changes, changes);
+      // Keep the oldest known value of every field
+      pending.base = mergeLayerUpdates(base, pending.base);
+    } else {
+      this.edits.push({
+        id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        projectId: this.projectId,
+        layerId,
+        changes,
+        base,
+        queuedAt: Date.now(),
+        attempts: 0,
+        serverErrors: 0,
+      });
+    }
+
+    await this.persist();
+    this.notify();
+
+    if (!this.offline) {
+      this.scheduleFlush(COALESCE_DELAY_MS);
+    }
+  }
+
+  /**
+   * Settle a conflict reported to subscribers
+   * @param editId - ID of the conflicting edit
+   * @param resolution - 'keep-local' sends the edit again over the server values,
+   *                     'use-server' drops it
+   */
+  async resolveConflict(editId: string, resolution: 'keep-local' | 'use-server'): Promise<void> {
+    const conflict = this.conflicts.find(c => c.edit.id === editId);
+    if (!conflict) return;
+
+    this.conflicts = this.conflicts.filter(c => c !== conflict);
+
+    if (resolution === 'keep-local' && conflict.reason === 'changed' && conflict.serverLayer) {
+      await this.enqueue(
+        conflict.edit.layerId,
+        conflict.edit.changes,
+        getLayerUpdateBase(conflict.serverLayer, conflict.edit.changes)
+      );
+    } else {
+      this.notify();
+    }
+  }
+
+  // Try to send everything now, e.g. from a "retry" button
+  retryNow(): void {
+    this.retryAttempt = 0;
+    this.scheduleFlush(0);
+  }
+
+  /**
+   * Listen for queue changes. The listener is called right away with the current state.
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: LayerEditQueueListener): () => void {
+    this.listeners.push(listener);
+    listener(this.getState());
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  getState(): LayerEditQueueState {
+    return {
+      projectId: this.projectId,
+      pending: this.edits.length,
+      syncing: this.inFlightId !== null,
+      offline: this.offline,
+      conflicts: [...this.conflicts],
+    };
+  }
+
+  // ============================================================
+  // SYNC
+  // ============================================================
+  private scheduleFlush(delay: number): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  // Send queued edits one at a time, oldest first
+  private async flush(): Promise<void> {
+    if (this.inFlightId) return;
+
+    const projectId = this.projectId;
+    while (projectId && this.projectId === projectId && this.edits.length > 0) {
+      const edit = this.edits[0];
+      this.inFlightId = edit.id;
+      this.notify();
+
+      const outcome = await this.send(edit);
+      this.inFlightId = null;
+
+      // The project was closed while the request was running
+      if (this.projectId !== projectId) return;
+
+      if (outcome === 'retry') {
+        this.offline = true;
+        const delay = Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, this.retryAttempt), RETRY_MAX_DELAY_MS);
+        this.retryAttempt++;
+        await this.persist();
+        this.notify();
+        console.log(`[LayerEditQueue] Backend unreachable, retrying in ${delay}ms`);
+        this.scheduleFlush(delay);
+        return;
+      }
+
+      if (outcome === 'paused') {
+        // Session expired - the edits stay stored until the user logs back in
+        await this.persist();
+        this.notify();
+        return;
+      }
+
+      this.edits = this.edits.filter(e => e.id !== edit.id);
+      if (outcome !== 'sent') {
+        console.warn('[LayerEditQueue] Conflict:', outcome.reason, outcome.message);
+        this.conflicts.push(outcome);
+      }
+      this.offline = false;
+      this.retryAttempt = 0;
+      await this.persist();
+    }
+
+    this.notify();
+  }
+
+  private async send(edit: QueuedLayerEdit): Promise<'sent' | 'retry' | 'paused' | LayerEditConflict> {
+    edit.attempts++;
+
+    try {
+      // A replayed edit may already have been applied, or the layer may have
+      // been changed from another device in the meantime
+      if (edit.attempts > 1) {
+        const current = await ApiService.getLayer(edit.layerId);
+        if (!current.response.ok || !current.data.data) {
+          return this.classifyFailure(edit, current, 'Failed to load layer');
+        }
+
+        const serverLayer = current.data.data.layer;
+        if (hasSameValues(edit.changes, serverLayer)) {
+          return 'sent';
+        }
+        if (!hasSameValues(edit.base, serverLayer)) {
+          return {
+            edit,
+            reason: 'changed',
+            message: `"${serverLayer.name}" was changed while your edits were waiting to sync.`,
+            serverLayer,
+          };
+        }
+      }
+
+      const result = await ApiService.updateLayer(edit.layerId, edit.changes);
+      if (!result.response.ok || !result.data.success) {
+        return this.classifyFailure(edit, result, 'Failed to update layer');
+      }
+      return 'sent';
+    } catch (error) {
+      if (isSessionExpiredError(error)) return 'paused';
+      if (isRetryableError(error)) return 'retry';
+      return {
+        edit,
+        reason: 'rejected',
+        message: (error as Error).message || 'Failed to update layer',
+      };
+    }
+  }
+
+  private classifyFailure(
+    edit: QueuedLayerEdit,
+    result: ApiResult<LayerData>,
+    fallbackMessage: string
+  ): 'retry' | LayerEditConflict {
+    const status = result.response.status;
+
+    if (status === 404) {
+      return { edit, reason: 'deleted', message: 'This layer no longer exists.' };
+    }
+    if (status >= 500 || status === 408 || status === 429) {
+      edit.serverErrors++;
+      if (edit.serverErrors < MAX_SERVER_ERRORS) {
+        return 'retry';
+      }
+    }
+    return { edit, reason: 'rejected', message: getApiErrorMessage(result, fallbackMessage) };
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.projectId) return;
+
+    try {
+      const key = STORAGE_PREFIX + this.projectId;
+      if (this.edits.length > 0) {
+        await AsyncStorage.setItem(key, JSON.stringify(this.edits));
+      } else {
+        await AsyncStorage.removeItem(key);
+      }
+    } catch (error) {
+      console.error('[LayerEditQueue] Failed to store queued edits:', error);
+    }
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+// Export singleton instance
+export default new LayerEditQueue();
@@ -0,0 +1,250 @@
+// Layer History
+// Undo/redo stack for layer-based projects. Every change is stored as a
+// command that says how to go either way: layers it added or removed, the
+// stacking order before and after, and property values before and after.
+// The screen carries the commands out; this only keeps the stack, stores it
+// in AsyncStorage per project and caps it at the project's maxHistorySteps
+// (the backend keeps deleted layers restorable for as many steps).
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { LayerParents, LayerUpdate } from './apiTypes';
+
+export interface LayerStack {
+  layerIds: string[];
+  parents: LayerParents;
+}
+
+export interface LayerHistoryEdit {
+  layerId: string;
+  before: LayerUpdate;
+  after: LayerUpdate;
+}
+
+export interface LayerHistoryEntry {
+  id: string;
+  label: string;        // e.g. "Opacity: Layer 2"
+  createdAt: number;
+  added?: string[];     // Layers the change created (deleted again on undo)
+  removed?: string[];   // Layers the change deleted (restored on undo)
+  stackBefore?: LayerStack;
+  stackAfter?: LayerStack;
+  edits?: LayerHistoryEdit[];
+  mergedLayerId?: string; // A merge, undone by unmerging; it cannot be redone
+}
+
+export type NewLayerHistoryEntry = Omit<LayerHistoryEntry, 'id' | 'createdAt'>;
+
+export interface LayerHistoryState {
+  projectId: string | null;
+  entries: LayerHistoryEntry[];
+  position: number;     // Number of entries applied; entries after it can be redone
+  maxSteps: number;
+}
+
+export type LayerHistoryListener = (state: LayerHistoryState) => void;
+
+const STORAGE_PREFIX = 'layer_history_';
+const DEFAULT_MAX_STEPS = 50;      // Project model default
+const COALESCE_WINDOW_MS = 1000;   // Rapid edits of one property (e.g. a slider) are one step
+
+// Labels for the properties a layer edit can change
+const EDIT_LABELS: Record<string, string> = {
+  visible: 'Visibility',
+  opacity: 'Opacity',
+  blendMode: 'Blend Mode',
+  position: 'Move',
+  transformations: 'Transform',
+  locked: 'Lock',
+  locks: 'Lock',
+  adjustments: 'Adjustments',
+  text: 'Text',
+  name: 'Rename',
+  maskUrl: 'Mask',
+};
+
+/**
+ * Describe a layer edit for the history list
+ * @param changes - Changed properties
+ * @param layerName - Name of the edited layer
+ * @returns Label such as "Opacity: Layer 2"
+ */
+export const getLayerEditLabel = (changes: LayerUpdate, layerName: string): string => {
+  // Text, transform and mask edits change a few properties at once
+  const keys = Object.keys(changes);
+  const key = keys.find(k => k === 'text')
+    ?? keys.find(k => k === 'transformations')
+    ?? keys.find(k => k === 'maskUrl')
+    ?? (keys.length === 1 ? keys[0] : null);
+  return `${(key && EDIT_LABELS[key]) || 'Edit'}: ${layerName}`;
+};
+
+// The edit of an entry that only changes properties of one layer
+const getOnlyEdit = (entry: NewLayerHistoryEntry): LayerHistoryEdit | null => {
+  return entry.edits?.length === 1 && !entry.added && !entry.removed && !entry.stackAfter && !entry.mergedLayerId
+    ? entry.edits[0]
+    : null;
+};
+
+const sameFields = (a: LayerUpdate, b: LayerUpdate): boolean => {
+  return Object.keys(a).sort().join() === Object.keys(b).sort().join();
+};
+
+// ============================================================
+// HISTORY
+// ============================================================
+class LayerHistory {
+  private projectId: string | null = null;
+  private entries: LayerHistoryEntry[] = [];
+  private position = 0;
+  private maxSteps = DEFAULT_MAX_STEPS;
+  private listeners: LayerHistoryListener[] = [];
+
+  /**
+   * Load the stored history of a project
+   * @param projectId - Layer-based project ID
+   * @param maxSteps - The project's maxHistorySteps
+   */
+  async open(projectId: string, maxSteps: number = DEFAULT_MAX_STEPS): Promise<void> {
+    if (this.projectId !== projectId) {
+      this.projectId = projectId;
+      this.entries = [];
+      this.position = 0;
+
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_PREFIX + projectId);
+        if (stored) {
+          const parsed = JSON.parse(stored) as { entries: LayerHistoryEntry[]; position: number };
+          this.entries = parsed.entries;
+          this.position = Math.min(parsed.position, parsed.entries.length);
+        }
+      } catch (error) {
+        console.error('[LayerHistory] Failed to load history:', error);
+      }
+    }
+
+    this.maxSteps = Math.max(1, maxSteps);
+    this.trim();
+    this.notify();
+  }
+
+  close(): void {
+    this.projectId = null;
+    this.entries = [];
+    this.position = 0;
+    this.notify();
+  }
+
+  /**
+   * Add a change to the history, dropping anything that could be redone
+   * @param entry - The change
+   */
+  async record(entry: NewLayerHistoryEntry): Promise<void> {
+    if (!this.projectId) return;
+
+    this.entries = this.entries.slice(0, this.position);
+
+    // Keep dragging a slider from filling the history
+    const last = this.entries[this.entries.length - 1];
+    const edit = getOnlyEdit(entry);
+    const lastEdit = last ? getOnlyEdit(last) : null;
+    if (
+      edit && lastEdit &&
+      lastEdit.layerId === edit.layerId &&
+      sameFields(lastEdit.after, edit.after) &&
+      Date.now() - last.createdAt < COALESCE_WINDOW_MS
+    ) {
+      this.entries[this.entries.length - 1] = {
+        ...last,
+        edits: [{ ...edit, before: lastEdit.before }],
+        createdAt: Date.now(),
+      };
+    } else {
+      this.entries.push({
+        ...entry,
+        id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        createdAt: Date.now(),
+      });
+    }
+
+    this.position = this.entries.length;
+    this.trim();
+    await this.persist();
+    this.notify();
+  }
+
+  /**
+   * Mark entries as undone or redone, once the screen has carried them out
+   * @param position - Number of entries now applied
+   */
+  async setPosition(position: number): Promise<void> {
+    this.position = Math.max(0, Math.min(position, this.entries.length));
+    await this.persist();
+    this.notify();
+  }
+
+  /**
+   * Forget an entry and everything after it, e.g. a merge undone by unmerging
+   * @param entryId - First entry to drop
+   */
+  async discardFrom(entryId: string): Promise<void> {
+    const index = this.entries.findIndex(entry => entry.id === entryId);
+    if (index < 0) return;
+
+    this.entries = this.entries.slice(0, index);
+    this.position = Math.min(this.position, index);
+    await this.persist();
+    this.notify();
+  }
+
+  /**
+   * Listen for history changes. The listener is called right away with the current state.
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: LayerHistoryListener): () => void {
+    this.listeners.push(listener);
+    listener(this.getState());
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  getState(): LayerHistoryState {
+    return {
+      projectId: this.projectId,
+      entries: [...this.entries],
+      position: this.position,
+      maxSteps: this.maxSteps,
+    };
+  }
+
+  private trim(): void {
+    const excess = this.entries.length - this.maxSteps;
+    if (excess > 0) {
+      this.entries = this.entries.slice(excess);
+      this.position = Math.max(0, this.position - excess);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.projectId) return;
+
+    try {
+      const key = STORAGE_PREFIX + this.projectId;
+      if (this.entries.length > 0) {
+        await AsyncStorage.setItem(key, JSON.stringify({ entries: this.entries, position: this.position }));
+      } else {
+        await AsyncStorage.removeItem(key);
+      }
+    } catch (error) {
+      console.error('[LayerHistory] Failed to store history:', error);
+    }
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+// Export singleton instance
+export default new LayerHistory();
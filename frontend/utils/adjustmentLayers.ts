@@ -0,0 +1,90 @@
+// utils/adjustmentLayers.ts
+
+/**
+ * Adjustment Layers
+ * An adjustment layer changes the colors of every layer below it. Each one
+ * is turned into a color matrix; the matrices of all visible adjustment
+ * layers above an image layer are fused so the canvas (Skia ColorMatrix,
+ * see toNormalizedColorMatrix) and exports (applyColorMatrixInPlace) apply
+ * the same transform.
+ *
+ * Adjustment values use -100 to 100 (hue -180 to 180). Brightness,
+ * saturation and contrast map to a factor of 1 + value / 100.
+ */
+
+import { LayerAdjustments } from '../services/apiTypes';
+import {
+  ColorMatrix,
+  composeColorMatrices,
+  identityColorMatrix,
+  mixColorMatrixWithIdentity,
+} from './colorMatrix';
+import { getBrightnessColorMatrix } from './brightness';
+import { getContrastColorMatrix } from './contrast';
+import { getSaturationColorMatrix } from './saturations';
+import { getTemperatureColorMatrix } from './temperature';
+import { getHueRotationColorMatrix } from './hue';
+import { getTintColorMatrix } from './tint';
+
+export interface AdjustableLayer {
+  order: number;
+  visible: boolean;
+  opacity: number; // 0 to 100
+  isAdjustmentLayer?: boolean;
+  adjustments?: Partial<LayerAdjustments>;
+}
+
+/**
+ * Get the color matrix of one adjustment layer
+ * @param adjustments - Adjustment values
+ * @returns 4x5 color matrix with 0-255 offsets
+ */
+export const getAdjustmentColorMatrix = (adjustments: Partial<LayerAdjustments>): ColorMatrix => {
+  const {
+    brightness = 0,
+    contrast = 0,
+    saturation = 0,
+    hue = 0,
+    temperature = 0,
+    tint = 0,
+  } = adjustments;
+
+  // The per-filter helpers take -50 to 50 for brightness, saturation and
+  // temperature, and -100 to 100 for contrast (factor 1 + contrast / 100,
+  // so 0 leaves the layers below unchanged)
+  return composeColorMatrices([
+    getBrightnessColorMatrix(brightness / 2),
+    getContrastColorMatrix(contrast),
+    getSaturationColorMatrix(saturation / 2),
+    getHueRotationColorMatrix(hue),
+    getTemperatureColorMatrix(temperature / 2),
+    getTintColorMatrix(tint),
+  ]);
+};
+
+/**
+ * Get the combined color matrix applied to a layer by the adjustment layers
+ * above it, lowest first. Adjustment layer opacity fades its effect.
+ * @param layers - All layers of the project
+ * @param layerOrder - Order of the layer being drawn
+ * @returns 4x5 color matrix with 0-255 offsets
+ */
+export const getStackedAdjustmentMatrix = (
+  layers: AdjustableLayer[],
+  layerOrder: number
+): ColorMatrix => {
+  const adjustmentLayers = layers
+    .filter(l => l.isAdjustmentLayer && l.visible && l.adjustments && l.order > layerOrder)
+    .sort((a, b) => a.order - b.order);
+
+  if (adjustmentLayers.length === 0) {
+    return identityColorMatrix();
+  }
+
+  return composeColorMatrices(
+    adjustmentLayers.map(l => mixColorMatrixWithIdentity(
+      getAdjustmentColorMatrix(l.adjustments!),
+      l.opacity / 100
+    ))
+  );
+};
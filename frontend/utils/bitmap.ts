@@ -0,0 +1,201 @@
+// utils/bitmap.ts
+
+/**
+ * RGBA Bitmap helpers
+ * Decodes images (local file:// or remote http(s):// URIs) into raw RGBA
+ * buffers that the filter pipeline can work on, and turns processed buffers
+ * back into Skia images for display and encoding.
+ */
+
+import {
+  Skia,
+  SkImage,
+  AlphaType,
+  ColorType,
+  FilterMode,
+  MipmapMode,
+} from '@shopify/react-native-skia';
+
+export interface RGBABitmap {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // Unpremultiplied RGBA, 4 bytes per pixel
+}
+
+/**
+ * Copy a bitmap so the original can be kept untouched
+ * @param bitmap - Source bitmap
+ * @returns Independent copy
+ */
+export const cloneBitmap = (bitmap: RGBABitmap): RGBABitmap => ({
+  width: bitmap.width,
+  height: bitmap.height,
+  data: new Uint8ClampedArray(bitmap.data),
+});
+
+/**
+ * Calculate target size so the longest edge fits within maxEdge
+ * Never upscales.
+ * @param width - Source width
+ * @param height - Source height
+ * @param maxEdge - Optional longest edge in pixels
+ * @returns Target width and height
+ */
+export const fitWithinEdge = (
+  width: number,
+  height: number,
+  maxEdge?: number
+): { width: number; height: number } => {
+  if (!maxEdge || Math.max(width, height) <= maxEdge) {
+    return { width, height };
+  }
+  const scale = maxEdge / Math.max(width, height);
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+/**
+ * Decode an image URI into a Skia image
+ * @param uri - file://, http(s):// or data: URI
+ * @returns Decoded Skia image
+ */
+export const loadSkImage = async (uri: string): Promise<SkImage> => {
+  const encoded = await Skia.Data.fromURI(uri);
+  const image = Skia.Image.MakeImageFromEncoded(encoded);
+
+  if (!image) {
+    throw new Error('Unable to decode image. The file may be corrupted or in an unsupported format.');
+  }
+
+  return image;
+};
+
+/**
+ * Resize a Skia image using linear filtering
+ * @param image - Source image
+ * @param width - Target width
+ * @param height - Target height
+ * @returns Resized raster image
+ */
+export const resizeSkImage = (image: SkImage, width: number, height: number): SkImage => {
+  if (image.width() === width && image.height() === height) {
+    return image;
+  }
+
+  const surface = Skia.Surface.Make(width, height);
+  if (!surface) {
+    throw new Error(`Unable to allocate a ${width}x${height} drawing surface`);
+  }
+
+  const canvas = surface.getCanvas();
+  canvas.drawImageRectOptions(
+    image,
+    Skia.XYWHRect(0, 0, image.width(), image.height()),
+    Skia.XYWHRect(0, 0, width, height),
+    FilterMode.Linear,
+    MipmapMode.None
+  );
+  surface.flush();
+
+  return surface.makeImageSnapshot().makeNonTextureImage();
+};
+
+/**
+ * Read the pixels of a Skia image into an RGBA bitmap
+ * @param image - Skia image
+ * @returns Unpremultiplied RGBA bitmap
+ */
+export const skImageToBitmap = (image: SkImage): RGBABitmap => {
+  const width = image.width();
+  const height = image.height();
+  const pixels = image.readPixels(0, 0, {
+    width,
+    height,
+    colorType: ColorType.RGBA_8888,
+    alphaType: AlphaType.Unpremul,
+  });
+
+  if (!pixels || pixels instanceof Float32Array) {
+    throw new Error('Unable to read image pixels');
+  }
+
+  return {
+    width,
+    height,
+    data: new Uint8ClampedArray(pixels.buffer, pixels.byteOffset, pixels.byteLength),
+  };
+};
+
+/**
+ * Decode an image URI into an RGBA bitmap
+ * @param uri - file://, http(s):// or data: URI
+ * @param maxEdge - Optional longest edge (downscales large images, e.g. for previews)
+ * @returns Unpremultiplied RGBA bitmap
+ */
+export const loadBitmap = async (uri: string, maxEdge?: number): Promise<RGBABitmap> => {
+  const image = await loadSkImage(uri);
+  const { width, height } = fitWithinEdge(image.width(), image.height(), maxEdge);
+  return skImageToBitmap(resizeSkImage(image, width, height));
+};
+
+/**
+ * Wrap an RGBA bitmap in a Skia image for drawing or encoding
+ * @param bitmap - RGBA bitmap
+ * @returns Skia image
+ */
+export const bitmapToSkImage = (bitmap: RGBABitmap): SkImage => {
+  const bytes = new Uint8Array(bitmap.data.buffer, bitmap.data.byteOffset, bitmap.data.byteLength);
+  const image = Skia.Image.MakeImage(
+    {
+      width: bitmap.width,
+      height: bitmap.height,
+      colorType: ColorType.RGBA_8888,
+      alphaType: AlphaType.Unpremul,
+    },
+    Skia.Data.fromBytes(bytes),
+    bitmap.width * 4
+  );
+
+  if (!image) {
+    throw new Error('Unable to create image from pixel data');
+  }
+
+  return image;
+};
+
+/**
+ * Check whether any pixel is not fully opaque
+ * @param bitmap - RGBA bitmap
+ * @returns true if the bitmap uses transparency
+ */
+export const bitmapHasAlpha = (bitmap: RGBABitmap): boolean => {
+  const { data } = bitmap;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+};
+
+/**
+ * Composite a bitmap over a solid background in-place (mutates bitmap data)
+ * Used before encoding to formats without transparency (JPEG).
+ * @param bitmap - RGBA bitmap
+ * @param background - Background color, each channel 0-255 (defaults to white)
+ */
+export const flattenBitmapInPlace = (
+  bitmap: RGBABitmap,
+  background: { r: number; g: number; b: number } = { r: 255, g: 255, b: 255 }
+): void => {
+  const { data } = bitmap;
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3] / 255;
+    if (alpha === 1) continue;
+
+    data[i] = data[i] * alpha + background.r * (1 - alpha);
+    data[i + 1] = data[i + 1] * alpha + background.g * (1 - alpha);
+    data[i + 2] = data[i + 2] * alpha + background.b * (1 - alpha);
+    data[i + 3] = 255;
+  }
+};
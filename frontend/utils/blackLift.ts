@@ -0,0 +1,93 @@
+// utils/blackLift.ts
+
+import { ColorMatrix } from './colorMatrix';
+
+/**
+ * Black Lift Filter
+ * Moves the black point of the image (film-style faded blacks)
+ * -50 = crushed blacks (values below 64 clip to black)
+ * 0 = original
+ * 50 = lifted blacks (pure black becomes 64)
+ */
+
+// Largest black point shift in 0-255 channel units
+const MAX_BLACK_POINT = 64;
+
+/**
+ * Calculate black point shift from slider value
+ * @param value - Slider value from -50 to 50
+ * @returns Black point shift from -64 to 64
+ */
+export const calculateBlackPoint = (value: number): number => {
+  return (Math.max(-50, Math.min(50, value)) / 50) * MAX_BLACK_POINT;
+};
+
+/**
+ * Calculate the linear remap (scale + offset) for the black point
+ * Whites always stay at 255.
+ * @param value - Slider value from -50 to 50
+ * @returns Scale and offset applied to each RGB channel
+ */
+export const calculateBlackLiftRemap = (value: number): { scale: number; offset: number } => {
+  const blackPoint = calculateBlackPoint(value);
+
+  if (blackPoint >= 0) {
+    // Lift: [0, 255] -> [blackPoint, 255]
+    return { scale: (255 - blackPoint) / 255, offset: blackPoint };
+  }
+
+  // Crush: [-blackPoint, 255] -> [0, 255]
+  const crush = -blackPoint;
+  return { scale: 255 / (255 - crush), offset: (-crush * 255) / (255 - crush) };
+};
+
+/**
+ * Apply black lift to RGBA pixel data
+ * @param data - Uint8ClampedArray of RGBA pixel data
+ * @param value - Black lift value from -50 to 50
+ * @returns Modified pixel data
+ */
+export const applyBlackLift = (
+  data: Uint8ClampedArray,
+  value: number
+): Uint8ClampedArray => {
+  const result = new Uint8ClampedArray(data);
+  applyBlackLiftInPlace(result, value);
+  return result;
+};
+
+/**
+ * Apply black lift in-place (mutates original data)
+ * @param data - Uint8ClampedArray of RGBA pixel data
+ * @param value - Black lift value from -50 to 50
+ */
+export const applyBlackLiftInPlace = (
+  data: Uint8ClampedArray,
+  value: number
+): void => {
+  if (value === 0) return;
+
+  const { scale, offset } = calculateBlackLiftRemap(value);
+
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = data[i] * scale + offset;
+    data[i + 1] = data[i + 1] * scale + offset;
+    data[i + 2] = data[i + 2] * scale + offset;
+    // Alpha unchanged
+  }
+};
+
+/**
+ * Get color matrix for black lift
+ * @param value - Black lift value from -50 to 50
+ * @returns 4x5 color matrix
+ */
+export const getBlackLiftColorMatrix = (value: number): ColorMatrix => {
+  const { scale, offset } = calculateBlackLiftRemap(value);
+  return [
+    scale, 0, 0, 0, offset,
+    0, scale, 0, 0, offset,
+    0, 0, scale, 0, offset,
+    0, 0, 0, 1, 0,
+  ];
+};
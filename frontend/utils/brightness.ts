@@ -1,5 +1,7 @@
 // utils/filters/brightness.ts
 
+import { ColorMatrix } from './colorMatrix';
+
 /**
  * Brightness Filter
  * Converts slider value (-50 to 50) to brightness factor (0 to 2)
@@ -67,4 +69,19 @@ export const calculateBrightnessFactor = (value: number): number => {
   export const getBrightnessCSSFilter = (value: number): string => {
     const factor = calculateBrightnessFactor(value);
     return `brightness(${factor})`;
-  };
\ No newline at end of file
+  };
+
+  /**
+   * Get color matrix for brightness
+   * @param value - Brightness value from -50 to 50
+   * @returns 4x5 color matrix (scales RGB by the brightness factor)
+   */
+  export const getBrightnessColorMatrix = (value: number): ColorMatrix => {
+    const factor = calculateBrightnessFactor(value);
+    return [
+      factor, 0, 0, 0, 0,
+      0, factor, 0, 0, 0,
+      0, 0, factor, 0, 0,
+      0, 0, 0, 1, 0,
+    ];
+  };
@@ -0,0 +1,135 @@
+// utils/colorMatrix.ts
+
+/**
+ * Color Matrix
+ * 4x5 row-major matrix (same layout as Skia / Android ColorMatrix):
+ * [ rR, rG, rB, rA, rOffset,
+ *   gR, gG, gB, gA, gOffset,
+ *   bR, bG, bB, bA, bOffset,
+ *   aR, aG, aB, aA, aOffset ]
+ *
+ * Offsets are in 0-255 channel units so the matrix can be applied directly to
+ * Uint8ClampedArray RGBA data. Every affine filter (brightness, contrast,
+ * saturation, temperature) is expressed as a matrix so they can be fused into
+ * a single pass over the pixels.
+ */
+export type ColorMatrix = number[];
+
+/**
+ * Identity matrix - leaves pixels unchanged
+ */
+export const identityColorMatrix = (): ColorMatrix => [
+  1, 0, 0, 0, 0,
+  0, 1, 0, 0, 0,
+  0, 0, 1, 0, 0,
+  0, 0, 0, 1, 0,
+];
+
+/**
+ * Check whether a matrix is the identity (nothing to apply)
+ * @param matrix - Color matrix
+ * @returns true if the matrix does not change pixels
+ */
+export const isIdentityColorMatrix = (matrix: ColorMatrix): boolean => {
+  const identity = identityColorMatrix();
+  return matrix.every((value, index) => Math.abs(value - identity[index]) < 1e-6);
+};
+
+/**
+ * Concatenate two matrices
+ * The result applies `first` and then `second`.
+ * @param first - Matrix applied first
+ * @param second - Matrix applied second
+ * @returns Combined matrix
+ */
+export const concatColorMatrices = (
+  first: ColorMatrix,
+  second: ColorMatrix
+): ColorMatrix => {
+  const result = new Array<number>(20);
+
+  for (let row = 0; row < 4; row++) {
+    for (let col = 0; col < 5; col++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) {
+        sum += second[row * 5 + k] * first[k * 5 + col];
+      }
+      // Offset column carries the second matrix's own offset
+      if (col === 4) {
+        sum += second[row * 5 + 4];
+      }
+      result[row * 5 + col] = sum;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Concatenate any number of matrices, applied in array order
+ * @param matrices - Matrices to combine
+ * @returns Combined matrix
+ */
+export const composeColorMatrices = (matrices: ColorMatrix[]): ColorMatrix => {
+  return matrices.reduce(
+    (combined, matrix) => concatColorMatrices(combined, matrix),
+    identityColorMatrix()
+  );
+};
+
+/**
+ * Blend a matrix with the identity, e.g. for a partly transparent adjustment
+ * @param matrix - Color matrix
+ * @param amount - 0 (identity) to 1 (full matrix)
+ * @returns Blended matrix
+ */
+export const mixColorMatrixWithIdentity = (
+  matrix: ColorMatrix,
+  amount: number
+): ColorMatrix => {
+  const t = Math.max(0, Math.min(1, amount));
+  const identity = identityColorMatrix();
+  return matrix.map((value, index) => identity[index] + (value - identity[index]) * t);
+};
+
+/**
+ * Convert to the layout Skia's ColorMatrix color filter expects
+ * Skia works on 0-1 channel values, so the offset column is divided by 255.
+ * @param matrix - Color matrix with 0-255 offsets
+ * @returns Matrix with 0-1 offsets
+ */
+export const toNormalizedColorMatrix = (matrix: ColorMatrix): ColorMatrix => {
+  return matrix.map((value, index) => (index % 5 === 4 ? value / 255 : value));
+};
+
+/**
+ * Apply a color matrix in-place (mutates original data)
+ * @param data - Uint8ClampedArray of RGBA pixel data
+ * @param matrix - Color matrix to apply
+ */
+export const applyColorMatrixInPlace = (
+  data: Uint8ClampedArray,
+  matrix: ColorMatrix
+): void => {
+  if (isIdentityColorMatrix(matrix)) return;
+
+  const [
+    rr, rg, rb, ra, ro,
+    gr, gg, gb, ga, go,
+    br, bg, bb, ba, bo,
+    ar, ag, ab, aa, ao,
+  ] = matrix;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const a = data[i + 3];
+
+    // Uint8ClampedArray clamps and rounds on assignment
+    data[i] = rr * r + rg * g + rb * b + ra * a + ro;
+    data[i + 1] = gr * r + gg * g + gb * b + ga * a + go;
+    data[i + 2] = br * r + bg * g + bb * b + ba * a + bo;
+    data[i + 3] = ar * r + ag * g + ab * b + aa * a + ao;
+  }
+};
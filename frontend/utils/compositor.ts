@@ -0,0 +1,297 @@
+// utils/compositor.ts
+
+/**
+ * Layer Compositor
+ * Flattens the layers of a layer-based project into one image. The same
+ * drawing code renders the flowspace canvas (scaled to the screen through a
+ * Skia picture) and the export (a full canvasWidth x canvasHeight surface),
+ * so what is shown on screen is exactly what gets exported.
+ *
+ * Layers are drawn bottom to top (by order). Each visible image layer is:
+ * 1. fitted inside the canvas (like resizeMode="contain"); text layers are
+ *    laid out at their font size and centered instead (utils/textLayers)
+ * 2. moved by its position (canvas pixels)
+ * 3. scaled, flipped and rotated around its own center
+ * 4. color corrected by the adjustment layers above it
+ * 5. cut out by its mask, if any (white shows the layer, black hides it)
+ * 6. blended onto the layers below with its blend mode and opacity
+ *
+ * A mask is a grayscale image stretched over the layer's own (untransformed)
+ * image, so it moves, scales and rotates with the layer.
+ *
+ * Layers in a group (utils/layerGroups) are drawn together in an offscreen
+ * layer, moved by the group's position, then blended onto the layers below
+ * with the group's blend mode and opacity. A hidden group hides its
+ * contents. Adjustment layers inside a group still adjust every layer below
+ * them, inside the group or not.
+ */
+
+import {
+  Skia,
+  SkCanvas,
+  SkImage,
+  SkPaint,
+  SkRect,
+  SkTypefaceFontProvider,
+  BlendMode as SkBlendMode,
+  FilterMode,
+  MipmapMode,
+} from '@shopify/react-native-skia';
+import { BlendMode, LayerText } from '../services/apiTypes';
+import { RGBABitmap, fitWithinEdge, skImageToBitmap } from './bitmap';
+import { isIdentityColorMatrix, toNormalizedColorMatrix } from './colorMatrix';
+import { AdjustableLayer, getStackedAdjustmentMatrix } from './adjustmentLayers';
+import { drawTextLayout, layoutText } from './textLayers';
+import { getChildLayers, getVisibleLayers } from './layerGroups';
+
+export interface CompositeLayer extends AdjustableLayer {
+  id: string;
+  imageUrl: string; // Empty for text and group layers
+  maskUrl?: string | null;
+  text?: LayerText; // Text layers only
+  parent?: string | null; // Group the layer is in
+  isGroupLayer?: boolean;
+  blendMode: string;
+  position: { x: number; y: number };
+  transformations: {
+    rotation: number; // Degrees, clockwise
+    scaleX: number;
+    scaleY: number;
+    flipX: boolean;
+    flipY: boolean;
+  };
+}
+
+export interface CompositeCanvas {
+  width: number;
+  height: number;
+  backgroundColor?: string; // Omit for a transparent background
+}
+
+// Decoded layer images and masks, keyed by imageUrl / maskUrl
+export type CompositeImages = Record<string, SkImage | undefined>;
+
+const SKIA_BLEND_MODES: Record<BlendMode, SkBlendMode> = {
+  'normal': SkBlendMode.SrcOver,
+  'multiply': SkBlendMode.Multiply,
+  'screen': SkBlendMode.Screen,
+  'overlay': SkBlendMode.Overlay,
+  'soft-light': SkBlendMode.SoftLight,
+  'hard-light': SkBlendMode.HardLight,
+};
+
+/**
+ * Map a layer blend mode to Skia
+ * @param blendMode - Blend mode from the Layer model
+ * @returns Skia blend mode (normal for unknown values)
+ */
+export const getSkiaBlendMode = (blendMode: string): SkBlendMode => {
+  return SKIA_BLEND_MODES[blendMode as BlendMode] ?? SkBlendMode.SrcOver;
+};
+
+/**
+ * Get the visible image and text layers in stacking order (bottom first)
+ * @param layers - All layers of the project
+ * @returns Layers that put pixels on the canvas
+ */
+export const getDrawableLayers = <T extends CompositeLayer>(layers: T[]): T[] => {
+  return getVisibleLayers(layers)
+    .filter(layer => !layer.isAdjustmentLayer && !layer.isGroupLayer && (layer.imageUrl || layer.text))
+    .sort((a, b) => a.order - b.order);
+};
+
+const getLayerPaint = (layer: CompositeLayer): SkPaint => {
+  const paint = Skia.Paint();
+  paint.setAlphaf(Math.max(0, Math.min(1, layer.opacity / 100)));
+  paint.setBlendMode(getSkiaBlendMode(layer.blendMode));
+  return paint;
+};
+
+/**
+ * Get every image URL (layer images and masks) needed to draw the layers
+ * @param layers - All layers of the project
+ * @returns Unique URLs in drawing order
+ */
+export const getCompositeImageUrls = (layers: CompositeLayer[]): string[] => {
+  const urls = getDrawableLayers(layers)
+    .filter(layer => layer.imageUrl)
+    .flatMap(layer => (layer.maskUrl ? [layer.imageUrl, layer.maskUrl] : [layer.imageUrl]));
+  return Array.from(new Set(urls));
+};
+
+/**
+ * Rectangle an image occupies when fitted inside the canvas, before the
+ * layer's own position and transformations
+ * @param imageWidth - Image width
+ * @param imageHeight - Image height
+ * @param canvasWidth - Canvas width
+ * @param canvasHeight - Canvas height
+ * @returns Centered rectangle in canvas pixels
+ */
+export const getFittedLayerRect = (
+  imageWidth: number,
+  imageHeight: number,
+  canvasWidth: number,
+  canvasHeight: number
+): SkRect => {
+  const scale = Math.min(canvasWidth / imageWidth, canvasHeight / imageHeight);
+  const width = imageWidth * scale;
+  const height = imageHeight * scale;
+  return Skia.XYWHRect((canvasWidth - width) / 2, (canvasHeight - height) / 2, width, height);
+};
+
+/**
+ * Stretch a whole image over a rectangle
+ */
+const drawImageInRect = (canvas: SkCanvas, image: SkImage, dest: SkRect, paint: SkPaint): void => {
+  canvas.drawImageRectOptions(
+    image,
+    Skia.XYWHRect(0, 0, image.width(), image.height()),
+    dest,
+    FilterMode.Linear,
+    MipmapMode.None,
+    paint
+  );
+};
+
+/**
+ * Draw the composite onto a Skia canvas, in canvas pixel coordinates
+ * Scale the Skia canvas beforehand to draw at another size.
+ * Layers whose image (or mask) has not been decoded yet are skipped, so a
+ * masked layer never flashes unmasked while its mask loads. Text layers are
+ * skipped until the fonts are loaded.
+ * @param canvas - Skia canvas
+ * @param layers - All layers of the project
+ * @param images - Decoded layer images
+ * @param target - Canvas size and background
+ * @param fonts - Text layer fonts (see loadTextFonts)
+ */
+export const drawComposite = (
+  canvas: SkCanvas,
+  layers: CompositeLayer[],
+  images: CompositeImages,
+  target: CompositeCanvas,
+  fonts?: SkTypefaceFontProvider | null
+): void => {
+  if (target.backgroundColor) {
+    const background = Skia.Paint();
+    background.setColor(Skia.Color(target.backgroundColor));
+    canvas.drawRect(Skia.XYWHRect(0, 0, target.width, target.height), background);
+  }
+
+  const visibleLayers = getVisibleLayers(layers);
+
+  const drawLayer = (layer: CompositeLayer) => {
+    const paint = getLayerPaint(layer);
+
+    const matrix = getStackedAdjustmentMatrix(visibleLayers, layer.order);
+    const colorFilter = isIdentityColorMatrix(matrix)
+      ? null
+      : Skia.ColorFilter.MakeMatrix(toNormalizedColorMatrix(matrix));
+
+    const { rotation, scaleX, scaleY, flipX, flipY } = layer.transformations;
+    const transformAround = (centerX: number, centerY: number) => {
+      canvas.translate(centerX + layer.position.x, centerY + layer.position.y);
+      canvas.rotate(rotation, 0, 0);
+      canvas.scale(scaleX * (flipX ? -1 : 1), scaleY * (flipY ? -1 : 1));
+    };
+
+    if (layer.text) {
+      if (!fonts || !layer.text.content) return;
+
+      const layout = layoutText(layer.text, fonts);
+      if (colorFilter) paint.setColorFilter(colorFilter);
+
+      canvas.save();
+      transformAround(target.width / 2, target.height / 2);
+      // Stroke, fill and shadow are blended as one
+      canvas.saveLayer(paint);
+      drawTextLayout(canvas, layout);
+      canvas.restore();
+      canvas.restore();
+      return;
+    }
+
+    const image = images[layer.imageUrl];
+    const mask = layer.maskUrl ? images[layer.maskUrl] : null;
+    if (!image || mask === undefined) return;
+
+    const rect = getFittedLayerRect(image.width(), image.height(), target.width, target.height);
+
+    canvas.save();
+    transformAround(rect.x + rect.width / 2, rect.y + rect.height / 2);
+
+    const dest = Skia.XYWHRect(-rect.width / 2, -rect.height / 2, rect.width, rect.height);
+
+    if (mask) {
+      // Cut the layer out in its own offscreen layer, then blend the result
+      // onto the canvas with the layer's opacity and blend mode
+      canvas.saveLayer(paint, dest);
+
+      const imagePaint = Skia.Paint();
+      if (colorFilter) imagePaint.setColorFilter(colorFilter);
+      drawImageInRect(canvas, image, dest, imagePaint);
+
+      const maskPaint = Skia.Paint();
+      maskPaint.setBlendMode(SkBlendMode.DstIn);
+      maskPaint.setColorFilter(Skia.ColorFilter.MakeLumaColorFilter());
+      drawImageInRect(canvas, mask, dest, maskPaint);
+
+      canvas.restore();
+    } else {
+      if (colorFilter) paint.setColorFilter(colorFilter);
+      drawImageInRect(canvas, image, dest, paint);
+    }
+
+    canvas.restore();
+  };
+
+  const drawGroup = (groupId: string | null) => {
+    getChildLayers(visibleLayers, groupId).forEach(layer => {
+      if (layer.isGroupLayer) {
+        canvas.save();
+        canvas.translate(layer.position.x, layer.position.y);
+        canvas.saveLayer(getLayerPaint(layer));
+        drawGroup(layer.id);
+        canvas.restore();
+        canvas.restore();
+      } else if (!layer.isAdjustmentLayer && (layer.imageUrl || layer.text)) {
+        drawLayer(layer);
+      }
+    });
+  };
+
+  drawGroup(null);
+};
+
+/**
+ * Flatten the layers into a bitmap
+ * @param layers - All layers of the project
+ * @param images - Decoded layer images
+ * @param target - Canvas size and background
+ * @param maxEdge - Optional longest edge (omit for full canvas resolution)
+ * @param fonts - Text layer fonts (needed when there are text layers)
+ * @returns Unpremultiplied RGBA bitmap
+ */
+export const renderCompositeBitmap = (
+  layers: CompositeLayer[],
+  images: CompositeImages,
+  target: CompositeCanvas,
+  maxEdge?: number,
+  fonts?: SkTypefaceFontProvider | null
+): RGBABitmap => {
+  const { width, height } = fitWithinEdge(target.width, target.height, maxEdge);
+
+  const surface = Skia.Surface.Make(width, height);
+  if (!surface) {
+    throw new Error(`Unable to allocate a ${width}x${height} drawing surface`);
+  }
+
+  const canvas = surface.getCanvas();
+  canvas.clear(Skia.Color('transparent'));
+  canvas.scale(width / target.width, height / target.height);
+  drawComposite(canvas, layers, images, target, fonts);
+  surface.flush();
+
+  return skImageToBitmap(surface.makeImageSnapshot().makeNonTextureImage());
+};
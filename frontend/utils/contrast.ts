@@ -1,20 +1,22 @@
 // utils/filters/contrast.ts
 
+import { ColorMatrix } from './colorMatrix';
+
 /**
  * Contrast Filter
- * Converts slider value (-100 to 100) to contrast factor (0 to 3)
+ * Converts slider value (-100 to 100) to contrast factor (0 to 2)
  * -100 = no contrast / gray (factor 0)
  * 0 = original (factor 1)
- * 100 = very high contrast (factor 3)
+ * 100 = very high contrast (factor 2)
  */
 
 /**
  * Calculate contrast factor from slider value
  * @param value - Slider value from -100 to 100
- * @returns Contrast factor from 0 to 3
+ * @returns Contrast factor from 0 to 2
  */
 export const calculateContrastFactor = (value: number): number => {
-    return (value + 100) / 66.67;
+    return 1 + value / 100;
   };
   
   /**
@@ -68,4 +70,20 @@ export const calculateContrastFactor = (value: number): number => {
   export const getContrastCSSFilter = (value: number): string => {
     const factor = calculateContrastFactor(value);
     return `contrast(${factor})`;
-  };
\ No newline at end of file
+  };
+
+  /**
+   * Get color matrix for contrast
+   * @param value - Contrast value from -100 to 100
+   * @returns 4x5 color matrix (scales RGB around mid-gray 128)
+   */
+  export const getContrastColorMatrix = (value: number): ColorMatrix => {
+    const factor = calculateContrastFactor(value);
+    const intercept = 128 * (1 - factor);
+    return [
+      factor, 0, 0, 0, intercept,
+      0, factor, 0, 0, intercept,
+      0, 0, factor, 0, intercept,
+      0, 0, 0, 1, 0,
+    ];
+  };
@@ -0,0 +1,188 @@
+// utils/cropGeometry.ts
+
+/**
+ * Crop Geometry
+ * Math for the crop tool. The image is flipped, then rotated clockwise by
+ * 90° turns plus a straighten angle, the same order PATCH /images/crop
+ * applies them. The crop is a rect in the rotated image's bounding box,
+ * stored as 0-1 fractions so it doesn't depend on the preview size.
+ */
+
+import { CANVAS_PRESETS, TEMPLATE_PRESETS } from '../constants/sizePresets';
+
+export interface CropRect {
+  x: number; // 0-1 of the rotated bounding box
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CropTransform {
+  quarterTurns: number; // 0-3, clockwise
+  straighten: number; // Degrees, -45 to 45, clockwise
+  flipX: boolean;
+  flipY: boolean;
+}
+
+// ratio: width / height, null = free, 'original' = the (turned) image's own
+export interface CropAspect {
+  label: string;
+  ratio: number | 'original' | null;
+}
+
+export const MAX_STRAIGHTEN = 45;
+
+export const DEFAULT_CROP_TRANSFORM: CropTransform = {
+  quarterTurns: 0,
+  straighten: 0,
+  flipX: false,
+  flipY: false,
+};
+
+// Common ratios, then the canvas and template presets (minus repeats)
+export const CROP_ASPECTS: CropAspect[] = (() => {
+  const aspects: CropAspect[] = [
+    { label: 'Free', ratio: null },
+    { label: 'Original', ratio: 'original' },
+    { label: '1:1', ratio: 1 },
+    { label: '4:5', ratio: 4 / 5 },
+    { label: '3:2', ratio: 3 / 2 },
+    { label: '4:3', ratio: 4 / 3 },
+    { label: '16:9', ratio: 16 / 9 },
+    { label: '9:16', ratio: 9 / 16 },
+  ];
+
+  [...TEMPLATE_PRESETS, ...Object.values(CANVAS_PRESETS)].forEach(preset => {
+    const ratio = preset.width / preset.height;
+    const repeated = aspects.some(aspect => typeof aspect.ratio === 'number' && Math.abs(aspect.ratio - ratio) < 0.01);
+    if (!repeated) {
+      aspects.push({ label: preset.name, ratio });
+    }
+  });
+
+  return aspects;
+})();
+
+/**
+ * Get the total clockwise rotation of a crop transform
+ * @param transform - Crop transform
+ * @returns Degrees, whole
+ */
+export const getCropAngle = (transform: CropTransform): number => {
+  return transform.quarterTurns * 90 + Math.round(transform.straighten);
+};
+
+/**
+ * Get the size of the bounding box of a rotated image
+ * @param width - Image width
+ * @param height - Image height
+ * @param angle - Clockwise rotation in degrees
+ * @returns Bounding box size
+ */
+export const getRotatedSize = (width: number, height: number, angle: number) => {
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  return {
+    width: width * cos + height * sin,
+    height: width * sin + height * cos,
+  };
+};
+
+/**
+ * Get the aspect ratio a crop aspect stands for
+ * @param aspect - Crop aspect
+ * @param width - Image width
+ * @param height - Image height
+ * @param quarterTurns - 90° turns applied to the image
+ * @returns width / height, or null for a free crop
+ */
+export const resolveCropRatio = (
+  aspect: CropAspect,
+  width: number,
+  height: number,
+  quarterTurns: number
+): number | null => {
+  if (aspect.ratio === 'original') {
+    return quarterTurns % 2 === 0 ? width / height : height / width;
+  }
+  return aspect.ratio;
+};
+
+/**
+ * Get the largest centered crop that only contains image pixels
+ * With no straightening this is the whole image, or the largest rect of
+ * the given ratio inside it.
+ * @param width - Image width
+ * @param height - Image height
+ * @param transform - Crop transform
+ * @param ratio - Crop width / height in pixels, or null to keep the image's
+ * @returns Crop rect
+ */
+export const getInscribedCrop = (
+  width: number,
+  height: number,
+  transform: CropTransform,
+  ratio: number | null
+): CropRect => {
+  const angle = getCropAngle(transform);
+  const box = getRotatedSize(width, height, angle);
+
+  // Work in the image's own orientation after the 90° turns
+  const turned = transform.quarterTurns % 2 === 0 ? { width, height } : { width: height, height: width };
+  const radians = (Math.round(transform.straighten) * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  const r = ratio ?? turned.width / turned.height;
+
+  // Both corners of a centered r:1 rect must stay inside the rotated image
+  const cropHeight = Math.min(turned.width / (r * cos + sin), turned.height / (r * sin + cos));
+  const cropWidth = cropHeight * r;
+
+  return {
+    x: (box.width - cropWidth) / 2 / box.width,
+    y: (box.height - cropHeight) / 2 / box.height,
+    width: cropWidth / box.width,
+    height: cropHeight / box.height,
+  };
+};
+
+/**
+ * Keep a crop inside the bounding box and above a minimum size
+ * @param crop - Crop rect
+ * @param minSize - Smallest width and height, as 0-1 fractions
+ * @returns Clamped crop rect
+ */
+export const clampCrop = (crop: CropRect, minSize: number): CropRect => {
+  const width = Math.min(1, Math.max(minSize, crop.width));
+  const height = Math.min(1, Math.max(minSize, crop.height));
+  return {
+    x: Math.min(1 - width, Math.max(0, crop.x)),
+    y: Math.min(1 - height, Math.max(0, crop.y)),
+    width,
+    height,
+  };
+};
+
+/**
+ * Convert a crop to the pixel coordinates PATCH /images/crop expects
+ * @param crop - Crop rect
+ * @param width - Image width
+ * @param height - Image height
+ * @param transform - Crop transform
+ * @returns Whole pixel crop inside the rotated image
+ */
+export const toPixelCrop = (crop: CropRect, width: number, height: number, transform: CropTransform) => {
+  const box = getRotatedSize(width, height, getCropAngle(transform));
+  const boxWidth = Math.floor(box.width);
+  const boxHeight = Math.floor(box.height);
+
+  const x = Math.max(0, Math.round(crop.x * box.width));
+  const y = Math.max(0, Math.round(crop.y * box.height));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(boxWidth - x, Math.round(crop.width * box.width))),
+    height: Math.max(1, Math.min(boxHeight - y, Math.round(crop.height * box.height))),
+  };
+};
@@ -0,0 +1,263 @@
+// utils/exportRenderer.ts
+
+/**
+ * Export Renderer
+ * Renders an image through the filter pipeline (or a flowspace project
+ * through the layer compositor) and writes the result to the cache
+ * directory, ready to hand to expo-sharing. Works for any image the app
+ * can show: Cloudinary URLs, images served by a self-hosted backend and local
+ * gallery picks.
+ */
+
+import { ImageFormat } from '@shopify/react-native-skia';
+import { File, Paths } from 'expo-file-system';
+import * as ImageManipulator from 'expo-image-manipulator';
+import ApiService from '../services/api';
+import { FilterValues } from './filters';
+import { RGBABitmap, loadBitmap, loadSkImage, bitmapToSkImage, bitmapHasAlpha, flattenBitmapInPlace } from './bitmap';
+import {
+  CompositeCanvas,
+  CompositeImages,
+  CompositeLayer,
+  getCompositeImageUrls,
+  getDrawableLayers,
+  renderCompositeBitmap,
+} from './compositor';
+import { loadTextFonts } from './textLayers';
+import { renderFilteredBitmap } from './filterPipeline';
+import { extractExif, injectExif, resetExifOrientation } from './imageMetadata';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  quality: number;          // 1 to 100 (ignored for PNG)
+  maxEdge: number | null;   // Longest edge in pixels, null keeps full resolution
+  keepMetadata: boolean;    // Copy EXIF from the source image
+}
+
+export interface ExportedImage {
+  uri: string;
+  mimeType: string;
+  uti: string;              // iOS uniform type identifier for the share sheet
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, {
+  label: string;
+  extension: string;
+  mimeType: string;
+  uti: string;
+  skiaFormat: ImageFormat;
+  supportsAlpha: boolean;
+}> = {
+  png: {
+    label: 'PNG',
+    extension: 'png',
+    mimeType: 'image/png',
+    uti: 'public.png',
+    skiaFormat: ImageFormat.PNG,
+    supportsAlpha: true,
+  },
+  jpeg: {
+    label: 'JPEG',
+    extension: 'jpg',
+    mimeType: 'image/jpeg',
+    uti: 'public.jpeg',
+    skiaFormat: ImageFormat.JPEG,
+    supportsAlpha: false,
+  },
+  webp: {
+    label: 'WebP',
+    extension: 'webp',
+    mimeType: 'image/webp',
+    uti: 'org.webmproject.webp',
+    skiaFormat: ImageFormat.WEBP,
+    supportsAlpha: true,
+  },
+};
+
+export const defaultExportOptions: ExportOptions = {
+  format: 'jpeg',
+  quality: 100,
+  maxEdge: null,
+  keepMetadata: true,
+};
+
+// Longest edge used when checking an image for transparency
+const ALPHA_PROBE_EDGE = 512;
+
+/**
+ * Default export options for an image
+ * PNG when the image has transparency (e.g. removeBackground results) so it
+ * is not lost, JPEG otherwise.
+ * @param hasAlpha - Whether the image uses transparency
+ * @returns Export options
+ */
+export const getDefaultExportOptions = (hasAlpha: boolean): ExportOptions => ({
+  ...defaultExportOptions,
+  format: hasAlpha ? 'png' : 'jpeg',
+});
+
+interface ExportSource {
+  uri: string;
+  cleanup: () => void;
+}
+
+/**
+ * Make an image URI readable by the decoder
+ * - http(s) images are downloaded to the cache first. Images served by our
+ *   own backend are requested with the session token.
+ * - Gallery URIs that are not plain files (ph://, content://,
+ *   assets-library://) are re-saved as a file.
+ * @param uri - Image URI as shown in the editor
+ * @returns Local URI and a cleanup callback for any temporary file
+ */
+const resolveExportSource = async (uri: string): Promise<ExportSource> => {
+  if (/^https?:\/\//i.test(uri)) {
+    const headers = await ApiService.getAuthHeadersFor(uri);
+    const file = await File.downloadFileAsync(
+      uri,
+      new File(Paths.cache, `export_source_${Date.now()}`),
+      { headers, idempotent: true }
+    );
+    return {
+      uri: file.uri,
+      cleanup: () => {
+        if (file.exists) file.delete();
+      },
+    };
+  }
+
+  if (uri.startsWith('file://') || uri.startsWith('data:')) {
+    return { uri, cleanup: () => {} };
+  }
+
+  const normalized = await ImageManipulator.manipulateAsync(uri, [], {
+    compress: 1,
+    format: ImageManipulator.SaveFormat.PNG,
+  });
+  return { uri: normalized.uri, cleanup: () => {} };
+};
+
+/**
+ * Read the EXIF block of a local source file
+ * @param uri - file:// URI
+ * @returns Raw EXIF with orientation reset, or null if there is none
+ */
+const readSourceExif = async (uri: string): Promise<Uint8Array | null> => {
+  if (!uri.startsWith('file://')) return null;
+
+  try {
+    const exif = extractExif(await new File(uri).bytes());
+    return exif ? resetExifOrientation(exif) : null;
+  } catch (error) {
+    console.warn('Unable to read source metadata:', error);
+    return null;
+  }
+};
+
+/**
+ * Check whether an image uses transparency
+ * @param uri - Image URI as shown in the editor
+ * @returns true if any pixel is not fully opaque
+ */
+export const imageHasAlpha = async (uri: string): Promise<boolean> => {
+  const source = await resolveExportSource(uri);
+  try {
+    return bitmapHasAlpha(await loadBitmap(source.uri, ALPHA_PROBE_EDGE));
+  } finally {
+    source.cleanup();
+  }
+};
+
+/**
+ * Encode a rendered bitmap into a new file in the cache directory
+ * @param bitmap - Rendered bitmap (flattened in place for formats without alpha)
+ * @param sourceUri - Local URI of the source file, used for metadata
+ * @param options - Format, quality and metadata options
+ * @returns Written file with its share sheet type information
+ */
+const writeBitmapToFile = async (
+  bitmap: RGBABitmap,
+  sourceUri: string | null,
+  options: ExportOptions
+): Promise<ExportedImage> => {
+  const format = EXPORT_FORMATS[options.format];
+
+  if (!format.supportsAlpha) {
+    flattenBitmapInPlace(bitmap);
+  }
+
+  const quality = Math.max(1, Math.min(100, Math.round(options.quality)));
+  let encoded = bitmapToSkImage(bitmap).encodeToBytes(format.skiaFormat, quality);
+
+  if (!encoded || encoded.length === 0) {
+    throw new Error(`Unable to encode the image as ${format.label}`);
+  }
+
+  if (options.keepMetadata && sourceUri) {
+    const exif = await readSourceExif(sourceUri);
+    if (exif) {
+      encoded = injectExif(encoded, exif, bitmap.width, bitmap.height);
+    }
+  }
+
+  const file = new File(Paths.cache, `export_${Date.now()}.${format.extension}`);
+  file.write(encoded);
+
+  return { uri: file.uri, mimeType: format.mimeType, uti: format.uti };
+};
+
+/**
+ * Render filters into a new image file in the cache directory
+ * @param uri - Source image URI (remote, local file or gallery URI)
+ * @param filters - Filter values to bake into the image
+ * @param options - Format, quality, size and metadata options
+ * @returns Rendered file with its share sheet type information
+ */
+export const renderFilteredImageToFile = async (
+  uri: string,
+  filters: Partial<FilterValues>,
+  options: ExportOptions = defaultExportOptions
+): Promise<ExportedImage> => {
+  const source = await resolveExportSource(uri);
+
+  try {
+    const bitmap = await renderFilteredBitmap(source.uri, filters, options.maxEdge ?? undefined);
+    return await writeBitmapToFile(bitmap, source.uri, options);
+  } finally {
+    source.cleanup();
+  }
+};
+
+/**
+ * Flatten the layers of a layer-based project into a new image file
+ * The composite has no single source photo, so no metadata is copied.
+ * @param layers - All layers of the project
+ * @param target - Canvas size and background
+ * @param options - Format, quality and size options
+ * @returns Rendered file with its share sheet type information
+ */
+export const renderCompositeToFile = async (
+  layers: CompositeLayer[],
+  target: CompositeCanvas,
+  options: ExportOptions = defaultExportOptions
+): Promise<ExportedImage> => {
+  const sources: ExportSource[] = [];
+
+  try {
+    const images: CompositeImages = {};
+    for (const url of getCompositeImageUrls(layers)) {
+      const source = await resolveExportSource(url);
+      sources.push(source);
+      images[url] = await loadSkImage(source.uri);
+    }
+
+    const fonts = getDrawableLayers(layers).some(layer => layer.text) ? await loadTextFonts() : null;
+
+    const bitmap = renderCompositeBitmap(layers, images, target, options.maxEdge ?? undefined, fonts);
+    return await writeBitmapToFile(bitmap, null, options);
+  } finally {
+    sources.forEach(source => source.cleanup());
+  }
+};
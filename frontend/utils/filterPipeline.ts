@@ -0,0 +1,185 @@
+// utils/filterPipeline.ts
+
+/**
+ * Filter Pipeline
+ * Single code path used by both the live preview (LiveGLShader) and export,
+ * so what is shown on screen is exactly what gets shared.
+ *
+ * Order of operations:
+ * 1. Tone pass - shadows and highlights are luminance-masked tone curves,
+ *    combined into one lookup table.
+ * 2. Color pass - brightness, contrast, saturation, temperature and black
+ *    lift are expressed as color matrices and fused into one matrix.
+ *    Passes 1 and 2 run in a single loop over the pixels.
+ * 3. Detail pass - sharpening (3x3 convolution).
+ * 4. Grain - seeded, applied last so it is not sharpened or tone mapped.
+ */
+
+import { FilterValues, defaultFilterValues } from './filters';
+import { RGBABitmap, cloneBitmap, loadBitmap } from './bitmap';
+import { ColorMatrix, composeColorMatrices, isIdentityColorMatrix } from './colorMatrix';
+import { ToneCurve, combineToneCurves, isFlatToneCurve, calculateLuminance } from './toneCurve';
+import { getBrightnessColorMatrix } from './brightness';
+import { getContrastColorMatrix } from './contrast';
+import { getSaturationColorMatrix } from './saturations';
+import { getTemperatureColorMatrix } from './temperature';
+import { getBlackLiftColorMatrix } from './blackLift';
+import { getShadowsToneCurve } from './shadows';
+import { getHighlightsToneCurve } from './highlights';
+import { applySharpenInPlace } from './sharpness';
+import { applyGrainInPlace } from './grain';
+
+/**
+ * Fill in missing values and fold legacy slider names into their
+ * replacements (warmth → temperature)
+ * @param filters - Partial filter values from the UI
+ * @returns Complete filter values
+ */
+export const resolveFilterValues = (filters: Partial<FilterValues>): FilterValues => {
+  const values = { ...defaultFilterValues, ...filters };
+  return {
+    ...values,
+    temperature: Math.max(-50, Math.min(50, values.temperature + values.warmth)),
+    warmth: 0,
+  };
+};
+
+/**
+ * Check if any filter would change the image
+ * @param filters - Filter values
+ * @returns true if at least one filter is non-zero
+ */
+export const hasActiveFilterValues = (filters: Partial<FilterValues>): boolean => {
+  return Object.values(filters).some(value => typeof value === 'number' && value !== 0);
+};
+
+/**
+ * Build the fused color matrix for all affine filters
+ * @param filters - Filter values
+ * @returns Combined color matrix
+ */
+export const buildFilterColorMatrix = (filters: Partial<FilterValues>): ColorMatrix => {
+  const values = resolveFilterValues(filters);
+  return composeColorMatrices([
+    getBrightnessColorMatrix(values.brightness),
+    getContrastColorMatrix(values.contrast),
+    getSaturationColorMatrix(values.saturation),
+    getTemperatureColorMatrix(values.temperature),
+    getBlackLiftColorMatrix(values.blackLift),
+  ]);
+};
+
+/**
+ * Build the combined tone curve for luminance-masked filters
+ * @param filters - Filter values
+ * @returns Combined tone curve
+ */
+export const buildFilterToneCurve = (filters: Partial<FilterValues>): ToneCurve => {
+  const values = resolveFilterValues(filters);
+  return combineToneCurves([
+    getShadowsToneCurve(values.shadows),
+    getHighlightsToneCurve(values.highlights),
+  ]);
+};
+
+/**
+ * Run the tone curve and color matrix in one loop (mutates original data)
+ * @param data - Uint8ClampedArray of RGBA pixel data
+ * @param curve - Tone curve applied first
+ * @param matrix - Color matrix applied second
+ */
+const applyColorPassInPlace = (
+  data: Uint8ClampedArray,
+  curve: ToneCurve,
+  matrix: ColorMatrix
+): void => {
+  const flatCurve = isFlatToneCurve(curve);
+  if (flatCurve && isIdentityColorMatrix(matrix)) return;
+
+  const [
+    rr, rg, rb, ra, ro,
+    gr, gg, gb, ga, go,
+    br, bg, bb, ba, bo,
+    ar, ag, ab, aa, ao,
+  ] = matrix;
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i];
+    let g = data[i + 1];
+    let b = data[i + 2];
+    const a = data[i + 3];
+
+    if (!flatCurve) {
+      const shift = curve[Math.round(calculateLuminance(r, g, b))];
+      r = Math.min(255, Math.max(0, r + shift));
+      g = Math.min(255, Math.max(0, g + shift));
+      b = Math.min(255, Math.max(0, b + shift));
+    }
+
+    // Uint8ClampedArray clamps and rounds on assignment
+    data[i] = rr * r + rg * g + rb * b + ra * a + ro;
+    data[i + 1] = gr * r + gg * g + gb * b + ga * a + go;
+    data[i + 2] = br * r + bg * g + bb * b + ba * a + bo;
+    data[i + 3] = ar * r + ag * g + ab * b + aa * a + ao;
+  }
+};
+
+/**
+ * Apply all filters in-place (mutates bitmap data); default values leave it untouched
+ * @param bitmap - RGBA bitmap
+ * @param filters - Filter values
+ */
+export const applyFilterPipelineInPlace = (
+  bitmap: RGBABitmap,
+  filters: Partial<FilterValues>
+): void => {
+  const values = resolveFilterValues(filters);
+  if (!hasActiveFilterValues(values)) return;
+
+  applyColorPassInPlace(
+    bitmap.data,
+    buildFilterToneCurve(values),
+    buildFilterColorMatrix(values)
+  );
+
+  if (values.sharpen !== 0) {
+    applySharpenInPlace(bitmap.data, bitmap.width, bitmap.height, values.sharpen);
+  }
+
+  if (values.noise > 0) {
+    applyGrainInPlace(bitmap.data, bitmap.width, bitmap.height, values.noise);
+  }
+};
+
+/**
+ * Apply all filters to a copy of the bitmap
+ * @param bitmap - Source RGBA bitmap (left untouched)
+ * @param filters - Filter values
+ * @returns Filtered bitmap
+ */
+export const applyFilterPipeline = (
+  bitmap: RGBABitmap,
+  filters: Partial<FilterValues>
+): RGBABitmap => {
+  const result = cloneBitmap(bitmap);
+  applyFilterPipelineInPlace(result, filters);
+  return result;
+};
+
+/**
+ * Decode an image and run it through the pipeline
+ * Pass maxEdge for a preview-sized bitmap, omit it for full resolution export.
+ * @param uri - Image URI
+ * @param filters - Filter values
+ * @param maxEdge - Optional longest edge in pixels
+ * @returns Filtered bitmap
+ */
+export const renderFilteredBitmap = async (
+  uri: string,
+  filters: Partial<FilterValues>,
+  maxEdge?: number
+): Promise<RGBABitmap> => {
+  const bitmap = await loadBitmap(uri, maxEdge);
+  applyFilterPipelineInPlace(bitmap, filters);
+  return bitmap;
+};
@@ -5,8 +5,8 @@ export interface FilterValues {
   contrast: number;
   saturation: number;
   warmth: number;        // Legacy name for temperature/white balance
-  shadows: number;       // Legacy name for black lift
-  highlights: number;
+  shadows: number;       // Shadow recovery (-50 to 50)
+  highlights: number;    // Highlight recovery (-50 to 50)
   sharpen: number;
   temperature: number;   // White balance (-50 to 50)
   noise: number;         // Grain/noise (0 to 50)
@@ -34,10 +34,10 @@ export const calculateBrightnessFactor = (value: number): number => {
 };
 
 /**
- * Convert slider value (-100 to 100) to contrast factor (0 to 3)
+ * Convert slider value (-100 to 100) to contrast factor (0 to 2)
  */
 export const calculateContrastFactor = (value: number): number => {
-  return (value + 100) / 66.67;
+  return 1 + value / 100;
 };
 
 /**
@@ -0,0 +1,65 @@
+// utils/highlights.ts
+
+import { ToneCurve, buildToneCurve, applyToneCurveInPlace } from './toneCurve';
+
+/**
+ * Highlights Filter
+ * Luminance-masked tone adjustment for the bright end of the image.
+ * The mask peaks at 2/3 luminance and fades to zero at pure black and
+ * pure white, so clipped whites are not dragged down to gray.
+ * -50 = recover highlights
+ * 0 = original
+ * 50 = brighten highlights
+ */
+
+// Largest shift in 0-255 channel units at the peak of the mask
+const MAX_HIGHLIGHTS_SHIFT = 64;
+
+/**
+ * Calculate how strongly a luminance is affected by the highlights slider
+ * 27/4 * L^2 * (1 - L), which peaks at 1 when L = 2/3
+ * @param luminance - Luminance from 0 to 1
+ * @returns Mask weight from 0 to 1
+ */
+export const calculateHighlightsWeight = (luminance: number): number => {
+  const l = Math.max(0, Math.min(1, luminance));
+  return 6.75 * l * l * (1 - l);
+};
+
+/**
+ * Get the tone curve for highlights
+ * @param value - Highlights value from -50 to 50
+ * @returns Tone curve lookup table
+ */
+export const getHighlightsToneCurve = (value: number): ToneCurve => {
+  const amount = (Math.max(-50, Math.min(50, value)) / 50) * MAX_HIGHLIGHTS_SHIFT;
+  return buildToneCurve(luminance => amount * calculateHighlightsWeight(luminance));
+};
+
+/**
+ * Apply highlights adjustment to RGBA pixel data
+ * @param data - Uint8ClampedArray of RGBA pixel data
+ * @param value - Highlights value from -50 to 50
+ * @returns Modified pixel data
+ */
+export const applyHighlights = (
+  data: Uint8ClampedArray,
+  value: number
+): Uint8ClampedArray => {
+  const result = new Uint8ClampedArray(data);
+  applyHighlightsInPlace(result, value);
+  return result;
+};
+
+/**
+ * Apply highlights in-place (mutates original data)
+ * @param data - Uint8ClampedArray of RGBA pixel data
+ * @param value - Highlights value from -50 to 50
+ */
+export const applyHighlightsInPlace = (
+  data: Uint8ClampedArray,
+  value: number
+): void => {
+  if (value === 0) return;
+  applyToneCurveInPlace(data, getHighlightsToneCurve(value));
+};
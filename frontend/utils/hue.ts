@@ -0,0 +1,29 @@
+// utils/hue.ts
+
+import { ColorMatrix } from './colorMatrix';
+
+/**
+ * Hue Rotation Filter
+ * Rotates colors around the gray axis by -180 to 180 degrees while keeping
+ * luminance roughly constant (same weights as the W3C hue-rotate filter)
+ * -180 / 180 = opposite hues
+ * 0 = original
+ */
+
+/**
+ * Get color matrix for hue rotation
+ * @param degrees - Rotation from -180 to 180
+ * @returns 4x5 color matrix
+ */
+export const getHueRotationColorMatrix = (degrees: number): ColorMatrix => {
+  const angle = (Math.max(-180, Math.min(180, degrees)) * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  return [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928, 0, 0,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283, 0, 0,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072, 0, 0,
+    0, 0, 0, 1, 0,
+  ];
+};
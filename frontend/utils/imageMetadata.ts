@@ -0,0 +1,346 @@
+// utils/imageMetadata.ts
+
+/**
+ * Image Metadata (EXIF)
+ * Skia drops all metadata when it encodes an image. These helpers copy the
+ * raw EXIF (TIFF) block from the source file into the encoded export.
+ *
+ * Supported containers:
+ * - JPEG: APP1 "Exif" segment
+ * - PNG: eXIf chunk
+ * - WebP: EXIF chunk (the file is upgraded to the extended VP8X format)
+ */
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const ORIENTATION_TAG = 0x0112;
+
+type ContainerFormat = 'jpeg' | 'png' | 'webp';
+
+// ============================================================
+// BYTE HELPERS
+// ============================================================
+
+const matchesAt = (bytes: Uint8Array, offset: number, expected: number[]): boolean => {
+  if (offset + expected.length > bytes.length) return false;
+  return expected.every((value, index) => bytes[offset + index] === value);
+};
+
+const fourCC = (bytes: Uint8Array, offset: number): string => {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+};
+
+const asciiBytes = (text: string): number[] => {
+  return Array.from(text, char => char.charCodeAt(0));
+};
+
+const readUint32BE = (bytes: Uint8Array, offset: number): number => {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+};
+
+const readUint32LE = (bytes: Uint8Array, offset: number): number => {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+};
+
+const writeUint32BE = (bytes: Uint8Array, offset: number, value: number): void => {
+  bytes[offset] = (value >>> 24) & 0xff;
+  bytes[offset + 1] = (value >>> 16) & 0xff;
+  bytes[offset + 2] = (value >>> 8) & 0xff;
+  bytes[offset + 3] = value & 0xff;
+};
+
+const writeUint32LE = (bytes: Uint8Array, offset: number, value: number): void => {
+  bytes[offset] = value & 0xff;
+  bytes[offset + 1] = (value >>> 8) & 0xff;
+  bytes[offset + 2] = (value >>> 16) & 0xff;
+  bytes[offset + 3] = (value >>> 24) & 0xff;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 as used by PNG chunks
+ */
+const crc32 = (bytes: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Detect the container format from the file signature
+ * @param bytes - Encoded image
+ * @returns Format, or null if unsupported
+ */
+export const detectContainerFormat = (bytes: Uint8Array): ContainerFormat | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpeg';
+  if (matchesAt(bytes, 0, PNG_SIGNATURE)) return 'png';
+  if (fourCC(bytes, 0) === 'RIFF' && fourCC(bytes, 8) === 'WEBP') return 'webp';
+  return null;
+};
+
+// ============================================================
+// EXTRACT
+// ============================================================
+
+const extractJpegExif = (bytes: Uint8Array): Uint8Array | null => {
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+
+    const marker = bytes[offset + 1];
+    // Fill byte - markers may be padded with extra 0xFF
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // Start of scan / end of image - no more metadata segments
+    if (marker === 0xda || marker === 0xd9) return null;
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (marker === 0xe1 && matchesAt(bytes, offset + 4, EXIF_HEADER)) {
+      return bytes.slice(offset + 4 + EXIF_HEADER.length, offset + 2 + length);
+    }
+
+    offset += 2 + length;
+  }
+
+  return null;
+};
+
+const extractPngExif = (bytes: Uint8Array): Uint8Array | null => {
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 8 <= bytes.length) {
+    const length = readUint32BE(bytes, offset);
+    const type = fourCC(bytes, offset + 4);
+
+    if (type === 'eXIf') {
+      return bytes.slice(offset + 8, offset + 8 + length);
+    }
+    if (type === 'IEND') return null;
+
+    offset += 12 + length;
+  }
+
+  return null;
+};
+
+const extractWebpExif = (bytes: Uint8Array): Uint8Array | null => {
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const type = fourCC(bytes, offset);
+    const length = readUint32LE(bytes, offset + 4);
+
+    if (type === 'EXIF') {
+      const payload = bytes.slice(offset + 8, offset + 8 + length);
+      // Some encoders keep the JPEG style "Exif\0\0" prefix
+      return matchesAt(payload, 0, EXIF_HEADER) ? payload.slice(EXIF_HEADER.length) : payload;
+    }
+
+    offset += 8 + length + (length % 2);
+  }
+
+  return null;
+};
+
+/**
+ * Read the EXIF block from an encoded image
+ * @param bytes - Encoded JPEG, PNG or WebP
+ * @returns Raw TIFF structure (starts with "II" or "MM"), or null if none
+ */
+export const extractExif = (bytes: Uint8Array): Uint8Array | null => {
+  switch (detectContainerFormat(bytes)) {
+    case 'jpeg':
+      return extractJpegExif(bytes);
+    case 'png':
+      return extractPngExif(bytes);
+    case 'webp':
+      return extractWebpExif(bytes);
+    default:
+      return null;
+  }
+};
+
+// ============================================================
+// ORIENTATION
+// ============================================================
+
+/**
+ * Reset the EXIF orientation tag to 1 (upright)
+ * Exported pixels are already rotated, so keeping the original orientation
+ * would make viewers rotate the image a second time.
+ * @param exif - Raw TIFF structure
+ * @returns Copy with orientation reset
+ */
+export const resetExifOrientation = (exif: Uint8Array): Uint8Array => {
+  const result = exif.slice();
+  if (result.length < 8) return result;
+
+  const littleEndian = result[0] === 0x49; // "II"
+  const readUint16 = (offset: number) =>
+    littleEndian ? result[offset] | (result[offset + 1] << 8) : (result[offset] << 8) | result[offset + 1];
+  const readUint32 = (offset: number) =>
+    littleEndian ? readUint32LE(result, offset) : readUint32BE(result, offset);
+
+  const ifdOffset = readUint32(4);
+  if (ifdOffset + 2 > result.length) return result;
+
+  const entryCount = readUint16(ifdOffset);
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (entry + 12 > result.length) break;
+
+    if (readUint16(entry) === ORIENTATION_TAG) {
+      // SHORT value stored inline in the first two bytes of the value field
+      result[entry + 8] = littleEndian ? 1 : 0;
+      result[entry + 9] = littleEndian ? 0 : 1;
+      break;
+    }
+  }
+
+  return result;
+};
+
+// ============================================================
+// INJECT
+// ============================================================
+
+const injectJpegExif = (bytes: Uint8Array, exif: Uint8Array): Uint8Array => {
+  const length = 2 + EXIF_HEADER.length + exif.length;
+  // A JPEG segment cannot hold more than 64KB
+  if (length > 0xffff) return bytes;
+
+  const segment = new Uint8Array(2 + length);
+  segment[0] = 0xff;
+  segment[1] = 0xe1;
+  segment[2] = (length >>> 8) & 0xff;
+  segment[3] = length & 0xff;
+  segment.set(EXIF_HEADER, 4);
+  segment.set(exif, 4 + EXIF_HEADER.length);
+
+  // Keep a JFIF APP0 segment first if the encoder wrote one
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+  }
+
+  return concatBytes([bytes.subarray(0, insertAt), segment, bytes.subarray(insertAt)]);
+};
+
+const injectPngExif = (bytes: Uint8Array, exif: Uint8Array): Uint8Array => {
+  // eXIf must come before the first IDAT chunk
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= bytes.length && fourCC(bytes, offset + 4) !== 'IDAT') {
+    offset += 12 + readUint32BE(bytes, offset);
+  }
+  if (offset + 8 > bytes.length) return bytes;
+
+  const chunk = new Uint8Array(12 + exif.length);
+  writeUint32BE(chunk, 0, exif.length);
+  chunk.set(asciiBytes('eXIf'), 4);
+  chunk.set(exif, 8);
+  writeUint32BE(chunk, 8 + exif.length, crc32(chunk.subarray(4, 8 + exif.length)));
+
+  return concatBytes([bytes.subarray(0, offset), chunk, bytes.subarray(offset)]);
+};
+
+const injectWebpExif = (
+  bytes: Uint8Array,
+  exif: Uint8Array,
+  width: number,
+  height: number
+): Uint8Array => {
+  const exifChunk = new Uint8Array(8 + exif.length + (exif.length % 2));
+  exifChunk.set(asciiBytes('EXIF'), 0);
+  writeUint32LE(exifChunk, 4, exif.length);
+  exifChunk.set(exif, 8);
+
+  let body: Uint8Array;
+  if (fourCC(bytes, 12) === 'VP8X') {
+    body = bytes.slice(12);
+    body[8] |= 0x08; // EXIF present
+  } else {
+    // Simple format (single VP8 / VP8L chunk) - wrap it in VP8X
+    const imageChunk = bytes.subarray(12);
+    let flags = 0x08;
+    // VP8L stores an "alpha is used" bit right after the 14-bit dimensions
+    if (fourCC(imageChunk, 0) === 'VP8L' && (readUint32LE(imageChunk, 9) >>> 28) & 1) {
+      flags |= 0x10;
+    }
+
+    const vp8x = new Uint8Array(18);
+    vp8x.set(asciiBytes('VP8X'), 0);
+    writeUint32LE(vp8x, 4, 10);
+    vp8x[8] = flags;
+    // Canvas size minus one, 24-bit little endian
+    vp8x[12] = (width - 1) & 0xff;
+    vp8x[13] = ((width - 1) >>> 8) & 0xff;
+    vp8x[14] = ((width - 1) >>> 16) & 0xff;
+    vp8x[15] = (height - 1) & 0xff;
+    vp8x[16] = ((height - 1) >>> 8) & 0xff;
+    vp8x[17] = ((height - 1) >>> 16) & 0xff;
+
+    body = concatBytes([vp8x, imageChunk]);
+  }
+
+  const header = new Uint8Array(12);
+  header.set(asciiBytes('RIFF'), 0);
+  writeUint32LE(header, 4, 4 + body.length + exifChunk.length);
+  header.set(asciiBytes('WEBP'), 8);
+
+  return concatBytes([header, body, exifChunk]);
+};
+
+/**
+ * Write an EXIF block into an encoded image
+ * @param bytes - Encoded JPEG, PNG or WebP (without metadata)
+ * @param exif - Raw TIFF structure from extractExif
+ * @param width - Image width (needed to upgrade simple WebP files)
+ * @param height - Image height
+ * @returns Encoded image with metadata, or the input if it cannot hold it
+ */
+export const injectExif = (
+  bytes: Uint8Array,
+  exif: Uint8Array,
+  width: number,
+  height: number
+): Uint8Array => {
+  switch (detectContainerFormat(bytes)) {
+    case 'jpeg':
+      return injectJpegExif(bytes, exif);
+    case 'png':
+      return injectPngExif(bytes, exif);
+    case 'webp':
+      return injectWebpExif(bytes, exif, width, height);
+    default:
+      return bytes;
+  }
+};
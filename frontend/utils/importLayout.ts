@@ -0,0 +1,187 @@
+// utils/importLayout.ts
+
+/**
+ * Import Layout
+ * Where imported images go on the canvas. Image layers are already fitted
+ * inside the canvas (see utils/layerGeometry), so "Fit" keeps every image
+ * centered at that size; "Grid" gives each image an equal cell, and
+ * "Collage" packs them into rows of equal height that keep each image's
+ * aspect ratio. Placements use the same position/scale as layer edits.
+ */
+
+import { getLayerBaseSize } from './layerGeometry';
+
+export type ImportLayout = 'fit' | 'grid' | 'collage';
+
+export interface ImportPlacement {
+  position: { x: number; y: number };
+  scale: number;
+}
+
+export const IMPORT_LAYOUTS: Record<ImportLayout, { label: string; description: string }> = {
+  fit: { label: 'Fit', description: 'Each image fitted to the canvas, stacked' },
+  grid: { label: 'Grid', description: 'Equal cells in rows and columns' },
+  collage: { label: 'Collage', description: 'Rows of equal height, no cropping' },
+};
+
+// Space between images, as a fraction of the canvas' shorter edge
+const GAP_RATIO = 0.02;
+
+type Size = { width: number; height: number };
+
+// Scale and offset that put an image, as the canvas fits it, into a rect
+const placeInRect = (
+  size: Size,
+  canvasWidth: number,
+  canvasHeight: number,
+  rect: { x: number; y: number; width: number; height: number }
+): ImportPlacement => {
+  const base = getLayerBaseSize({
+    dimensions: size,
+    position: { x: 0, y: 0 },
+    transformations: { rotation: 0, scaleX: 1, scaleY: 1 },
+  }, canvasWidth, canvasHeight);
+
+  return {
+    position: {
+      x: rect.x + rect.width / 2 - canvasWidth / 2,
+      y: rect.y + rect.height / 2 - canvasHeight / 2,
+    },
+    scale: Math.min(rect.width / base.width, rect.height / base.height),
+  };
+};
+
+const getGridPlacements = (sizes: Size[], canvasWidth: number, canvasHeight: number): ImportPlacement[] => {
+  const gap = Math.min(canvasWidth, canvasHeight) * GAP_RATIO;
+
+  // Columns so the cells come out closest to square on this canvas
+  const columns = Math.max(1, Math.round(Math.sqrt((sizes.length * canvasWidth) / canvasHeight)));
+  const rows = Math.ceil(sizes.length / columns);
+  const cellWidth = (canvasWidth - gap * (columns + 1)) / columns;
+  const cellHeight = (canvasHeight - gap * (rows + 1)) / rows;
+
+  return sizes.map((size, index) => {
+    const row = Math.floor(index / columns);
+    const column = index % columns;
+
+    // Center a short last row
+    const inRow = Math.min(columns, sizes.length - row * columns);
+    const rowOffset = ((columns - inRow) * (cellWidth + gap)) / 2;
+
+    return placeInRect(size, canvasWidth, canvasHeight, {
+      x: gap + rowOffset + column * (cellWidth + gap),
+      y: gap + row * (cellHeight + gap),
+      width: cellWidth,
+      height: cellHeight,
+    });
+  });
+};
+
+// Split images (by aspect ratio) into rows of about equal total width
+const splitIntoRows = (aspects: number[], rowCount: number): number[][] => {
+  const target = aspects.reduce((sum, aspect) => sum + aspect, 0) / rowCount;
+  const rows: number[][] = [[]];
+  let rowAspect = 0;
+
+  aspects.forEach((aspect, index) => {
+    const remainingImages = aspects.length - index;
+    const remainingRows = rowCount - rows.length;
+    const current = rows[rows.length - 1];
+
+    // Start a new row when this one is full enough, but keep at least one
+    // image for every row still to come
+    if (
+      current.length > 0 &&
+      remainingRows > 0 &&
+      (rowAspect + aspect / 2 > target || remainingImages <= remainingRows)
+    ) {
+      rows.push([]);
+      rowAspect = 0;
+    }
+
+    rows[rows.length - 1].push(index);
+    rowAspect += aspect;
+  });
+
+  return rows;
+};
+
+const getCollagePlacements = (sizes: Size[], canvasWidth: number, canvasHeight: number): ImportPlacement[] => {
+  const gap = Math.min(canvasWidth, canvasHeight) * GAP_RATIO;
+  const aspects = sizes.map(size => (size.width > 0 && size.height > 0 ? size.width / size.height : 1));
+
+  // Try every row count and keep the one that covers the most canvas
+  let best: { rows: number[][]; scale: number; coverage: number } | null = null;
+
+  for (let rowCount = 1; rowCount <= sizes.length; rowCount++) {
+    const rows = splitIntoRows(aspects, rowCount);
+
+    // Full width rows: height = available width / total aspect of the row
+    const widths = rows.map(row => canvasWidth - gap * (row.length + 1));
+    const heights = rows.map((row, rowIndex) => {
+      const aspectSum = row.reduce((sum, index) => sum + aspects[index], 0);
+      return widths[rowIndex] / aspectSum;
+    });
+    const totalHeight = heights.reduce((sum, height) => sum + height, 0) + gap * (rows.length + 1);
+    const scale = Math.min(1, canvasHeight / totalHeight);
+    const area = heights.reduce((sum, height, rowIndex) => sum + height * widths[rowIndex], 0);
+    const coverage = area * scale * scale;
+
+    if (!best || coverage > best.coverage) {
+      best = { rows, scale, coverage };
+    }
+  }
+
+  const { rows, scale } = best!;
+  const placements: ImportPlacement[] = [];
+
+  const rowHeights = rows.map(row => {
+    const aspectSum = row.reduce((sum, index) => sum + aspects[index], 0);
+    return ((canvasWidth - gap * (row.length + 1)) / aspectSum) * scale;
+  });
+  const layoutHeight = rowHeights.reduce((sum, height) => sum + height, 0) + gap * (rows.length + 1);
+  let y = (canvasHeight - layoutHeight) / 2 + gap;
+
+  rows.forEach((row, rowIndex) => {
+    const height = rowHeights[rowIndex];
+    const rowWidth = row.reduce((sum, index) => sum + aspects[index] * height, 0) + gap * (row.length - 1);
+    let x = (canvasWidth - rowWidth) / 2;
+
+    row.forEach(index => {
+      const width = aspects[index] * height;
+      placements[index] = placeInRect(sizes[index], canvasWidth, canvasHeight, { x, y, width, height });
+      x += width + gap;
+    });
+
+    y += height + gap;
+  });
+
+  return placements;
+};
+
+/**
+ * Get where each imported image goes on the canvas
+ * @param sizes - Image sizes in pixels, in import order
+ * @param canvasWidth - Canvas width
+ * @param canvasHeight - Canvas height
+ * @param layout - 'fit', 'grid' or 'collage'
+ * @returns Position (offset from the canvas center) and uniform scale per image
+ */
+export const getImportPlacements = (
+  sizes: Size[],
+  canvasWidth: number,
+  canvasHeight: number,
+  layout: ImportLayout
+): ImportPlacement[] => {
+  if (sizes.length === 0) return [];
+
+  if (layout === 'grid' && sizes.length > 1) {
+    return getGridPlacements(sizes, canvasWidth, canvasHeight);
+  }
+
+  if (layout === 'collage' && sizes.length > 1) {
+    return getCollagePlacements(sizes, canvasWidth, canvasHeight);
+  }
+
+  return sizes.map(() => ({ position: { x: 0, y: 0 }, scale: 1 }));
+};
@@ -0,0 +1,221 @@
+// utils/layerGeometry.ts
+
+/**
+ * Layer Geometry
+ * Where a layer sits on the canvas, for on-canvas selection, handles and
+ * smart guides. Mirrors how utils/compositor places layers: image layers
+ * are fitted inside the canvas, text layers keep their laid out size, and
+ * both are centered, moved by position, then scaled and rotated around
+ * their own center. All values are in canvas pixels.
+ */
+
+import { LayerText } from '../services/apiTypes';
+
+export interface PlaceableLayer {
+  dimensions?: { width: number; height: number };
+  text?: LayerText;
+  position: { x: number; y: number };
+  transformations: { rotation: number; scaleX: number; scaleY: number };
+}
+
+export interface LayerBox {
+  cx: number; // Center
+  cy: number;
+  width: number; // Scaled size, before rotation
+  height: number;
+  rotation: number; // Degrees, clockwise
+}
+
+export interface BoxBounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export interface SnapGuide {
+  axis: 'x' | 'y'; // x: vertical line at value, y: horizontal line at value
+  value: number;
+}
+
+export interface SnapTargets {
+  x: number[];
+  y: number[];
+}
+
+/**
+ * Get a layer's size on the canvas before its own scale
+ * @param layer - Layer
+ * @param canvasWidth - Canvas width
+ * @param canvasHeight - Canvas height
+ * @returns Size in canvas pixels
+ */
+export const getLayerBaseSize = (
+  layer: PlaceableLayer,
+  canvasWidth: number,
+  canvasHeight: number
+): { width: number; height: number } => {
+  const width = layer.dimensions?.width || canvasWidth;
+  const height = layer.dimensions?.height || canvasHeight;
+
+  // Text is drawn at its own size, images are fitted like resizeMode="contain"
+  if (layer.text) {
+    return { width, height };
+  }
+
+  const scale = Math.min(canvasWidth / width, canvasHeight / height);
+  return { width: width * scale, height: height * scale };
+};
+
+/**
+ * Get the box a layer occupies on the canvas
+ * @param layer - Layer
+ * @param canvasWidth - Canvas width
+ * @param canvasHeight - Canvas height
+ * @returns Center, scaled size and rotation
+ */
+export const getLayerBox = (layer: PlaceableLayer, canvasWidth: number, canvasHeight: number): LayerBox => {
+  const base = getLayerBaseSize(layer, canvasWidth, canvasHeight);
+  return {
+    cx: canvasWidth / 2 + layer.position.x,
+    cy: canvasHeight / 2 + layer.position.y,
+    width: base.width * Math.abs(layer.transformations.scaleX),
+    height: base.height * Math.abs(layer.transformations.scaleY),
+    rotation: layer.transformations.rotation,
+  };
+};
+
+/**
+ * Get the corners of a box, clockwise from top-left
+ * @param box - Layer box
+ * @returns Corner points in canvas pixels
+ */
+export const getBoxCorners = (box: LayerBox): { x: number; y: number }[] => {
+  const radians = (box.rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const halfWidth = box.width / 2;
+  const halfHeight = box.height / 2;
+
+  return [
+    [-halfWidth, -halfHeight],
+    [halfWidth, -halfHeight],
+    [halfWidth, halfHeight],
+    [-halfWidth, halfHeight],
+  ].map(([x, y]) => ({
+    x: box.cx + x * cos - y * sin,
+    y: box.cy + x * sin + y * cos,
+  }));
+};
+
+/**
+ * Get the axis-aligned bounds of a (possibly rotated) box
+ * @param box - Layer box
+ * @returns Bounds in canvas pixels
+ */
+export const getBoxBounds = (box: LayerBox): BoxBounds => {
+  const corners = getBoxCorners(box);
+  const xs = corners.map(c => c.x);
+  const ys = corners.map(c => c.y);
+  return {
+    left: Math.min(...xs),
+    top: Math.min(...ys),
+    right: Math.max(...xs),
+    bottom: Math.max(...ys),
+  };
+};
+
+/**
+ * Convert a canvas point into the box's own (unrotated) coordinates
+ * @param box - Layer box
+ * @param x - Canvas x
+ * @param y - Canvas y
+ * @returns Point relative to the box center, along the box axes
+ */
+export const toBoxSpace = (box: LayerBox, x: number, y: number): { x: number; y: number } => {
+  const radians = (-box.rotation * Math.PI) / 180;
+  const dx = x - box.cx;
+  const dy = y - box.cy;
+  return {
+    x: dx * Math.cos(radians) - dy * Math.sin(radians),
+    y: dx * Math.sin(radians) + dy * Math.cos(radians),
+  };
+};
+
+/**
+ * Check whether a canvas point is inside a box
+ * @param box - Layer box
+ * @param x - Canvas x
+ * @param y - Canvas y
+ * @returns true if the point is inside
+ */
+export const isPointInBox = (box: LayerBox, x: number, y: number): boolean => {
+  const local = toBoxSpace(box, x, y);
+  return Math.abs(local.x) <= box.width / 2 && Math.abs(local.y) <= box.height / 2;
+};
+
+/**
+ * Collect the lines a moving layer snaps to: the canvas edges and center,
+ * and the edges and centers of other layers
+ * @param canvasWidth - Canvas width
+ * @param canvasHeight - Canvas height
+ * @param otherBoxes - Boxes of the other visible layers
+ * @returns Vertical (x) and horizontal (y) snap lines
+ */
+export const getSnapTargets = (
+  canvasWidth: number,
+  canvasHeight: number,
+  otherBoxes: LayerBox[]
+): SnapTargets => {
+  const targets: SnapTargets = {
+    x: [0, canvasWidth / 2, canvasWidth],
+    y: [0, canvasHeight / 2, canvasHeight],
+  };
+
+  otherBoxes.forEach(box => {
+    const bounds = getBoxBounds(box);
+    targets.x.push(bounds.left, box.cx, bounds.right);
+    targets.y.push(bounds.top, box.cy, bounds.bottom);
+  });
+
+  return targets;
+};
+
+// Closest snap of any of the box's lines to any target, within threshold
+const snapAxis = (lines: number[], targets: number[], threshold: number) => {
+  let best: { offset: number; value: number } | null = null;
+
+  lines.forEach(line => {
+    targets.forEach(target => {
+      const offset = target - line;
+      if (Math.abs(offset) <= threshold && (!best || Math.abs(offset) < Math.abs(best.offset))) {
+        best = { offset, value: target };
+      }
+    });
+  });
+
+  return best as { offset: number; value: number } | null;
+};
+
+/**
+ * Snap a box's edges or center to the nearest target lines
+ * @param box - Box being moved
+ * @param targets - Snap lines from getSnapTargets
+ * @param threshold - Snap distance in canvas pixels
+ * @returns Offset to add to the box center, and the guides to show
+ */
+export const snapBox = (
+  box: LayerBox,
+  targets: SnapTargets,
+  threshold: number
+): { dx: number; dy: number; guides: SnapGuide[] } => {
+  const bounds = getBoxBounds(box);
+  const snapX = snapAxis([bounds.left, box.cx, bounds.right], targets.x, threshold);
+  const snapY = snapAxis([bounds.top, box.cy, bounds.bottom], targets.y, threshold);
+
+  const guides: SnapGuide[] = [];
+  if (snapX) guides.push({ axis: 'x', value: snapX.value });
+  if (snapY) guides.push({ axis: 'y', value: snapY.value });
+
+  return { dx: snapX?.offset ?? 0, dy: snapY?.offset ?? 0, guides };
+};
@@ -0,0 +1,325 @@
+// utils/layerGroups.ts
+
+/**
+ * Layer Groups
+ * A group is a layer of type 'group' that other layers point to through
+ * `parent`. Groups nest, and hide, lock and move everything inside them.
+ * `order` stays one bottom-to-top sequence over the whole project, with
+ * each group right before its contents, so code that only needs the
+ * stacking order can keep sorting by order.
+ */
+
+import { LayerParents } from '../services/apiTypes';
+
+export interface GroupableLayer {
+  id: string;
+  order: number;
+  visible: boolean;
+  locked?: boolean;
+  locks?: { position?: boolean; pixels?: boolean };
+  parent?: string | null;
+  isGroupLayer?: boolean;
+}
+
+export interface LayerTreeRow<T> {
+  layer: T;
+  depth: number; // 0 at the top level
+}
+
+// Child IDs of each group (null for the top level), bottom first
+type LayerTree = Map<string | null, string[]>;
+
+/**
+ * Get the group a layer is nested in
+ * A parent that no longer exists counts as the top level.
+ * @param layers - All layers of the project
+ * @param layer - Layer to look up
+ * @returns Parent group, or null at the top level
+ */
+export const getParentGroup = <T extends GroupableLayer>(layers: T[], layer: GroupableLayer): T | null => {
+  if (!layer.parent) return null;
+  return layers.find(l => l.id === layer.parent && l.isGroupLayer) || null;
+};
+
+/**
+ * Get the groups a layer is nested in
+ * @param layers - All layers of the project
+ * @param layer - Layer to look up
+ * @returns Groups from the nearest outwards
+ */
+export const getLayerAncestors = <T extends GroupableLayer>(layers: T[], layer: GroupableLayer): T[] => {
+  const ancestors: T[] = [];
+  let parent = getParentGroup(layers, layer);
+
+  // Stop at a cycle rather than loop forever on bad data
+  while (parent && !ancestors.includes(parent)) {
+    ancestors.push(parent);
+    parent = getParentGroup(layers, parent);
+  }
+
+  return ancestors;
+};
+
+/**
+ * Check whether a layer is shown: it and every group around it are visible
+ * @param layers - All layers of the project
+ * @param layer - Layer to check
+ * @returns true if the layer is shown
+ */
+export const isLayerVisible = (layers: GroupableLayer[], layer: GroupableLayer): boolean => {
+  return layer.visible && getLayerAncestors(layers, layer).every(group => group.visible);
+};
+
+/**
+ * Get the layers that are shown, leaving out everything in hidden groups
+ * @param layers - All layers of the project
+ * @returns Shown layers, in the given order
+ */
+export const getVisibleLayers = <T extends GroupableLayer>(layers: T[]): T[] => {
+  return layers.filter(layer => isLayerVisible(layers, layer));
+};
+
+/**
+ * Get the layers directly inside a group
+ * @param layers - All layers of the project
+ * @param groupId - Group ID, or null for the top level
+ * @returns Child layers, bottom first
+ */
+export const getChildLayers = <T extends GroupableLayer>(layers: T[], groupId: string | null): T[] => {
+  return layers
+    .filter(layer => (getParentGroup(layers, layer)?.id ?? null) === groupId)
+    .sort((a, b) => a.order - b.order);
+};
+
+/**
+ * Get every layer inside a group, at any depth
+ * @param layers - All layers of the project
+ * @param groupId - Group ID
+ * @returns Nested layers, including nested groups
+ */
+export const getGroupDescendants = <T extends GroupableLayer>(layers: T[], groupId: string): T[] => {
+  return layers.filter(layer => getLayerAncestors(layers, layer).some(group => group.id === groupId));
+};
+
+/**
+ * Flatten the layer tree into rows for a layer list
+ * @param layers - All layers of the project
+ * @param collapsedGroupIds - Groups whose contents are hidden from the list
+ * @returns Rows from the topmost layer down, with their nesting depth
+ */
+export const flattenLayerTree = <T extends GroupableLayer>(
+  layers: T[],
+  collapsedGroupIds: string[]
+): LayerTreeRow<T>[] => {
+  const rows: LayerTreeRow<T>[] = [];
+
+  const addRows = (groupId: string | null, depth: number) => {
+    getChildLayers(layers, groupId).reverse().forEach(layer => {
+      rows.push({ layer, depth });
+      if (layer.isGroupLayer && !collapsedGroupIds.includes(layer.id)) {
+        addRows(layer.id, depth + 1);
+      }
+    });
+  };
+
+  addRows(null, 0);
+  return rows;
+};
+
+const buildTree = (layers: GroupableLayer[]): LayerTree => {
+  const tree: LayerTree = new Map([[null, []]]);
+  layers.forEach(layer => {
+    if (layer.isGroupLayer) tree.set(layer.id, []);
+  });
+
+  [...layers].sort((a, b) => a.order - b.order).forEach(layer => {
+    tree.get(getParentGroup(layers, layer)?.id ?? null)!.push(layer.id);
+  });
+
+  return tree;
+};
+
+// Renumber the layers depth first (each group before its contents) and
+// store their groups
+const applyTree = <T extends GroupableLayer>(layers: T[], tree: LayerTree): T[] => {
+  const placement = new Map<string, { order: number; parent: string | null }>();
+
+  const visit = (groupId: string | null) => {
+    (tree.get(groupId) ?? []).forEach(id => {
+      placement.set(id, { order: placement.size, parent: groupId });
+      if (tree.has(id)) visit(id);
+    });
+  };
+
+  visit(null);
+
+  // Layers caught in a parent cycle (bad data) are put back at the top
+  layers.forEach(layer => {
+    if (!placement.has(layer.id)) {
+      placement.set(layer.id, { order: placement.size, parent: null });
+    }
+  });
+
+  return layers.map(layer => ({ ...layer, ...placement.get(layer.id)! }));
+};
+
+/**
+ * Get the reorder request for the layers as they are stacked now
+ * @param layers - All layers of the project
+ * @returns Layer IDs bottom first, and the group of every layer
+ */
+export const getStackOrder = (layers: GroupableLayer[]): { layerIds: string[]; parents: LayerParents } => {
+  const sorted = [...layers].sort((a, b) => a.order - b.order);
+  const parents: LayerParents = {};
+  sorted.forEach(layer => {
+    parents[layer.id] = getParentGroup(layers, layer)?.id ?? null;
+  });
+
+  return { layerIds: sorted.map(layer => layer.id), parents };
+};
+
+/**
+ * Move a layer one step up or down the stack
+ * Moving onto a group enters it, and moving past the end of a group
+ * leaves it, so layers can be moved into and out of groups step by step.
+ * @param layers - All layers of the project
+ * @param layerId - Layer (or group) to move
+ * @param direction - 'up' (towards the top) or 'down'
+ * @returns Restacked layers, or null if the layer cannot move further
+ */
+export const moveLayerInStack = <T extends GroupableLayer>(
+  layers: T[],
+  layerId: string,
+  direction: 'up' | 'down'
+): T[] | null => {
+  const layer = layers.find(l => l.id === layerId);
+  if (!layer) return null;
+
+  const tree = buildTree(layers);
+  const parent = getParentGroup(layers, layer);
+  const siblings = tree.get(parent?.id ?? null)!;
+  const index = siblings.indexOf(layerId);
+  const neighbourId = siblings[direction === 'up' ? index + 1 : index - 1];
+
+  if (neighbourId) {
+    siblings.splice(index, 1);
+
+    const neighbour = layers.find(l => l.id === neighbourId)!;
+    if (neighbour.isGroupLayer) {
+      // Enter the group at the end nearest to where the layer was
+      const children = tree.get(neighbour.id)!;
+      if (direction === 'up') {
+        children.unshift(layerId);
+      } else {
+        children.push(layerId);
+      }
+    } else {
+      siblings.splice(direction === 'up' ? index + 1 : index - 1, 0, layerId);
+    }
+  } else if (parent) {
+    // Leave the group, just above or below it
+    siblings.splice(index, 1);
+    const outer = tree.get(getParentGroup(layers, parent)?.id ?? null)!;
+    const groupIndex = outer.indexOf(parent.id);
+    outer.splice(direction === 'up' ? groupIndex + 1 : groupIndex, 0, layerId);
+  } else {
+    return null;
+  }
+
+  return applyTree(layers, tree);
+};
+
+/**
+ * Add a new layer right below or above another one, in the same group
+ * @param layers - All layers of the project
+ * @param layer - The new layer
+ * @param referenceId - Layer to place it next to
+ * @param position - 'below' or 'above' the reference layer
+ * @returns Restacked layers, including the new one
+ */
+export const insertLayerInStack = <T extends GroupableLayer>(
+  layers: T[],
+  layer: T,
+  referenceId: string,
+  position: 'below' | 'above'
+): T[] => {
+  const reference = layers.find(l => l.id === referenceId);
+  const tree = buildTree(layers);
+  const siblings = tree.get(reference ? getParentGroup(layers, reference)?.id ?? null : null)!;
+  const index = reference ? siblings.indexOf(referenceId) : siblings.length - 1;
+  siblings.splice(position === 'above' ? index + 1 : index, 0, layer.id);
+  if (layer.isGroupLayer) tree.set(layer.id, []);
+
+  return applyTree([...layers, layer], tree);
+};
+
+/**
+ * Put a layer into a new group that takes its place in the stack
+ * @param layers - All layers of the project
+ * @param layerId - Layer (or group) to put in the group
+ * @param group - The new group layer
+ * @returns Restacked layers, including the group
+ */
+export const groupLayerInStack = <T extends GroupableLayer>(layers: T[], layerId: string, group: T): T[] => {
+  const layer = layers.find(l => l.id === layerId);
+  if (!layer) return [...layers, group];
+
+  const tree = buildTree(layers);
+  const siblings = tree.get(getParentGroup(layers, layer)?.id ?? null)!;
+  siblings.splice(siblings.indexOf(layerId), 1, group.id);
+  tree.set(group.id, [layerId]);
+
+  return applyTree([...layers, group], tree);
+};
+
+/**
+ * Remove a group, putting its contents where the group was
+ * @param layers - All layers of the project
+ * @param groupId - Group to dissolve
+ * @returns Restacked layers, without the group
+ */
+export const ungroupInStack = <T extends GroupableLayer>(layers: T[], groupId: string): T[] => {
+  const group = layers.find(l => l.id === groupId);
+  if (!group) return layers;
+
+  const tree = buildTree(layers);
+  const siblings = tree.get(getParentGroup(layers, group)?.id ?? null)!;
+  siblings.splice(siblings.indexOf(groupId), 1, ...(tree.get(groupId) ?? []));
+  tree.delete(groupId);
+
+  return applyTree(layers.filter(l => l.id !== groupId), tree);
+};
+
+/**
+ * Put the layers back into a stacking order saved earlier
+ * Layers the saved order doesn't know about stay on top, in their current
+ * order, and a saved group that no longer exists counts as the top level.
+ * @param layers - All layers of the project
+ * @param stack - Saved order, as returned by getStackOrder
+ * @returns Restacked layers
+ */
+export const applyStackOrder = <T extends GroupableLayer>(
+  layers: T[],
+  stack: { layerIds: string[]; parents: LayerParents }
+): T[] => {
+  const ids = new Set(layers.map(layer => layer.id));
+  const savedIndex = new Map(stack.layerIds.filter(id => ids.has(id)).map((id, index) => [id, index]));
+  const newer = [...layers]
+    .sort((a, b) => a.order - b.order)
+    .filter(layer => !savedIndex.has(layer.id));
+
+  const placed = layers.map(layer => {
+    if (!savedIndex.has(layer.id)) {
+      return { ...layer, order: savedIndex.size + newer.indexOf(layer) };
+    }
+
+    const parent = stack.parents[layer.id] ?? null;
+    return {
+      ...layer,
+      order: savedIndex.get(layer.id)!,
+      parent: parent && ids.has(parent) ? parent : null,
+    };
+  });
+
+  return applyTree(placed, buildTree(placed));
+};
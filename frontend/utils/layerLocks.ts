@@ -0,0 +1,96 @@
+// utils/layerLocks.ts
+
+/**
+ * Layer Locks
+ * A layer can have its position locked (no moving, scaling or rotating),
+ * its pixels locked (no changes to its image, mask, text or adjustments),
+ * or be locked entirely (`locked`), which only leaves visibility and the
+ * locks themselves. A group's locks apply to everything inside it. The
+ * backend enforces the same rules (see layerController on the backend).
+ */
+
+import { LayerUpdate } from '../services/apiTypes';
+import { GroupableLayer, getLayerAncestors } from './layerGroups';
+
+export type LayerLock = 'all' | 'position' | 'pixels';
+
+// Locks in effect for a layer, its own and its groups'
+export interface LayerLockState {
+  all: boolean;
+  position: boolean;
+  pixels: boolean;
+}
+
+export const LAYER_LOCKS: Record<LayerLock, { label: string; description: string }> = {
+  position: { label: 'Position', description: 'Cannot be moved, scaled or rotated' },
+  pixels: { label: 'Pixels', description: 'Image, mask, text and adjustments cannot change' },
+  all: { label: 'All', description: 'Only visibility can change' },
+};
+
+// Properties each lock protects. Locking all protects everything else too.
+const POSITION_FIELDS = ['position', 'transformations'];
+const PIXEL_FIELDS = ['adjustments', 'text', 'dimensions', 'maskUrl', 'maskPublicId'];
+const ALWAYS_EDITABLE_FIELDS = ['visible', 'locked', 'locks'];
+
+/**
+ * Get the locks in effect for a layer
+ * @param layers - All layers of the project
+ * @param layer - Layer to check
+ * @returns Whether everything, its position and its pixels are locked
+ */
+export const getLayerLockState = (layers: GroupableLayer[], layer: GroupableLayer): LayerLockState => {
+  const lockers = [layer, ...getLayerAncestors(layers, layer)];
+  const all = lockers.some(l => l.locked);
+  return {
+    all,
+    position: all || lockers.some(l => l.locks?.position),
+    pixels: all || lockers.some(l => l.locks?.pixels),
+  };
+};
+
+/**
+ * Find the lock that keeps an edit from being made
+ * @param state - Locks in effect for the layer
+ * @param changes - Properties the edit changes
+ * @returns The blocking lock, or null if the edit is allowed
+ */
+export const getBlockingLock = (state: LayerLockState, changes: LayerUpdate): LayerLock | null => {
+  const fields = Object.keys(changes);
+  if (state.all && fields.some(field => !ALWAYS_EDITABLE_FIELDS.includes(field))) return 'all';
+  if (state.position && fields.some(field => POSITION_FIELDS.includes(field))) return 'position';
+  if (state.pixels && fields.some(field => PIXEL_FIELDS.includes(field))) return 'pixels';
+  return null;
+};
+
+/**
+ * Explain why a locked layer cannot be changed
+ * @param layerName - Name of the layer
+ * @param lock - The blocking lock
+ * @returns Message for an alert
+ */
+export const getLayerLockMessage = (layerName: string, lock: LayerLock): string => {
+  if (lock === 'all') {
+    return `"${layerName}" is locked. Unlock it first.`;
+  }
+  return `"${layerName}" has its ${lock} locked. ${LAYER_LOCKS[lock].description} until you unlock it.`;
+};
+
+/**
+ * Find a layer that locking keeps from moving between groups: a layer
+ * locked entirely stays in its group, and a locked group keeps its contents
+ * @param before - Layers before the change
+ * @param after - Layers after the change
+ * @returns The locked layer or group, or null if the change is allowed
+ */
+export const findRegroupLock = <T extends GroupableLayer>(before: T[], after: GroupableLayer[]): T | null => {
+  for (const layer of after) {
+    const previous = before.find(l => l.id === layer.id);
+    if (!previous || (previous.parent ?? null) === (layer.parent ?? null)) continue;
+
+    if (getLayerLockState(before, previous).all) return previous;
+
+    const newParent = before.find(l => l.id === layer.parent);
+    if (newParent && getLayerLockState(before, newParent).all) return newParent;
+  }
+  return null;
+};
@@ -0,0 +1,249 @@
+// utils/layerMask.ts
+
+/**
+ * Layer Masks
+ * A layer mask is a grayscale PNG stretched over the layer image: white
+ * shows the layer, black hides it and grays are partly transparent (see
+ * drawComposite). The mask editor builds a mask from an optional base image
+ * (the previous mask, or one made from background removal) plus brush
+ * strokes, then feathers and optionally inverts the result.
+ *
+ * Stroke points are stored in 0-1 image coordinates and sizes relative to
+ * the mask's longest edge, so the on-screen preview and the saved mask
+ * (at image resolution) come out the same.
+ */
+
+import {
+  Skia,
+  SkCanvas,
+  SkImage,
+  SkRect,
+  BlendMode,
+  ClipOp,
+  FilterMode,
+  ImageFormat,
+  MipmapMode,
+  PaintStyle,
+  StrokeCap,
+  StrokeJoin,
+  TileMode,
+} from '@shopify/react-native-skia';
+import { File, Paths } from 'expo-file-system';
+import { fitWithinEdge } from './bitmap';
+
+// Longest edge of a saved mask; masks are smooth so this is plenty
+export const MAX_MASK_EDGE = 2048;
+
+export type MaskBrushMode = 'reveal' | 'hide';
+
+export interface MaskStroke {
+  mode: MaskBrushMode; // reveal paints white, hide paints black
+  size: number; // Brush diameter, 1-200 per 1000 px of the longest edge
+  points: { x: number; y: number }[]; // 0-1 image coordinates
+}
+
+export interface MaskOptions {
+  feather: number; // Blur radius, 0-50 per 1000 px of the longest edge
+  invert: boolean;
+}
+
+// Color matrix that turns a cut-out's alpha into gray on opaque black
+const ALPHA_TO_GRAY_MATRIX = [
+  0, 0, 0, 1, 0,
+  0, 0, 0, 1, 0,
+  0, 0, 0, 1, 0,
+  0, 0, 0, 0, 1,
+];
+
+const INVERT_MATRIX = [
+  -1, 0, 0, 0, 1,
+  0, -1, 0, 0, 1,
+  0, 0, -1, 0, 1,
+  0, 0, 0, 1, 0,
+];
+
+/**
+ * Draw the mask stretched over a rectangle
+ * @param canvas - Skia canvas
+ * @param rect - Where the layer image is drawn
+ * @param base - Starting mask (null for fully visible)
+ * @param strokes - Brush strokes, oldest first
+ * @param options - Feather and invert
+ */
+export const drawMask = (
+  canvas: SkCanvas,
+  rect: SkRect,
+  base: SkImage | null,
+  strokes: MaskStroke[],
+  options: MaskOptions
+): void => {
+  const unit = Math.max(rect.width, rect.height) / 1000;
+
+  const layerPaint = Skia.Paint();
+  if (options.feather > 0) {
+    layerPaint.setImageFilter(
+      Skia.ImageFilter.MakeBlur(options.feather * unit, options.feather * unit, TileMode.Clamp, null)
+    );
+  }
+  if (options.invert) {
+    layerPaint.setColorFilter(Skia.ColorFilter.MakeMatrix(INVERT_MATRIX));
+  }
+
+  canvas.save();
+  canvas.clipRect(rect, ClipOp.Intersect, true);
+  canvas.saveLayer(layerPaint, rect);
+
+  const white = Skia.Paint();
+  white.setColor(Skia.Color('white'));
+  canvas.drawRect(rect, white);
+
+  if (base) {
+    canvas.drawImageRectOptions(
+      base,
+      Skia.XYWHRect(0, 0, base.width(), base.height()),
+      rect,
+      FilterMode.Linear,
+      MipmapMode.None
+    );
+  }
+
+  strokes.forEach(stroke => {
+    if (stroke.points.length === 0) return;
+
+    const paint = Skia.Paint();
+    paint.setAntiAlias(true);
+    paint.setColor(Skia.Color(stroke.mode === 'reveal' ? 'white' : 'black'));
+    paint.setStyle(PaintStyle.Stroke);
+    paint.setStrokeWidth(Math.max(1, stroke.size * unit));
+    paint.setStrokeCap(StrokeCap.Round);
+    paint.setStrokeJoin(StrokeJoin.Round);
+
+    const path = Skia.Path.Make();
+    stroke.points.forEach((point, index) => {
+      const x = rect.x + point.x * rect.width;
+      const y = rect.y + point.y * rect.height;
+      if (index === 0) {
+        path.moveTo(x, y);
+        // A tap still leaves a round dot
+        path.lineTo(x + 0.01, y);
+      } else {
+        path.lineTo(x, y);
+      }
+    });
+    canvas.drawPath(path, paint);
+  });
+
+  canvas.restore();
+  canvas.restore();
+};
+
+/**
+ * Draw a translucent color over the parts of a layer the mask hides
+ * Used as the mask editor preview, on top of the layer image.
+ * @param canvas - Skia canvas
+ * @param rect - Where the layer image is drawn
+ * @param base - Starting mask (null for fully visible)
+ * @param strokes - Brush strokes, oldest first
+ * @param options - Feather and invert
+ * @param color - Overlay color, e.g. 'rgba(255, 0, 0, 0.5)'
+ */
+export const drawMaskOverlay = (
+  canvas: SkCanvas,
+  rect: SkRect,
+  base: SkImage | null,
+  strokes: MaskStroke[],
+  options: MaskOptions,
+  color: string
+): void => {
+  canvas.saveLayer(undefined, rect);
+
+  const overlay = Skia.Paint();
+  overlay.setColor(Skia.Color(color));
+  canvas.drawRect(rect, overlay);
+
+  // Punch the overlay out where the mask is white
+  const cutPaint = Skia.Paint();
+  cutPaint.setBlendMode(BlendMode.DstOut);
+  cutPaint.setColorFilter(Skia.ColorFilter.MakeLumaColorFilter());
+  canvas.saveLayer(cutPaint, rect);
+  drawMask(canvas, rect, base, strokes, options);
+  canvas.restore();
+
+  canvas.restore();
+};
+
+/**
+ * Get the size of the mask saved for a layer image
+ * @param imageWidth - Layer image width
+ * @param imageHeight - Layer image height
+ * @returns Mask size with the image's aspect ratio
+ */
+export const getMaskSize = (imageWidth: number, imageHeight: number) => {
+  return fitWithinEdge(imageWidth, imageHeight, MAX_MASK_EDGE);
+};
+
+/**
+ * Turn a cut-out (e.g. background removal output) into a mask
+ * Opaque pixels become white, transparent pixels black.
+ * @param cutout - Image with transparency
+ * @param width - Mask width
+ * @param height - Mask height
+ * @returns Grayscale mask image
+ */
+export const alphaToMaskImage = (cutout: SkImage, width: number, height: number): SkImage => {
+  const surface = Skia.Surface.Make(width, height);
+  if (!surface) {
+    throw new Error(`Unable to allocate a ${width}x${height} drawing surface`);
+  }
+
+  const canvas = surface.getCanvas();
+  canvas.clear(Skia.Color('black'));
+
+  const paint = Skia.Paint();
+  paint.setColorFilter(Skia.ColorFilter.MakeMatrix(ALPHA_TO_GRAY_MATRIX));
+  canvas.drawImageRectOptions(
+    cutout,
+    Skia.XYWHRect(0, 0, cutout.width(), cutout.height()),
+    Skia.XYWHRect(0, 0, width, height),
+    FilterMode.Linear,
+    MipmapMode.None,
+    paint
+  );
+  surface.flush();
+
+  return surface.makeImageSnapshot().makeNonTextureImage();
+};
+
+/**
+ * Render a mask into a PNG file in the cache directory
+ * @param width - Mask width
+ * @param height - Mask height
+ * @param base - Starting mask (null for fully visible)
+ * @param strokes - Brush strokes, oldest first
+ * @param options - Feather and invert
+ * @returns file:// URI of the PNG
+ */
+export const renderMaskToFile = (
+  width: number,
+  height: number,
+  base: SkImage | null,
+  strokes: MaskStroke[],
+  options: MaskOptions
+): string => {
+  const surface = Skia.Surface.Make(width, height);
+  if (!surface) {
+    throw new Error(`Unable to allocate a ${width}x${height} drawing surface`);
+  }
+
+  drawMask(surface.getCanvas(), Skia.XYWHRect(0, 0, width, height), base, strokes, options);
+  surface.flush();
+
+  const encoded = surface.makeImageSnapshot().makeNonTextureImage().encodeToBytes(ImageFormat.PNG, 100);
+  if (!encoded || encoded.length === 0) {
+    throw new Error('Unable to encode the mask');
+  }
+
+  const file = new File(Paths.cache, `mask_${Date.now()}.png`);
+  file.write(encoded);
+  return file.uri;
+};
@@ -0,0 +1,236 @@
+// utils/objectSelection.ts
+
+/**
+ * Object Selection
+ * A selection of what object removal should remove, made of brush strokes,
+ * lassos, points and a box. Brush strokes and lassos are painted into a
+ * mask (white where to remove); points and the box are prompts the backend
+ * hands to SAM, positive points on the object and negative points on what
+ * should stay.
+ *
+ * Like layer masks (utils/layerMask), positions are stored in 0-1 image
+ * coordinates and brush sizes relative to the longest edge, so the preview
+ * and the mask sent at image resolution come out the same.
+ */
+
+import {
+  Skia,
+  SkCanvas,
+  SkRect,
+  ClipOp,
+  ImageFormat,
+  PaintStyle,
+  StrokeCap,
+  StrokeJoin,
+} from '@shopify/react-native-skia';
+import { File, Paths } from 'expo-file-system';
+import { ObjectSelectionPrompts } from '../services/apiTypes';
+
+export type SelectionTool = 'brush' | 'lasso' | 'points' | 'box';
+
+type SelectionPosition = { x: number; y: number };
+
+export type SelectionItem =
+  | { kind: 'brush'; size: number; points: SelectionPosition[] } // size: diameter per 1000 px of the longest edge
+  | { kind: 'lasso'; points: SelectionPosition[] }
+  | { kind: 'point'; x: number; y: number; positive: boolean }
+  | { kind: 'box'; x: number; y: number; width: number; height: number };
+
+const POSITIVE_COLOR = '#34C759';
+const NEGATIVE_COLOR = '#FF3B30';
+const POINT_RADIUS = 8; // Screen points
+
+const toCanvas = (rect: SkRect, point: SelectionPosition) => ({
+  x: rect.x + point.x * rect.width,
+  y: rect.y + point.y * rect.height,
+});
+
+// Paint brush strokes and lassos in one color
+const drawPaintedItems = (canvas: SkCanvas, rect: SkRect, items: SelectionItem[], color: string) => {
+  const unit = Math.max(rect.width, rect.height) / 1000;
+
+  items.forEach(item => {
+    if (item.kind === 'brush' && item.points.length > 0) {
+      const paint = Skia.Paint();
+      paint.setAntiAlias(true);
+      paint.setColor(Skia.Color(color));
+      paint.setStyle(PaintStyle.Stroke);
+      paint.setStrokeWidth(Math.max(1, item.size * unit));
+      paint.setStrokeCap(StrokeCap.Round);
+      paint.setStrokeJoin(StrokeJoin.Round);
+
+      const path = Skia.Path.Make();
+      item.points.forEach((point, index) => {
+        const { x, y } = toCanvas(rect, point);
+        if (index === 0) {
+          path.moveTo(x, y);
+          // A tap still leaves a round dot
+          path.lineTo(x + 0.01, y);
+        } else {
+          path.lineTo(x, y);
+        }
+      });
+      canvas.drawPath(path, paint);
+    } else if (item.kind === 'lasso' && item.points.length >= 3) {
+      const paint = Skia.Paint();
+      paint.setAntiAlias(true);
+      paint.setColor(Skia.Color(color));
+
+      const path = Skia.Path.Make();
+      item.points.forEach((point, index) => {
+        const { x, y } = toCanvas(rect, point);
+        if (index === 0) path.moveTo(x, y);
+        else path.lineTo(x, y);
+      });
+      path.close();
+      canvas.drawPath(path, paint);
+    }
+  });
+};
+
+/**
+ * Draw the selection preview over the image: a translucent color where the
+ * brush and lasso selected, the box outline and the points
+ * @param canvas - Skia canvas
+ * @param rect - Where the image is drawn
+ * @param items - Selection, oldest first
+ * @param color - Overlay color, e.g. '#FF3B30'
+ * @param opacity - Overlay opacity, 0-1
+ */
+export const drawSelectionOverlay = (
+  canvas: SkCanvas,
+  rect: SkRect,
+  items: SelectionItem[],
+  color: string,
+  opacity: number
+): void => {
+  canvas.save();
+  canvas.clipRect(rect, ClipOp.Intersect, true);
+
+  // Paint opaque into a translucent layer so overlapping strokes don't get darker
+  const layerPaint = Skia.Paint();
+  layerPaint.setAlphaf(opacity);
+  canvas.saveLayer(layerPaint, rect);
+  drawPaintedItems(canvas, rect, items, color);
+  canvas.restore();
+
+  items.forEach(item => {
+    if (item.kind === 'box') {
+      const box = Skia.XYWHRect(
+        rect.x + item.x * rect.width,
+        rect.y + item.y * rect.height,
+        item.width * rect.width,
+        item.height * rect.height
+      );
+      const fill = Skia.Paint();
+      fill.setColor(Skia.Color(color));
+      fill.setAlphaf(opacity / 2);
+      canvas.drawRect(box, fill);
+
+      const outline = Skia.Paint();
+      outline.setAntiAlias(true);
+      outline.setColor(Skia.Color('white'));
+      outline.setStyle(PaintStyle.Stroke);
+      outline.setStrokeWidth(2);
+      outline.setPathEffect(Skia.PathEffect.MakeDash([8, 6], 0));
+      canvas.drawRect(box, outline);
+    } else if (item.kind === 'point') {
+      const { x, y } = toCanvas(rect, item);
+      const fill = Skia.Paint();
+      fill.setAntiAlias(true);
+      fill.setColor(Skia.Color(item.positive ? POSITIVE_COLOR : NEGATIVE_COLOR));
+      canvas.drawCircle(x, y, POINT_RADIUS, fill);
+
+      const ring = Skia.Paint();
+      ring.setAntiAlias(true);
+      ring.setColor(Skia.Color('white'));
+      ring.setStyle(PaintStyle.Stroke);
+      ring.setStrokeWidth(2);
+      canvas.drawCircle(x, y, POINT_RADIUS, ring);
+    }
+  });
+
+  canvas.restore();
+};
+
+/**
+ * Check whether the brush or lasso selected anything
+ * @param items - Selection
+ * @returns true if there is a mask to send
+ */
+export const hasPaintedSelection = (items: SelectionItem[]): boolean => {
+  return items.some(item =>
+    (item.kind === 'brush' && item.points.length > 0) || (item.kind === 'lasso' && item.points.length >= 3)
+  );
+};
+
+/**
+ * Check whether a selection says what to remove. Negative points alone only
+ * say what to keep.
+ * @param items - Selection
+ * @returns true if the selection can be sent
+ */
+export const canRemoveSelection = (items: SelectionItem[]): boolean => {
+  return hasPaintedSelection(items) || items.some(item => item.kind === 'box' || (item.kind === 'point' && item.positive));
+};
+
+/**
+ * Get the SAM prompts of a selection in image pixels
+ * @param items - Selection
+ * @param imageWidth - Image width in pixels
+ * @param imageHeight - Image height in pixels
+ * @returns Points and the latest box
+ */
+export const getSelectionPrompts = (
+  items: SelectionItem[],
+  imageWidth: number,
+  imageHeight: number
+): ObjectSelectionPrompts => {
+  const points = items.flatMap(item =>
+    item.kind === 'point'
+      ? [{ x: Math.round(item.x * imageWidth), y: Math.round(item.y * imageHeight), positive: item.positive }]
+      : []
+  );
+
+  const box = [...items].reverse().find(item => item.kind === 'box');
+  return {
+    points,
+    box: box && box.kind === 'box'
+      ? {
+          x: Math.round(box.x * imageWidth),
+          y: Math.round(box.y * imageHeight),
+          width: Math.max(1, Math.round(box.width * imageWidth)),
+          height: Math.max(1, Math.round(box.height * imageHeight)),
+        }
+      : null,
+  };
+};
+
+/**
+ * Render the brush and lasso selection into a PNG file in the cache directory
+ * White marks what to remove, on black.
+ * @param width - Mask width
+ * @param height - Mask height
+ * @param items - Selection
+ * @returns file:// URI of the PNG
+ */
+export const renderSelectionMaskToFile = (width: number, height: number, items: SelectionItem[]): string => {
+  const surface = Skia.Surface.Make(width, height);
+  if (!surface) {
+    throw new Error(`Unable to allocate a ${width}x${height} drawing surface`);
+  }
+
+  const canvas = surface.getCanvas();
+  canvas.clear(Skia.Color('black'));
+  drawPaintedItems(canvas, Skia.XYWHRect(0, 0, width, height), items, 'white');
+  surface.flush();
+
+  const encoded = surface.makeImageSnapshot().makeNonTextureImage().encodeToBytes(ImageFormat.PNG, 100);
+  if (!encoded || encoded.length === 0) {
+    throw new Error('Unable to encode the selection');
+  }
+
+  const file = new File(Paths.cache, `selection_${Date.now()}.png`);
+  file.write(encoded);
+  return file.uri;
+};
@@ -0,0 +1,49 @@
+// utils/relight.ts
+
+/**
+ * Relight Presets
+ * Directional relight parameters (see RelightParams) for the lighting
+ * presets, and the ranges the backend accepts. The backend lights the image
+ * from the light position with a gradient tinted by the colour temperature;
+ * hardness makes the falloff and shadows sharper.
+ */
+
+import { RelightParams } from '../services/apiTypes';
+
+export type RelightPresetId = 'natural' | 'ambient' | 'studio' | 'moonlight';
+
+export const RELIGHT_PRESETS: Record<RelightPresetId, { label: string; params: RelightParams }> = {
+  // Warm sun from high up to one side
+  natural: { label: 'Natural Light', params: { x: 0.3, y: 0.15, temperature: 5500, intensity: 1, hardness: 0.6 } },
+  // Even, soft light from the middle
+  ambient: { label: 'Ambient Light', params: { x: 0.5, y: 0.5, temperature: 6500, intensity: 0.7, hardness: 0.1 } },
+  // Strong key light from the front left
+  studio: { label: 'Studio Light', params: { x: 0.2, y: 0.35, temperature: 5600, intensity: 1.4, hardness: 0.85 } },
+  // Dim, cool light from above
+  moonlight: { label: 'Moonlight', params: { x: 0.7, y: 0.1, temperature: 9000, intensity: 0.4, hardness: 0.4 } },
+};
+
+export const RELIGHT_LIMITS = {
+  temperature: { min: 2000, max: 10000, step: 100 },
+  intensity: { min: 0.1, max: 2, step: 0.05 },
+  hardness: { min: 0, max: 1, step: 0.05 },
+};
+
+/**
+ * Get the colour of light at a colour temperature, to show the light source
+ * Same approximation as the backend (Tanner Helland's).
+ * @param kelvin - Colour temperature
+ * @returns CSS rgb() colour
+ */
+export const getLightColor = (kelvin: number): string => {
+  const t = kelvin / 100;
+  const clamp = (value: number) => Math.round(Math.max(0, Math.min(255, value)));
+
+  const r = t <= 66 ? 255 : 329.698727446 * Math.pow(t - 60, -0.1332047592);
+  const g = t <= 66
+    ? 99.4708025861 * Math.log(t) - 161.1195681661
+    : 288.1221695283 * Math.pow(t - 60, -0.0755148492);
+  const b = t >= 66 ? 255 : t <= 19 ? 0 : 138.5177312231 * Math.log(t - 10) - 305.0447927307;
+
+  return `rgb(${clamp(r)}, ${clamp(g)}, ${clamp(b)})`;
+};
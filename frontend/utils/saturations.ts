@@ -1,5 +1,7 @@
 // utils/filters/saturation.ts
 
+import { ColorMatrix } from './colorMatrix';
+
 /**
  * Saturation Filter
  * Converts slider value (-50 to 50) to saturation factor (0 to 2)
@@ -81,4 +83,23 @@ export const calculateSaturationFactor = (value: number): number => {
   export const getSaturationCSSFilter = (value: number): string => {
     const factor = calculateSaturationFactor(value);
     return `saturate(${factor})`;
-  };
\ No newline at end of file
+  };
+
+  /**
+   * Get color matrix for saturation
+   * Interpolates between the luminosity grayscale and the original color
+   * @param value - Saturation value from -50 to 50
+   * @returns 4x5 color matrix
+   */
+  export const getSaturationColorMatrix = (value: number): ColorMatrix => {
+    const factor = calculateSaturationFactor(value);
+    const lr = 0.2126 * (1 - factor);
+    const lg = 0.7152 * (1 - factor);
+    const lb = 0.0722 * (1 - factor);
+    return [
+      lr + factor, lg, lb, 0, 0,
+      lr, lg + factor, lb, 0, 0,
+      lr, lg, lb + factor, 0, 0,
+      0, 0, 0, 1, 0,
+    ];
+  };
@@ -0,0 +1,65 @@
+// utils/shadows.ts
+
+import { ToneCurve, buildToneCurve, applyToneCurveInPlace } from './toneCurve';
+
+/**
+ * Shadows Filter
+ * Luminance-masked tone adjustment for the dark end of the image.
+ * The mask peaks at 1/3 luminance and fades to zero at pure black and
+ * pure white, so black point (Black Lift) and highlights are left alone.
+ * -50 = deepen shadows
+ * 0 = original
+ * 50 = open up shadows
+ */
+
+// Largest shift in 0-255 channel units at the peak of the mask
+const MAX_SHADOWS_SHIFT = 64;
+
+/**
+ * Calculate how strongly a luminance is affected by the shadows slider
+ * 27/4 * L * (1 - L)^2, which peaks at 1 when L = 1/3
+ * @param luminance - Luminance from 0 to 1
+ * @returns Mask weight from 0 to 1
+ */
+export const calculateShadowsWeight = (luminance: number): number => {
+  const l = Math.max(0, Math.min(1, luminance));
+  return 6.75 * l * (1 - l) * (1 - l);
+};
+
+/**
+ * Get the tone curve for shadows
+ * @param value - Shadows value from -50 to 50
+ * @returns Tone curve lookup table
+ */
+export const getShadowsToneCurve = (value: number): ToneCurve => {
+  const amount = (Math.max(-50, Math.min(50, value)) / 50) * MAX_SHADOWS_SHIFT;
+  return buildToneCurve(luminance => amount * calculateShadowsWeight(luminance));
+};
+
+/**
+ * Apply shadows adjustment to RGBA pixel data
+ * @param data - Uint8ClampedArray of RGBA pixel data
+ * @param value - Shadows value from -50 to 50
+ * @returns Modified pixel data
+ */
+export const applyShadows = (
+  data: Uint8ClampedArray,
+  value: number
+): Uint8ClampedArray => {
+  const result = new Uint8ClampedArray(data);
+  applyShadowsInPlace(result, value);
+  return result;
+};
+
+/**
+ * Apply shadows in-place (mutates original data)
+ * @param data - Uint8ClampedArray of RGBA pixel data
+ * @param value - Shadows value from -50 to 50
+ */
+export const applyShadowsInPlace = (
+  data: Uint8ClampedArray,
+  value: number
+): void => {
+  if (value === 0) return;
+  applyToneCurveInPlace(data, getShadowsToneCurve(value));
+};
@@ -0,0 +1,78 @@
+// utils/temperature.ts
+
+import { ColorMatrix } from './colorMatrix';
+
+/**
+ * Temperature (White Balance) Filter
+ * Converts slider value (-50 to 50) to per-channel gains
+ * -50 = cool (blue boosted, red reduced)
+ * 0 = original
+ * 50 = warm (red boosted, blue reduced)
+ */
+
+/**
+ * Calculate red/green/blue gains from slider value
+ * @param value - Slider value from -50 to 50
+ * @returns Channel gains, each around 1
+ */
+export const calculateTemperatureGains = (
+  value: number
+): { red: number; green: number; blue: number } => {
+  const t = Math.max(-50, Math.min(50, value)) / 50; // -1 to 1
+  return {
+    red: 1 + 0.2 * t,
+    green: 1 + 0.04 * t,
+    blue: 1 - 0.2 * t,
+  };
+};
+
+/**
+ * Apply temperature adjustment to RGBA pixel data
+ * @param data - Uint8ClampedArray of RGBA pixel data
+ * @param value - Temperature value from -50 to 50
+ * @returns Modified pixel data
+ */
+export const applyTemperature = (
+  data: Uint8ClampedArray,
+  value: number
+): Uint8ClampedArray => {
+  const result = new Uint8ClampedArray(data);
+  applyTemperatureInPlace(result, value);
+  return result;
+};
+
+/**
+ * Apply temperature in-place (mutates original data)
+ * @param data - Uint8ClampedArray of RGBA pixel data
+ * @param value - Temperature value from -50 to 50
+ */
+export const applyTemperatureInPlace = (
+  data: Uint8ClampedArray,
+  value: number
+): void => {
+  if (value === 0) return;
+
+  const { red, green, blue } = calculateTemperatureGains(value);
+
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = Math.min(255, Math.max(0, data[i] * red));
+    data[i + 1] = Math.min(255, Math.max(0, data[i + 1] * green));
+    data[i + 2] = Math.min(255, Math.max(0, data[i + 2] * blue));
+    // Alpha unchanged
+  }
+};
+
+/**
+ * Get color matrix for temperature
+ * @param value - Temperature value from -50 to 50
+ * @returns 4x5 color matrix (per-channel gains)
+ */
+export const getTemperatureColorMatrix = (value: number): ColorMatrix => {
+  const { red, green, blue } = calculateTemperatureGains(value);
+  return [
+    red, 0, 0, 0, 0,
+    0, green, 0, 0, 0,
+    0, 0, blue, 0, 0,
+    0, 0, 0, 1, 0,
+  ];
+};
@@ -0,0 +1,161 @@
+// utils/textLayers.ts
+
+/**
+ * Text Layers
+ * Lays out the text of a text layer with Skia's paragraph API using the
+ * bundled fonts, so the flowspace canvas and the export (both through
+ * utils/compositor) draw text identically. Text is drawn as vector shapes
+ * at canvas resolution, then positioned and transformed like image layers.
+ */
+
+import { Image } from 'react-native';
+import {
+  Skia,
+  SkCanvas,
+  SkPaint,
+  SkParagraph,
+  SkTypefaceFontProvider,
+  PaintStyle,
+  StrokeJoin,
+  TextAlign as SkTextAlign,
+} from '@shopify/react-native-skia';
+import { LayerText, TextAlign } from '../services/apiTypes';
+
+// Fonts offered for text layers (same families as app/_layout.tsx)
+export const TEXT_FONTS: { family: string; label: string; source: number }[] = [
+  { family: 'grift', label: 'Grift', source: require('../assets/fonts/grift.otf') },
+  { family: 'geistmono', label: 'Geist Mono', source: require('../assets/fonts/geistmono.ttf') },
+  { family: 'DelaGothicOne', label: 'Dela Gothic', source: require('../assets/fonts/DelaGothicOne-Regular.ttf') },
+];
+
+export const defaultLayerText: LayerText = {
+  content: 'Your text',
+  fontFamily: 'grift',
+  fontSize: 96,
+  color: '#000000',
+  align: 'center',
+  lineHeight: 1.2,
+  letterSpacing: 0,
+  stroke: { color: '#FFFFFF', width: 0 },
+  shadow: { color: 'rgba(0, 0, 0, 0.5)', blur: 0, offsetX: 0, offsetY: 0 },
+};
+
+const SKIA_TEXT_ALIGN: Record<TextAlign, SkTextAlign> = {
+  left: SkTextAlign.Left,
+  center: SkTextAlign.Center,
+  right: SkTextAlign.Right,
+};
+
+let fontsPromise: Promise<SkTypefaceFontProvider> | null = null;
+
+/**
+ * Load the text layer fonts into a Skia font provider
+ * Loaded once and shared by the canvas and exports.
+ * @returns Font provider with every TEXT_FONTS family registered
+ */
+export const loadTextFonts = (): Promise<SkTypefaceFontProvider> => {
+  if (!fontsPromise) {
+    fontsPromise = Promise.all(
+      TEXT_FONTS.map(async font => {
+        const data = await Skia.Data.fromURI(Image.resolveAssetSource(font.source).uri);
+        const typeface = Skia.Typeface.MakeFreeTypeFaceFromData(data);
+        if (!typeface) {
+          throw new Error(`Unable to load font ${font.label}`);
+        }
+        return { family: font.family, typeface };
+      })
+    )
+      .then(typefaces => {
+        const provider = Skia.TypefaceFontProvider.Make();
+        typefaces.forEach(({ family, typeface }) => provider.registerFont(typeface, family));
+        return provider;
+      })
+      .catch(error => {
+        // Allow another attempt later
+        fontsPromise = null;
+        throw error;
+      });
+  }
+
+  return fontsPromise;
+};
+
+export interface TextLayout {
+  width: number;
+  height: number;
+  paragraphs: SkParagraph[]; // Drawn in order: stroke (if any), then fill
+}
+
+const hasShadow = (text: LayerText) =>
+  text.shadow.blur > 0 || text.shadow.offsetX !== 0 || text.shadow.offsetY !== 0;
+
+/**
+ * Lay out the text of a text layer
+ * The box is as wide as the longest line, so alignment applies between lines.
+ * @param text - Text and styling
+ * @param fonts - Font provider from loadTextFonts
+ * @returns Size of the text box and the paragraphs to draw
+ */
+export const layoutText = (text: LayerText, fonts: SkTypefaceFontProvider): TextLayout => {
+  const textStyle = {
+    fontFamilies: [text.fontFamily],
+    fontSize: text.fontSize,
+    heightMultiplier: text.lineHeight,
+    letterSpacing: text.letterSpacing,
+  };
+
+  const build = (foreground: SkPaint, withShadow: boolean) => {
+    const builder = Skia.ParagraphBuilder.Make({ textAlign: SKIA_TEXT_ALIGN[text.align] }, fonts);
+    builder.pushStyle(
+      {
+        ...textStyle,
+        shadows: withShadow
+          ? [{
+              color: Skia.Color(text.shadow.color),
+              offset: { x: text.shadow.offsetX, y: text.shadow.offsetY },
+              blurRadius: text.shadow.blur,
+            }]
+          : [],
+      },
+      foreground
+    );
+    builder.addText(text.content);
+    builder.pop();
+    return builder.build();
+  };
+
+  const fill = Skia.Paint();
+  fill.setAntiAlias(true);
+  fill.setColor(Skia.Color(text.color));
+
+  const paragraphs: SkParagraph[] = [];
+  if (text.stroke.width > 0) {
+    const stroke = Skia.Paint();
+    stroke.setAntiAlias(true);
+    stroke.setColor(Skia.Color(text.stroke.color));
+    stroke.setStyle(PaintStyle.Stroke);
+    // Centered on the outline, so double it to get the visible width
+    stroke.setStrokeWidth(text.stroke.width * 2);
+    stroke.setStrokeJoin(StrokeJoin.Round);
+    paragraphs.push(build(stroke, hasShadow(text)));
+    paragraphs.push(build(fill, false));
+  } else {
+    paragraphs.push(build(fill, hasShadow(text)));
+  }
+
+  // Measure unconstrained, then lay out again at the longest line's width
+  paragraphs[0].layout(1e6);
+  const width = Math.max(1, Math.ceil(paragraphs[0].getMaxIntrinsicWidth()));
+  paragraphs.forEach(paragraph => paragraph.layout(width));
+
+  return { width, height: Math.max(1, Math.ceil(paragraphs[0].getHeight())), paragraphs };
+};
+
+/**
+ * Draw laid out text centered on the origin
+ * @param canvas - Skia canvas (already moved to the layer's center)
+ * @param layout - Result of layoutText
+ */
+export const drawTextLayout = (canvas: SkCanvas, layout: TextLayout): void => {
+  layout.paragraphs.forEach(paragraph => paragraph.paint(canvas, -layout.width / 2, -layout.height / 2));
+};
@@ -0,0 +1,43 @@
+// utils/tint.ts
+
+import { ColorMatrix } from './colorMatrix';
+
+/**
+ * Tint Filter
+ * Shifts white balance along the green/magenta axis, complementing
+ * temperature (blue/yellow)
+ * -100 = green
+ * 0 = original
+ * 100 = magenta
+ */
+
+/**
+ * Calculate red/green/blue gains from slider value
+ * @param value - Slider value from -100 to 100
+ * @returns Channel gains, each around 1
+ */
+export const calculateTintGains = (
+  value: number
+): { red: number; green: number; blue: number } => {
+  const t = Math.max(-100, Math.min(100, value)) / 100; // -1 to 1
+  return {
+    red: 1 + 0.1 * t,
+    green: 1 - 0.2 * t,
+    blue: 1 + 0.1 * t,
+  };
+};
+
+/**
+ * Get color matrix for tint
+ * @param value - Tint value from -100 to 100
+ * @returns 4x5 color matrix (per-channel gains)
+ */
+export const getTintColorMatrix = (value: number): ColorMatrix => {
+  const { red, green, blue } = calculateTintGains(value);
+  return [
+    red, 0, 0, 0, 0,
+    0, green, 0, 0, 0,
+    0, 0, blue, 0, 0,
+    0, 0, 0, 1, 0,
+  ];
+};
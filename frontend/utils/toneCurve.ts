@@ -0,0 +1,75 @@
+// utils/toneCurve.ts
+
+/**
+ * Tone Curve
+ * A 256 entry lookup table indexed by pixel luminance (0-255). Each entry is
+ * the shift (in 0-255 channel units) added to R, G and B, so tonal
+ * adjustments only touch the luminance range they are masked to and keep
+ * the pixel's hue.
+ */
+export type ToneCurve = Float32Array;
+
+/**
+ * Calculate luminance (Rec. 709) of an RGB triplet
+ * @returns Luminance from 0 to 255
+ */
+export const calculateLuminance = (r: number, g: number, b: number): number => {
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+/**
+ * Build a tone curve from a luminance-to-shift function
+ * @param shiftAt - Returns the shift for a luminance from 0 to 1
+ * @returns Tone curve lookup table
+ */
+export const buildToneCurve = (shiftAt: (luminance: number) => number): ToneCurve => {
+  const curve = new Float32Array(256);
+  for (let i = 0; i < 256; i++) {
+    curve[i] = shiftAt(i / 255);
+  }
+  return curve;
+};
+
+/**
+ * Add several tone curves together
+ * @param curves - Tone curves to combine
+ * @returns Combined tone curve
+ */
+export const combineToneCurves = (curves: ToneCurve[]): ToneCurve => {
+  const combined = new Float32Array(256);
+  for (const curve of curves) {
+    for (let i = 0; i < 256; i++) {
+      combined[i] += curve[i];
+    }
+  }
+  return combined;
+};
+
+/**
+ * Check whether a tone curve changes anything
+ * @param curve - Tone curve
+ * @returns true if every shift is zero
+ */
+export const isFlatToneCurve = (curve: ToneCurve): boolean => {
+  return curve.every(shift => Math.abs(shift) < 1e-3);
+};
+
+/**
+ * Apply a tone curve in-place (mutates original data)
+ * @param data - Uint8ClampedArray of RGBA pixel data
+ * @param curve - Tone curve
+ */
+export const applyToneCurveInPlace = (
+  data: Uint8ClampedArray,
+  curve: ToneCurve
+): void => {
+  if (isFlatToneCurve(curve)) return;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const shift = curve[Math.round(calculateLuminance(data[i], data[i + 1], data[i + 2]))];
+    data[i] += shift;
+    data[i + 1] += shift;
+    data[i + 2] += shift;
+    // Alpha unchanged
+  }
+};
@@ -0,0 +1,169 @@
+// utils/viewportZoom.ts
+
+/**
+ * Viewport Zoom
+ * Math for the zoomable image viewport. The content is laid out at fit size
+ * (the image centered like resizeMode="contain"), then moved by x/y and
+ * scaled by `scale` around the viewport center, so scale 1 is the fitted
+ * image. Zoom percentages are image pixels per device pixel: 100% shows
+ * every image pixel on one screen pixel.
+ */
+
+import { GestureResponderEvent } from 'react-native';
+
+export interface ViewportTransform {
+  scale: number; // 1 = fitted
+  x: number; // Points, applied before scaling
+  y: number;
+}
+
+export interface ViewportSize {
+  width: number;
+  height: number;
+}
+
+export interface ViewportPoint {
+  x: number;
+  y: number;
+}
+
+export const MAX_ZOOM_PERCENT = 800;
+
+export const FIT_TRANSFORM: ViewportTransform = { scale: 1, x: 0, y: 0 };
+
+/**
+ * Get the size of the fitted image inside the viewport
+ * @param imageWidth - Image width in pixels
+ * @param imageHeight - Image height in pixels
+ * @param viewport - Viewport size
+ * @returns Fitted width and height in points
+ */
+export const getFittedSize = (imageWidth: number, imageHeight: number, viewport: ViewportSize): ViewportSize => {
+  const fit = Math.min(viewport.width / imageWidth, viewport.height / imageHeight);
+  return { width: imageWidth * fit, height: imageHeight * fit };
+};
+
+/**
+ * Convert between viewport scale and zoom percentage
+ * @param imageWidth - Image width in pixels
+ * @param fittedWidth - Fitted image width in points
+ * @param pixelRatio - Device pixels per point
+ * @returns Scale at 100%
+ */
+export const getActualSizeScale = (imageWidth: number, fittedWidth: number, pixelRatio: number): number => {
+  if (fittedWidth <= 0) return 1;
+  return imageWidth / (fittedWidth * pixelRatio);
+};
+
+/**
+ * Keep a transform within its zoom range and the zoomed image over the viewport
+ * An image smaller than the viewport on one axis stays centered on it.
+ * @param transform - Wanted transform
+ * @param fitted - Fitted image size
+ * @param viewport - Viewport size
+ * @param maxScale - Largest scale allowed
+ * @returns Clamped transform
+ */
+export const clampViewportTransform = (
+  transform: ViewportTransform,
+  fitted: ViewportSize,
+  viewport: ViewportSize,
+  maxScale: number
+): ViewportTransform => {
+  const scale = Math.max(1, Math.min(maxScale, transform.scale));
+  const maxX = Math.max(0, (fitted.width * scale - viewport.width) / 2);
+  const maxY = Math.max(0, (fitted.height * scale - viewport.height) / 2);
+  return {
+    scale,
+    x: Math.max(-maxX, Math.min(maxX, transform.x)),
+    y: Math.max(-maxY, Math.min(maxY, transform.y)),
+  };
+};
+
+/**
+ * Map a point on the viewport to the content as laid out at fit size
+ * @param point - Point on the viewport
+ * @param transform - Current transform
+ * @param viewport - Viewport size
+ * @returns Point in content coordinates
+ */
+export const viewportToContent = (
+  point: ViewportPoint,
+  transform: ViewportTransform,
+  viewport: ViewportSize
+): ViewportPoint => {
+  const cx = viewport.width / 2;
+  const cy = viewport.height / 2;
+  return {
+    x: cx + (point.x - cx - transform.x) / transform.scale,
+    y: cy + (point.y - cy - transform.y) / transform.scale,
+  };
+};
+
+/**
+ * Zoom to a scale while keeping one content point under a viewport point
+ * @param contentPoint - Content point to hold in place
+ * @param viewportPoint - Where it should stay on the viewport
+ * @param scale - New scale
+ * @param viewport - Viewport size
+ * @returns Transform (not clamped)
+ */
+export const zoomAroundPoint = (
+  contentPoint: ViewportPoint,
+  viewportPoint: ViewportPoint,
+  scale: number,
+  viewport: ViewportSize
+): ViewportTransform => {
+  const cx = viewport.width / 2;
+  const cy = viewport.height / 2;
+  return {
+    scale,
+    x: viewportPoint.x - cx - scale * (contentPoint.x - cx),
+    y: viewportPoint.y - cy - scale * (contentPoint.y - cy),
+  };
+};
+
+/**
+ * Get the part of the image visible in the viewport, for the minimap
+ * @param transform - Current transform
+ * @param fitted - Fitted image size
+ * @param viewport - Viewport size
+ * @returns Visible rect in 0-1 image coordinates
+ */
+export const getVisibleImageRect = (
+  transform: ViewportTransform,
+  fitted: ViewportSize,
+  viewport: ViewportSize
+): { x: number; y: number; width: number; height: number } => {
+  const left = (viewport.width - fitted.width) / 2;
+  const top = (viewport.height - fitted.height) / 2;
+  const topLeft = viewportToContent({ x: 0, y: 0 }, transform, viewport);
+  const bottomRight = viewportToContent({ x: viewport.width, y: viewport.height }, transform, viewport);
+  const clamp = (value: number) => Math.max(0, Math.min(1, value));
+
+  const x1 = clamp((topLeft.x - left) / fitted.width);
+  const y1 = clamp((topLeft.y - top) / fitted.height);
+  const x2 = clamp((bottomRight.x - left) / fitted.width);
+  const y2 = clamp((bottomRight.y - top) / fitted.height);
+  return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+};
+
+/**
+ * Get the distance between the first two fingers of a touch
+ * @param event - Touch event with at least two touches
+ * @returns Distance in points
+ */
+export const getTouchDistance = (event: GestureResponderEvent): number => {
+  const [a, b] = event.nativeEvent.touches;
+  return Math.hypot(a.pageX - b.pageX, a.pageY - b.pageY);
+};
+
+/**
+ * Get the point between the first two fingers of a touch
+ * @param event - Touch event with at least two touches
+ * @returns Midpoint in the touched view's coordinates
+ */
+export const getTouchCenter = (event: GestureResponderEvent): ViewportPoint => {
+  const [a, b] = event.nativeEvent.touches;
+  return { x: (a.locationX + b.locationX) / 2, y: (a.locationY + b.locationY) / 2 };
+};